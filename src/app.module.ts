@@ -6,6 +6,7 @@
 import { Module, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { ScheduleModule } from '@nestjs/schedule';
+import { EventEmitterModule } from '@nestjs/event-emitter';
 
 // Configuration
 import configuration from './config/configuration';
@@ -13,6 +14,7 @@ import configuration from './config/configuration';
 // Presentation Layer Modules
 import { AssistantModule } from './modules/assistant/assistant.module';
 import { CalendarModule } from './modules/calendar/calendar.module';
+import { MeetingModule } from './modules/meeting/meeting.module';
 import { EmailModule } from './modules/email/email.module';
 import { TaskModule } from './modules/task/task.module';
 import { AutomationModule } from './modules/automation/automation.module';
@@ -38,9 +40,13 @@ import { DynamicConfigurationManager } from './common/configuration/dynamic-conf
     // Scheduling for Proactive Automation
     ScheduleModule.forRoot(),
 
+    // Domain Event Bus
+    EventEmitterModule.forRoot({ wildcard: true }),
+
     // Business Domain Modules
     AssistantModule,
     CalendarModule,
+    MeetingModule,
     EmailModule,
     TaskModule,
     AutomationModule,
@@ -8,6 +8,7 @@ import { CommandHandler } from '../../common/command.interface';
 import { Result, success, failure } from '../../common/result';
 import { CreateTaskCommand } from './create-task.command';
 import { TaskResponseDto } from '../../dtos/task.dto';
+import { toTaskResponseDto } from '../../dtos/task-response.mapper';
 import { Task } from '../../../domain/entities/task.entity';
 import type { TaskRepository } from '../../../domain/repositories/task.repository';
 // Value objects are created internally by Task.create
@@ -20,6 +21,11 @@ export class CreateTaskHandler
     @Inject('TaskRepository') private readonly taskRepository: TaskRepository,
   ) {}
 
+  // The same handler working on other tasks, e.g. copies for a trial run
+  withRepository(taskRepository: TaskRepository): CreateTaskHandler {
+    return new CreateTaskHandler(taskRepository);
+  }
+
   async handle(
     command: CreateTaskCommand,
   ): Promise<Result<TaskResponseDto, string>> {
@@ -39,6 +45,27 @@ export class CreateTaskHandler
         return failure('Due date must be in the future');
       }
 
+      if (data.recurrenceRule && !dueDate) {
+        return failure('Recurring tasks must have a due date');
+      }
+
+      if (data.parentId) {
+        const parent = await this.taskRepository.findById(data.parentId);
+        if (!parent) {
+          return failure('Parent task not found');
+        }
+        if (parent.isCompleted) {
+          return failure('Cannot add subtasks to a completed task');
+        }
+      }
+
+      // A new task has no dependents yet, so its dependencies cannot form a cycle
+      for (const dependencyId of data.dependencies || []) {
+        if (!(await this.taskRepository.findById(dependencyId))) {
+          return failure(`Dependency task not found: ${dependencyId}`);
+        }
+      }
+
       // Create task entity
       const task = Task.create({
         title: data.title.trim(),
@@ -49,13 +76,15 @@ export class CreateTaskHandler
         tags: data.tags || [],
         estimatedDuration: data.estimatedDuration,
         dependencies: data.dependencies || [],
+        recurrenceRule: data.recurrenceRule,
+        parentId: data.parentId,
       });
 
       // Save to repository
       await this.taskRepository.save(task);
 
       // Convert to DTO
-      const responseDto = this.mapToResponseDto(task);
+      const responseDto = toTaskResponseDto(task);
 
       return success(responseDto);
     } catch (error) {
@@ -65,26 +94,4 @@ export class CreateTaskHandler
       return failure('Failed to create task');
     }
   }
-
-  private mapToResponseDto(task: Task): TaskResponseDto {
-    const taskJson = task.toJSON();
-
-    return {
-      id: taskJson.id,
-      title: taskJson.title,
-      description: taskJson.description,
-      status: taskJson.status,
-      priority: taskJson.priority,
-      assignee: taskJson.assignee,
-      dueDate: taskJson.dueDate,
-      tags: taskJson.tags,
-      estimatedDuration: taskJson.estimatedDuration,
-      dependencies: taskJson.dependencies,
-      completedAt: taskJson.completedAt,
-      isOverdue: taskJson.isOverdue,
-      urgencyScore: taskJson.urgencyScore,
-      createdAt: taskJson.createdAt,
-      updatedAt: taskJson.updatedAt,
-    };
-  }
 }
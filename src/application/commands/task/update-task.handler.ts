@@ -8,7 +8,12 @@ import { CommandHandler } from '../../common/command.interface';
 import { Result, success, failure } from '../../common/result';
 import { UpdateTaskCommand } from './update-task.command';
 import { TaskResponseDto } from '../../dtos/task.dto';
+import { toTaskResponseDto } from '../../dtos/task-response.mapper';
 import type { TaskRepository } from '../../../domain/repositories/task.repository';
+import type { TaskBoardRepository } from '../../../domain/repositories/task-board.repository';
+import { Task } from '../../../domain/entities/task.entity';
+import { DEFAULT_BOARD_ID } from '../../../domain/entities/task-board.entity';
+import { TaskDependencyGraphService } from '../../../domain/services/task-dependency-graph.service';
 import {
   Priority,
   TaskStatus,
@@ -21,8 +26,20 @@ export class UpdateTaskHandler
 {
   constructor(
     @Inject('TaskRepository') private readonly taskRepository: TaskRepository,
+    private readonly dependencyGraphService: TaskDependencyGraphService,
+    @Inject('TaskBoardRepository')
+    private readonly boardRepository: TaskBoardRepository,
   ) {}
 
+  // The same handler working on other tasks, e.g. copies for a trial run
+  withRepository(taskRepository: TaskRepository): UpdateTaskHandler {
+    return new UpdateTaskHandler(
+      taskRepository,
+      this.dependencyGraphService,
+      this.boardRepository,
+    );
+  }
+
   async handle(
     command: UpdateTaskCommand,
   ): Promise<Result<TaskResponseDto, string>> {
@@ -54,6 +71,18 @@ export class UpdateTaskHandler
 
       if (data.status !== undefined) {
         const status = new TaskStatus(data.status);
+        if (status.isCompleted && !task.isCompleted) {
+          const subtasks = await this.taskRepository.findByParentId(task.id);
+          if (subtasks.some((subtask) => subtask.status.isActive)) {
+            return failure('Cannot complete a task while it has open subtasks');
+          }
+        }
+        if (!status.equals(task.status)) {
+          const error = await this.checkWipLimit(status);
+          if (error) {
+            return failure(error);
+          }
+        }
         task.changeStatus(status);
       }
 
@@ -93,22 +122,43 @@ export class UpdateTaskHandler
       }
 
       if (data.dependencies !== undefined) {
+        const dependencyIds = data.dependencies
+          .map((depId) => depId.trim())
+          .filter((depId) => depId);
+        const error = await this.validateDependencies(task.id, dependencyIds);
+        if (error) {
+          return failure(error);
+        }
+
         // Remove all existing dependencies and add new ones
         const currentDependencies = [...task.dependencies];
         currentDependencies.forEach((depId) => task.removeDependency(depId));
 
-        data.dependencies.forEach((depId) => {
-          if (depId.trim()) {
-            task.addDependency(depId.trim());
+        dependencyIds.forEach((depId) => task.addDependency(depId));
+      }
+
+      if (data.parentId !== undefined) {
+        if (data.parentId) {
+          const error = await this.validateParent(task.id, data.parentId);
+          if (error) {
+            return failure(error);
           }
-        });
+        }
+        task.setParent(data.parentId || undefined);
+      }
+
+      if (data.recurrenceRule !== undefined) {
+        if (data.recurrenceRule && !task.dueDate) {
+          return failure('Recurring tasks must have a due date');
+        }
+        task.setRecurrence(data.recurrenceRule || undefined);
       }
 
       // Save updated task
       await this.taskRepository.save(task);
 
       // Convert to DTO
-      const responseDto = this.mapToResponseDto(task);
+      const responseDto = toTaskResponseDto(task);
 
       return success(responseDto);
     } catch (error) {
@@ -122,25 +172,77 @@ export class UpdateTaskHandler
     }
   }
 
-  private mapToResponseDto(task: any): TaskResponseDto {
-    const taskJson = task.toJSON();
-
-    return {
-      id: taskJson.id,
-      title: taskJson.title,
-      description: taskJson.description,
-      status: taskJson.status,
-      priority: taskJson.priority,
-      assignee: taskJson.assignee,
-      dueDate: taskJson.dueDate,
-      tags: taskJson.tags,
-      estimatedDuration: taskJson.estimatedDuration,
-      dependencies: taskJson.dependencies,
-      completedAt: taskJson.completedAt,
-      isOverdue: taskJson.isOverdue,
-      urgencyScore: taskJson.urgencyScore,
-      createdAt: taskJson.createdAt,
-      updatedAt: taskJson.updatedAt,
-    };
+  /**
+   * Every status change counts against the WIP limit of the board column
+   * it enters, not only moves on the board. A limit that only warns lets
+   * the change through.
+   */
+  private async checkWipLimit(status: TaskStatus): Promise<string | undefined> {
+    const board = await this.boardRepository.findById(DEFAULT_BOARD_ID);
+    if (!board?.wipLimitFor(status.value)) {
+      return undefined;
+    }
+
+    const count = (await this.taskRepository.findByStatus(status)).length + 1;
+    const check = board.checkWipLimit(status.value, count);
+    return check?.rejected ? check.message : undefined;
+  }
+
+  /**
+   * Walks up from the new parent so a task can never end up below one of
+   * its own subtasks.
+   */
+  private async validateParent(
+    taskId: string,
+    parentId: string,
+  ): Promise<string | undefined> {
+    const parent = await this.taskRepository.findById(parentId);
+    if (!parent) {
+      return 'Parent task not found';
+    }
+
+    if (parent.isCompleted) {
+      return 'Cannot add subtasks to a completed task';
+    }
+
+    const visited = new Set<string>();
+    let ancestor: Task | null = parent;
+    while (ancestor && !visited.has(ancestor.id)) {
+      if (ancestor.id === taskId) {
+        return 'Task cannot be moved below its own subtask';
+      }
+      visited.add(ancestor.id);
+      ancestor = ancestor.parentId
+        ? await this.taskRepository.findById(ancestor.parentId)
+        : null;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Dependencies must point at existing tasks and must not lead back to the
+   * task itself, otherwise neither task could ever be started.
+   */
+  private async validateDependencies(
+    taskId: string,
+    dependencyIds: string[],
+  ): Promise<string | undefined> {
+    for (const dependencyId of dependencyIds) {
+      if (!(await this.taskRepository.findById(dependencyId))) {
+        return `Dependency task not found: ${dependencyId}`;
+      }
+    }
+
+    const cycle = this.dependencyGraphService.findCycle(
+      await this.taskRepository.findAll(),
+      taskId,
+      dependencyIds,
+    );
+    if (cycle) {
+      return `Dependency cycle detected: ${cycle.join(' -> ')}`;
+    }
+
+    return undefined;
   }
 }
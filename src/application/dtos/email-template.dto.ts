@@ -0,0 +1,77 @@
+/**
+ * Email Template DTOs - Application Layer
+ * Data Transfer Objects for email template operations
+ */
+
+export class TemplateVariableDto {
+  name: string;
+  type: 'string' | 'number' | 'boolean' | 'date' | 'array' | 'object';
+  required?: boolean;
+  description?: string;
+}
+
+export class EmailTemplateVersionDto {
+  subject: string;
+  html?: string;
+  text?: string;
+  variables?: TemplateVariableDto[];
+  notes?: string;
+}
+
+export class CreateEmailTemplateDto extends EmailTemplateVersionDto {
+  name: string;
+  description?: string;
+  isPartial?: boolean;
+}
+
+export class PreviewEmailTemplateDto {
+  variables?: Record<string, any>;
+  version?: number;
+}
+
+export class EmailTemplateVersionResponseDto {
+  version: number;
+  subject: string;
+  html: string;
+  text: string;
+  variables: Array<{
+    name: string;
+    type: 'string' | 'number' | 'boolean' | 'date' | 'array' | 'object';
+    required: boolean;
+    description?: string;
+  }>;
+  notes?: string;
+  createdAt: string;
+}
+
+export class EmailTemplateResponseDto {
+  id: string;
+  name: string;
+  description?: string;
+  isPartial: boolean;
+  activeVersion: number;
+  latestVersion: number;
+  versions: EmailTemplateVersionResponseDto[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class RenderedEmailTemplateDto {
+  templateId: string;
+  name: string;
+  version: number;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export class ComposedEmailDto {
+  subject: string;
+  html?: string; // left out by plain-text fallbacks
+  text: string;
+}
+
+export class EmailTemplatePreviewResponseDto extends RenderedEmailTemplateDto {
+  valid: boolean;
+  errors: string[];
+}
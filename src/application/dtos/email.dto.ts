@@ -0,0 +1,140 @@
+/**
+ * Email DTOs - Application Layer
+ * Data Transfer Objects for email operations
+ */
+
+export class EmailAttachmentDto {
+  filename: string;
+  content: string; // base64 encoded
+  contentType?: string;
+}
+
+export class SendEmailDto {
+  to: string | string[];
+  cc?: string | string[];
+  bcc?: string | string[];
+  from?: string;
+  replyTo?: string;
+  subject: string;
+  text?: string;
+  html?: string;
+  attachments?: EmailAttachmentDto[];
+  priority?: 'low' | 'normal' | 'high';
+  tags?: string[];
+  scheduledAt?: string; // ISO string
+  templateId?: string;
+  templateVariables?: Record<string, any>;
+}
+
+export class EmailQueryDto {
+  limit?: number;
+  offset?: number;
+  sortBy?: 'createdAt' | 'updatedAt' | 'scheduledAt' | 'sentAt' | 'subject';
+  sortOrder?: 'asc' | 'desc';
+  status?: 'draft' | 'scheduled' | 'sending' | 'sent' | 'failed' | 'cancelled';
+  sender?: string;
+  recipient?: string;
+  priority?: 'low' | 'normal' | 'high';
+  deliveryStatus?: 'delivered' | 'bounced' | 'spam' | 'unknown';
+}
+
+export class EmailResponseDto {
+  id: string;
+  subject: string;
+  body: string;
+  sender: {
+    email: string;
+  };
+  recipients: Array<{
+    email: {
+      email: string;
+    };
+    name?: string;
+    type: 'to' | 'cc' | 'bcc';
+  }>;
+  attachments: Array<{
+    filename: string;
+    contentType: string;
+    size: number;
+  }>;
+  isHtml: boolean;
+  textBody?: string; // plain-text part of an HTML email
+  priority: 'low' | 'normal' | 'high';
+  templateId?: string;
+  scheduledAt?: string;
+  replyTo?: {
+    email: string;
+  };
+  tags: string[];
+  status: 'draft' | 'scheduled' | 'sending' | 'sent' | 'failed' | 'cancelled';
+  sentAt?: string;
+  failureReason?: string;
+  externalId?: string;
+  deliveryStatus?: 'delivered' | 'bounced' | 'spam' | 'unknown';
+  openedAt?: string;
+  clickedAt?: string;
+  attempts: Array<{
+    attemptedAt: string;
+    outcome: 'sent' | 'failed';
+    error?: string;
+    statusCode?: number;
+  }>;
+  attemptCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class EmailListResponseDto {
+  items: EmailResponseDto[];
+  total: number;
+  hasMore: boolean;
+  pagination: {
+    limit: number;
+    offset: number;
+    totalPages: number;
+    currentPage: number;
+  };
+}
+
+export class EmailAnalyticsResponseDto {
+  total: number;
+  sent: number;
+  failed: number;
+  scheduled: number;
+  deliveryRate: number;
+  bounceRate: number;
+  spamRate: number;
+  openRate: number;
+  clickRate: number;
+  byStatus: Record<string, number>;
+  byPriority: Record<string, number>;
+}
+
+export class ScheduleEmailDto {
+  scheduledAt: string;
+}
+
+export class ScheduledEmailDispatchResultDto {
+  due: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+  skipped: number;
+  dispatchedAt: string;
+}
+
+export class EmailDeliveryEventDto {
+  externalId: string;
+  event: string;
+  timestamp?: number; // Unix timestamp in seconds, missing when invalid
+  email?: string;
+  reason?: string;
+  url?: string;
+}
+
+export class EmailDeliveryEventsResultDto {
+  received: number;
+  applied: number;
+  unmatched: number;
+  ignored: number;
+}
@@ -0,0 +1,86 @@
+/**
+ * Escalation DTOs - Application Layer
+ * Data Transfer Objects for escalation rules and the escalation log
+ */
+
+export type EscalationActionTypeName =
+  | 'raise_priority'
+  | 'notify_assignee'
+  | 'notify_executive'
+  | 'add_tag';
+
+export class EscalationConditionsDto {
+  priority?: string;
+  status?: string; // pending or in-progress
+  assignee?: string;
+  hasAssignee?: boolean;
+  tags?: string[]; // all must be present
+  untouchedForHours?: number;
+  overdueForHours?: number;
+}
+
+export class EscalationActionDto {
+  type: EscalationActionTypeName;
+  priority?: string; // raise_priority: target, one level up when omitted
+  tag?: string; // add_tag
+}
+
+export class UpdateEscalationRuleDto {
+  name?: string;
+  description?: string;
+  enabled?: boolean;
+  conditions?: EscalationConditionsDto; // replaces all conditions
+  actions?: EscalationActionDto[]; // replaces all actions
+  cooldownHours?: number;
+}
+
+export class CreateEscalationRuleDto {
+  name: string;
+  description?: string;
+  enabled?: boolean; // default true
+  conditions: EscalationConditionsDto; // at least one
+  actions: EscalationActionDto[]; // at least one
+  cooldownHours?: number; // default 24
+}
+
+export class EscalationRuleResponseDto {
+  id: string;
+  name: string;
+  description?: string;
+  enabled: boolean;
+  conditions: EscalationConditionsDto;
+  actions: EscalationActionDto[];
+  cooldownHours: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class EscalationActionResultDto {
+  type: EscalationActionTypeName;
+  status: 'done' | 'skipped' | 'failed';
+  detail?: string;
+}
+
+export class EscalationResponseDto {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  taskId: string;
+  taskTitle: string;
+  reasons: string[];
+  actions: EscalationActionResultDto[];
+  firedAt: string;
+}
+
+export class EscalationLogQueryDto {
+  ruleId?: string;
+  taskId?: string;
+  limit?: number;
+}
+
+export class EscalationRunResultDto {
+  rules: number; // enabled rules evaluated
+  tasks: number; // active tasks checked
+  fired: number;
+  escalations: EscalationResponseDto[];
+}
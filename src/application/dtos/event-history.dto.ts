@@ -0,0 +1,28 @@
+/**
+ * Event History DTOs - Application Layer
+ * Data Transfer Objects for aggregate change logs
+ */
+
+export class EventChangeDto {
+  field: string;
+  oldValue?: any;
+  newValue?: any;
+  action?: 'added' | 'removed';
+  value?: any;
+}
+
+export class EventHistoryEntryDto {
+  sequence: number;
+  eventId: string;
+  eventType: string;
+  occurredOn: string;
+  actor?: string;
+  change?: EventChangeDto;
+  data: Record<string, any>;
+}
+
+export class EventHistoryResponseDto {
+  aggregateId: string;
+  total: number;
+  events: EventHistoryEntryDto[];
+}
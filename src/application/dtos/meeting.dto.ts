@@ -0,0 +1,116 @@
+/**
+ * Meeting DTOs - Application Layer
+ * Data Transfer Objects for meeting operations
+ */
+
+export class MeetingAttendeeDto {
+  email: string;
+  name: string;
+  isRequired?: boolean;
+}
+
+export class CreateMeetingDto {
+  title: string;
+  description?: string;
+  startTime: string; // ISO string
+  endTime: string; // ISO string
+  location?: string;
+  organizer: string;
+  attendees?: MeetingAttendeeDto[];
+  meetingType?: 'in-person' | 'virtual' | 'hybrid';
+  meetingUrl?: string;
+  agenda?: string[];
+  isRecurring?: boolean;
+  recurrencePattern?: string;
+}
+
+export class UpdateMeetingDto {
+  title?: string;
+  description?: string;
+}
+
+export class RescheduleMeetingDto {
+  startTime: string; // ISO string
+  endTime: string; // ISO string
+}
+
+export class CancelMeetingDto {
+  reason?: string;
+}
+
+export class UpdateAttendeeResponseDto {
+  responseStatus: 'pending' | 'accepted' | 'declined' | 'tentative';
+}
+
+export class AddAgendaItemDto {
+  item: string;
+}
+
+export class MeetingQueryDto {
+  limit?: number;
+  offset?: number;
+  sortBy?: 'startDate' | 'title' | 'createdAt' | 'updatedAt';
+  sortOrder?: 'asc' | 'desc';
+  status?: 'scheduled' | 'in-progress' | 'completed' | 'cancelled';
+  organizer?: string;
+  attendee?: string;
+  meetingType?: 'in-person' | 'virtual' | 'hybrid';
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export class MeetingResponseDto {
+  id: string;
+  title: string;
+  description?: string;
+  dateRange: {
+    startDate: string;
+    endDate: string;
+    durationInMinutes: number;
+  };
+  location?: string;
+  organizer: {
+    email: string;
+  };
+  attendees: Array<{
+    email: {
+      email: string;
+    };
+    name: string;
+    isRequired: boolean;
+    responseStatus: 'pending' | 'accepted' | 'declined' | 'tentative';
+  }>;
+  meetingType: 'in-person' | 'virtual' | 'hybrid';
+  meetingUrl?: string;
+  agenda: string[];
+  isRecurring: boolean;
+  recurrencePattern?: string;
+  status: 'scheduled' | 'in-progress' | 'completed' | 'cancelled';
+  remindersSent: Array<{ type: string; sentAt: string }>;
+  isUpcoming: boolean;
+  isInProgress: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class MeetingListResponseDto {
+  items: MeetingResponseDto[];
+  total: number;
+  hasMore: boolean;
+  pagination: {
+    limit: number;
+    offset: number;
+    totalPages: number;
+    currentPage: number;
+  };
+}
+
+export class MeetingAnalyticsResponseDto {
+  total: number;
+  upcoming: number;
+  completed: number;
+  cancelled: number;
+  averageDuration: number;
+  byType: Record<string, number>;
+  byStatus: Record<string, number>;
+}
@@ -0,0 +1,43 @@
+/**
+ * Prioritization Profile DTOs - Application Layer
+ * Data Transfer Objects for prioritization profile operations
+ */
+
+export type PrioritizationFactorName =
+  | 'dueDate'
+  | 'priority'
+  | 'status'
+  | 'dependencies'
+  | 'estimatedDuration';
+
+export class PrioritizationWeightsDto {
+  dueDateWeight?: number;
+  priorityWeight?: number;
+  statusWeight?: number;
+  dependencyWeight?: number;
+  estimatedDurationWeight?: number;
+}
+
+export class UpdatePrioritizationProfileDto {
+  description?: string;
+  criteria?: PrioritizationWeightsDto; // relative weights, scaled to sum to 1
+  tagBoosts?: Record<string, number>; // score points per matching tag
+  assigneeBoosts?: Record<string, number>; // score points by assignee email
+  factorCaps?: Partial<Record<PrioritizationFactorName, number>>; // 0-100
+}
+
+export class CreatePrioritizationProfileDto extends UpdatePrioritizationProfileDto {
+  name: string;
+}
+
+export class PrioritizationProfileResponseDto {
+  id: string;
+  name: string;
+  description?: string;
+  criteria: Required<PrioritizationWeightsDto>;
+  tagBoosts: Record<string, number>;
+  assigneeBoosts: Record<string, number>;
+  factorCaps: Partial<Record<PrioritizationFactorName, number>>;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,46 @@
+/**
+ * Saved View DTOs - Application Layer
+ * Data Transfer Objects for saved task view operations
+ */
+
+import { TaskFiltersDto, TaskListResponseDto } from './task.dto';
+
+export class SavedViewQueryDto {
+  filters?: TaskFiltersDto; // dueDateFrom and dueDateTo also take date tokens
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  limit?: number;
+}
+
+export class UpdateSavedViewDto {
+  name?: string;
+  description?: string;
+  query?: SavedViewQueryDto; // replaces the whole query
+}
+
+export class CreateSavedViewDto {
+  name: string;
+  description?: string;
+  query: SavedViewQueryDto;
+}
+
+export class SavedViewResponseDto {
+  id: string;
+  name: string;
+  description?: string;
+  query: SavedViewQueryDto;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class EvaluateSavedViewDto {
+  limit?: number; // overrides the view's own limit
+  offset?: number;
+}
+
+export class SavedViewResultDto {
+  view: SavedViewResponseDto;
+  evaluatedAt: string;
+  resolvedQuery: SavedViewQueryDto; // date tokens replaced by timestamps
+  tasks: TaskListResponseDto;
+}
@@ -0,0 +1,57 @@
+/**
+ * Task Board DTOs - Application Layer
+ * Data Transfer Objects for the Kanban board read model
+ */
+
+import { TaskResponseDto } from './task.dto';
+
+export class WipLimitDto {
+  limit: number;
+  enforcement?: 'reject' | 'warn'; // default reject
+}
+
+export class UpdateTaskBoardDto {
+  wipLimits: Record<string, WipLimitDto>; // by status, replaces all limits
+}
+
+export class TaskBoardQueryDto {
+  limit?: number; // cards per column; counts still include every task
+}
+
+export class BoardCardDto {
+  id: string;
+  title: string;
+  priority: string;
+  assignee?: string;
+  dueDate?: string;
+  tags: string[];
+  estimatedDuration?: number;
+  isOverdue: boolean;
+  position: number;
+}
+
+export class BoardColumnDto {
+  status: string;
+  count: number;
+  wipLimit?: WipLimitDto;
+  overLimit: boolean;
+  cards: BoardCardDto[]; // top first
+}
+
+export class TaskBoardResponseDto {
+  columns: BoardColumnDto[];
+  wipLimits: Record<string, WipLimitDto>;
+  updatedAt: string;
+}
+
+export class MoveTaskDto {
+  status?: string; // target column, default the task's current one
+  position?: number; // 0 is the top, default the bottom
+}
+
+export class MoveTaskResponseDto {
+  task: TaskResponseDto;
+  status: string;
+  position: number;
+  warnings: string[]; // WIP limits exceeded with enforcement warn
+}
@@ -0,0 +1,63 @@
+/**
+ * Task Comment DTOs - Application Layer
+ * Data Transfer Objects for task comments and the activity feed
+ */
+
+import { EventChangeDto } from './event-history.dto';
+
+export class CommentAttachmentDto {
+  name?: string; // defaults to the last part of the URL
+  url: string;
+  contentType?: string;
+}
+
+export class CreateTaskCommentDto {
+  body: string; // mention people as @name@example.com
+  author?: string;
+  attachments?: CommentAttachmentDto[];
+}
+
+export class UpdateTaskCommentDto {
+  body?: string;
+  attachments?: CommentAttachmentDto[]; // replaces the whole list
+}
+
+export class CommentRevisionDto {
+  body: string;
+  attachments: CommentAttachmentDto[];
+  replacedAt: string;
+}
+
+export class TaskCommentResponseDto {
+  id: string;
+  taskId: string;
+  author?: string;
+  body: string; // empty once deleted
+  mentions: string[];
+  attachments: CommentAttachmentDto[];
+  revisions: CommentRevisionDto[]; // earlier content, oldest first
+  editedAt?: string;
+  deletedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class TaskActivityEntryDto {
+  type: 'comment' | 'change';
+  occurredAt: string;
+  comment?: TaskCommentResponseDto;
+  eventType?: string; // for changes, e.g. TaskUpdated
+  change?: EventChangeDto;
+}
+
+export class TaskActivityResponseDto {
+  taskId: string;
+  total: number;
+  entries: TaskActivityEntryDto[]; // oldest first
+}
+
+export class MentionDigestResultDto {
+  recipients: number;
+  sent: number;
+  failed: number;
+}
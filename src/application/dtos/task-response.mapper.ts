@@ -0,0 +1,37 @@
+/**
+ * Task Response Mapper - Application Layer
+ * Maps tasks to the response shape shared by every task endpoint
+ */
+
+import { TaskResponseDto } from './task.dto';
+import { Task } from '../../domain/entities/task.entity';
+
+export function toTaskResponseDto(task: Task): TaskResponseDto {
+  const taskJson = task.toJSON();
+  // The token only goes out in the links emailed to the delegate
+  const { token: _token, ...delegation } = taskJson.delegation || {};
+
+  return {
+    id: taskJson.id,
+    title: taskJson.title,
+    description: taskJson.description,
+    status: taskJson.status,
+    priority: taskJson.priority,
+    assignee: taskJson.assignee,
+    dueDate: taskJson.dueDate,
+    tags: taskJson.tags,
+    estimatedDuration: taskJson.estimatedDuration,
+    dependencies: taskJson.dependencies,
+    completedAt: taskJson.completedAt,
+    recurrence: taskJson.recurrence,
+    parentId: taskJson.parentId,
+    checklist: taskJson.checklist,
+    timeEntries: taskJson.timeEntries,
+    actualDuration: taskJson.actualDuration,
+    delegation: taskJson.delegation && delegation,
+    isOverdue: taskJson.isOverdue,
+    urgencyScore: taskJson.urgencyScore,
+    createdAt: taskJson.createdAt,
+    updatedAt: taskJson.updatedAt,
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Task Transfer DTOs - Application Layer
+ * Data Transfer Objects for task import and export
+ */
+
+export type TaskFileFormatName = 'csv' | 'json' | 'ics';
+
+export class TaskExportDto {
+  format: TaskFileFormatName;
+  contentType: string;
+  filename: string;
+  content: string;
+}
+
+export class ImportTasksDto {
+  format: TaskFileFormatName;
+  content: string; // the file contents
+  dryRun?: boolean; // validate only, save nothing
+}
+
+export class TaskImportErrorDto {
+  row: number; // 1-based position of the task in the file
+  field?: string;
+  message: string;
+}
+
+export class ImportedTaskDto {
+  row: number;
+  sourceId?: string; // the ID the task had in the file
+  id?: string; // the new ID, omitted on dry runs
+  title: string;
+}
+
+export class TaskImportResponseDto {
+  format: TaskFileFormatName;
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  imported: number;
+  tasks: ImportedTaskDto[];
+  errors: TaskImportErrorDto[];
+}
@@ -12,6 +12,8 @@ export class CreateTaskDto {
   tags?: string[];
   estimatedDuration?: number; // in minutes
   dependencies?: string[];
+  recurrenceRule?: string; // RFC 5545 RRULE, e.g. FREQ=WEEKLY;BYDAY=MO
+  parentId?: string;
 }
 
 export class UpdateTaskDto {
@@ -24,6 +26,8 @@ export class UpdateTaskDto {
   tags?: string[];
   estimatedDuration?: number; // in minutes
   dependencies?: string[];
+  recurrenceRule?: string | null; // null stops the recurrence
+  parentId?: string | null; // null detaches the task from its parent
 }
 
 export class TaskResponseDto {
@@ -47,12 +51,237 @@ export class TaskResponseDto {
   estimatedDuration?: number;
   dependencies: string[];
   completedAt?: string;
+  recurrence?: {
+    rule: string;
+    seriesId: string;
+    occurrence: number;
+    nextOccurrenceId?: string;
+  };
+  parentId?: string;
+  checklist: Array<{
+    id: string;
+    text: string;
+    done: boolean;
+    completedAt?: string;
+  }>;
+  timeEntries: TimeEntryDto[];
+  actualDuration: number; // minutes tracked, including a running timer
+  delegation?: TaskDelegationDto;
   isOverdue: boolean;
   urgencyScore: number;
   createdAt: string;
   updatedAt: string;
 }
 
+export class AddChecklistItemDto {
+  text: string;
+}
+
+export class UpdateChecklistItemDto {
+  text?: string;
+  done?: boolean;
+}
+
+export class TimeEntryDto {
+  id: string;
+  startedAt: string;
+  endedAt?: string; // unset while the timer is running
+  source: 'timer' | 'manual';
+  note?: string;
+}
+
+export class StartTimerDto {
+  note?: string;
+}
+
+export class LogTimeDto {
+  minutes: number;
+  startedAt?: string; // defaults to `minutes` before now
+  note?: string;
+}
+
+export class TaskDelegationDto {
+  delegate: string;
+  status: 'pending' | 'accepted' | 'declined' | 'returned';
+  delegatedAt: string;
+  respondedAt?: string;
+  followUpAt?: string; // next nudge, if there is no progress by then
+  followUps: number;
+  lastFollowUpAt?: string;
+  note?: string;
+  reason?: string;
+}
+
+export class DelegateTaskDto {
+  assignee: string;
+  followUpAt?: string; // defaults to the configured number of days from now
+  note?: string;
+}
+
+export class DelegationResponseDto {
+  token: string;
+  reason?: string;
+}
+
+// All that the holder of a delegation link gets to see of the task
+export class DelegationConfirmationDto {
+  taskId: string;
+  title: string;
+  action: 'accept' | 'decline' | 'return';
+  delegate: string;
+  status: 'pending' | 'accepted' | 'declined' | 'returned';
+  respondedAt?: string;
+}
+
+export class DelegationQueryDto {
+  status?: 'pending' | 'accepted' | 'declined' | 'returned';
+  delegate?: string;
+}
+
+export class DelegationListResponseDto {
+  items: TaskResponseDto[]; // most recently delegated first
+  counts: Record<string, number>; // delegations per status
+}
+
+export class DelegationFollowUpResultDto {
+  due: number;
+  sent: number;
+  failed: number;
+}
+
+export class TaskSubtreeResponseDto {
+  task: TaskResponseDto;
+  progress: number; // 0-100, rolled up from subtasks and checklist items
+  estimatedDuration?: number; // in minutes, summed over subtasks
+  openSubtasks: number;
+  subtasks: TaskSubtreeResponseDto[];
+}
+
+export class TaskGraphNodeDto {
+  id: string;
+  title: string;
+  status: string;
+  estimatedDuration?: number; // in minutes
+  blocked: boolean;
+  onCriticalPath: boolean;
+}
+
+export class TaskDependencyGraphResponseDto {
+  nodes: TaskGraphNodeDto[];
+  edges: Array<{
+    taskId: string;
+    dependsOn: string;
+  }>;
+  missingDependencies: Array<{
+    taskId: string;
+    dependencyId: string;
+  }>;
+  blocked: string[]; // open tasks waiting on unfinished dependencies
+  unblocked: string[]; // open tasks that can be started now
+  topologicalOrder: string[]; // dependencies before dependents
+  cyclicTaskIds: string[];
+  criticalPath: {
+    taskIds: string[];
+    totalDuration: number; // in minutes
+  };
+}
+
+export class EisenhowerMatrixResponseDto {
+  do: TaskResponseDto[]; // urgent and important
+  schedule: TaskResponseDto[]; // important, not urgent
+  delegate: TaskResponseDto[]; // urgent, not important
+  eliminate: TaskResponseDto[]; // neither
+}
+
+export class PlanDayDto {
+  date?: string; // YYYY-MM-DD, defaults to today
+  workingHours?: {
+    start: string; // HH:mm in the configured time zone
+    end: string;
+  };
+  profile?: string; // prioritization profile ID or name
+  limit?: number; // candidates to consider, defaults to 10
+  bufferMinutes?: number; // break after each block, defaults to 5
+  defaultDuration?: number; // in minutes, for tasks without an estimate
+  createFocusBlocks?: boolean; // add each block to the calendar
+}
+
+export class PlannedBlockDto {
+  taskId: string;
+  title: string;
+  quadrant: 'do' | 'schedule' | 'delegate' | 'eliminate';
+  score: number;
+  start: string;
+  end: string;
+  duration: number; // in minutes
+  estimated: boolean; // false when the default duration was assumed
+  focusBlockEventId?: string;
+}
+
+export class OverflowItemDto {
+  taskId: string;
+  title: string;
+  quadrant: 'do' | 'schedule' | 'delegate' | 'eliminate';
+  score: number;
+  duration: number; // in minutes
+  reason: string;
+}
+
+export class DailyPlanResponseDto {
+  date: string;
+  profile?: string;
+  freeMinutes: number;
+  scheduledMinutes: number;
+  schedule: PlannedBlockDto[];
+  overflow: OverflowItemDto[];
+}
+
+export class TaskSearchResultDto {
+  task: TaskResponseDto;
+  score: number;
+  highlights: {
+    title?: string; // HTML-escaped, matches wrapped in <mark>
+    description?: string; // snippet around the first match
+    tags?: string[]; // tags that matched
+  };
+}
+
+export class TaskSearchResponseDto {
+  query: string;
+  total: number; // all matches, before the limit
+  results: TaskSearchResultDto[];
+}
+
+export class BulkTaskOperationDto {
+  op: 'create' | 'update' | 'delete' | 'complete' | 'retag';
+  taskId?: string; // required for every operation except create
+  data?: CreateTaskDto | UpdateTaskDto; // for create and update
+  addTags?: string[]; // for retag
+  removeTags?: string[]; // for retag
+}
+
+export class BulkTaskOperationsDto {
+  operations: BulkTaskOperationDto[];
+  atomic?: boolean; // roll everything back if any operation fails
+}
+
+export class BulkTaskOperationResultDto {
+  index: number;
+  op: string;
+  taskId?: string;
+  status: 'succeeded' | 'failed' | 'skipped';
+  task?: TaskResponseDto; // omitted for deletes
+  error?: string;
+}
+
+export class BulkTaskOperationsResponseDto {
+  atomic: boolean;
+  succeeded: number;
+  failed: number;
+  rejected: boolean; // an atomic run that failed its trial and changed nothing
+  results: BulkTaskOperationResultDto[];
+}
+
 export class TaskFiltersDto {
   status?: 'pending' | 'in-progress' | 'completed' | 'cancelled';
   priority?: 'low' | 'medium' | 'high' | 'urgent';
@@ -74,6 +303,7 @@ export class TaskQueryDto {
 
 export class PrioritizeTasksDto {
   taskIds?: string[];
+  profile?: string; // profile ID or name; the "default" profile when omitted
   criteria?: {
     dueDateWeight?: number;
     priorityWeight?: number;
@@ -94,8 +324,11 @@ export class TaskPrioritizationResponseDto {
       status: number;
       dependencies: number;
       estimatedDuration: number;
+      tagBoost: number;
+      assigneeBoost: number;
     };
   }>;
+  profile?: string;
   summary: {
     totalTasks: number;
     criticalTasks: number;
@@ -106,6 +339,28 @@ export class TaskPrioritizationResponseDto {
   recommendations: string[];
 }
 
+export class TimeBreakdownDto {
+  trackedMinutes: number;
+  estimatedMinutes: number;
+  tasks: number;
+}
+
+export class TaskTimeAnalyticsDto {
+  trackedMinutes: number;
+  runningTimers: number;
+  estimateAccuracy: {
+    tasksCompared: number; // completed tasks with an estimate and tracked time
+    averageRatio: number; // tracked / estimated
+    medianRatio: number;
+    withinTolerance: number; // percentage within 25% of the estimate
+    overruns: number;
+    underruns: number;
+  };
+  byTag: Record<string, TimeBreakdownDto>;
+  byAssignee: Record<string, TimeBreakdownDto>;
+  weekly: Array<{ weekStart: string; trackedMinutes: number }>;
+}
+
 export class TaskAnalyticsResponseDto {
   total: number;
   completed: number;
@@ -114,6 +369,7 @@ export class TaskAnalyticsResponseDto {
   averageCompletionTime: number;
   byStatus: Record<string, number>;
   byPriority: Record<string, number>;
+  timeTracking: TaskTimeAnalyticsDto;
 }
 
 export class TaskListResponseDto {
@@ -8,6 +8,7 @@ import { QueryHandler } from '../../common/query.interface';
 import { Result, success, failure } from '../../common/result';
 import { GetTasksQuery } from './get-tasks.query';
 import { TaskListResponseDto, TaskResponseDto } from '../../dtos/task.dto';
+import { toTaskResponseDto } from '../../dtos/task-response.mapper';
 import type { TaskRepository } from '../../../domain/repositories/task.repository';
 import { Priority, TaskStatus } from '../../../domain/common/value-objects';
 
@@ -40,7 +41,7 @@ export class GetTasksHandler
       const result = await this.taskRepository.findMany(queryOptions);
 
       // Map to DTOs
-      const items = result.items.map((task) => this.mapToResponseDto(task));
+      const items = result.items.map((task) => toTaskResponseDto(task));
 
       // Calculate pagination
       const totalPages = Math.ceil(result.total / limit);
@@ -103,26 +104,4 @@ export class GetTasksHandler
 
     return domainFilters;
   }
-
-  private mapToResponseDto(task: any): TaskResponseDto {
-    const taskJson = task.toJSON();
-
-    return {
-      id: taskJson.id,
-      title: taskJson.title,
-      description: taskJson.description,
-      status: taskJson.status,
-      priority: taskJson.priority,
-      assignee: taskJson.assignee,
-      dueDate: taskJson.dueDate,
-      tags: taskJson.tags,
-      estimatedDuration: taskJson.estimatedDuration,
-      dependencies: taskJson.dependencies,
-      completedAt: taskJson.completedAt,
-      isOverdue: taskJson.isOverdue,
-      urgencyScore: taskJson.urgencyScore,
-      createdAt: taskJson.createdAt,
-      updatedAt: taskJson.updatedAt,
-    };
-  }
 }
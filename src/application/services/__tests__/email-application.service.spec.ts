@@ -0,0 +1,289 @@
+/**
+ * Email Application Service Tests - Application Layer
+ * Verifies that emails are persisted before sending and track their outcome
+ */
+
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { EmailApplicationService } from '../email-application.service';
+import { EmailOutboxService } from '../email-outbox.service';
+import { EventHistoryService } from '../event-history.service';
+import { InMemoryEmailRepository } from '../../../infrastructure/persistence/in-memory/email.repository.impl';
+import { DomainEventDispatcher } from '../../../infrastructure/events/domain-event-dispatcher';
+import { EmailTransportError } from '../../../infrastructure/external-services/email-transport/email-transport.error';
+import { EventStore } from '../../../domain/repositories/event-store.repository';
+
+describe('EmailApplicationService', () => {
+  let service: EmailApplicationService;
+  let repository: InMemoryEmailRepository;
+  let sendEmail: jest.Mock;
+
+  const email = {
+    to: 'investors@example.com',
+    cc: 'cfo@example.com',
+    subject: 'Q3 investor update',
+    html: '<p>Numbers attached</p>',
+  };
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    sendEmail = jest.fn().mockResolvedValue({
+      messageId: 'sg_123',
+      status: 'queued',
+      timestamp: new Date().toISOString(),
+    });
+    const eventStore: EventStore = {
+      append: jest.fn(),
+      findByAggregateId: jest.fn().mockResolvedValue([]),
+    };
+
+    const config = new ConfigService({
+      emailServices: {
+        fromEmail: 'assistant@example.com',
+        retryMaxAttempts: 3,
+        retryBaseDelayMs: 1000,
+        retryMaxDelayMs: 60000,
+      },
+    });
+
+    repository = new InMemoryEmailRepository(
+      new DomainEventDispatcher(new EventEmitter2()),
+    );
+    service = new EmailApplicationService(
+      repository,
+      new EmailOutboxService(
+        repository,
+        { name: 'test', sendEmail, getStatus: () => ({}) },
+        config,
+      ),
+      new EventHistoryService(eventStore),
+      config,
+    );
+  });
+
+  it('should persist the message and mark it sent with the provider id', async () => {
+    const result = await service.sendEmail(email);
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.value.status).toBe('sent');
+    expect(result.value.externalId).toBe('sg_123');
+    expect(result.value.sender.email).toBe('assistant@example.com');
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: ['investors@example.com'],
+        cc: ['cfo@example.com'],
+        html: '<p>Numbers attached</p>',
+        from: 'assistant@example.com',
+        customArgs: { emailMessageId: result.value.id },
+      }),
+    );
+  });
+
+  it('should send the plain-text part along with the HTML', async () => {
+    const result = await service.sendEmail({
+      ...email,
+      text: 'Numbers attached',
+    });
+
+    expect(result.value).toMatchObject({
+      body: '<p>Numbers attached</p>',
+      isHtml: true,
+      textBody: 'Numbers attached',
+    });
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        html: '<p>Numbers attached</p>',
+        text: 'Numbers attached',
+      }),
+    );
+  });
+
+  it('should dead-letter permanent failures and replay them', async () => {
+    sendEmail.mockRejectedValueOnce(
+      EmailTransportError.fromHttpStatus('SendGrid API error: 400', 400),
+    );
+
+    const failed = await service.sendEmail(email);
+    expect(failed.value.status).toBe('failed');
+    expect(failed.value.failureReason).toBe('SendGrid API error: 400');
+    expect(failed.value.attempts).toEqual([
+      expect.objectContaining({ outcome: 'failed', statusCode: 400 }),
+    ]);
+
+    const deadLetters = await service.getDeadLetters();
+    expect(deadLetters.value.items.map((m) => m.id)).toEqual([failed.value.id]);
+
+    const replayed = await service.replayDeadLetter(failed.value.id);
+    expect(replayed.value.status).toBe('sent');
+    expect(replayed.value.failureReason).toBeUndefined();
+    expect(replayed.value.attemptCount).toBe(1);
+  });
+
+  it('should retry transient failures with backoff until attempts run out', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    sendEmail.mockRejectedValue(
+      EmailTransportError.fromHttpStatus('SendGrid API error: 503', 503),
+    );
+    const start = Date.now();
+
+    const first = await service.sendEmail(email);
+    expect(first.value.status).toBe('scheduled');
+    // 1000ms base delay: 500ms fixed plus half of the 500ms jitter window
+    expect(new Date(first.value.scheduledAt!).getTime()).toBeGreaterThanOrEqual(
+      start + 750,
+    );
+
+    jest.useFakeTimers({ now: start + 60 * 1000 });
+    const second = await service.dispatchDueEmails();
+    expect(second.value).toMatchObject({ due: 1, retrying: 1 });
+
+    jest.setSystemTime(start + 2 * 60 * 1000);
+    const third = await service.dispatchDueEmails();
+    expect(third.value).toMatchObject({ due: 1, failed: 1 });
+
+    const deadLetter = await service.getMessageById(first.value.id);
+    expect(deadLetter.value.status).toBe('failed');
+    expect(deadLetter.value.attemptCount).toBe(3);
+    expect(sendEmail).toHaveBeenCalledTimes(3);
+  });
+
+  it('should only replay emails in the dead-letter list', async () => {
+    const sent = await service.sendEmail(email);
+
+    const result = await service.replayDeadLetter(sent.value.id);
+
+    expect(result.isFailure).toBe(true);
+    expect(result.error).toBe('Email is not in the dead-letter list');
+  });
+
+  it('should store drafts without sending them', async () => {
+    const draft = await service.createDraft(email);
+
+    expect(draft.value.status).toBe('draft');
+    expect(sendEmail).not.toHaveBeenCalled();
+
+    const sent = await service.sendMessage(draft.value.id);
+    expect(sent.value.status).toBe('sent');
+  });
+
+  it('should leave scheduled emails for the dispatcher', async () => {
+    const scheduledAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+    const result = await service.sendEmail({ ...email, scheduledAt });
+
+    expect(result.value.status).toBe('scheduled');
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('should reject sending a cancelled email', async () => {
+    const draft = await service.createDraft(email);
+    await service.cancelMessage(draft.value.id);
+
+    const result = await service.sendMessage(draft.value.id);
+
+    expect(result.isFailure).toBe(true);
+    expect(result.error).toBe('Cannot send cancelled email');
+  });
+
+  describe('recordDeliveryEvents', () => {
+    const event = (type: string) => ({
+      externalId: 'sg_123',
+      event: type,
+      timestamp: Math.floor(Date.now() / 1000),
+    });
+
+    it('should update delivery status and analytics from provider events', async () => {
+      const sent = await service.sendEmail(email);
+
+      const result = await service.recordDeliveryEvents([
+        event('bounce'),
+        event('delivered'),
+        { ...event('open'), externalId: 'sg_unknown' },
+        { ...event('click'), timestamp: undefined },
+      ]);
+
+      expect(result.value).toEqual({
+        received: 4,
+        applied: 1,
+        unmatched: 1,
+        ignored: 2,
+      });
+      const bounced = await service.getMessageById(sent.value.id);
+      expect(bounced.value.deliveryStatus).toBe('bounced');
+
+      const analytics = await service.getEmailAnalytics();
+      expect(analytics.value.bounceRate).toBe(100);
+      expect(analytics.value.deliveryRate).toBe(0);
+    });
+
+    it('should record opens and clicks once', async () => {
+      const sent = await service.sendEmail(email);
+
+      await service.recordDeliveryEvents([
+        event('delivered'),
+        event('click'),
+        event('open'),
+      ]);
+
+      const engaged = await service.getMessageById(sent.value.id);
+      expect(engaged.value.deliveryStatus).toBe('delivered');
+      expect(engaged.value.openedAt).toBe(engaged.value.clickedAt);
+
+      const analytics = await service.getEmailAnalytics();
+      expect(analytics.value).toMatchObject({
+        deliveryRate: 100,
+        openRate: 100,
+        clickRate: 100,
+      });
+    });
+  });
+
+  describe('dispatchDueEmails', () => {
+    const inOneHour = () => new Date(Date.now() + 60 * 60 * 1000);
+
+    it('should send scheduled emails once they fall due', async () => {
+      const sendAt = inOneHour();
+      const scheduled = await service.sendEmail({
+        ...email,
+        scheduledAt: sendAt.toISOString(),
+      });
+
+      const early = await service.dispatchDueEmails();
+      expect(early.value.due).toBe(0);
+
+      jest.useFakeTimers({ now: sendAt.getTime() + 1000 });
+      const result = await service.dispatchDueEmails();
+
+      expect(result.value).toMatchObject({ due: 1, sent: 1, failed: 0 });
+      const sent = await service.getMessageById(scheduled.value.id);
+      expect(sent.value.status).toBe('sent');
+    });
+
+    it('should not send emails cancelled before their send time', async () => {
+      const sendAt = inOneHour();
+      const draft = await service.createDraft(email);
+      await service.scheduleMessage(draft.value.id, sendAt.toISOString());
+      await service.cancelMessage(draft.value.id);
+
+      jest.useFakeTimers({ now: sendAt.getTime() + 1000 });
+      const result = await service.dispatchDueEmails();
+
+      expect(result.value.due).toBe(0);
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+
+    it('should return unscheduled emails to draft', async () => {
+      const draft = await service.createDraft(email);
+      await service.scheduleMessage(draft.value.id, inOneHour().toISOString());
+
+      const result = await service.unscheduleMessage(draft.value.id);
+
+      expect(result.value.status).toBe('draft');
+      expect(result.value.scheduledAt).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Email Template Application Service Tests - Application Layer
+ * Verifies template versioning, Handlebars rendering, variable validation
+ * and plain-text fallbacks
+ */
+
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { EmailTemplateApplicationService } from '../email-template-application.service';
+import { EventHistoryService } from '../event-history.service';
+import { DEFAULT_EMAIL_TEMPLATES } from '../default-email-templates';
+import { InMemoryEmailTemplateRepository } from '../../../infrastructure/persistence/in-memory/email-template.repository.impl';
+import { DomainEventDispatcher } from '../../../infrastructure/events/domain-event-dispatcher';
+import { HandlebarsTemplateRenderer } from '../../../infrastructure/templating/handlebars-template-renderer';
+import { EventStore } from '../../../domain/repositories/event-store.repository';
+
+describe('EmailTemplateApplicationService', () => {
+  let service: EmailTemplateApplicationService;
+
+  const template = {
+    name: 'board_update',
+    subject: 'Board update for {{quarter}}',
+    html: '<p>Hi {{name}},</p>{{#if highlights}}<ul>{{#each highlights}}<li>{{this}}</li>{{/each}}</ul>{{/if}}{{> footer}}',
+    text: 'Hi {{name}},\n{{#each highlights}}- {{this}}\n{{/each}}{{> footer}}',
+    variables: [
+      { name: 'name', type: 'string' as const, required: true },
+      { name: 'quarter', type: 'string' as const, required: true },
+      { name: 'highlights', type: 'array' as const, required: false },
+    ],
+  };
+
+  beforeEach(async () => {
+    const eventStore: EventStore = {
+      append: jest.fn(),
+      findByAggregateId: jest.fn().mockResolvedValue([]),
+    };
+
+    service = new EmailTemplateApplicationService(
+      new InMemoryEmailTemplateRepository(
+        new DomainEventDispatcher(new EventEmitter2()),
+      ),
+      new HandlebarsTemplateRenderer(),
+      new EventHistoryService(eventStore),
+    );
+
+    await service.createTemplate({
+      name: 'footer',
+      isPartial: true,
+      subject: 'Footer',
+      html: '<p>Sent by {{sender}}</p>',
+      text: 'Sent by {{sender}}',
+      variables: [{ name: 'sender', type: 'string', required: false }],
+    });
+  });
+
+  it('should render conditionals, loops and partials for HTML and text', async () => {
+    await service.createTemplate(template);
+
+    const result = await service.renderTemplate('board_update', {
+      name: 'Ada <CEO>',
+      quarter: 'Q3',
+      highlights: ['Revenue up', 'Hired CTO'],
+      sender: 'Jordan',
+    });
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.value.subject).toBe('Board update for Q3');
+    expect(result.value.html).toBe(
+      '<p>Hi Ada &lt;CEO&gt;,</p><ul><li>Revenue up</li><li>Hired CTO</li></ul><p>Sent by Jordan</p>',
+    );
+    expect(result.value.text).toBe(
+      'Hi Ada <CEO>,\n- Revenue up\n- Hired CTO\nSent by Jordan',
+    );
+  });
+
+  it('should refuse to render when required variables are missing or mistyped', async () => {
+    await service.createTemplate(template);
+
+    const result = await service.renderTemplate('board_update', {
+      name: '  ',
+      highlights: 'Revenue up',
+    });
+
+    expect(result.isFailure).toBe(true);
+    expect(result.error).toContain('Missing required variable "name"');
+    expect(result.error).toContain('Missing required variable "quarter"');
+    expect(result.error).toContain(
+      'Variable "highlights" must be of type array',
+    );
+  });
+
+  it('should compose from the template or fall back to plain text', async () => {
+    await service.createTemplate(template);
+    const fallback = { subject: 'Board update', text: 'See the board deck' };
+
+    const composed = await service.composeEmail(
+      'board_update',
+      { name: 'Ada', quarter: 'Q3', sender: 'Jordan' },
+      fallback,
+    );
+    expect(composed).toEqual({
+      subject: 'Board update for Q3',
+      html: '<p>Hi Ada,</p><p>Sent by Jordan</p>',
+      text: 'Hi Ada,\nSent by Jordan',
+    });
+
+    expect(
+      await service.composeEmail('board_update', { name: 'Ada' }, fallback),
+    ).toEqual(fallback);
+    expect(await service.composeEmail('missing', {}, fallback)).toEqual(
+      fallback,
+    );
+  });
+
+  it('should preview with validation errors instead of failing', async () => {
+    const created = await service.createTemplate(template);
+
+    const result = await service.previewTemplate(created.value.id, {
+      variables: { quarter: 'Q3' },
+    });
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.value.valid).toBe(false);
+    expect(result.value.errors).toEqual(['Missing required variable "name"']);
+    expect(result.value.subject).toBe('Board update for Q3');
+  });
+
+  it('should keep old versions and allow rolling back to them', async () => {
+    const created = await service.createTemplate(template);
+
+    const updated = await service.addTemplateVersion(created.value.id, {
+      ...template,
+      subject: 'Quarterly update: {{quarter}}',
+      notes: 'Shorter subject',
+    });
+    expect(updated.value.activeVersion).toBe(2);
+
+    const v1Preview = await service.previewTemplate('board_update', {
+      variables: { name: 'Ada', quarter: 'Q3' },
+      version: 1,
+    });
+    expect(v1Preview.value.subject).toBe('Board update for Q3');
+
+    const rolledBack = await service.activateTemplateVersion('board_update', 1);
+    expect(rolledBack.value.activeVersion).toBe(1);
+    expect(rolledBack.value.latestVersion).toBe(2);
+  });
+
+  it('should reject duplicate names and invalid syntax', async () => {
+    await service.createTemplate(template);
+
+    const duplicate = await service.createTemplate(template);
+    expect(duplicate.error).toBe('Template "board_update" already exists');
+
+    const broken = await service.createTemplate({
+      ...template,
+      name: 'broken',
+      html: '{{#if name}}<p>unclosed',
+    });
+    expect(broken.isFailure).toBe(true);
+    expect(broken.error).toContain('Invalid template html');
+  });
+
+  it('should reject variables that are used but not declared', async () => {
+    const undeclared = await service.createTemplate({
+      ...template,
+      name: 'undeclared',
+      subject: '{{title}} for {{quarter}}',
+      html: '{{#each highlights}}<li>{{this}} by {{owner}}, {{../signer}}</li>{{/each}}',
+    });
+    expect(undeclared.error).toBe(
+      'Invalid template variables: "title", "signer" used but not declared',
+    );
+
+    await service.createTemplate(template);
+    const version = await service.addTemplateVersion('board_update', {
+      ...template,
+      text: 'Hi {{name}}, see {{@root.link}}',
+    });
+    expect(version.error).toBe(
+      'Invalid template variables: "link" used but not declared',
+    );
+  });
+
+  it('should seed the default templates into an empty repository', async () => {
+    const emptyService = new EmailTemplateApplicationService(
+      new InMemoryEmailTemplateRepository(
+        new DomainEventDispatcher(new EventEmitter2()),
+      ),
+      new HandlebarsTemplateRenderer(),
+      new EventHistoryService({
+        append: jest.fn(),
+        findByAggregateId: jest.fn().mockResolvedValue([]),
+      }),
+    );
+    await emptyService.onModuleInit();
+    expect((await emptyService.getTemplates()).value).toHaveLength(
+      DEFAULT_EMAIL_TEMPLATES.length,
+    );
+
+    const result = await emptyService.renderTemplate('meeting_reminder', {
+      recipientName: 'Ada',
+      meetingTitle: 'Board sync',
+      meetingDate: '2025-03-10',
+      meetingTime: '10:00',
+      agenda: ['Budget'],
+    });
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.value.text).toContain('- Budget');
+    expect(result.value.text).toContain('Executive Assistant AI');
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Escalation Application Service Tests - Application Layer
+ * Verifies rule matching, escalation actions, cooldowns and the log
+ */
+
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { EscalationApplicationService } from '../escalation-application.service';
+import { EmailApplicationService } from '../email-application.service';
+import { EmailTemplateApplicationService } from '../email-template-application.service';
+import { EventHistoryService } from '../event-history.service';
+import { Result } from '../../common/result';
+import { InMemoryTaskRepository } from '../../../infrastructure/persistence/in-memory/task.repository.impl';
+import { InMemoryEscalationRuleRepository } from '../../../infrastructure/persistence/in-memory/escalation-rule.repository.impl';
+import { InMemoryEscalationRepository } from '../../../infrastructure/persistence/in-memory/escalation.repository.impl';
+import { InMemoryEmailTemplateRepository } from '../../../infrastructure/persistence/in-memory/email-template.repository.impl';
+import { DomainEventDispatcher } from '../../../infrastructure/events/domain-event-dispatcher';
+import { HandlebarsTemplateRenderer } from '../../../infrastructure/templating/handlebars-template-renderer';
+import { Task } from '../../../domain/entities/task.entity';
+import { Email } from '../../../domain/common/value-objects';
+
+const HOUR_IN_MS = 60 * 60 * 1000;
+
+describe('EscalationApplicationService', () => {
+  let service: EscalationApplicationService;
+  let taskRepository: InMemoryTaskRepository;
+  let sendEmail: jest.Mock;
+
+  beforeEach(async () => {
+    const dispatcher = new DomainEventDispatcher(new EventEmitter2());
+    const templateService = new EmailTemplateApplicationService(
+      new InMemoryEmailTemplateRepository(dispatcher),
+      new HandlebarsTemplateRenderer(),
+      new EventHistoryService({
+        append: jest.fn(),
+        findByAggregateId: jest.fn().mockResolvedValue([]),
+      }),
+    );
+    await templateService.onModuleInit();
+
+    taskRepository = new InMemoryTaskRepository(dispatcher);
+    sendEmail = jest.fn().mockResolvedValue(Result.success({}));
+    service = new EscalationApplicationService(
+      new InMemoryEscalationRuleRepository(dispatcher),
+      new InMemoryEscalationRepository(dispatcher),
+      taskRepository,
+      { sendEmail } as unknown as EmailApplicationService,
+      templateService,
+      new ConfigService({
+        delegation: { executiveEmail: 'exec@example.com' },
+      }),
+    );
+  });
+
+  it('should escalate untouched urgent tasks once per cooldown', async () => {
+    const rule = await service.createRule({
+      name: 'Stale urgent work',
+      conditions: { priority: 'urgent', untouchedForHours: 24 },
+      actions: [
+        { type: 'notify_executive' },
+        { type: 'add_tag', tag: 'Escalated' },
+        { type: 'raise_priority' },
+      ],
+    });
+    expect(rule.isSuccess).toBe(true);
+
+    const stale = Task.create({
+      title: 'Sign lease renewal',
+      priority: 'urgent',
+    });
+    const fresh = Task.create({ title: 'Book flights', priority: 'urgent' });
+    await taskRepository.save(stale);
+    await taskRepository.save(fresh);
+
+    const later = new Date(stale.updatedAt.getTime() + 30 * HOUR_IN_MS);
+    fresh.addTag('travel');
+    jest.spyOn(fresh, 'lastActivityAt', 'get').mockReturnValue(later);
+
+    const run = await service.runEscalations(later);
+    expect(run.value).toMatchObject({ rules: 1, tasks: 2, fired: 1 });
+    const [escalation] = run.value.escalations;
+    expect(escalation).toMatchObject({
+      ruleName: 'Stale urgent work',
+      taskId: stale.id,
+      reasons: ['priority is urgent', 'untouched for 30h'],
+      actions: [
+        { type: 'add_tag', status: 'done', detail: 'escalated' },
+        {
+          type: 'raise_priority',
+          status: 'skipped',
+          detail: 'Priority is already urgent',
+        },
+        {
+          type: 'notify_executive',
+          status: 'done',
+          detail: 'exec@example.com',
+        },
+      ],
+    });
+    expect((await taskRepository.findById(stale.id))!.tags).toEqual([
+      'escalated',
+    ]);
+    expect(sendEmail).toHaveBeenCalledTimes(1);
+    expect(sendEmail.mock.calls[0][0]).toMatchObject({
+      to: 'exec@example.com',
+      subject: 'Escalated: Sign lease renewal',
+    });
+    expect(sendEmail.mock.calls[0][0].text).toContain('untouched for 30h');
+
+    // Within the cooldown the rule leaves the task alone
+    jest.spyOn(stale, 'lastActivityAt', 'get').mockReturnValue(new Date(0));
+    const again = await service.runEscalations(
+      new Date(later.getTime() + 2 * HOUR_IN_MS),
+    );
+    expect(again.value.fired).toBe(0);
+
+    const log = await service.getEscalations({ taskId: stale.id });
+    expect(log.value.map((entry) => entry.id)).toEqual([escalation.id]);
+  });
+
+  it('should raise a task once per run and not count escalations as activity', async () => {
+    await service.createRule({
+      name: 'Stale work',
+      conditions: { untouchedForHours: 24 },
+      actions: [{ type: 'raise_priority' }],
+      cooldownHours: 1,
+    });
+    await service.createRule({
+      name: 'Stale work, tagged',
+      conditions: { untouchedForHours: 24 },
+      actions: [{ type: 'raise_priority' }, { type: 'add_tag', tag: 'stale' }],
+      cooldownHours: 1,
+    });
+
+    jest.useFakeTimers({ now: new Date('2026-05-04T09:00:00Z') });
+    const task = Task.create({ title: 'Renew office lease' });
+    task.delegate(new Email('sam@example.com'), 'token');
+    // Nudging the delegate is not activity on the task either
+    jest.setSystemTime(new Date('2026-05-04T12:00:00Z'));
+    task.recordFollowUp();
+    jest.useRealTimers();
+    await taskRepository.save(task);
+    const save = jest.spyOn(taskRepository, 'save');
+
+    const later = new Date('2026-05-05T15:00:00Z');
+    const run = await service.runEscalations(later);
+    expect(run.value.fired).toBe(2);
+    expect(run.value.escalations.map((entry) => entry.actions[0])).toEqual([
+      { type: 'raise_priority', status: 'done', detail: 'medium -> high' },
+      {
+        type: 'raise_priority',
+        status: 'skipped',
+        detail: 'Priority already raised to high in this run',
+      },
+    ]);
+    expect(save).toHaveBeenCalledTimes(1);
+    const stored = (await taskRepository.findById(task.id))!;
+    expect(stored.priority.value).toBe('high');
+    expect(stored.tags).toEqual(['stale']);
+
+    const again = await service.runEscalations(
+      new Date(later.getTime() + 2 * HOUR_IN_MS),
+    );
+    expect(again.value.escalations[0]).toMatchObject({
+      reasons: ['untouched for 32h'],
+      actions: [{ status: 'done', detail: 'high -> urgent' }],
+    });
+  });
+
+  it('should raise overdue tasks for an assignee and validate rules', async () => {
+    await service.createRule({
+      name: 'Overdue with Sam',
+      conditions: { assignee: 'sam@example.com', overdueForHours: 48 },
+      actions: [{ type: 'raise_priority' }, { type: 'notify_assignee' }],
+    });
+
+    const now = new Date('2026-05-10T12:00:00Z');
+    const overdue = Task.create({
+      title: 'Send investor update',
+      assignee: 'sam@example.com',
+      dueDate: new Date('2026-05-07T09:00:00Z'),
+    });
+    const recent = Task.create({
+      title: 'Review contract',
+      assignee: 'sam@example.com',
+      dueDate: new Date('2026-05-09T09:00:00Z'),
+    });
+    await taskRepository.save(overdue);
+    await taskRepository.save(recent);
+
+    const run = await service.runEscalations(now);
+    expect(run.value.fired).toBe(1);
+    expect(run.value.escalations[0].reasons).toEqual([
+      'assigned to sam@example.com',
+      'overdue by 75h',
+    ]);
+    expect(run.value.escalations[0].actions[0].detail).toBe('medium -> high');
+    expect((await taskRepository.findById(overdue.id))!.priority.value).toBe(
+      'high',
+    );
+    expect(sendEmail.mock.calls[0][0].to).toBe('sam@example.com');
+
+    const invalid = await service.createRule({
+      name: 'Broken',
+      conditions: { overdueForHours: -1 },
+      actions: [{ type: 'notify_executive' }],
+    });
+    expect(invalid.error).toBe(
+      'Invalid rule condition: overdueForHours must be zero or more hours',
+    );
+    const noActions = await service.createRule({
+      name: 'Broken',
+      conditions: { priority: 'urgent' },
+      actions: [],
+    });
+    expect(noActions.error).toBe(
+      'Invalid rule actions: at least one is required',
+    );
+  });
+});
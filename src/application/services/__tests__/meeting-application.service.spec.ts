@@ -0,0 +1,134 @@
+/**
+ * Meeting Application Service Tests - Application Layer
+ * Verifies meeting use cases against the in-memory repository
+ */
+
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { MeetingApplicationService } from '../meeting-application.service';
+import { EventHistoryService } from '../event-history.service';
+import { InMemoryMeetingRepository } from '../../../infrastructure/persistence/in-memory/meeting.repository.impl';
+import { DomainEventDispatcher } from '../../../infrastructure/events/domain-event-dispatcher';
+import { EventStore } from '../../../domain/repositories/event-store.repository';
+import { CreateMeetingDto } from '../../dtos/meeting.dto';
+
+describe('MeetingApplicationService', () => {
+  let service: MeetingApplicationService;
+
+  const hoursFromNow = (hours: number): string =>
+    new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+
+  const meetingData = (
+    overrides: Partial<CreateMeetingDto> = {},
+  ): CreateMeetingDto => ({
+    title: 'Quarterly review',
+    startTime: hoursFromNow(24),
+    endTime: hoursFromNow(25),
+    organizer: 'ceo@example.com',
+    attendees: [{ email: 'cfo@example.com', name: 'CFO' }],
+    meetingType: 'in-person',
+    location: 'Board room',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    const eventStore: EventStore = {
+      append: jest.fn(),
+      findByAggregateId: jest.fn().mockResolvedValue([]),
+    };
+    service = new MeetingApplicationService(
+      new InMemoryMeetingRepository(
+        new DomainEventDispatcher(new EventEmitter2()),
+      ),
+      new EventHistoryService(eventStore),
+    );
+  });
+
+  it('should add the organizer as an attendee when creating a meeting', async () => {
+    const result = await service.createMeeting(meetingData());
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.value.attendees.map((a) => a.email.email)).toEqual([
+      'ceo@example.com',
+      'cfo@example.com',
+    ]);
+    expect(result.value.status).toBe('scheduled');
+  });
+
+  it('should reject meetings that double-book an attendee', async () => {
+    await service.createMeeting(meetingData());
+
+    const result = await service.createMeeting(
+      meetingData({
+        title: 'Budget sync',
+        organizer: 'cfo@example.com',
+        attendees: [],
+        startTime: hoursFromNow(24.5),
+        endTime: hoursFromNow(26),
+      }),
+    );
+
+    expect(result.isFailure).toBe(true);
+    expect(result.error).toBe('Meeting conflicts with: Quarterly review');
+  });
+
+  it('should allow overlapping meetings without shared attendees', async () => {
+    await service.createMeeting(meetingData());
+
+    const result = await service.createMeeting(
+      meetingData({
+        organizer: 'cto@example.com',
+        attendees: [],
+      }),
+    );
+
+    expect(result.isSuccess).toBe(true);
+  });
+
+  it('should leave a meeting untouched when rescheduling conflicts', async () => {
+    const first = await service.createMeeting(meetingData());
+    const second = await service.createMeeting(
+      meetingData({
+        title: 'Budget sync',
+        startTime: hoursFromNow(48),
+        endTime: hoursFromNow(49),
+      }),
+    );
+
+    const result = await service.rescheduleMeeting(second.value.id, {
+      startTime: first.value.dateRange.startDate,
+      endTime: first.value.dateRange.endDate,
+    });
+
+    expect(result.isFailure).toBe(true);
+    const reloaded = await service.getMeetingById(second.value.id);
+    expect(reloaded.value.dateRange).toEqual(second.value.dateRange);
+  });
+
+  it('should record attendee responses and cancellation', async () => {
+    const { value: meeting } = await service.createMeeting(meetingData());
+
+    await service.updateAttendeeResponse(meeting.id, 'CFO@example.com', {
+      responseStatus: 'declined',
+    });
+    const result = await service.cancelMeeting(meeting.id, 'CFO unavailable');
+
+    expect(result.value.status).toBe('cancelled');
+    expect(
+      result.value.attendees.find((a) => a.email.email === 'cfo@example.com')
+        ?.responseStatus,
+    ).toBe('declined');
+  });
+
+  it('should not reschedule a cancelled meeting', async () => {
+    const { value: meeting } = await service.createMeeting(meetingData());
+    await service.cancelMeeting(meeting.id);
+
+    const result = await service.rescheduleMeeting(meeting.id, {
+      startTime: hoursFromNow(72),
+      endTime: hoursFromNow(73),
+    });
+
+    expect(result.isFailure).toBe(true);
+    expect(result.error).toBe('Cannot reschedule cancelled meeting');
+  });
+});
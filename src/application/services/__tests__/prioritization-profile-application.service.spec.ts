@@ -0,0 +1,99 @@
+/**
+ * Prioritization Profile Application Service Tests - Application Layer
+ * Verifies profile seeding, weight normalization and validation
+ */
+
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { PrioritizationProfileApplicationService } from '../prioritization-profile-application.service';
+import { InMemoryPrioritizationProfileRepository } from '../../../infrastructure/persistence/in-memory/prioritization-profile.repository.impl';
+import { DomainEventDispatcher } from '../../../infrastructure/events/domain-event-dispatcher';
+import { TaskPrioritizationService } from '../../../domain/services/task-prioritization.service';
+
+describe('PrioritizationProfileApplicationService', () => {
+  let service: PrioritizationProfileApplicationService;
+
+  beforeEach(() => {
+    service = new PrioritizationProfileApplicationService(
+      new InMemoryPrioritizationProfileRepository(
+        new DomainEventDispatcher(new EventEmitter2()),
+      ),
+      new TaskPrioritizationService(),
+    );
+  });
+
+  it('should seed the built-in profiles into an empty repository', async () => {
+    await service.onModuleInit();
+
+    const result = await service.getProfiles();
+
+    expect(result.value.map((profile) => profile.name)).toEqual([
+      'default',
+      'fundraising week',
+      'travel',
+    ]);
+    expect(result.value[0].criteria).toEqual(
+      new TaskPrioritizationService().defaults,
+    );
+  });
+
+  it('should scale weights to sum to 1 and fill gaps from the defaults', async () => {
+    const result = await service.createProfile({
+      name: 'Deadlines only',
+      criteria: {
+        dueDateWeight: 3,
+        priorityWeight: 1,
+        statusWeight: 0,
+        dependencyWeight: 0,
+        estimatedDurationWeight: 0,
+      },
+      tagBoosts: { ' Board ': 10 },
+    });
+
+    expect(result.value.criteria.dueDateWeight).toBe(0.75);
+    expect(result.value.criteria.priorityWeight).toBe(0.25);
+    expect(result.value.tagBoosts).toEqual({ board: 10 });
+
+    const partial = await service.createProfile({
+      name: 'Importance',
+      criteria: { priorityWeight: 0.25 },
+    });
+    expect(partial.value.criteria).toEqual(
+      new TaskPrioritizationService().defaults,
+    );
+  });
+
+  it('should reject invalid weights, boosts and caps', async () => {
+    const negative = await service.createProfile({
+      name: 'broken',
+      criteria: { dueDateWeight: -1 },
+    });
+    expect(negative.error).toBe(
+      'Invalid weight for dueDateWeight: must be zero or more',
+    );
+
+    const boost = await service.createProfile({
+      name: 'broken',
+      assigneeBoosts: { 'ceo@example.com': 500 },
+    });
+    expect(boost.error).toContain('must be between -100 and 100');
+
+    const cap = await service.createProfile({
+      name: 'broken',
+      factorCaps: { urgency: 50 } as any,
+    });
+    expect(cap.error).toBe('Invalid factor cap: unknown factor "urgency"');
+  });
+
+  it('should update profiles by name and protect the default profile', async () => {
+    await service.onModuleInit();
+
+    const updated = await service.updateProfile('travel', {
+      assigneeBoosts: { 'Chief@Example.com': 10 },
+    });
+    expect(updated.value.assigneeBoosts).toEqual({ 'chief@example.com': 10 });
+    expect(updated.value.factorCaps).toEqual({ status: 60 });
+
+    const deleted = await service.deleteProfile('default');
+    expect(deleted.error).toBe('The default profile cannot be deleted');
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Saved View Application Service Tests - Application Layer
+ * Verifies view validation, date token resolution and evaluation
+ */
+
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { SavedViewApplicationService } from '../saved-view-application.service';
+import { InMemorySavedViewRepository } from '../../../infrastructure/persistence/in-memory/saved-view.repository.impl';
+import { InMemoryTaskRepository } from '../../../infrastructure/persistence/in-memory/task.repository.impl';
+import { DomainEventDispatcher } from '../../../infrastructure/events/domain-event-dispatcher';
+import { GetTasksHandler } from '../../queries/task/get-tasks.handler';
+import { Task } from '../../../domain/entities/task.entity';
+import { DateToken } from '../../../domain/common/value-objects';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+describe('SavedViewApplicationService', () => {
+  let service: SavedViewApplicationService;
+  let taskRepository: InMemoryTaskRepository;
+
+  beforeEach(() => {
+    const dispatcher = new DomainEventDispatcher(new EventEmitter2());
+    taskRepository = new InMemoryTaskRepository(dispatcher);
+    service = new SavedViewApplicationService(
+      new InMemorySavedViewRepository(dispatcher),
+      new GetTasksHandler(taskRepository),
+      new ConfigService(),
+    );
+  });
+
+  it('should resolve date tokens to the bounds of their day or period', () => {
+    const now = new Date('2025-01-29T15:30:00Z'); // a Wednesday
+    const resolve = (token: string, edge: 'start' | 'end') =>
+      new DateToken(token).resolve(now, edge).toISOString();
+
+    expect(resolve('today', 'start')).toBe('2025-01-29T00:00:00.000Z');
+    expect(resolve('today', 'end')).toBe('2025-01-29T23:59:59.999Z');
+    expect(resolve('+7d', 'end')).toBe('2025-02-05T23:59:59.999Z');
+    expect(resolve('-1w', 'start')).toBe('2025-01-22T00:00:00.000Z');
+    expect(resolve('+1m', 'start')).toBe('2025-02-28T00:00:00.000Z');
+    expect(resolve('this-week', 'start')).toBe('2025-01-27T00:00:00.000Z');
+    expect(resolve('this-week', 'end')).toBe('2025-02-02T23:59:59.999Z');
+    expect(resolve('next-month', 'end')).toBe('2025-02-28T23:59:59.999Z');
+    expect(resolve('2025-03-01', 'end')).toBe('2025-03-01T23:59:59.999Z');
+    expect(() => new DateToken('someday')).toThrow('Invalid date token');
+  });
+
+  it('should resolve date tokens on the calendar of a time zone', () => {
+    // Still Sunday in New York, already Monday in UTC
+    const now = new Date('2025-02-03T02:00:00Z');
+    const resolve = (token: string, edge: 'start' | 'end') =>
+      new DateToken(token).resolve(now, edge, 'America/New_York').toISOString();
+
+    expect(resolve('today', 'start')).toBe('2025-02-02T05:00:00.000Z');
+    expect(resolve('today', 'end')).toBe('2025-02-03T04:59:59.999Z');
+    expect(resolve('this-week', 'start')).toBe('2025-01-27T05:00:00.000Z');
+    expect(resolve('2025-03-09', 'end')).toBe('2025-03-10T03:59:59.999Z');
+  });
+
+  it('should evaluate the stored query against current tasks', async () => {
+    const dueIn = (days: number) => new Date(Date.now() + days * DAY_IN_MS);
+    for (const [title, days, priority] of [
+      ['Sign lease', 2, 'high'],
+      ['Renew passport', 20, 'high'],
+      ['Order toner', 3, 'low'],
+    ] as const) {
+      await taskRepository.save(
+        Task.create({ title, priority, dueDate: dueIn(days) }),
+      );
+    }
+
+    const created = await service.createView({
+      name: 'High priority this fortnight',
+      query: {
+        filters: { priority: 'high', dueDateFrom: 'today', dueDateTo: '+14d' },
+        sortBy: 'dueDate',
+        sortOrder: 'asc',
+      },
+    });
+    expect(created.isSuccess).toBe(true);
+    expect(created.value.query.filters?.dueDateTo).toBe('+14d');
+
+    const result = await service.evaluateView('high priority this fortnight');
+
+    expect(result.value.tasks.items.map((task) => task.title)).toEqual([
+      'Sign lease',
+    ]);
+    expect(result.value.resolvedQuery.filters?.dueDateTo).toMatch(
+      /T23:59:59\.999Z$/,
+    );
+  });
+
+  it('should reject invalid queries and duplicate names', async () => {
+    const invalid = await service.createView({
+      name: 'Broken',
+      query: { filters: { dueDateTo: 'soonish' } },
+    });
+    expect(invalid.error).toMatch(/^Invalid date token: soonish/);
+
+    const unknown = await service.createView({
+      name: 'Broken',
+      query: { filters: { owner: 'me' } as any },
+    });
+    expect(unknown.error).toBe('Invalid view filter: unknown filter "owner"');
+
+    await service.createView({ name: 'Mine', query: { filters: {} } });
+    const duplicate = await service.createView({
+      name: 'MINE',
+      query: { filters: {} },
+    });
+    expect(duplicate.error).toBe('View "MINE" already exists');
+  });
+});
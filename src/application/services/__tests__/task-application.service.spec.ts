@@ -0,0 +1,474 @@
+/**
+ * Task Application Service Tests - Application Layer
+ * Verifies subtasks, checklists, dependencies, prioritization, day planning
+ * and bulk operations
+ */
+
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { TaskApplicationService } from '../task-application.service';
+import { EventHistoryService } from '../event-history.service';
+import { CreateTaskHandler } from '../../commands/task/create-task.handler';
+import { UpdateTaskHandler } from '../../commands/task/update-task.handler';
+import { GetTasksHandler } from '../../queries/task/get-tasks.handler';
+import { InMemoryTaskRepository } from '../../../infrastructure/persistence/in-memory/task.repository.impl';
+import { InMemoryTaskBoardRepository } from '../../../infrastructure/persistence/in-memory/task-board.repository.impl';
+import { InMemoryPrioritizationProfileRepository } from '../../../infrastructure/persistence/in-memory/prioritization-profile.repository.impl';
+import { DomainEventDispatcher } from '../../../infrastructure/events/domain-event-dispatcher';
+import { TaskPrioritizationService } from '../../../domain/services/task-prioritization.service';
+import { TaskDependencyGraphService } from '../../../domain/services/task-dependency-graph.service';
+import { TaskPlanningService } from '../../../domain/services/task-planning.service';
+import { TaskTimeAnalyticsService } from '../../../domain/services/task-time-analytics.service';
+import { PrioritizationProfile } from '../../../domain/entities/prioritization-profile.entity';
+import { CalendarProvider } from '../../../infrastructure/external-services/calendar-provider/calendar-provider.interface';
+import { TaskSearchIndex } from '../../../infrastructure/search/task-search-index';
+import { EventStore } from '../../../domain/repositories/event-store.repository';
+
+describe('TaskApplicationService', () => {
+  let service: TaskApplicationService;
+  let profileRepository: InMemoryPrioritizationProfileRepository;
+  let eventEmitter: EventEmitter2;
+  let config: ConfigService;
+  let calendarService: jest.Mocked<
+    Pick<CalendarProvider, 'checkAvailability' | 'createEvent' | 'deleteEvent'>
+  >;
+
+  const createTask = async (data: {
+    title: string;
+    parentId?: string;
+    estimatedDuration?: number;
+    dependencies?: string[];
+    tags?: string[];
+    priority?: 'low' | 'medium' | 'high' | 'urgent';
+    dueDate?: string;
+  }) => {
+    const result = await service.createTask(data);
+    expect(result.isSuccess).toBe(true);
+    return result.value;
+  };
+
+  beforeEach(() => {
+    eventEmitter = new EventEmitter2();
+    const eventDispatcher = new DomainEventDispatcher(eventEmitter);
+    const repository = new InMemoryTaskRepository(eventDispatcher);
+    profileRepository = new InMemoryPrioritizationProfileRepository(
+      eventDispatcher,
+    );
+    const eventStore: EventStore = {
+      append: jest.fn(),
+      findByAggregateId: jest.fn().mockResolvedValue([]),
+    };
+
+    const dependencyGraphService = new TaskDependencyGraphService();
+    calendarService = {
+      checkAvailability: jest.fn(),
+      createEvent: jest
+        .fn()
+        .mockImplementation(async (event) => ({ ...event, id: 'event_1' })),
+      deleteEvent: jest.fn(),
+    };
+
+    config = new ConfigService({ application: { timezone: 'UTC' } });
+    service = new TaskApplicationService(
+      new CreateTaskHandler(repository),
+      new UpdateTaskHandler(
+        repository,
+        dependencyGraphService,
+        new InMemoryTaskBoardRepository(eventDispatcher),
+      ),
+      new GetTasksHandler(repository),
+      repository,
+      profileRepository,
+      new TaskPrioritizationService(),
+      dependencyGraphService,
+      new TaskPlanningService(),
+      new TaskTimeAnalyticsService(),
+      new TaskSearchIndex(repository),
+      calendarService as unknown as CalendarProvider,
+      new EventHistoryService(eventStore),
+      config,
+    );
+  });
+
+  it('should roll up progress and estimates through the subtree', async () => {
+    const project = await createTask({ title: 'Close Series A' });
+    const diligence = await createTask({
+      title: 'Due diligence',
+      parentId: project.id,
+    });
+    await createTask({
+      title: 'Data room',
+      parentId: diligence.id,
+      estimatedDuration: 120,
+    });
+    const termSheet = await createTask({
+      title: 'Term sheet',
+      parentId: project.id,
+      estimatedDuration: 60,
+    });
+    const withItem = await service.addChecklistItem(termSheet.id, {
+      text: 'Legal review',
+    });
+    await service.updateChecklistItem(
+      termSheet.id,
+      withItem.value.checklist[0].id,
+      { done: true },
+    );
+
+    const result = await service.getTaskSubtree(project.id);
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.value.openSubtasks).toBe(2);
+    expect(result.value.estimatedDuration).toBe(180);
+    // Data room 0%, so due diligence 0%; term sheet checklist 100%
+    expect(result.value.progress).toBe(50);
+    expect(result.value.subtasks.map((node) => node.task.title)).toEqual([
+      'Due diligence',
+      'Term sheet',
+    ]);
+    expect(result.value.subtasks[0].subtasks[0].task.parentId).toBe(
+      diligence.id,
+    );
+  });
+
+  it('should not complete a parent while subtasks are open', async () => {
+    const project = await createTask({ title: 'Close Series A' });
+    const step = await createTask({
+      title: 'Sign term sheet',
+      parentId: project.id,
+    });
+
+    const blocked = await service.updateTask(project.id, {
+      status: 'completed',
+    });
+    expect(blocked.error).toBe(
+      'Cannot complete a task while it has open subtasks',
+    );
+
+    await service.updateTask(step.id, { status: 'completed' });
+    const completed = await service.updateTask(project.id, {
+      status: 'completed',
+    });
+    expect(completed.isSuccess).toBe(true);
+  });
+
+  it('should reject moving a task below its own subtask', async () => {
+    const project = await createTask({ title: 'Close Series A' });
+    const step = await createTask({
+      title: 'Due diligence',
+      parentId: project.id,
+    });
+
+    const result = await service.updateTask(project.id, { parentId: step.id });
+
+    expect(result.error).toBe('Task cannot be moved below its own subtask');
+  });
+
+  it('should not delete a task that still has subtasks', async () => {
+    const project = await createTask({ title: 'Close Series A' });
+    await createTask({ title: 'Due diligence', parentId: project.id });
+
+    const result = await service.deleteTask(project.id);
+
+    expect(result.error).toBe('Cannot delete a task that has subtasks');
+  });
+
+  it('should reject dependencies that are missing or form a cycle', async () => {
+    const research = await createTask({ title: 'Research investors' });
+    const deck = await createTask({
+      title: 'Pitch deck',
+      dependencies: [research.id],
+    });
+    const outreach = await createTask({
+      title: 'Investor outreach',
+      dependencies: [deck.id],
+    });
+
+    const missing = await service.createTask({
+      title: 'Follow up',
+      dependencies: ['task_missing'],
+    });
+    expect(missing.error).toBe('Dependency task not found: task_missing');
+
+    const cycle = await service.updateTask(research.id, {
+      dependencies: [outreach.id],
+    });
+    expect(cycle.error).toBe(
+      `Dependency cycle detected: ${research.id} -> ${outreach.id} -> ${deck.id} -> ${research.id}`,
+    );
+  });
+
+  it('should render the dependency graph as DOT with the critical path', async () => {
+    const research = await createTask({
+      title: 'Research "top" investors',
+      estimatedDuration: 60,
+    });
+    const deck = await createTask({
+      title: 'Pitch deck',
+      estimatedDuration: 120,
+      dependencies: [research.id],
+    });
+
+    const result = await service.getDependencyGraphDot();
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.value).toContain('digraph tasks {');
+    expect(result.value).toContain(
+      `"${research.id}" [label="Research \\"top\\" investors\\npending", color=red, penwidth=2];`,
+    );
+    expect(result.value).toContain(
+      `"${research.id}" -> "${deck.id}" [color=red, penwidth=2];`,
+    );
+  });
+
+  it('should rank with the selected profile and explain its boosts', async () => {
+    await profileRepository.save(
+      PrioritizationProfile.create({
+        name: 'fundraising week',
+        criteria: new TaskPrioritizationService().defaults,
+        tagBoosts: { investors: 20 },
+        assigneeBoosts: {},
+        factorCaps: { estimatedDuration: 40 },
+      }),
+    );
+    await createTask({ title: 'Expense report', estimatedDuration: 15 });
+    await createTask({ title: 'Call lead investor', tags: ['Investors'] });
+
+    const unprofiled = await service.prioritizeTasks({});
+    expect(unprofiled.value.prioritizedTasks[0].task.title).toBe(
+      'Expense report',
+    );
+    expect(unprofiled.value.profile).toBeUndefined();
+
+    const result = await service.prioritizeTasks({
+      profile: 'Fundraising Week',
+    });
+
+    expect(result.value.profile).toBe('fundraising week');
+    const [first, second] = result.value.prioritizedTasks;
+    expect(first.task.title).toBe('Call lead investor');
+    expect(first.factors.tagBoost).toBe(20);
+    expect(second.factors.estimatedDuration).toBe(40);
+
+    const missing = await service.prioritizeTasks({ profile: 'holiday' });
+    expect(missing.error).toBe("Prioritization profile 'holiday' not found");
+  });
+
+  it('should time-box the most important tasks into free gaps', async () => {
+    const day = new Date(Date.now() + 24 * 60 * 60 * 1000)
+      .toISOString()
+      .split('T')[0];
+    calendarService.checkAvailability.mockResolvedValue({
+      date: day,
+      availableSlots: [],
+      busySlots: [
+        { start: `${day}T10:00:00Z`, end: `${day}T11:00:00Z`, duration: 60 },
+      ],
+      workingHours: { start: '09:00', end: '12:00' },
+    });
+
+    await createTask({
+      title: 'Investor update',
+      priority: 'high',
+      estimatedDuration: 60,
+      dueDate: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000).toISOString(),
+    });
+    await createTask({
+      title: 'Offsite agenda',
+      priority: 'high',
+      estimatedDuration: 120,
+    });
+    await createTask({ title: 'Tidy inbox', priority: 'low' });
+    await createTask({
+      title: 'Board memo',
+      priority: 'urgent',
+      estimatedDuration: 45,
+    });
+
+    const matrix = await service.getEisenhowerMatrix();
+    expect(matrix.value.do.map((task) => task.title)).toEqual(['Board memo']);
+    expect(matrix.value.eliminate.map((task) => task.title)).toEqual([
+      'Tidy inbox',
+    ]);
+
+    const result = await service.planDay({
+      date: day,
+      workingHours: { start: '09:00', end: '12:00' },
+      createFocusBlocks: true,
+    });
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.value.freeMinutes).toBe(120);
+    expect(
+      result.value.schedule.map((block) => [block.title, block.start]),
+    ).toEqual([
+      ['Board memo', `${day}T09:00:00.000Z`],
+      ['Investor update', `${day}T11:00:00.000Z`],
+    ]);
+    expect(result.value.schedule[0].focusBlockEventId).toBe('event_1');
+    expect(calendarService.createEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ summary: 'Focus: Board memo' }),
+    );
+    expect(
+      result.value.overflow.map((item) => [item.title, item.reason]),
+    ).toEqual([
+      ['Offsite agenda', 'No free gap is long enough'],
+      ['Tidy inbox', 'Neither urgent nor important'],
+    ]);
+  });
+
+  it('should plan the day in the configured time zone', async () => {
+    jest.useFakeTimers({ now: new Date('2026-03-10T20:00:00Z') });
+    config.set('application.timezone', 'Asia/Tokyo');
+    calendarService.checkAvailability.mockResolvedValue({
+      date: '2026-03-11',
+      availableSlots: [],
+      busySlots: [],
+      workingHours: { start: '09:00', end: '12:00' },
+    });
+    await createTask({ title: 'Board memo', priority: 'urgent' });
+
+    try {
+      // Already 11 March at 05:00 in Tokyo
+      const result = await service.planDay({
+        workingHours: { start: '09:00', end: '12:00' },
+      });
+
+      expect(result.value.date).toBe('2026-03-11');
+      expect(result.value.schedule[0].start).toBe('2026-03-11T00:00:00.000Z');
+      expect(calendarService.checkAvailability).toHaveBeenCalledWith(
+        '2026-03-11',
+        undefined,
+        { start: '09:00', end: '12:00' },
+      );
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should remove created focus blocks when a later one fails', async () => {
+    const day = new Date(Date.now() + 24 * 60 * 60 * 1000)
+      .toISOString()
+      .split('T')[0];
+    calendarService.checkAvailability.mockResolvedValue({
+      date: day,
+      availableSlots: [],
+      busySlots: [],
+      workingHours: { start: '09:00', end: '12:00' },
+    });
+    calendarService.createEvent
+      .mockResolvedValueOnce({ id: 'event_1' } as any)
+      .mockRejectedValueOnce(new Error('Calendar quota exceeded'));
+
+    await createTask({ title: 'Board memo', priority: 'urgent' });
+    await createTask({ title: 'Investor update', priority: 'high' });
+
+    const result = await service.planDay({
+      date: day,
+      workingHours: { start: '09:00', end: '12:00' },
+      createFocusBlocks: true,
+    });
+
+    expect(result.error).toBe(
+      'Failed to create focus blocks: Calendar quota exceeded',
+    );
+    expect(calendarService.deleteEvent).toHaveBeenCalledWith('event_1');
+  });
+
+  it('should report bulk failures per item and keep the rest', async () => {
+    const memo = await createTask({ title: 'Board memo', tags: ['board'] });
+
+    const result = await service.executeBulkOperations({
+      operations: [
+        { op: 'create', data: { title: 'Book venue' } },
+        { op: 'complete', taskId: 'missing' },
+        {
+          op: 'retag',
+          taskId: memo.id,
+          addTags: ['Q3'],
+          removeTags: ['Board'],
+        },
+      ],
+    });
+
+    expect(result.value).toMatchObject({ succeeded: 2, failed: 1 });
+    expect(result.value.results.map((item) => item.status)).toEqual([
+      'succeeded',
+      'failed',
+      'succeeded',
+    ]);
+    expect(result.value.results[1].error).toBe('Task not found');
+    expect(result.value.results[2].task?.tags).toEqual(['q3']);
+  });
+
+  it('should run none of an atomic bulk run when one would fail', async () => {
+    const memo = await createTask({ title: 'Board memo' });
+    const venue = await createTask({ title: 'Book venue' });
+    const events: string[] = [];
+    eventEmitter.onAny((event) => events.push(String(event)));
+
+    const result = await service.executeBulkOperations({
+      atomic: true,
+      operations: [
+        { op: 'create', data: { title: 'Send invites' } },
+        { op: 'update', taskId: memo.id, data: { priority: 'urgent' } },
+        { op: 'delete', taskId: venue.id },
+        { op: 'update', taskId: memo.id, data: { title: ' ' } },
+        { op: 'complete', taskId: memo.id },
+      ],
+    });
+
+    expect(result.value).toMatchObject({
+      succeeded: 0,
+      failed: 1,
+      rejected: true,
+    });
+    expect(result.value.results.map((item) => item.status)).toEqual([
+      'skipped',
+      'skipped',
+      'skipped',
+      'failed',
+      'skipped',
+    ]);
+    expect(result.value.results[3].error).toBe('Task title cannot be empty');
+
+    // Nothing was published, so no listener acted on the trial run
+    expect(events).toEqual([]);
+    const tasks = await service.getTasks({});
+    expect(tasks.value.items.map((task) => task.title).sort()).toEqual([
+      'Board memo',
+      'Book venue',
+    ]);
+    expect((await service.getTaskById(memo.id)).value).toEqual(memo);
+  });
+
+  it('should see earlier operations when trying an atomic bulk run', async () => {
+    const venue = await createTask({ title: 'Book venue' });
+
+    const rejected = await service.executeBulkOperations({
+      atomic: true,
+      operations: [
+        { op: 'delete', taskId: venue.id },
+        { op: 'complete', taskId: venue.id },
+      ],
+    });
+    expect(rejected.value.results[1]).toMatchObject({
+      status: 'failed',
+      error: 'Task not found',
+    });
+    expect((await service.getTaskById(venue.id)).isSuccess).toBe(true);
+
+    const applied = await service.executeBulkOperations({
+      atomic: true,
+      operations: [
+        { op: 'update', taskId: venue.id, data: { priority: 'high' } },
+        { op: 'complete', taskId: venue.id },
+      ],
+    });
+    expect(applied.value).toMatchObject({ succeeded: 2, rejected: false });
+    expect((await service.getTaskById(venue.id)).value).toMatchObject({
+      priority: 'high',
+      status: 'completed',
+    });
+  });
+});
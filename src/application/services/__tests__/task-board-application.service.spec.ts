@@ -0,0 +1,222 @@
+/**
+ * Task Board Application Service Tests - Application Layer
+ * Verifies column ordering, moves between columns, WIP limits and
+ * concurrent moves
+ */
+
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { TaskBoardApplicationService } from '../task-board-application.service';
+import { TaskApplicationService } from '../task-application.service';
+import { EventHistoryService } from '../event-history.service';
+import { CreateTaskHandler } from '../../commands/task/create-task.handler';
+import { UpdateTaskHandler } from '../../commands/task/update-task.handler';
+import { GetTasksHandler } from '../../queries/task/get-tasks.handler';
+import { InMemoryTaskRepository } from '../../../infrastructure/persistence/in-memory/task.repository.impl';
+import { InMemoryTaskBoardRepository } from '../../../infrastructure/persistence/in-memory/task-board.repository.impl';
+import { InMemoryPrioritizationProfileRepository } from '../../../infrastructure/persistence/in-memory/prioritization-profile.repository.impl';
+import { DomainEventDispatcher } from '../../../infrastructure/events/domain-event-dispatcher';
+import { TaskPrioritizationService } from '../../../domain/services/task-prioritization.service';
+import { TaskDependencyGraphService } from '../../../domain/services/task-dependency-graph.service';
+import { TaskPlanningService } from '../../../domain/services/task-planning.service';
+import { TaskTimeAnalyticsService } from '../../../domain/services/task-time-analytics.service';
+import { CalendarProvider } from '../../../infrastructure/external-services/calendar-provider/calendar-provider.interface';
+import { TaskSearchIndex } from '../../../infrastructure/search/task-search-index';
+import { DEFAULT_BOARD_ID } from '../../../domain/entities/task-board.entity';
+
+describe('TaskBoardApplicationService', () => {
+  let service: TaskBoardApplicationService;
+  let taskService: TaskApplicationService;
+  let eventEmitter: EventEmitter2;
+  let boardRepository: InMemoryTaskBoardRepository;
+
+  const createTask = async (title: string) => {
+    const result = await taskService.createTask({ title });
+    expect(result.isSuccess).toBe(true);
+    return result.value.id;
+  };
+
+  const columnIds = async (status: string) => {
+    const board = await service.getBoard();
+    return board.value.columns
+      .find((column) => column.status === status)!
+      .cards.map((card) => card.id);
+  };
+
+  beforeEach(() => {
+    eventEmitter = new EventEmitter2();
+    const eventDispatcher = new DomainEventDispatcher(eventEmitter);
+    const repository = new InMemoryTaskRepository(eventDispatcher);
+    const dependencyGraphService = new TaskDependencyGraphService();
+    boardRepository = new InMemoryTaskBoardRepository(eventDispatcher);
+
+    taskService = new TaskApplicationService(
+      new CreateTaskHandler(repository),
+      new UpdateTaskHandler(
+        repository,
+        dependencyGraphService,
+        boardRepository,
+      ),
+      new GetTasksHandler(repository),
+      repository,
+      new InMemoryPrioritizationProfileRepository(eventDispatcher),
+      new TaskPrioritizationService(),
+      dependencyGraphService,
+      new TaskPlanningService(),
+      new TaskTimeAnalyticsService(),
+      new TaskSearchIndex(repository),
+      {} as CalendarProvider,
+      new EventHistoryService({
+        append: jest.fn(),
+        findByAggregateId: jest.fn().mockResolvedValue([]),
+      }),
+      new ConfigService(),
+    );
+    service = new TaskBoardApplicationService(
+      boardRepository,
+      repository,
+      taskService,
+    );
+
+    // Wire the listeners the way @OnEvent would
+    eventEmitter.on('TaskCreated', (event) => service.handleTaskChanged(event));
+    eventEmitter.on('TaskUpdated', (event) => service.handleTaskChanged(event));
+    eventEmitter.on('TaskDeleted', (event) => service.handleTaskDeleted(event));
+  });
+
+  it('should keep a manual order within and across columns', async () => {
+    const draft = await createTask('Draft board memo');
+    const book = await createTask('Book venue');
+    const call = await createTask('Call caterer');
+    expect(await columnIds('pending')).toEqual([draft, book, call]);
+
+    const toTop = await service.moveTask(call, { position: 0 });
+    expect(toTop.value).toMatchObject({ status: 'pending', position: 0 });
+    expect(await columnIds('pending')).toEqual([call, draft, book]);
+
+    const started = await service.moveTask(draft, {
+      status: 'in-progress',
+      position: 5,
+    });
+    expect(started.value).toMatchObject({
+      status: 'in-progress',
+      position: 0,
+      warnings: [],
+    });
+    expect(started.value.task.status).toBe('in-progress');
+    expect(await columnIds('pending')).toEqual([call, book]);
+
+    // Status changes made elsewhere land at the bottom of the new column
+    await taskService.updateTask(book, { status: 'in-progress' });
+    expect(await columnIds('in-progress')).toEqual([draft, book]);
+
+    await taskService.deleteTask(draft);
+    const board = await service.getBoard({ limit: 1 });
+    const inProgress = board.value.columns[1];
+    expect(inProgress).toMatchObject({ status: 'in-progress', count: 1 });
+    expect(inProgress.cards.map((card) => card.position)).toEqual([0]);
+
+    const invalid = await service.moveTask(call, { position: -1 });
+    expect(invalid.error).toBe('Invalid position: must be zero or more');
+  });
+
+  it('should reject or warn on moves past a WIP limit', async () => {
+    const first = await createTask('Prepare Q3 review');
+    const second = await createTask('Renew passport');
+    const third = await createTask('Plan offsite');
+
+    const updated = await service.updateBoard({
+      wipLimits: { 'in-progress': { limit: 1 } },
+    });
+    expect(updated.value.wipLimits).toEqual({
+      'in-progress': { limit: 1, enforcement: 'reject' },
+    });
+
+    await service.moveTask(first, { status: 'in-progress' });
+    const rejected = await service.moveTask(second, { status: 'in-progress' });
+    expect(rejected.error).toBe(
+      'WIP limit reached: in-progress allows 1 tasks',
+    );
+    expect(await columnIds('pending')).toEqual([second, third]);
+
+    // The limit holds for status changes made outside the board too
+    const updatedElsewhere = await taskService.updateTask(second, {
+      status: 'in-progress',
+    });
+    expect(updatedElsewhere.error).toBe(
+      'WIP limit reached: in-progress allows 1 tasks',
+    );
+    const bulk = await taskService.executeBulkOperations({
+      operations: [
+        { op: 'update', taskId: third, data: { status: 'in-progress' } },
+      ],
+    });
+    expect(bulk.value.results[0]).toMatchObject({
+      status: 'failed',
+      error: 'WIP limit reached: in-progress allows 1 tasks',
+    });
+
+    // Reordering within a full column is still allowed
+    const reorder = await service.moveTask(first, { position: 0 });
+    expect(reorder.isSuccess).toBe(true);
+
+    await service.updateBoard({
+      wipLimits: { 'in-progress': { limit: 1, enforcement: 'warn' } },
+    });
+    const warned = await service.moveTask(second, {
+      status: 'in-progress',
+      position: 0,
+    });
+    expect(warned.value.warnings).toEqual([
+      'in-progress now has 2 tasks, over its WIP limit of 1',
+    ]);
+    expect(await columnIds('in-progress')).toEqual([second, first]);
+
+    const board = await service.getBoard();
+    expect(board.value.columns[1]).toMatchObject({
+      count: 2,
+      overLimit: true,
+    });
+
+    const invalid = await service.updateBoard({
+      wipLimits: { blocked: { limit: 2 } },
+    });
+    expect(invalid.error).toContain('Invalid WIP limit column: blocked');
+  });
+
+  it('should keep both of two concurrent moves', async () => {
+    const ids = [
+      await createTask('Draft board memo'),
+      await createTask('Book venue'),
+      await createTask('Call caterer'),
+      await createTask('Send agenda'),
+    ];
+
+    await Promise.all([
+      service.moveTask(ids[3], { position: 0 }),
+      service.moveTask(ids[2], { position: 1 }),
+    ]);
+
+    expect(await columnIds('pending')).toEqual([
+      ids[3],
+      ids[2],
+      ids[0],
+      ids[1],
+    ]);
+  });
+
+  it('should forget tasks deleted while it was not listening', async () => {
+    const kept = await createTask('Draft board memo');
+    const deleted = await createTask('Book venue');
+    const storedColumn = async () =>
+      (await boardRepository.findById(DEFAULT_BOARD_ID))!.toJSON().columns
+        .pending;
+
+    eventEmitter.removeAllListeners('TaskDeleted');
+    await taskService.deleteTask(deleted);
+    expect(await storedColumn()).toEqual([kept, deleted]);
+
+    expect(await columnIds('pending')).toEqual([kept]);
+    expect(await storedColumn()).toEqual([kept]);
+  });
+});
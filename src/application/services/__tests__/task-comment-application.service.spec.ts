@@ -0,0 +1,156 @@
+/**
+ * Task Comment Application Service Tests - Application Layer
+ * Verifies comment history, mention digests and the activity feed
+ */
+
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { TaskCommentApplicationService } from '../task-comment-application.service';
+import { EmailApplicationService } from '../email-application.service';
+import { EmailTemplateApplicationService } from '../email-template-application.service';
+import { EventHistoryService } from '../event-history.service';
+import { Result } from '../../common/result';
+import { InMemoryTaskRepository } from '../../../infrastructure/persistence/in-memory/task.repository.impl';
+import { InMemoryTaskCommentRepository } from '../../../infrastructure/persistence/in-memory/task-comment.repository.impl';
+import { InMemoryEmailTemplateRepository } from '../../../infrastructure/persistence/in-memory/email-template.repository.impl';
+import { DomainEventDispatcher } from '../../../infrastructure/events/domain-event-dispatcher';
+import { HandlebarsTemplateRenderer } from '../../../infrastructure/templating/handlebars-template-renderer';
+import type { StoredEvent } from '../../../domain/repositories/event-store.repository';
+import type { DomainEvent } from '../../../domain/common/domain-events';
+import { Task } from '../../../domain/entities/task.entity';
+import { Priority, TaskStatus } from '../../../domain/common/value-objects';
+
+describe('TaskCommentApplicationService', () => {
+  let service: TaskCommentApplicationService;
+  let taskRepository: InMemoryTaskRepository;
+  let commentRepository: InMemoryTaskCommentRepository;
+  let sendEmail: jest.Mock;
+  let task: Task;
+
+  beforeEach(async () => {
+    const eventEmitter = new EventEmitter2();
+    const dispatcher = new DomainEventDispatcher(eventEmitter);
+    const stored: StoredEvent[] = [];
+    const eventStore = {
+      append: async (event: DomainEvent) => {
+        const entry: StoredEvent = {
+          sequence: stored.length + 1,
+          eventId: event.eventId,
+          aggregateId: event.aggregateId,
+          eventType: event.eventType,
+          occurredOn: event.occurredOn.toISOString(),
+          eventData: event.eventData,
+        };
+        stored.push(entry);
+        return entry;
+      },
+      findByAggregateId: async (aggregateId: string) =>
+        stored.filter((event) => event.aggregateId === aggregateId),
+    };
+    eventEmitter.onAny((_type, event) => eventStore.append(event));
+
+    const eventHistoryService = new EventHistoryService(eventStore);
+    const templateService = new EmailTemplateApplicationService(
+      new InMemoryEmailTemplateRepository(dispatcher),
+      new HandlebarsTemplateRenderer(),
+      eventHistoryService,
+    );
+    await templateService.onModuleInit();
+
+    taskRepository = new InMemoryTaskRepository(dispatcher);
+    commentRepository = new InMemoryTaskCommentRepository(dispatcher);
+    sendEmail = jest.fn().mockResolvedValue(Result.success({}));
+    service = new TaskCommentApplicationService(
+      commentRepository,
+      taskRepository,
+      eventHistoryService,
+      { sendEmail } as unknown as EmailApplicationService,
+      templateService,
+    );
+
+    task = Task.create({ title: 'Prepare offsite agenda' });
+    await taskRepository.save(task);
+  });
+
+  it('should keep edit history and send each mentioned person one digest', async () => {
+    const added = await service.addComment(task.id, {
+      body: 'Can @Sam@Example.com check the venue? cc @exec@example.com',
+      author: 'exec@example.com',
+      attachments: [{ url: 'https://files.example.com/docs/venues.pdf' }],
+    });
+    expect(added.isSuccess).toBe(true);
+    expect(added.value.mentions).toEqual([
+      'sam@example.com',
+      'exec@example.com',
+    ]);
+    expect(added.value.attachments).toEqual([
+      {
+        name: 'venues.pdf',
+        url: 'https://files.example.com/docs/venues.pdf',
+      },
+    ]);
+
+    const edited = await service.editComment(task.id, added.value.id, {
+      body: 'Can @sam@example.com and @kim@example.com check the venue?',
+    });
+    expect(edited.value.revisions).toHaveLength(1);
+    expect(edited.value.revisions[0].body).toContain('cc @exec@example.com');
+    expect(edited.value.editedAt).toBeDefined();
+
+    const digests = await service.sendMentionDigests();
+    expect(digests.value).toEqual({ recipients: 2, sent: 2, failed: 0 });
+    expect(sendEmail.mock.calls.map(([email]) => email.to).sort()).toEqual([
+      'kim@example.com',
+      'sam@example.com',
+    ]);
+    expect(sendEmail.mock.calls[0][0].subject).toBe(
+      'New mentions in task comments (1)',
+    );
+    expect(sendEmail.mock.calls[0][0].text).toContain('Prepare offsite agenda');
+
+    // Already notified, so nothing is sent again
+    await service.sendMentionDigests();
+    expect(sendEmail).toHaveBeenCalledTimes(2);
+  });
+
+  it('should merge comments and task changes into one activity feed', async () => {
+    jest.useFakeTimers({ now: new Date('2026-03-02T09:00:00Z') });
+    try {
+      await service.addComment(task.id, { body: 'Starting on this today' });
+
+      jest.setSystemTime(new Date('2026-03-02T10:00:00Z'));
+      task.changePriority(new Priority('high'));
+      await taskRepository.save(task);
+
+      jest.setSystemTime(new Date('2026-03-02T11:00:00Z'));
+      const note = await service.addComment(task.id, { body: 'Draft shared' });
+      await service.deleteComment(task.id, note.value.id);
+
+      jest.setSystemTime(new Date('2026-03-02T12:00:00Z'));
+      task.changeStatus(new TaskStatus('completed'));
+      await taskRepository.save(task);
+
+      const activity = await service.getActivity(task.id);
+      expect(activity.isSuccess).toBe(true);
+      expect(
+        activity.value.entries.map((entry) =>
+          entry.type === 'comment' ? entry.comment!.body : entry.eventType,
+        ),
+      ).toEqual([
+        'Starting on this today',
+        'TaskPriorityChanged',
+        '',
+        'TaskCompleted',
+        'TaskUpdated',
+      ]);
+      expect(activity.value.entries[2].comment!.deletedAt).toBe(
+        '2026-03-02T11:00:00.000Z',
+      );
+    } finally {
+      jest.useRealTimers();
+    }
+
+    const missing = await service.getActivity('task_missing');
+    expect(missing.isFailure).toBe(true);
+    expect(missing.error).toBe('Task not found');
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Task Delegation Application Service Tests - Application Layer
+ * Verifies delegation on assignment, delegate answers and follow-up nudges
+ */
+
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { TaskDelegationApplicationService } from '../task-delegation-application.service';
+import { EmailApplicationService } from '../email-application.service';
+import { EmailTemplateApplicationService } from '../email-template-application.service';
+import { EventHistoryService } from '../event-history.service';
+import { TaskApplicationService } from '../task-application.service';
+import { Result } from '../../common/result';
+import { InMemoryTaskRepository } from '../../../infrastructure/persistence/in-memory/task.repository.impl';
+import { InMemoryEmailTemplateRepository } from '../../../infrastructure/persistence/in-memory/email-template.repository.impl';
+import { DomainEventDispatcher } from '../../../infrastructure/events/domain-event-dispatcher';
+import { HandlebarsTemplateRenderer } from '../../../infrastructure/templating/handlebars-template-renderer';
+import { Task } from '../../../domain/entities/task.entity';
+import { toTaskResponseDto } from '../../dtos/task-response.mapper';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+describe('TaskDelegationApplicationService', () => {
+  let service: TaskDelegationApplicationService;
+  let repository: InMemoryTaskRepository;
+  let sendEmail: jest.Mock;
+
+  beforeEach(async () => {
+    const eventEmitter = new EventEmitter2();
+    const dispatcher = new DomainEventDispatcher(eventEmitter);
+    repository = new InMemoryTaskRepository(dispatcher);
+    const templateService = new EmailTemplateApplicationService(
+      new InMemoryEmailTemplateRepository(dispatcher),
+      new HandlebarsTemplateRenderer(),
+      new EventHistoryService({
+        append: jest.fn(),
+        findByAggregateId: jest.fn().mockResolvedValue([]),
+      }),
+    );
+    await templateService.onModuleInit();
+
+    sendEmail = jest.fn().mockResolvedValue(Result.success({}));
+    service = new TaskDelegationApplicationService(
+      repository,
+      {
+        getTaskById: async (id: string) => Result.success({ id } as any),
+      } as unknown as TaskApplicationService,
+      { sendEmail } as unknown as EmailApplicationService,
+      templateService,
+      new ConfigService({
+        delegation: {
+          executiveEmail: 'exec@example.com',
+          publicUrl: 'https://assistant.example.com/',
+          followUpDays: 2,
+          maxFollowUps: 2,
+        },
+      }),
+    );
+    eventEmitter.on('TaskCreated', (event) =>
+      service.handleTaskAssigned(event),
+    );
+    eventEmitter.on('TaskUpdated', (event) =>
+      service.handleTaskAssigned(event),
+    );
+  });
+
+  it('should delegate tasks assigned to someone other than the executive', async () => {
+    await repository.save(
+      Task.create({ title: 'Own task', assignee: 'exec@example.com' }),
+    );
+    const task = Task.create({
+      title: 'Draft board memo',
+      assignee: 'sam@example.com',
+    });
+    await repository.save(task);
+
+    expect(sendEmail).toHaveBeenCalledTimes(1);
+    const email = sendEmail.mock.calls[0][0];
+    expect(email).toMatchObject({
+      to: 'sam@example.com',
+      subject: 'Can you take this on? Draft board memo',
+      replyTo: 'exec@example.com',
+    });
+    const token = task.delegation!.token;
+    expect(toTaskResponseDto(task).delegation).toMatchObject({
+      delegate: 'sam@example.com',
+      status: 'pending',
+    });
+    expect(toTaskResponseDto(task).delegation).not.toHaveProperty('token');
+    expect(email.text).toContain(
+      `https://assistant.example.com/api/tasks/${task.id}/delegation/accept?token=${token}`,
+    );
+
+    // Opening a link only asks for confirmation
+    const confirmation = await service.getDelegationConfirmation(
+      task.id,
+      'decline',
+      token,
+    );
+    expect(confirmation.value).toEqual({
+      taskId: task.id,
+      title: 'Draft board memo',
+      action: 'decline',
+      delegate: 'sam@example.com',
+      status: 'pending',
+      respondedAt: undefined,
+    });
+    for (const wrong of [token.slice(1), `${token.slice(0, -1)}0`, '']) {
+      const rejected = await service.getDelegationConfirmation(
+        task.id,
+        'decline',
+        wrong,
+      );
+      expect(rejected.error).toBe('Invalid delegation token');
+    }
+
+    const declined = await service.respondToDelegation(task.id, 'decline', {
+      token,
+      reason: 'No capacity',
+    });
+    expect(declined.value).toMatchObject({ status: 'declined' });
+    expect(task.assignee).toBeUndefined();
+    expect(sendEmail).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        to: 'exec@example.com',
+        subject: 'Delegation declined: Draft board memo',
+      }),
+    );
+
+    const list = await service.getDelegations({ status: 'declined' });
+    expect(list.value.items.map((item) => item.id)).toEqual([task.id]);
+    expect(list.value.counts).toMatchObject({ pending: 0, declined: 1 });
+  });
+
+  it('should nudge delegates without progress up to the configured maximum', async () => {
+    const task = Task.create({ title: 'Renew insurance' });
+    await repository.save(task);
+    const result = await service.delegateTask(task.id, {
+      assignee: 'kim@example.com',
+    });
+    expect(result.isSuccess).toBe(true);
+    sendEmail.mockClear();
+
+    const firstDue = task.delegation!.followUpAt!;
+    expect(firstDue.getTime()).toBeGreaterThan(Date.now() + DAY_IN_MS);
+
+    const first = await service.sendDueFollowUps(firstDue);
+    expect(first.value).toEqual({ due: 1, sent: 1, failed: 0 });
+    expect(sendEmail.mock.calls[0][0].subject).toBe(
+      'Checking in: Renew insurance',
+    );
+
+    const secondDue = task.delegation!.followUpAt!;
+    expect(secondDue.getTime() - firstDue.getTime()).toBe(2 * DAY_IN_MS);
+    await service.sendDueFollowUps(secondDue);
+
+    expect(task.delegation).toMatchObject({
+      followUps: 2,
+      followUpAt: undefined,
+    });
+    expect(
+      (await service.sendDueFollowUps(new Date(Date.now() + 30 * DAY_IN_MS)))
+        .value.due,
+    ).toBe(0);
+    expect(
+      (await service.delegateTask(task.id, { assignee: 'exec@example.com' }))
+        .error,
+    ).toBe('Tasks assigned to the executive are not delegated');
+    expect(
+      (
+        await service.delegateTask(task.id, {
+          assignee: 'kim@example.com',
+        })
+      ).error,
+    ).toBe('Task is already delegated to kim@example.com');
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Task Transfer Application Service Tests - Application Layer
+ * Verifies row validation, dry runs and dependency remapping on import
+ */
+
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { TaskTransferApplicationService } from '../task-transfer-application.service';
+import { InMemoryTaskRepository } from '../../../infrastructure/persistence/in-memory/task.repository.impl';
+import { DomainEventDispatcher } from '../../../infrastructure/events/domain-event-dispatcher';
+import { TaskDependencyGraphService } from '../../../domain/services/task-dependency-graph.service';
+import { TaskFileCodec } from '../../../infrastructure/serialization/task-file-codec';
+
+describe('TaskTransferApplicationService', () => {
+  let service: TaskTransferApplicationService;
+  let repository: InMemoryTaskRepository;
+
+  beforeEach(() => {
+    repository = new InMemoryTaskRepository(
+      new DomainEventDispatcher(new EventEmitter2()),
+    );
+    service = new TaskTransferApplicationService(
+      repository,
+      new TaskDependencyGraphService(),
+      new TaskFileCodec(),
+    );
+  });
+
+  it('should report validation errors per row and save nothing', async () => {
+    const content = [
+      'id,title,priority,assignee,dueDate,dependencies',
+      'a,Draft agenda,high,,,',
+      'b,,critical,not-an-email,someday,',
+      'c,Book room,low,,,ghost',
+      'd,Loop one,,,,e',
+      'e,Loop two,,,,d',
+    ].join('\n');
+
+    const result = await service.importTasks({ format: 'csv', content });
+
+    expect(result.value).toMatchObject({ total: 5, valid: 1, imported: 0 });
+    expect(result.value.errors).toEqual([
+      { row: 2, field: 'title', message: 'Task title is required' },
+      {
+        row: 2,
+        field: 'priority',
+        message:
+          'Invalid priority: critical. Must be one of: low, medium, high, urgent',
+      },
+      {
+        row: 2,
+        field: 'assignee',
+        message: 'Invalid email format: not-an-email',
+      },
+      { row: 2, field: 'dueDate', message: 'Invalid due date: someday' },
+      {
+        row: 3,
+        field: 'dependencies',
+        message: 'Dependency task not found: ghost',
+      },
+      {
+        row: 4,
+        field: 'dependencies',
+        message: 'Dependency cycle detected: d -> e -> d',
+      },
+      {
+        row: 5,
+        field: 'dependencies',
+        message: 'Dependency cycle detected: e -> d -> e',
+      },
+    ]);
+    expect(await repository.findAll()).toHaveLength(0);
+  });
+
+  it('should import with new IDs and point dependencies at them', async () => {
+    const content = JSON.stringify([
+      { id: 'old-2', title: 'Send memo', dependencies: ['old-1'] },
+      {
+        id: 'old-1',
+        title: 'Write memo',
+        status: 'completed',
+        dueDate: '2020-01-01T00:00:00.000Z',
+        tags: ['Board', 'board'],
+      },
+    ]);
+
+    const dryRun = await service.importTasks({
+      format: 'json',
+      content,
+      dryRun: true,
+    });
+    expect(dryRun.value).toMatchObject({ valid: 2, imported: 0, errors: [] });
+    expect(await repository.findAll()).toHaveLength(0);
+
+    const result = await service.importTasks({ format: 'json', content });
+    expect(result.value.imported).toBe(2);
+
+    const [send, write] = result.value.tasks;
+    expect(send.id).not.toBe('old-2');
+    const imported = await repository.findById(send.id!);
+    expect(imported?.dependencies).toEqual([write.id]);
+
+    const memo = await repository.findById(write.id!);
+    expect(memo?.status.value).toBe('completed');
+    expect(memo?.completedAt).toBeInstanceOf(Date);
+    expect(memo?.tags).toEqual(['board']);
+  });
+});
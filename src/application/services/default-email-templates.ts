@@ -0,0 +1,300 @@
+/**
+ * Default Email Templates - Application Layer
+ * Built-in templates seeded into an empty template repository
+ */
+
+import { CreateEmailTemplateDto } from '../dtos/email-template.dto';
+
+export const DEFAULT_EMAIL_TEMPLATES: CreateEmailTemplateDto[] = [
+  {
+    name: 'signature',
+    description: 'Closing signature shared by the built-in templates',
+    isPartial: true,
+    subject: 'Signature',
+    html: '<p>Best regards,<br>{{#if senderName}}{{senderName}}{{else}}Executive Assistant AI{{/if}}</p>',
+    text: 'Best regards,\n{{#if senderName}}{{senderName}}{{else}}Executive Assistant AI{{/if}}',
+    variables: [{ name: 'senderName', type: 'string', required: false }],
+  },
+  {
+    name: 'meeting_reminder',
+    description: 'Reminder for upcoming meetings',
+    subject: 'Meeting Reminder: {{meetingTitle}}',
+    html: `<h2>Meeting Reminder</h2>
+<p>Hi {{recipientName}},</p>
+<p>This is a reminder about your upcoming meeting:</p>
+<ul>
+  <li><strong>Meeting:</strong> {{meetingTitle}}</li>
+  <li><strong>Date:</strong> {{meetingDate}}</li>
+  <li><strong>Time:</strong> {{meetingTime}}</li>
+  {{#if meetingLocation}}<li><strong>Location:</strong> {{meetingLocation}}</li>{{/if}}
+  {{#if meetingUrl}}<li><strong>Join URL:</strong> <a href="{{meetingUrl}}">{{meetingUrl}}</a></li>{{/if}}
+</ul>
+{{#if agenda}}
+<h4>Agenda:</h4>
+<ul>
+  {{#each agenda}}<li>{{this}}</li>{{/each}}
+</ul>
+{{/if}}
+{{> signature}}`,
+    text: `Hi {{recipientName}},
+
+This is a reminder about your upcoming meeting:
+
+Meeting: {{meetingTitle}}
+Date: {{meetingDate}}
+Time: {{meetingTime}}
+{{#if meetingLocation}}Location: {{meetingLocation}}
+{{/if}}{{#if meetingUrl}}Join URL: {{meetingUrl}}
+{{/if}}{{#if agenda}}
+Agenda:
+{{#each agenda}}- {{this}}
+{{/each}}{{/if}}
+{{> signature}}`,
+    variables: [
+      { name: 'recipientName', type: 'string', required: true },
+      { name: 'meetingTitle', type: 'string', required: true },
+      { name: 'meetingDate', type: 'string', required: true },
+      { name: 'meetingTime', type: 'string', required: true },
+      { name: 'meetingLocation', type: 'string', required: false },
+      { name: 'meetingUrl', type: 'string', required: false },
+      { name: 'agenda', type: 'array', required: false },
+      { name: 'senderName', type: 'string', required: false },
+    ],
+  },
+  {
+    name: 'follow_up',
+    description: 'Follow-up email template',
+    subject: 'Follow-up: {{subject}}',
+    html: `<h2>Follow-up</h2>
+<p>Hi {{recipientName}},</p>
+<p>I wanted to follow up on {{subject}}.</p>
+<p>{{message}}</p>
+{{#if actionRequired}}<p><strong>Action required:</strong> {{actionRequired}}</p>{{/if}}
+{{> signature}}`,
+    text: `Hi {{recipientName}},
+
+I wanted to follow up on {{subject}}.
+
+{{message}}
+{{#if actionRequired}}
+Action required: {{actionRequired}}
+{{/if}}
+{{> signature}}`,
+    variables: [
+      { name: 'recipientName', type: 'string', required: true },
+      { name: 'subject', type: 'string', required: true },
+      { name: 'message', type: 'string', required: true },
+      { name: 'actionRequired', type: 'string', required: false },
+      { name: 'senderName', type: 'string', required: false },
+    ],
+  },
+  {
+    name: 'task_assignment',
+    description: 'Task assignment notification',
+    subject: 'New Task Assigned: {{taskTitle}}',
+    html: `<h2>New Task Assigned</h2>
+<p>Hi {{assigneeName}},</p>
+<p>You have been assigned a new task:</p>
+<ul>
+  <li><strong>Task:</strong> {{taskTitle}}</li>
+  {{#if taskDescription}}<li><strong>Description:</strong> {{taskDescription}}</li>{{/if}}
+  <li><strong>Priority:</strong> {{priority}}</li>
+  {{#if dueDate}}<li><strong>Due:</strong> {{dueDate}}</li>{{/if}}
+</ul>
+{{> signature}}`,
+    text: `Hi {{assigneeName}},
+
+You have been assigned a new task:
+
+Task: {{taskTitle}}
+{{#if taskDescription}}Description: {{taskDescription}}
+{{/if}}Priority: {{priority}}
+{{#if dueDate}}Due: {{dueDate}}
+{{/if}}
+{{> signature}}`,
+    variables: [
+      { name: 'assigneeName', type: 'string', required: true },
+      { name: 'taskTitle', type: 'string', required: true },
+      { name: 'taskDescription', type: 'string', required: false },
+      { name: 'priority', type: 'string', required: true },
+      { name: 'dueDate', type: 'string', required: false },
+      { name: 'senderName', type: 'string', required: false },
+    ],
+  },
+  {
+    name: 'task_delegation',
+    description: 'Task delegated to someone, with accept and decline links',
+    subject: 'Can you take this on? {{taskTitle}}',
+    html: `<h2>Task Delegated to You</h2>
+<p>Hi,</p>
+<p>I would like to hand this task over to you:</p>
+<ul>
+  <li><strong>Task:</strong> {{taskTitle}}</li>
+  {{#if taskDescription}}<li><strong>Description:</strong> {{taskDescription}}</li>{{/if}}
+  <li><strong>Priority:</strong> {{priority}}</li>
+  {{#if dueDate}}<li><strong>Due:</strong> {{dueDate}}</li>{{/if}}
+</ul>
+{{#if note}}<p>{{note}}</p>{{/if}}
+<p><a href="{{acceptUrl}}">Accept</a> | <a href="{{declineUrl}}">Decline</a></p>
+{{> signature}}`,
+    text: `Hi,
+
+I would like to hand this task over to you:
+
+Task: {{taskTitle}}
+{{#if taskDescription}}Description: {{taskDescription}}
+{{/if}}Priority: {{priority}}
+{{#if dueDate}}Due: {{dueDate}}
+{{/if}}{{#if note}}
+{{note}}
+{{/if}}
+Accept: {{acceptUrl}}
+Decline: {{declineUrl}}
+
+{{> signature}}`,
+    variables: [
+      { name: 'taskTitle', type: 'string', required: true },
+      { name: 'taskDescription', type: 'string', required: false },
+      { name: 'priority', type: 'string', required: true },
+      { name: 'dueDate', type: 'string', required: false },
+      { name: 'note', type: 'string', required: false },
+      { name: 'acceptUrl', type: 'string', required: true },
+      { name: 'declineUrl', type: 'string', required: true },
+      { name: 'senderName', type: 'string', required: false },
+    ],
+  },
+  {
+    name: 'delegation_follow_up',
+    description: 'Nudge for a delegated task that has not moved',
+    subject: 'Checking in: {{taskTitle}}',
+    html: `<h2>Checking In</h2>
+<p>Hi,</p>
+<p>I delegated <strong>{{taskTitle}}</strong> to you on {{delegatedOn}} and have not seen any progress yet.{{#if dueDate}} It is due {{dueDate}}.{{/if}}</p>
+{{#if accepted}}<p>If you can no longer take it on, <a href="{{returnUrl}}">hand it back</a>.</p>
+{{else}}<p>Please <a href="{{acceptUrl}}">accept</a> or <a href="{{declineUrl}}">decline</a> it.</p>
+{{/if}}
+{{> signature}}`,
+    text: `Hi,
+
+I delegated "{{taskTitle}}" to you on {{delegatedOn}} and have not seen any progress yet.{{#if dueDate}} It is due {{dueDate}}.{{/if}}
+
+{{#if accepted}}If you can no longer take it on, hand it back: {{returnUrl}}
+{{else}}Accept: {{acceptUrl}}
+Decline: {{declineUrl}}
+{{/if}}
+{{> signature}}`,
+    variables: [
+      { name: 'taskTitle', type: 'string', required: true },
+      { name: 'delegatedOn', type: 'string', required: true },
+      { name: 'dueDate', type: 'string', required: false },
+      { name: 'accepted', type: 'boolean', required: false },
+      { name: 'acceptUrl', type: 'string', required: false },
+      { name: 'declineUrl', type: 'string', required: false },
+      { name: 'returnUrl', type: 'string', required: false },
+      { name: 'senderName', type: 'string', required: false },
+    ],
+  },
+  {
+    name: 'mention_digest',
+    description: 'Digest of comments that mention the recipient',
+    subject: 'New mentions in task comments ({{count}})',
+    html: `<h2>New Mentions</h2>
+<p>Hi,</p>
+<p>You were mentioned in these task comments:</p>
+<ul>
+  {{#each mentions}}<li><strong>{{taskTitle}}</strong>{{#if author}} - {{author}}{{/if}}<br>{{excerpt}}</li>{{/each}}
+</ul>
+{{> signature}}`,
+    text: `Hi,
+
+You were mentioned in these task comments:
+
+{{#each mentions}}- {{taskTitle}}{{#if author}} - {{author}}{{/if}}
+  {{excerpt}}
+{{/each}}
+{{> signature}}`,
+    variables: [
+      { name: 'count', type: 'number', required: true },
+      { name: 'mentions', type: 'array', required: true },
+      { name: 'senderName', type: 'string', required: false },
+    ],
+  },
+  {
+    name: 'task_escalation',
+    description: 'Task escalated by a rule because nobody has acted on it',
+    subject: 'Escalated: {{taskTitle}}',
+    html: `<h2>Task Escalated</h2>
+<p>Hi,</p>
+<p>This task needs attention:</p>
+<ul>
+  <li><strong>Task:</strong> {{taskTitle}}</li>
+  <li><strong>Priority:</strong> {{priority}}</li>
+  {{#if dueDate}}<li><strong>Due:</strong> {{dueDate}}</li>{{/if}}
+  {{#if assignee}}<li><strong>Assignee:</strong> {{assignee}}</li>{{/if}}
+</ul>
+<p>Rule "{{ruleName}}" matched because it is:</p>
+<ul>
+  {{#each reasons}}<li>{{this}}</li>{{/each}}
+</ul>
+{{> signature}}`,
+    text: `Hi,
+
+This task needs attention:
+
+Task: {{taskTitle}}
+Priority: {{priority}}
+{{#if dueDate}}Due: {{dueDate}}
+{{/if}}{{#if assignee}}Assignee: {{assignee}}
+{{/if}}
+Rule "{{ruleName}}" matched because it is:
+{{#each reasons}}- {{this}}
+{{/each}}
+{{> signature}}`,
+    variables: [
+      { name: 'taskTitle', type: 'string', required: true },
+      { name: 'ruleName', type: 'string', required: true },
+      { name: 'reasons', type: 'array', required: true },
+      { name: 'priority', type: 'string', required: true },
+      { name: 'dueDate', type: 'string', required: false },
+      { name: 'assignee', type: 'string', required: false },
+      { name: 'senderName', type: 'string', required: false },
+    ],
+  },
+  {
+    name: 'daily_briefing',
+    description: 'Daily briefing summary',
+    subject: 'Daily Briefing - {{date}}',
+    html: `<h2>Daily Briefing - {{date}}</h2>
+{{#if meetings}}
+<h3>Meetings</h3>
+<ul>
+  {{#each meetings}}<li>{{time}} - {{title}}</li>{{/each}}
+</ul>
+{{else}}
+<p>No meetings scheduled today.</p>
+{{/if}}
+{{#if tasks}}
+<h3>Tasks</h3>
+<ul>
+  {{#each tasks}}<li>{{title}}{{#if dueDate}} (due {{dueDate}}){{/if}}</li>{{/each}}
+</ul>
+{{/if}}
+{{> signature}}`,
+    text: `Daily Briefing - {{date}}
+
+{{#if meetings}}Meetings:
+{{#each meetings}}- {{time}} - {{title}}
+{{/each}}{{else}}No meetings scheduled today.
+{{/if}}{{#if tasks}}
+Tasks:
+{{#each tasks}}- {{title}}{{#if dueDate}} (due {{dueDate}}){{/if}}
+{{/each}}{{/if}}
+{{> signature}}`,
+    variables: [
+      { name: 'date', type: 'string', required: true },
+      { name: 'meetings', type: 'array', required: false },
+      { name: 'tasks', type: 'array', required: false },
+      { name: 'senderName', type: 'string', required: false },
+    ],
+  },
+];
@@ -0,0 +1,41 @@
+/**
+ * Default Prioritization Profiles - Application Layer
+ * Built-in profiles seeded into an empty profile repository
+ */
+
+import { CreatePrioritizationProfileDto } from '../dtos/prioritization-profile.dto';
+
+export const DEFAULT_PRIORITIZATION_PROFILE = 'default';
+
+export const DEFAULT_PRIORITIZATION_PROFILES: CreatePrioritizationProfileDto[] =
+  [
+    {
+      name: DEFAULT_PRIORITIZATION_PROFILE,
+      description: 'Balanced weighting used when no profile is selected',
+    },
+    {
+      name: 'fundraising week',
+      description: 'Investor work first; deadlines matter more than effort',
+      criteria: {
+        dueDateWeight: 0.35,
+        priorityWeight: 0.3,
+        statusWeight: 0.15,
+        dependencyWeight: 0.15,
+        estimatedDurationWeight: 0.05,
+      },
+      tagBoosts: { fundraising: 15, investors: 10, board: 5 },
+    },
+    {
+      name: 'travel',
+      description: 'Short, unblocked tasks that fit between flights',
+      criteria: {
+        dueDateWeight: 0.25,
+        priorityWeight: 0.2,
+        statusWeight: 0.1,
+        dependencyWeight: 0.2,
+        estimatedDurationWeight: 0.25,
+      },
+      tagBoosts: { 'deep-work': -15 },
+      factorCaps: { status: 60 },
+    },
+  ];
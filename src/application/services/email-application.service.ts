@@ -0,0 +1,470 @@
+/**
+ * Email Application Service - Application Layer
+ * Orchestrates email use cases on top of the persisted outbox
+ */
+
+import { Injectable, Inject } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  SendEmailDto,
+  EmailQueryDto,
+  EmailResponseDto,
+  EmailListResponseDto,
+  EmailAnalyticsResponseDto,
+  ScheduledEmailDispatchResultDto,
+  EmailDeliveryEventDto,
+  EmailDeliveryEventsResultDto,
+} from '../dtos/email.dto';
+import { EventHistoryResponseDto } from '../dtos/event-history.dto';
+import { Result } from '../common/result';
+import type { EmailRepository } from '../../domain/repositories/email.repository';
+import {
+  EmailMessage,
+  EmailRecipient,
+} from '../../domain/entities/email.entity';
+import { Email as EmailAddress } from '../../domain/common/value-objects';
+import { EmailOutboxService } from './email-outbox.service';
+import { EventHistoryService } from './event-history.service';
+
+@Injectable()
+export class EmailApplicationService {
+  constructor(
+    @Inject('EmailRepository')
+    private readonly emailRepository: EmailRepository,
+    private readonly emailOutboxService: EmailOutboxService,
+    private readonly eventHistoryService: EventHistoryService,
+    private readonly config: ConfigService,
+  ) {}
+
+  /**
+   * Persists the email first and then hands it to the outbox. Emails with a
+   * future `scheduledAt` are stored as scheduled and left for later.
+   */
+  async sendEmail(
+    data: SendEmailDto,
+  ): Promise<Result<EmailResponseDto, string>> {
+    const draft = await this.createDraft(data);
+    if (draft.isFailure) {
+      return draft;
+    }
+
+    return this.sendMessage(draft.value.id);
+  }
+
+  async createDraft(
+    data: SendEmailDto,
+  ): Promise<Result<EmailResponseDto, string>> {
+    try {
+      if (!data.subject?.trim()) {
+        return Result.failure('Email subject is required');
+      }
+
+      if (!data.html?.trim() && !data.text?.trim()) {
+        return Result.failure('Email body is required');
+      }
+
+      const recipients = [
+        ...this.toRecipients(data.to, 'to'),
+        ...this.toRecipients(data.cc, 'cc'),
+        ...this.toRecipients(data.bcc, 'bcc'),
+      ];
+      if (recipients.length === 0) {
+        return Result.failure('At least one recipient is required');
+      }
+
+      const email = EmailMessage.create({
+        subject: data.subject.trim(),
+        body: (data.html || data.text)!,
+        isHtml: !!data.html,
+        textBody: data.html && data.text?.trim() ? data.text : undefined,
+        sender:
+          data.from ||
+          this.config.get('emailServices.fromEmail', 'assistant@company.com'),
+        recipients,
+        attachments: (data.attachments || []).map((a) => ({
+          filename: a.filename,
+          content: a.content,
+          contentType: a.contentType || 'application/octet-stream',
+          size: Buffer.from(a.content, 'base64').length,
+        })),
+        priority: data.priority,
+        tags: (data.tags || []).map((tag) => tag.trim().toLowerCase()),
+        scheduledAt: data.scheduledAt ? new Date(data.scheduledAt) : undefined,
+        templateId: data.templateId,
+        templateVariables: data.templateVariables,
+        replyTo: data.replyTo ? new EmailAddress(data.replyTo) : undefined,
+      });
+
+      await this.emailRepository.save(email);
+      return Result.success(this.mapToResponseDto(email));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to create email');
+    }
+  }
+
+  async sendMessage(
+    messageId: string,
+  ): Promise<Result<EmailResponseDto, string>> {
+    try {
+      const email = await this.emailRepository.findById(messageId);
+      if (!email) {
+        return Result.failure('Email not found');
+      }
+
+      if (email.isReadyToSend) {
+        await this.emailOutboxService.deliver(email);
+      } else if (email.status !== 'scheduled') {
+        return Result.failure(`Cannot send ${email.status} email`);
+      }
+
+      return Result.success(this.mapToResponseDto(email));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to send email');
+    }
+  }
+
+  async resendMessage(
+    messageId: string,
+  ): Promise<Result<EmailResponseDto, string>> {
+    try {
+      const email = await this.emailRepository.findById(messageId);
+      if (!email) {
+        return Result.failure('Email not found');
+      }
+
+      email.requeue();
+      await this.emailRepository.save(email);
+      await this.emailOutboxService.deliver(email);
+
+      return Result.success(this.mapToResponseDto(email));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to resend email');
+    }
+  }
+
+  /**
+   * Dead letters are emails that failed permanently or ran out of retries.
+   */
+  async getDeadLetters(
+    options: EmailQueryDto = {},
+  ): Promise<Result<EmailListResponseDto, string>> {
+    return this.getMessages({ ...options, status: 'failed' });
+  }
+
+  async replayDeadLetter(
+    messageId: string,
+  ): Promise<Result<EmailResponseDto, string>> {
+    const email = await this.emailRepository.findById(messageId);
+    if (email && email.status !== 'failed') {
+      return Result.failure('Email is not in the dead-letter list');
+    }
+
+    return this.resendMessage(messageId);
+  }
+
+  async cancelMessage(
+    messageId: string,
+  ): Promise<Result<EmailResponseDto, string>> {
+    try {
+      const email = await this.emailRepository.findById(messageId);
+      if (!email) {
+        return Result.failure('Email not found');
+      }
+
+      email.cancel();
+      await this.emailRepository.save(email);
+
+      return Result.success(this.mapToResponseDto(email));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to cancel email');
+    }
+  }
+
+  async scheduleMessage(
+    messageId: string,
+    scheduledAt: string,
+  ): Promise<Result<EmailResponseDto, string>> {
+    try {
+      const sendAt = new Date(scheduledAt);
+      if (isNaN(sendAt.getTime())) {
+        return Result.failure('Invalid scheduled time');
+      }
+
+      const email = await this.emailRepository.findById(messageId);
+      if (!email) {
+        return Result.failure('Email not found');
+      }
+
+      email.schedule(sendAt);
+      await this.emailRepository.save(email);
+
+      return Result.success(this.mapToResponseDto(email));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to schedule email');
+    }
+  }
+
+  async unscheduleMessage(
+    messageId: string,
+  ): Promise<Result<EmailResponseDto, string>> {
+    try {
+      const email = await this.emailRepository.findById(messageId);
+      if (!email) {
+        return Result.failure('Email not found');
+      }
+
+      email.unschedule();
+      await this.emailRepository.save(email);
+
+      return Result.success(this.mapToResponseDto(email));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to unschedule email');
+    }
+  }
+
+  /**
+   * Sends every scheduled email whose `scheduledAt` has passed. Each email is
+   * reloaded right before delivery so a cancellation made after the batch was
+   * picked up still wins.
+   */
+  async dispatchDueEmails(): Promise<
+    Result<ScheduledEmailDispatchResultDto, string>
+  > {
+    try {
+      const dueEmails = await this.emailRepository.findEmailsDueForSending();
+      const summary: ScheduledEmailDispatchResultDto = {
+        due: dueEmails.length,
+        sent: 0,
+        retrying: 0,
+        failed: 0,
+        skipped: 0,
+        dispatchedAt: new Date().toISOString(),
+      };
+
+      for (const dueEmail of dueEmails) {
+        const email = await this.emailRepository.findById(dueEmail.id);
+        if (!email || email.status !== 'scheduled' || !email.isReadyToSend) {
+          summary.skipped++;
+          continue;
+        }
+
+        const delivered = await this.emailOutboxService.deliver(email);
+        if (delivered.status === 'sent') {
+          summary.sent++;
+        } else if (delivered.status === 'scheduled') {
+          summary.retrying++;
+        } else {
+          summary.failed++;
+        }
+      }
+
+      return Result.success(summary);
+    } catch (error) {
+      return Result.failure(
+        error.message || 'Failed to dispatch scheduled emails',
+      );
+    }
+  }
+
+  async getMessages(
+    options: EmailQueryDto = {},
+  ): Promise<Result<EmailListResponseDto, string>> {
+    try {
+      const limit = Number(options.limit) || 20;
+      const offset = Number(options.offset) || 0;
+
+      const result = await this.emailRepository.findMany({
+        limit,
+        offset,
+        sortBy: options.sortBy || 'createdAt',
+        sortOrder: options.sortOrder || 'desc',
+        filters: {
+          status: options.status,
+          sender: options.sender,
+          recipient: options.recipient,
+          priority: options.priority,
+          deliveryStatus: options.deliveryStatus,
+        },
+      });
+
+      return Result.success({
+        items: result.items.map((email) => this.mapToResponseDto(email)),
+        total: result.total,
+        hasMore: result.hasMore,
+        pagination: {
+          limit,
+          offset,
+          totalPages: Math.ceil(result.total / limit),
+          currentPage: Math.floor(offset / limit) + 1,
+        },
+      });
+    } catch (error) {
+      return Result.failure('Failed to retrieve emails');
+    }
+  }
+
+  async getMessageById(
+    messageId: string,
+  ): Promise<Result<EmailResponseDto, string>> {
+    try {
+      const email = await this.emailRepository.findById(messageId);
+      if (!email) {
+        return Result.failure('Email not found');
+      }
+
+      return Result.success(this.mapToResponseDto(email));
+    } catch (error) {
+      return Result.failure('Failed to retrieve email');
+    }
+  }
+
+  async getMessageHistory(
+    messageId: string,
+  ): Promise<Result<EventHistoryResponseDto, string>> {
+    const result = await this.eventHistoryService.getHistory(messageId);
+    return result.mapError((error) =>
+      error === 'No history found' ? 'Email not found' : error,
+    );
+  }
+
+  async getEmailAnalytics(): Promise<
+    Result<EmailAnalyticsResponseDto, string>
+  > {
+    try {
+      const analytics = await this.emailRepository.getEmailAnalytics();
+      return Result.success(analytics);
+    } catch (error) {
+      return Result.failure('Failed to retrieve email analytics');
+    }
+  }
+
+  /**
+   * Applies provider delivery events to the emails they belong to. Events can
+   * arrive out of order, so a late `delivered` never hides a bounce or spam
+   * report. Events without a valid timestamp are ignored.
+   */
+  async recordDeliveryEvents(
+    events: EmailDeliveryEventDto[],
+  ): Promise<Result<EmailDeliveryEventsResultDto, string>> {
+    try {
+      const summary: EmailDeliveryEventsResultDto = {
+        received: events.length,
+        applied: 0,
+        unmatched: 0,
+        ignored: 0,
+      };
+      const emails = new Map<string, EmailMessage>();
+
+      for (const event of events) {
+        const email =
+          emails.get(event.externalId) ||
+          (event.externalId
+            ? await this.emailRepository.findByExternalId(event.externalId)
+            : null);
+        if (!email) {
+          summary.unmatched++;
+          continue;
+        }
+
+        emails.set(event.externalId, email);
+        if (this.applyDeliveryEvent(email, event)) {
+          summary.applied++;
+        } else {
+          summary.ignored++;
+        }
+      }
+
+      for (const email of emails.values()) {
+        await this.emailRepository.save(email);
+      }
+
+      return Result.success(summary);
+    } catch (error) {
+      return Result.failure(
+        error.message || 'Failed to record delivery events',
+      );
+    }
+  }
+
+  private applyDeliveryEvent(
+    email: EmailMessage,
+    event: EmailDeliveryEventDto,
+  ): boolean {
+    if (
+      email.status !== 'sent' ||
+      event.timestamp === undefined ||
+      isNaN(new Date(event.timestamp * 1000).getTime())
+    ) {
+      return false;
+    }
+
+    switch (event.event) {
+      case 'delivered':
+        if (
+          email.deliveryStatus === 'bounced' ||
+          email.deliveryStatus === 'spam'
+        ) {
+          return false;
+        }
+        email.updateDeliveryStatus('delivered');
+        return true;
+      case 'bounce':
+      case 'dropped':
+        email.updateDeliveryStatus('bounced');
+        return true;
+      case 'spamreport':
+        email.updateDeliveryStatus('spam');
+        return true;
+      case 'open':
+      case 'click':
+        email.recordEngagement(event.event, new Date(event.timestamp * 1000));
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private toRecipients(
+    addresses: string | string[] | undefined,
+    type: 'to' | 'cc' | 'bcc',
+  ): Array<Omit<EmailRecipient, 'email'> & { email: string }> {
+    if (!addresses) {
+      return [];
+    }
+
+    return (Array.isArray(addresses) ? addresses : [addresses]).map(
+      (email) => ({ email, type }),
+    );
+  }
+
+  private mapToResponseDto(email: EmailMessage): EmailResponseDto {
+    const emailJson = email.toJSON();
+
+    return {
+      id: emailJson.id,
+      subject: emailJson.subject,
+      body: emailJson.body,
+      sender: emailJson.sender,
+      recipients: emailJson.recipients,
+      attachments: emailJson.attachments,
+      isHtml: emailJson.isHtml,
+      textBody: emailJson.textBody,
+      priority: emailJson.priority,
+      templateId: emailJson.templateId,
+      scheduledAt: emailJson.scheduledAt,
+      replyTo: emailJson.replyTo,
+      tags: emailJson.tags,
+      status: emailJson.status,
+      sentAt: emailJson.sentAt,
+      failureReason: emailJson.failureReason,
+      externalId: emailJson.externalId,
+      deliveryStatus: emailJson.deliveryStatus,
+      openedAt: emailJson.openedAt,
+      clickedAt: emailJson.clickedAt,
+      attempts: emailJson.attempts,
+      attemptCount: emailJson.attemptCount,
+      createdAt: emailJson.createdAt,
+      updatedAt: emailJson.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Email Outbox Service - Application Layer
+ * Sends persisted email messages and records the outcome on the aggregate
+ */
+
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { EmailRepository } from '../../domain/repositories/email.repository';
+import { EmailMessage } from '../../domain/entities/email.entity';
+import type {
+  EmailRequest,
+  EmailTransport,
+} from '../../infrastructure/external-services/email-transport/email-transport.interface';
+import { EmailTransportError } from '../../infrastructure/external-services/email-transport/email-transport.error';
+
+@Injectable()
+export class EmailOutboxService {
+  private readonly logger = new Logger(EmailOutboxService.name);
+
+  constructor(
+    @Inject('EmailRepository')
+    private readonly emailRepository: EmailRepository,
+    @Inject('EmailTransport')
+    private readonly emailTransport: EmailTransport,
+    private readonly config: ConfigService,
+  ) {}
+
+  /**
+   * Sends a message that is ready to go. The `sending` state is persisted
+   * before the transport is called so a crash mid-send leaves a visible trace
+   * instead of a silently lost email. Transient failures are rescheduled with
+   * exponential backoff; permanent failures and exhausted retries leave the
+   * email failed, which is what the dead-letter list shows.
+   */
+  async deliver(email: EmailMessage): Promise<EmailMessage> {
+    email.markAsSending();
+    await this.emailRepository.save(email);
+
+    try {
+      const response = await this.emailTransport.sendEmail(
+        this.toEmailRequest(email),
+      );
+      email.markAsSent(response.messageId);
+    } catch (error) {
+      const statusCode =
+        error instanceof EmailTransportError ? error.statusCode : undefined;
+      const maxAttempts = this.config.get('emailServices.retryMaxAttempts', 5);
+
+      if (this.isRetryable(error) && email.attemptCount + 1 < maxAttempts) {
+        const nextAttemptAt = new Date(
+          Date.now() + this.retryDelay(email.attemptCount + 1),
+        );
+        this.logger.warn(
+          `Failed to send email ${email.id}, retrying at ${nextAttemptAt.toISOString()}: ${error.message}`,
+        );
+        email.scheduleRetry(error.message, nextAttemptAt, statusCode);
+      } else {
+        this.logger.error(`Failed to send email ${email.id}`, error.stack);
+        email.markAsFailed(error.message, statusCode);
+      }
+    }
+
+    await this.emailRepository.save(email);
+    return email;
+  }
+
+  private isRetryable(error: Error): boolean {
+    // Errors without a provider classification are network-level failures
+    return error instanceof EmailTransportError ? error.retryable : true;
+  }
+
+  /**
+   * Exponential backoff with equal jitter: half of the delay is fixed and the
+   * other half random, so retries from a provider outage do not line up.
+   */
+  private retryDelay(attempt: number): number {
+    const baseDelay = this.config.get('emailServices.retryBaseDelayMs', 30000);
+    const maxDelay = this.config.get('emailServices.retryMaxDelayMs', 3600000);
+    const delay = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+
+  private toEmailRequest(email: EmailMessage): EmailRequest {
+    const addresses = (type: 'to' | 'cc' | 'bcc') =>
+      email.recipients.filter((r) => r.type === type).map((r) => r.email.value);
+    const cc = addresses('cc');
+    const bcc = addresses('bcc');
+
+    return {
+      to: addresses('to'),
+      from: email.sender.value,
+      ...(cc.length > 0 && { cc }),
+      ...(bcc.length > 0 && { bcc }),
+      subject: email.subject,
+      ...(email.isHtml
+        ? { html: email.body, text: email.textBody }
+        : { text: email.body }),
+      ...(email.attachments.length > 0 && {
+        attachments: email.attachments.map((a) => ({
+          content: a.content,
+          filename: a.filename,
+          type: a.contentType,
+        })),
+      }),
+      replyTo: email.replyTo?.value,
+      categories: [...email.tags],
+      customArgs: { emailMessageId: email.id },
+    };
+  }
+}
@@ -0,0 +1,390 @@
+/**
+ * Email Template Application Service - Application Layer
+ * Manages versioned email templates and renders them for sending or preview
+ */
+
+import { Injectable, Inject, Logger, OnModuleInit } from '@nestjs/common';
+import {
+  ComposedEmailDto,
+  CreateEmailTemplateDto,
+  EmailTemplateVersionDto,
+  EmailTemplateResponseDto,
+  EmailTemplatePreviewResponseDto,
+  PreviewEmailTemplateDto,
+  RenderedEmailTemplateDto,
+} from '../dtos/email-template.dto';
+import { EventHistoryResponseDto } from '../dtos/event-history.dto';
+import { Result } from '../common/result';
+import type { EmailTemplateRepository } from '../../domain/repositories/email-template.repository';
+import {
+  EmailTemplate,
+  EmailTemplateContent,
+  EmailTemplateVersion,
+  TemplateVariable,
+} from '../../domain/entities/email-template.entity';
+import { HandlebarsTemplateRenderer } from '../../infrastructure/templating/handlebars-template-renderer';
+import { EventHistoryService } from './event-history.service';
+import { DEFAULT_EMAIL_TEMPLATES } from './default-email-templates';
+
+@Injectable()
+export class EmailTemplateApplicationService implements OnModuleInit {
+  private readonly logger = new Logger(EmailTemplateApplicationService.name);
+
+  constructor(
+    @Inject('EmailTemplateRepository')
+    private readonly templateRepository: EmailTemplateRepository,
+    private readonly renderer: HandlebarsTemplateRenderer,
+    private readonly eventHistoryService: EventHistoryService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    const existing = await this.templateRepository.findAll();
+    if (existing.length > 0) {
+      return;
+    }
+
+    for (const template of DEFAULT_EMAIL_TEMPLATES) {
+      const result = await this.createTemplate(template);
+      if (result.isFailure) {
+        this.logger.warn(
+          `Failed to seed template ${template.name}: ${result.error}`,
+        );
+      }
+    }
+    this.logger.log(
+      `Seeded ${DEFAULT_EMAIL_TEMPLATES.length} default email templates`,
+    );
+  }
+
+  async createTemplate(
+    data: CreateEmailTemplateDto,
+  ): Promise<Result<EmailTemplateResponseDto, string>> {
+    try {
+      if (!data.name?.trim()) {
+        return Result.failure('Template name is required');
+      }
+
+      const name = data.name.trim();
+      if (await this.templateRepository.findByName(name)) {
+        return Result.failure(`Template "${name}" already exists`);
+      }
+
+      const content = this.toContent(data);
+      this.assertValidContent(content);
+
+      const template = EmailTemplate.create({
+        name,
+        description: data.description,
+        isPartial: data.isPartial,
+        content,
+      });
+      await this.templateRepository.save(template);
+
+      return Result.success(this.mapToResponseDto(template));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to create template');
+    }
+  }
+
+  async getTemplates(): Promise<Result<EmailTemplateResponseDto[], string>> {
+    try {
+      const templates = await this.templateRepository.findAll();
+      return Result.success(
+        templates.map((template) => this.mapToResponseDto(template)),
+      );
+    } catch (error) {
+      return Result.failure('Failed to retrieve templates');
+    }
+  }
+
+  async getTemplate(
+    idOrName: string,
+  ): Promise<Result<EmailTemplateResponseDto, string>> {
+    try {
+      const template = await this.findTemplate(idOrName);
+      if (!template) {
+        return Result.failure('Template not found');
+      }
+
+      return Result.success(this.mapToResponseDto(template));
+    } catch (error) {
+      return Result.failure('Failed to retrieve template');
+    }
+  }
+
+  async getTemplateHistory(
+    idOrName: string,
+  ): Promise<Result<EventHistoryResponseDto, string>> {
+    const template = await this.findTemplate(idOrName);
+    if (!template) {
+      return Result.failure('Template not found');
+    }
+
+    return this.eventHistoryService.getHistory(template.id);
+  }
+
+  async addTemplateVersion(
+    idOrName: string,
+    data: EmailTemplateVersionDto,
+  ): Promise<Result<EmailTemplateResponseDto, string>> {
+    try {
+      const template = await this.findTemplate(idOrName);
+      if (!template) {
+        return Result.failure('Template not found');
+      }
+
+      const content = this.toContent(data);
+      this.assertValidContent(content);
+
+      template.addVersion(content, data.notes);
+      await this.templateRepository.save(template);
+
+      return Result.success(this.mapToResponseDto(template));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to add template version');
+    }
+  }
+
+  async activateTemplateVersion(
+    idOrName: string,
+    version: number,
+  ): Promise<Result<EmailTemplateResponseDto, string>> {
+    try {
+      const template = await this.findTemplate(idOrName);
+      if (!template) {
+        return Result.failure('Template not found');
+      }
+
+      template.activateVersion(version);
+      await this.templateRepository.save(template);
+
+      return Result.success(this.mapToResponseDto(template));
+    } catch (error) {
+      return Result.failure(
+        error.message || 'Failed to activate template version',
+      );
+    }
+  }
+
+  /**
+   * Renders a template without sending it. Variable problems are reported
+   * next to the output instead of failing, so authors can see both at once.
+   */
+  async previewTemplate(
+    idOrName: string,
+    data: PreviewEmailTemplateDto,
+  ): Promise<Result<EmailTemplatePreviewResponseDto, string>> {
+    try {
+      const template = await this.findTemplate(idOrName);
+      if (!template) {
+        return Result.failure('Template not found');
+      }
+
+      const version = data.version
+        ? template.getVersion(data.version)
+        : template.activeVersion;
+      const variables = data.variables || {};
+      const errors = this.validateVariables(version.variables, variables);
+      const rendered = await this.render(template, version, variables);
+
+      return Result.success({
+        ...rendered,
+        valid: errors.length === 0,
+        errors,
+      });
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to preview template');
+    }
+  }
+
+  /**
+   * Renders the active version for sending. Fails when the variables do not
+   * satisfy the template's declared schema.
+   */
+  async renderTemplate(
+    idOrName: string,
+    variables: Record<string, any> = {},
+  ): Promise<Result<RenderedEmailTemplateDto, string>> {
+    try {
+      const template = await this.findTemplate(idOrName);
+      if (!template) {
+        return Result.failure(`Template '${idOrName}' not found`);
+      }
+
+      if (template.isPartial) {
+        return Result.failure('Partial templates cannot be sent on their own');
+      }
+
+      const version = template.activeVersion;
+      const errors = this.validateVariables(version.variables, variables);
+      if (errors.length > 0) {
+        return Result.failure(
+          `Invalid template variables: ${errors.join('; ')}`,
+        );
+      }
+
+      return Result.success(await this.render(template, version, variables));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to render template');
+    }
+  }
+
+  /**
+   * Renders a built-in template for sending, falling back to plain text
+   * when it has been removed or was never seeded into an existing
+   * repository.
+   */
+  async composeEmail(
+    templateName: string,
+    variables: Record<string, any>,
+    fallback: ComposedEmailDto,
+  ): Promise<ComposedEmailDto> {
+    const rendered = await this.renderTemplate(templateName, variables);
+    if (rendered.isFailure) {
+      this.logger.warn(
+        `Sending plain text instead of template ${templateName}: ${rendered.error}`,
+      );
+      return fallback;
+    }
+
+    const { subject, html, text } = rendered.value;
+    return { subject, html, text };
+  }
+
+  private async findTemplate(idOrName: string): Promise<EmailTemplate | null> {
+    return (
+      (await this.templateRepository.findById(idOrName)) ||
+      (await this.templateRepository.findByName(idOrName))
+    );
+  }
+
+  private async render(
+    template: EmailTemplate,
+    version: EmailTemplateVersion,
+    variables: Record<string, any>,
+  ): Promise<RenderedEmailTemplateDto> {
+    const partials = await this.templateRepository.findPartials();
+    const rendered = this.renderer.render(
+      version,
+      variables,
+      partials.map((partial) => ({
+        name: partial.name,
+        html: partial.activeVersion.html,
+        text: partial.activeVersion.text,
+      })),
+    );
+
+    return {
+      templateId: template.id,
+      name: template.name,
+      version: version.version,
+      ...rendered,
+    };
+  }
+
+  /**
+   * Rejects broken markup, and variables the template uses without
+   * declaring them, which would otherwise be sent as blank placeholders.
+   */
+  private assertValidContent(content: EmailTemplateContent): void {
+    this.renderer.assertValidSyntax(content);
+
+    const declared = new Set(
+      content.variables.map((variable) => variable.name),
+    );
+    const undeclared = this.renderer
+      .findVariables(content)
+      .filter((name) => !declared.has(name));
+    if (undeclared.length > 0) {
+      throw new Error(
+        `Invalid template variables: ${undeclared.map((name) => `"${name}"`).join(', ')} used but not declared`,
+      );
+    }
+  }
+
+  private validateVariables(
+    schema: TemplateVariable[],
+    values: Record<string, any>,
+  ): string[] {
+    const errors: string[] = [];
+
+    for (const variable of schema) {
+      const value = values[variable.name];
+      const isBlank =
+        value === undefined ||
+        value === null ||
+        (typeof value === 'string' && !value.trim());
+
+      if (isBlank) {
+        if (variable.required) {
+          errors.push(`Missing required variable "${variable.name}"`);
+        }
+        continue;
+      }
+
+      if (!this.matchesType(value, variable.type)) {
+        errors.push(
+          `Variable "${variable.name}" must be of type ${variable.type}`,
+        );
+      }
+    }
+
+    return errors;
+  }
+
+  private matchesType(value: unknown, type: TemplateVariable['type']): boolean {
+    switch (type) {
+      case 'string':
+        return typeof value === 'string';
+      case 'number':
+        return typeof value === 'number' && Number.isFinite(value);
+      case 'boolean':
+        return typeof value === 'boolean';
+      case 'date':
+        return (
+          (typeof value === 'string' || value instanceof Date) &&
+          !isNaN(new Date(value).getTime())
+        );
+      case 'array':
+        return Array.isArray(value);
+      case 'object':
+        return typeof value === 'object' && !Array.isArray(value);
+    }
+  }
+
+  private toContent(data: EmailTemplateVersionDto): EmailTemplateContent {
+    return {
+      subject: data.subject,
+      html: data.html || '',
+      text: data.text || '',
+      variables: (data.variables || []).map((variable) => ({
+        name: variable.name,
+        type: variable.type,
+        required: variable.required ?? false,
+        description: variable.description,
+      })),
+    };
+  }
+
+  private mapToResponseDto(template: EmailTemplate): EmailTemplateResponseDto {
+    return {
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      isPartial: template.isPartial,
+      activeVersion: template.activeVersionNumber,
+      latestVersion: template.latestVersionNumber,
+      versions: template.versions.map((version) => ({
+        version: version.version,
+        subject: version.subject,
+        html: version.html,
+        text: version.text,
+        variables: version.variables,
+        notes: version.notes,
+        createdAt: version.createdAt.toISOString(),
+      })),
+      createdAt: template.createdAt.toISOString(),
+      updatedAt: template.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,455 @@
+/**
+ * Escalation Application Service - Application Layer
+ * Manages escalation rules and escalates neglected tasks
+ */
+
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  CreateEscalationRuleDto,
+  EscalationConditionsDto,
+  EscalationLogQueryDto,
+  EscalationResponseDto,
+  EscalationRuleResponseDto,
+  EscalationRunResultDto,
+  UpdateEscalationRuleDto,
+} from '../dtos/escalation.dto';
+import { Result } from '../common/result';
+import { EmailApplicationService } from './email-application.service';
+import { EmailTemplateApplicationService } from './email-template-application.service';
+import type { EscalationRepository } from '../../domain/repositories/escalation.repository';
+import type { EscalationRuleRepository } from '../../domain/repositories/escalation-rule.repository';
+import type { TaskRepository } from '../../domain/repositories/task.repository';
+import {
+  EscalationAction,
+  EscalationConditions,
+  EscalationRule,
+} from '../../domain/entities/escalation-rule.entity';
+import {
+  Escalation,
+  EscalationActionResult,
+} from '../../domain/entities/escalation.entity';
+import { Task } from '../../domain/entities/task.entity';
+import { Priority } from '../../domain/common/value-objects';
+
+const PRIORITY_LEVELS = ['low', 'medium', 'high', 'urgent'];
+const DEFAULT_LOG_LIMIT = 50;
+const MAX_LOG_LIMIT = 200;
+const HOUR_IN_MS = 60 * 60 * 1000;
+
+interface EscalationMatch {
+  rule: EscalationRule;
+  task: Task;
+  reasons: string[];
+}
+
+@Injectable()
+export class EscalationApplicationService {
+  private readonly logger = new Logger(EscalationApplicationService.name);
+
+  constructor(
+    @Inject('EscalationRuleRepository')
+    private readonly ruleRepository: EscalationRuleRepository,
+    @Inject('EscalationRepository')
+    private readonly escalationRepository: EscalationRepository,
+    @Inject('TaskRepository') private readonly taskRepository: TaskRepository,
+    private readonly emailService: EmailApplicationService,
+    private readonly templateService: EmailTemplateApplicationService,
+    private readonly config: ConfigService,
+  ) {}
+
+  async createRule(
+    data: CreateEscalationRuleDto,
+  ): Promise<Result<EscalationRuleResponseDto, string>> {
+    try {
+      if (!data.name?.trim()) {
+        return Result.failure('Rule name is required');
+      }
+
+      const name = data.name.trim();
+      if (await this.ruleRepository.findByName(name)) {
+        return Result.failure(`Rule "${name}" already exists`);
+      }
+
+      const rule = EscalationRule.create({
+        name,
+        description: data.description,
+        enabled: data.enabled,
+        conditions: data.conditions as EscalationConditions,
+        actions: data.actions as EscalationAction[],
+        cooldownHours: data.cooldownHours,
+      });
+      await this.ruleRepository.save(rule);
+
+      return Result.success(this.mapRuleToResponseDto(rule));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to create rule');
+    }
+  }
+
+  async getRules(): Promise<Result<EscalationRuleResponseDto[], string>> {
+    try {
+      const rules = await this.ruleRepository.findAll();
+      return Result.success(
+        rules.map((rule) => this.mapRuleToResponseDto(rule)),
+      );
+    } catch (error) {
+      return Result.failure('Failed to retrieve rules');
+    }
+  }
+
+  async getRule(
+    idOrName: string,
+  ): Promise<Result<EscalationRuleResponseDto, string>> {
+    try {
+      const rule = await this.findRule(idOrName);
+      if (!rule) {
+        return Result.failure('Rule not found');
+      }
+      return Result.success(this.mapRuleToResponseDto(rule));
+    } catch (error) {
+      return Result.failure('Failed to retrieve rule');
+    }
+  }
+
+  async updateRule(
+    idOrName: string,
+    data: UpdateEscalationRuleDto,
+  ): Promise<Result<EscalationRuleResponseDto, string>> {
+    try {
+      const rule = await this.findRule(idOrName);
+      if (!rule) {
+        return Result.failure('Rule not found');
+      }
+
+      if (data.name !== undefined && data.name.trim()) {
+        const existing = await this.ruleRepository.findByName(data.name.trim());
+        if (existing && existing.id !== rule.id) {
+          return Result.failure(`Rule "${data.name.trim()}" already exists`);
+        }
+      }
+
+      rule.update({
+        name: data.name,
+        description: data.description,
+        enabled: data.enabled,
+        conditions: data.conditions as EscalationConditions | undefined,
+        actions: data.actions as EscalationAction[] | undefined,
+        cooldownHours: data.cooldownHours,
+      });
+      await this.ruleRepository.save(rule);
+
+      return Result.success(this.mapRuleToResponseDto(rule));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to update rule');
+    }
+  }
+
+  async deleteRule(idOrName: string): Promise<Result<void, string>> {
+    try {
+      const rule = await this.findRule(idOrName);
+      if (!rule) {
+        return Result.failure('Rule not found');
+      }
+
+      // The log keeps the rule's escalations under its name
+      await this.ruleRepository.delete(rule.id);
+      return Result.success(undefined);
+    } catch (error) {
+      return Result.failure('Failed to delete rule');
+    }
+  }
+
+  async getEscalations(
+    query: EscalationLogQueryDto = {},
+  ): Promise<Result<EscalationResponseDto[], string>> {
+    const { limit = DEFAULT_LOG_LIMIT } = query;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LOG_LIMIT) {
+      return Result.failure(
+        `Invalid limit: must be between 1 and ${MAX_LOG_LIMIT}`,
+      );
+    }
+
+    try {
+      const escalations = await this.escalationRepository.findMany({
+        ruleId: query.ruleId,
+        taskId: query.taskId,
+        limit,
+      });
+      return Result.success(
+        escalations.map((escalation) => this.mapToResponseDto(escalation)),
+      );
+    } catch (error) {
+      return Result.failure('Failed to retrieve escalations');
+    }
+  }
+
+  /**
+   * Checks every active task against the enabled rules. A rule escalates
+   * the same task again only once its cooldown has passed. All rules that
+   * match a task are applied together.
+   */
+  async runEscalations(
+    now: Date = new Date(),
+  ): Promise<Result<EscalationRunResultDto, string>> {
+    try {
+      const rules = (await this.ruleRepository.findAll()).filter(
+        (rule) => rule.enabled,
+      );
+      const tasks = (await this.taskRepository.findAll()).filter(
+        (task) => task.status.isActive,
+      );
+
+      // Match everything before acting: an escalation changes the task,
+      // which must not hide it from the other rules in this run
+      const matchesByTask = new Map<string, EscalationMatch[]>();
+      for (const task of tasks) {
+        for (const rule of rules) {
+          const reasons = rule.matchReasons(task, now);
+          if (reasons && (await this.isCooledDown(rule, task, now))) {
+            const matches = matchesByTask.get(task.id) || [];
+            matches.push({ rule, task, reasons });
+            matchesByTask.set(task.id, matches);
+          }
+        }
+      }
+
+      const escalations: EscalationResponseDto[] = [];
+      for (const [taskId, matches] of matchesByTask) {
+        try {
+          for (const escalation of await this.escalate(matches, now)) {
+            escalations.push(this.mapToResponseDto(escalation));
+          }
+        } catch (error) {
+          this.logger.error(
+            `Failed to escalate task ${taskId}: ${error.message}`,
+          );
+        }
+      }
+
+      return Result.success({
+        rules: rules.length,
+        tasks: tasks.length,
+        fired: escalations.length,
+        escalations,
+      });
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to run escalations');
+    }
+  }
+
+  private async isCooledDown(
+    rule: EscalationRule,
+    task: Task,
+    now: Date,
+  ): Promise<boolean> {
+    const latest = await this.escalationRepository.findLatest(rule.id, task.id);
+    return (
+      !latest ||
+      now.getTime() - latest.firedAt.getTime() >=
+        rule.cooldownHours * HOUR_IN_MS
+    );
+  }
+
+  /**
+   * Task changes from every matching rule are saved together before anyone
+   * is notified, so the emails show the raised priority and new tags. The
+   * priority goes up at most once per run, however many rules raise it.
+   */
+  private async escalate(
+    matches: EscalationMatch[],
+    now: Date,
+  ): Promise<Escalation[]> {
+    const { task } = matches[0];
+    const startingPriority = task.priority.value;
+    let priority: Priority | undefined;
+    const tags: string[] = [];
+
+    const actionsByMatch = matches.map(({ rule }) => {
+      const actions: EscalationActionResult[] = [];
+      for (const action of rule.actions) {
+        if (action.type === 'raise_priority') {
+          if (priority) {
+            actions.push({
+              type: action.type,
+              status: 'skipped',
+              detail: `Priority already raised to ${priority.value} in this run`,
+            });
+            continue;
+          }
+
+          const current = PRIORITY_LEVELS.indexOf(startingPriority);
+          const target = action.priority
+            ? PRIORITY_LEVELS.indexOf(action.priority)
+            : Math.min(current + 1, PRIORITY_LEVELS.length - 1);
+          if (target <= current) {
+            actions.push({
+              type: action.type,
+              status: 'skipped',
+              detail: `Priority is already ${startingPriority}`,
+            });
+            continue;
+          }
+
+          priority = new Priority(PRIORITY_LEVELS[target]);
+          actions.push({
+            type: action.type,
+            status: 'done',
+            detail: `${startingPriority} -> ${priority.value}`,
+          });
+        } else if (action.type === 'add_tag') {
+          if (task.tags.includes(action.tag!) || tags.includes(action.tag!)) {
+            actions.push({
+              type: action.type,
+              status: 'skipped',
+              detail: `Already tagged ${action.tag}`,
+            });
+            continue;
+          }
+
+          tags.push(action.tag!);
+          actions.push({
+            type: action.type,
+            status: 'done',
+            detail: action.tag,
+          });
+        }
+      }
+      return actions;
+    });
+    if (priority || tags.length > 0) {
+      task.applyEscalation(priority, tags);
+      await this.taskRepository.save(task);
+    }
+
+    const escalations: Escalation[] = [];
+    for (const [index, { rule, reasons }] of matches.entries()) {
+      const actions = actionsByMatch[index];
+      for (const action of rule.actions) {
+        if (action.type === 'notify_assignee') {
+          actions.push(
+            await this.notify(
+              action.type,
+              task.assignee?.value,
+              rule,
+              task,
+              reasons,
+            ),
+          );
+        } else if (action.type === 'notify_executive') {
+          actions.push(
+            await this.notify(
+              action.type,
+              this.config.get<string>('delegation.executiveEmail'),
+              rule,
+              task,
+              reasons,
+            ),
+          );
+        }
+      }
+
+      const escalation = Escalation.create(
+        {
+          ruleId: rule.id,
+          ruleName: rule.name,
+          taskId: task.id,
+          taskTitle: task.title,
+          reasons,
+          actions,
+        },
+        now,
+      );
+      await this.escalationRepository.save(escalation);
+      this.logger.log(`Escalated task ${task.id} by rule "${rule.name}"`);
+      escalations.push(escalation);
+    }
+
+    return escalations;
+  }
+
+  private async notify(
+    type: 'notify_assignee' | 'notify_executive',
+    recipient: string | undefined,
+    rule: EscalationRule,
+    task: Task,
+    reasons: string[],
+  ): Promise<EscalationActionResult> {
+    if (!recipient) {
+      return {
+        type,
+        status: 'skipped',
+        detail:
+          type === 'notify_assignee'
+            ? 'Task has no assignee'
+            : 'No executive email configured',
+      };
+    }
+
+    const dueDate = task.dueDate?.toISOString().split('T')[0];
+    const email = await this.templateService.composeEmail(
+      'task_escalation',
+      {
+        taskTitle: task.title,
+        ruleName: rule.name,
+        reasons,
+        priority: task.priority.value,
+        dueDate,
+        assignee: task.assignee?.value,
+      },
+      {
+        subject: `Escalated: ${task.title}`,
+        text: `"${task.title}" (${task.priority.value}${
+          dueDate ? `, due ${dueDate}` : ''
+        }) needs attention. Rule "${rule.name}" matched because it is ${reasons.join(', ')}.`,
+      },
+    );
+
+    const result = await this.emailService.sendEmail({
+      to: recipient,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      tags: ['escalation'],
+    });
+    return result.isSuccess
+      ? { type, status: 'done', detail: recipient }
+      : { type, status: 'failed', detail: result.error };
+  }
+
+  private async findRule(idOrName: string): Promise<EscalationRule | null> {
+    return (
+      (await this.ruleRepository.findById(idOrName)) ||
+      (await this.ruleRepository.findByName(idOrName))
+    );
+  }
+
+  private mapRuleToResponseDto(
+    rule: EscalationRule,
+  ): EscalationRuleResponseDto {
+    return {
+      id: rule.id,
+      name: rule.name,
+      description: rule.description,
+      enabled: rule.enabled,
+      conditions: rule.conditions as EscalationConditionsDto,
+      actions: rule.actions,
+      cooldownHours: rule.cooldownHours,
+      createdAt: rule.createdAt.toISOString(),
+      updatedAt: rule.updatedAt.toISOString(),
+    };
+  }
+
+  private mapToResponseDto(escalation: Escalation): EscalationResponseDto {
+    return {
+      id: escalation.id,
+      ruleId: escalation.ruleId,
+      ruleName: escalation.ruleName,
+      taskId: escalation.taskId,
+      taskTitle: escalation.taskTitle,
+      reasons: [...escalation.reasons],
+      actions: [...escalation.actions],
+      firedAt: escalation.firedAt.toISOString(),
+    };
+  }
+}
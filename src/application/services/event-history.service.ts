@@ -0,0 +1,99 @@
+/**
+ * Event History Service - Application Layer
+ * Builds ordered change logs for aggregates from the event store
+ */
+
+import { Injectable, Inject } from '@nestjs/common';
+import { Result } from '../common/result';
+import {
+  EventChangeDto,
+  EventHistoryEntryDto,
+  EventHistoryResponseDto,
+} from '../dtos/event-history.dto';
+import type {
+  EventStore,
+  StoredEvent,
+} from '../../domain/repositories/event-store.repository';
+
+@Injectable()
+export class EventHistoryService {
+  constructor(@Inject('EventStore') private readonly eventStore: EventStore) {}
+
+  async getHistory(
+    aggregateId: string,
+  ): Promise<Result<EventHistoryResponseDto, string>> {
+    try {
+      const events = await this.eventStore.findByAggregateId(aggregateId);
+      if (events.length === 0) {
+        return Result.failure('No history found');
+      }
+
+      return Result.success({
+        aggregateId,
+        total: events.length,
+        events: events.map((event) => this.mapToEntryDto(event)),
+      });
+    } catch (error) {
+      return Result.failure('Failed to retrieve history');
+    }
+  }
+
+  private mapToEntryDto(event: StoredEvent): EventHistoryEntryDto {
+    return {
+      sequence: event.sequence,
+      eventId: event.eventId,
+      eventType: event.eventType,
+      occurredOn: event.occurredOn,
+      actor: event.metadata?.actor,
+      change: this.extractChange(event),
+      data: event.eventData,
+    };
+  }
+
+  private extractChange(event: StoredEvent): EventChangeDto | undefined {
+    switch (event.eventType) {
+      case 'TaskUpdated':
+        return event.eventData.changes;
+      case 'TaskPriorityChanged':
+        return {
+          field: 'priority',
+          oldValue: event.eventData.oldPriority,
+          newValue: event.eventData.newPriority,
+        };
+      case 'TaskCompleted':
+        return { field: 'completedAt', newValue: event.eventData.completedAt };
+      case 'TaskNextOccurrenceCreated':
+        return {
+          field: 'nextOccurrenceId',
+          newValue: event.eventData.nextTaskId,
+        };
+      case 'MeetingRescheduled':
+        return {
+          field: 'dateRange',
+          oldValue: event.eventData.oldDateRange,
+          newValue: event.eventData.newDateRange,
+        };
+      case 'MeetingCancelled':
+        return { field: 'status', newValue: 'cancelled' };
+      case 'EmailDeliveryStatusChanged':
+        return {
+          field: 'deliveryStatus',
+          oldValue: event.eventData.oldStatus,
+          newValue: event.eventData.newStatus,
+        };
+      case 'EmailRetryScheduled':
+        return {
+          field: 'scheduledAt',
+          newValue: event.eventData.nextAttemptAt,
+        };
+      case 'EmailTemplateVersionActivated':
+        return {
+          field: 'activeVersion',
+          oldValue: event.eventData.oldVersion,
+          newValue: event.eventData.newVersion,
+        };
+      default:
+        return undefined;
+    }
+  }
+}
@@ -3,11 +3,12 @@
  * Orchestrates executive assistant functionality with natural language processing
  */
 
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { GeminiService } from '../../infrastructure/external-services/gemini/gemini.service';
 import { TaskApplicationService } from './task-application.service';
-import { GoogleCalendarService } from '../../infrastructure/external-services/google-calendar/google-calendar.service';
+import type { CalendarProvider } from '../../infrastructure/external-services/calendar-provider/calendar-provider.interface';
 import { SendGridService } from '../../infrastructure/external-services/sendgrid/sendgrid.service';
+import { EmailApplicationService } from './email-application.service';
 import { Result, success, failure } from '../common/result';
 
 export interface AssistantRequest {
@@ -54,8 +55,10 @@ export class ExecutiveAssistantService {
   constructor(
     private readonly geminiService: GeminiService,
     private readonly taskService: TaskApplicationService,
-    private readonly calendarService: GoogleCalendarService,
+    @Inject('CalendarProvider')
+    private readonly calendarService: CalendarProvider,
     private readonly emailService: SendGridService,
+    private readonly emailApplicationService: EmailApplicationService,
   ) {}
 
   async processRequest(
@@ -265,11 +268,16 @@ export class ExecutiveAssistantService {
           }
 
           case 'send_email': {
-            const emailResult = await this.emailService.sendEmail(
+            const emailResult = await this.emailApplicationService.sendEmail(
               action.parameters,
             );
-            assistantAction.status = 'executed';
-            assistantAction.result = emailResult;
+            if (emailResult.isSuccess) {
+              assistantAction.status = 'executed';
+              assistantAction.result = emailResult.value;
+            } else {
+              assistantAction.status = 'failed';
+              assistantAction.error = emailResult.error;
+            }
             break;
           }
 
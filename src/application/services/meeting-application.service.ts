@@ -0,0 +1,406 @@
+/**
+ * Meeting Application Service - Application Layer
+ * Orchestrates meeting-related use cases
+ */
+
+import { Injectable, Inject } from '@nestjs/common';
+import {
+  CreateMeetingDto,
+  UpdateMeetingDto,
+  RescheduleMeetingDto,
+  MeetingAttendeeDto,
+  UpdateAttendeeResponseDto,
+  MeetingQueryDto,
+  MeetingResponseDto,
+  MeetingListResponseDto,
+  MeetingAnalyticsResponseDto,
+} from '../dtos/meeting.dto';
+import { EventHistoryResponseDto } from '../dtos/event-history.dto';
+import { Result } from '../common/result';
+import type {
+  MeetingRepository,
+  MeetingFilters,
+} from '../../domain/repositories/meeting.repository';
+import { Meeting, Attendee } from '../../domain/entities/meeting.entity';
+import { DateRange, Email } from '../../domain/common/value-objects';
+import { EventHistoryService } from './event-history.service';
+
+@Injectable()
+export class MeetingApplicationService {
+  constructor(
+    @Inject('MeetingRepository')
+    private readonly meetingRepository: MeetingRepository,
+    private readonly eventHistoryService: EventHistoryService,
+  ) {}
+
+  async createMeeting(
+    data: CreateMeetingDto,
+  ): Promise<Result<MeetingResponseDto, string>> {
+    try {
+      if (!data.title?.trim()) {
+        return Result.failure('Meeting title is required');
+      }
+
+      if (!data.organizer) {
+        return Result.failure('Meeting organizer is required');
+      }
+
+      const dateRange = this.toDateRange(data.startTime, data.endTime);
+      if (dateRange.isFailure) {
+        return Result.failure(dateRange.error);
+      }
+
+      // The organizer always attends; add them when the caller left them out
+      const attendees: Array<Omit<Attendee, 'email'> & { email: string }> = (
+        data.attendees || []
+      ).map((a) => ({
+        email: a.email,
+        name: a.name || a.email,
+        isRequired: a.isRequired ?? true,
+        responseStatus: 'pending',
+      }));
+      const organizer = new Email(data.organizer);
+      if (!attendees.some((a) => new Email(a.email).equals(organizer))) {
+        attendees.unshift({
+          email: organizer.value,
+          name: organizer.value,
+          isRequired: true,
+          responseStatus: 'accepted',
+        });
+      }
+
+      const meeting = Meeting.create({
+        title: data.title.trim(),
+        description: data.description?.trim(),
+        dateRange: dateRange.value,
+        location: data.location,
+        organizer: organizer.value,
+        attendees,
+        meetingType: data.meetingType || 'virtual',
+        meetingUrl: data.meetingUrl,
+        agenda: data.agenda || [],
+        isRecurring: data.isRecurring,
+        recurrencePattern: data.recurrencePattern,
+      });
+
+      const conflict = await this.findAttendeeConflict(
+        meeting,
+        meeting.dateRange,
+      );
+      if (conflict) {
+        return Result.failure(conflict);
+      }
+
+      await this.meetingRepository.save(meeting);
+      return Result.success(this.mapToResponseDto(meeting));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to create meeting');
+    }
+  }
+
+  async getMeetings(
+    options: MeetingQueryDto = {},
+  ): Promise<Result<MeetingListResponseDto, string>> {
+    try {
+      const limit = Number(options.limit) || 20;
+      const offset = Number(options.offset) || 0;
+
+      const result = await this.meetingRepository.findMany({
+        limit,
+        offset,
+        sortBy: options.sortBy || 'startDate',
+        sortOrder: options.sortOrder || 'asc',
+        filters: this.buildFilters(options),
+      });
+
+      return Result.success({
+        items: result.items.map((meeting) => this.mapToResponseDto(meeting)),
+        total: result.total,
+        hasMore: result.hasMore,
+        pagination: {
+          limit,
+          offset,
+          totalPages: Math.ceil(result.total / limit),
+          currentPage: Math.floor(offset / limit) + 1,
+        },
+      });
+    } catch (error) {
+      return Result.failure('Failed to retrieve meetings');
+    }
+  }
+
+  async getMeetingById(
+    meetingId: string,
+  ): Promise<Result<MeetingResponseDto, string>> {
+    try {
+      const meeting = await this.meetingRepository.findById(meetingId);
+      if (!meeting) {
+        return Result.failure('Meeting not found');
+      }
+
+      return Result.success(this.mapToResponseDto(meeting));
+    } catch (error) {
+      return Result.failure('Failed to retrieve meeting');
+    }
+  }
+
+  async getUpcomingMeetings(
+    days?: number,
+  ): Promise<Result<MeetingResponseDto[], string>> {
+    try {
+      const meetings = await this.meetingRepository.findUpcomingMeetings(
+        days ? Number(days) : undefined,
+      );
+      return Result.success(meetings.map((m) => this.mapToResponseDto(m)));
+    } catch (error) {
+      return Result.failure('Failed to retrieve upcoming meetings');
+    }
+  }
+
+  async searchMeetings(
+    query: string,
+  ): Promise<Result<MeetingResponseDto[], string>> {
+    try {
+      const meetings = await this.meetingRepository.searchMeetings(query || '');
+      return Result.success(meetings.map((m) => this.mapToResponseDto(m)));
+    } catch (error) {
+      return Result.failure('Failed to search meetings');
+    }
+  }
+
+  async getMeetingAnalytics(): Promise<
+    Result<MeetingAnalyticsResponseDto, string>
+  > {
+    try {
+      const analytics = await this.meetingRepository.getMeetingAnalytics();
+      return Result.success(analytics);
+    } catch (error) {
+      return Result.failure('Failed to retrieve meeting analytics');
+    }
+  }
+
+  async getMeetingHistory(
+    meetingId: string,
+  ): Promise<Result<EventHistoryResponseDto, string>> {
+    const result = await this.eventHistoryService.getHistory(meetingId);
+    return result.mapError((error) =>
+      error === 'No history found' ? 'Meeting not found' : error,
+    );
+  }
+
+  async updateMeeting(
+    meetingId: string,
+    data: UpdateMeetingDto,
+  ): Promise<Result<MeetingResponseDto, string>> {
+    return this.modifyMeeting(meetingId, (meeting) => {
+      if (data.title !== undefined) {
+        meeting.updateTitle(data.title);
+      }
+      if (data.description !== undefined) {
+        meeting.updateDescription(data.description);
+      }
+    });
+  }
+
+  async rescheduleMeeting(
+    meetingId: string,
+    data: RescheduleMeetingDto,
+  ): Promise<Result<MeetingResponseDto, string>> {
+    const dateRange = this.toDateRange(data.startTime, data.endTime);
+    if (dateRange.isFailure) {
+      return Result.failure(dateRange.error);
+    }
+
+    return this.modifyMeeting(meetingId, async (meeting) => {
+      // Check before mutating: in-memory repositories hand out live instances
+      const conflict = await this.findAttendeeConflict(
+        meeting,
+        dateRange.value,
+      );
+      if (conflict) {
+        return conflict;
+      }
+
+      meeting.reschedule(dateRange.value);
+    });
+  }
+
+  async cancelMeeting(
+    meetingId: string,
+    reason?: string,
+  ): Promise<Result<MeetingResponseDto, string>> {
+    return this.modifyMeeting(meetingId, (meeting) => meeting.cancel(reason));
+  }
+
+  async addAttendee(
+    meetingId: string,
+    data: MeetingAttendeeDto,
+  ): Promise<Result<MeetingResponseDto, string>> {
+    return this.modifyMeeting(meetingId, (meeting) =>
+      meeting.addAttendee({
+        email: new Email(data.email),
+        name: data.name || data.email,
+        isRequired: data.isRequired ?? true,
+        responseStatus: 'pending',
+      }),
+    );
+  }
+
+  async removeAttendee(
+    meetingId: string,
+    email: string,
+  ): Promise<Result<MeetingResponseDto, string>> {
+    return this.modifyMeeting(meetingId, (meeting) =>
+      meeting.removeAttendee(new Email(email)),
+    );
+  }
+
+  async updateAttendeeResponse(
+    meetingId: string,
+    email: string,
+    data: UpdateAttendeeResponseDto,
+  ): Promise<Result<MeetingResponseDto, string>> {
+    const validStatuses = ['pending', 'accepted', 'declined', 'tentative'];
+    if (!validStatuses.includes(data.responseStatus)) {
+      return Result.failure(`Invalid response status: ${data.responseStatus}`);
+    }
+
+    return this.modifyMeeting(meetingId, (meeting) =>
+      meeting.updateAttendeeResponse(new Email(email), data.responseStatus),
+    );
+  }
+
+  async addAgendaItem(
+    meetingId: string,
+    item: string,
+  ): Promise<Result<MeetingResponseDto, string>> {
+    if (!item?.trim()) {
+      return Result.failure('Agenda item cannot be empty');
+    }
+
+    return this.modifyMeeting(meetingId, (meeting) =>
+      meeting.addAgendaItem(item),
+    );
+  }
+
+  async deleteMeeting(meetingId: string): Promise<Result<void, string>> {
+    try {
+      const meeting = await this.meetingRepository.findById(meetingId);
+      if (!meeting) {
+        return Result.failure('Meeting not found');
+      }
+
+      await this.meetingRepository.delete(meetingId);
+      return Result.success(undefined);
+    } catch (error) {
+      return Result.failure('Failed to delete meeting');
+    }
+  }
+
+  /**
+   * Loads a meeting, applies a domain operation and persists the result.
+   * The operation may return an error message to abort without saving;
+   * invariant violations thrown by the entity are reported the same way.
+   */
+  private async modifyMeeting(
+    meetingId: string,
+    operation: (
+      meeting: Meeting,
+    ) => void | string | undefined | Promise<string | undefined>,
+  ): Promise<Result<MeetingResponseDto, string>> {
+    try {
+      const meeting = await this.meetingRepository.findById(meetingId);
+      if (!meeting) {
+        return Result.failure('Meeting not found');
+      }
+
+      const error = await operation(meeting);
+      if (error) {
+        return Result.failure(error);
+      }
+
+      await this.meetingRepository.save(meeting);
+      return Result.success(this.mapToResponseDto(meeting));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to update meeting');
+    }
+  }
+
+  /**
+   * Attendees cannot be double-booked: a meeting conflicts with any active
+   * meeting that overlaps the given range and shares at least one attendee.
+   */
+  private async findAttendeeConflict(
+    meeting: Meeting,
+    dateRange: DateRange,
+  ): Promise<string | undefined> {
+    const overlapping = await this.meetingRepository.findConflictingMeetings(
+      dateRange,
+      meeting.id,
+    );
+    const attendeeEmails = meeting.attendees.map((a) => a.email.value);
+
+    const conflicts = overlapping.filter((other) =>
+      other.attendees.some((a) => attendeeEmails.includes(a.email.value)),
+    );
+    if (conflicts.length === 0) {
+      return undefined;
+    }
+
+    return `Meeting conflicts with: ${conflicts.map((m) => m.title).join(', ')}`;
+  }
+
+  private toDateRange(
+    startTime: string,
+    endTime: string,
+  ): Result<DateRange, string> {
+    const startDate = new Date(startTime);
+    const endDate = new Date(endTime);
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      return Result.failure('Valid startTime and endTime are required');
+    }
+
+    if (startDate >= endDate) {
+      return Result.failure('Start time must be before end time');
+    }
+
+    return Result.success(new DateRange(startDate, endDate));
+  }
+
+  private buildFilters(options: MeetingQueryDto): MeetingFilters {
+    return {
+      status: options.status,
+      organizer: options.organizer,
+      attendee: options.attendee,
+      meetingType: options.meetingType,
+      dateFrom: options.dateFrom ? new Date(options.dateFrom) : undefined,
+      dateTo: options.dateTo ? new Date(options.dateTo) : undefined,
+    };
+  }
+
+  private mapToResponseDto(meeting: Meeting): MeetingResponseDto {
+    const meetingJson = meeting.toJSON();
+
+    return {
+      id: meetingJson.id,
+      title: meetingJson.title,
+      description: meetingJson.description,
+      dateRange: meetingJson.dateRange,
+      location: meetingJson.location,
+      organizer: meetingJson.organizer,
+      attendees: meetingJson.attendees,
+      meetingType: meetingJson.meetingType,
+      meetingUrl: meetingJson.meetingUrl,
+      agenda: meetingJson.agenda,
+      isRecurring: meetingJson.isRecurring,
+      recurrencePattern: meetingJson.recurrencePattern,
+      status: meetingJson.status,
+      remindersSent: meetingJson.remindersSent,
+      isUpcoming: meetingJson.isUpcoming,
+      isInProgress: meetingJson.isInProgress,
+      createdAt: meetingJson.createdAt,
+      updatedAt: meetingJson.updatedAt,
+    };
+  }
+}
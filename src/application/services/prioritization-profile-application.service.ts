@@ -0,0 +1,173 @@
+/**
+ * Prioritization Profile Application Service - Application Layer
+ * Manages the named weighting schemes used to prioritize tasks
+ */
+
+import { Injectable, Inject, Logger, OnModuleInit } from '@nestjs/common';
+import {
+  CreatePrioritizationProfileDto,
+  PrioritizationProfileResponseDto,
+  UpdatePrioritizationProfileDto,
+} from '../dtos/prioritization-profile.dto';
+import { Result } from '../common/result';
+import type { PrioritizationProfileRepository } from '../../domain/repositories/prioritization-profile.repository';
+import { PrioritizationProfile } from '../../domain/entities/prioritization-profile.entity';
+import { TaskPrioritizationService } from '../../domain/services/task-prioritization.service';
+import {
+  DEFAULT_PRIORITIZATION_PROFILE,
+  DEFAULT_PRIORITIZATION_PROFILES,
+} from './default-prioritization-profiles';
+
+@Injectable()
+export class PrioritizationProfileApplicationService implements OnModuleInit {
+  private readonly logger = new Logger(
+    PrioritizationProfileApplicationService.name,
+  );
+
+  constructor(
+    @Inject('PrioritizationProfileRepository')
+    private readonly profileRepository: PrioritizationProfileRepository,
+    private readonly taskPrioritizationService: TaskPrioritizationService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    const existing = await this.profileRepository.findAll();
+    if (existing.length > 0) {
+      return;
+    }
+
+    for (const profile of DEFAULT_PRIORITIZATION_PROFILES) {
+      const result = await this.createProfile(profile);
+      if (result.isFailure) {
+        this.logger.warn(
+          `Failed to seed profile ${profile.name}: ${result.error}`,
+        );
+      }
+    }
+    this.logger.log(
+      `Seeded ${DEFAULT_PRIORITIZATION_PROFILES.length} default prioritization profiles`,
+    );
+  }
+
+  async createProfile(
+    data: CreatePrioritizationProfileDto,
+  ): Promise<Result<PrioritizationProfileResponseDto, string>> {
+    try {
+      if (!data.name?.trim()) {
+        return Result.failure('Profile name is required');
+      }
+
+      const name = data.name.trim();
+      if (await this.profileRepository.findByName(name)) {
+        return Result.failure(`Profile "${name}" already exists`);
+      }
+
+      const profile = PrioritizationProfile.create({
+        name,
+        description: data.description,
+        criteria: {
+          ...this.taskPrioritizationService.defaults,
+          ...data.criteria,
+        },
+        tagBoosts: data.tagBoosts || {},
+        assigneeBoosts: data.assigneeBoosts || {},
+        factorCaps: data.factorCaps || {},
+      });
+      await this.profileRepository.save(profile);
+
+      return Result.success(this.mapToResponseDto(profile));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to create profile');
+    }
+  }
+
+  async getProfiles(): Promise<
+    Result<PrioritizationProfileResponseDto[], string>
+  > {
+    try {
+      const profiles = await this.profileRepository.findAll();
+      return Result.success(
+        profiles.map((profile) => this.mapToResponseDto(profile)),
+      );
+    } catch (error) {
+      return Result.failure('Failed to retrieve profiles');
+    }
+  }
+
+  async getProfile(
+    idOrName: string,
+  ): Promise<Result<PrioritizationProfileResponseDto, string>> {
+    try {
+      const profile = await this.findProfile(idOrName);
+      if (!profile) {
+        return Result.failure('Profile not found');
+      }
+
+      return Result.success(this.mapToResponseDto(profile));
+    } catch (error) {
+      return Result.failure('Failed to retrieve profile');
+    }
+  }
+
+  async updateProfile(
+    idOrName: string,
+    data: UpdatePrioritizationProfileDto,
+  ): Promise<Result<PrioritizationProfileResponseDto, string>> {
+    try {
+      const profile = await this.findProfile(idOrName);
+      if (!profile) {
+        return Result.failure('Profile not found');
+      }
+
+      profile.update(data);
+      await this.profileRepository.save(profile);
+
+      return Result.success(this.mapToResponseDto(profile));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to update profile');
+    }
+  }
+
+  async deleteProfile(idOrName: string): Promise<Result<void, string>> {
+    try {
+      const profile = await this.findProfile(idOrName);
+      if (!profile) {
+        return Result.failure('Profile not found');
+      }
+
+      if (profile.name === DEFAULT_PRIORITIZATION_PROFILE) {
+        return Result.failure('The default profile cannot be deleted');
+      }
+
+      await this.profileRepository.delete(profile.id);
+      return Result.success(undefined);
+    } catch (error) {
+      return Result.failure('Failed to delete profile');
+    }
+  }
+
+  private async findProfile(
+    idOrName: string,
+  ): Promise<PrioritizationProfile | null> {
+    return (
+      (await this.profileRepository.findById(idOrName)) ||
+      (await this.profileRepository.findByName(idOrName))
+    );
+  }
+
+  private mapToResponseDto(
+    profile: PrioritizationProfile,
+  ): PrioritizationProfileResponseDto {
+    return {
+      id: profile.id,
+      name: profile.name,
+      description: profile.description,
+      criteria: profile.criteria,
+      tagBoosts: profile.tagBoosts,
+      assigneeBoosts: profile.assigneeBoosts,
+      factorCaps: profile.factorCaps,
+      createdAt: profile.createdAt.toISOString(),
+      updatedAt: profile.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Saved View Application Service - Application Layer
+ * Manages saved task views and evaluates them against current tasks
+ */
+
+import { Injectable, Inject } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  CreateSavedViewDto,
+  EvaluateSavedViewDto,
+  SavedViewQueryDto,
+  SavedViewResponseDto,
+  SavedViewResultDto,
+  UpdateSavedViewDto,
+} from '../dtos/saved-view.dto';
+import { TaskQueryDto } from '../dtos/task.dto';
+import { Result } from '../common/result';
+import { GetTasksHandler } from '../queries/task/get-tasks.handler';
+import { GetTasksQuery } from '../queries/task/get-tasks.query';
+import type { SavedViewRepository } from '../../domain/repositories/saved-view.repository';
+import {
+  SavedView,
+  SavedViewQuery,
+} from '../../domain/entities/saved-view.entity';
+
+const DEFAULT_VIEW_LIMIT = 20;
+const MAX_VIEW_LIMIT = 100;
+
+@Injectable()
+export class SavedViewApplicationService {
+  constructor(
+    @Inject('SavedViewRepository')
+    private readonly viewRepository: SavedViewRepository,
+    private readonly getTasksHandler: GetTasksHandler,
+    private readonly config: ConfigService,
+  ) {}
+
+  async createView(
+    data: CreateSavedViewDto,
+  ): Promise<Result<SavedViewResponseDto, string>> {
+    try {
+      if (!data.name?.trim()) {
+        return Result.failure('View name is required');
+      }
+
+      const name = data.name.trim();
+      if (await this.viewRepository.findByName(name)) {
+        return Result.failure(`View "${name}" already exists`);
+      }
+
+      const view = SavedView.create({
+        name,
+        description: data.description,
+        query: data.query as SavedViewQuery,
+      });
+      await this.viewRepository.save(view);
+
+      return Result.success(this.mapToResponseDto(view));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to create view');
+    }
+  }
+
+  async getViews(): Promise<Result<SavedViewResponseDto[], string>> {
+    try {
+      const views = await this.viewRepository.findAll();
+      return Result.success(views.map((view) => this.mapToResponseDto(view)));
+    } catch (error) {
+      return Result.failure('Failed to retrieve views');
+    }
+  }
+
+  /**
+   * Runs the view's query as of now: date tokens are resolved on every
+   * evaluation, so a "due this week" view moves with the calendar.
+   */
+  async evaluateView(
+    idOrName: string,
+    options: EvaluateSavedViewDto = {},
+  ): Promise<Result<SavedViewResultDto, string>> {
+    const { limit, offset = 0 } = options;
+    if (
+      limit !== undefined &&
+      (!Number.isInteger(limit) || limit < 1 || limit > MAX_VIEW_LIMIT)
+    ) {
+      return Result.failure(
+        `Invalid limit: must be between 1 and ${MAX_VIEW_LIMIT}`,
+      );
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      return Result.failure('Invalid offset: must be zero or more');
+    }
+
+    try {
+      const view = await this.findView(idOrName);
+      if (!view) {
+        return Result.failure('View not found');
+      }
+
+      const now = new Date();
+      const resolved = view.resolveQuery(
+        now,
+        this.config.get<string>('application.timezone', 'UTC'),
+      );
+      const query: TaskQueryDto = {
+        limit: limit ?? resolved.limit ?? DEFAULT_VIEW_LIMIT,
+        offset,
+        sortBy: resolved.sortBy,
+        sortOrder: resolved.sortOrder,
+        filters: resolved.filters as TaskQueryDto['filters'],
+      };
+
+      const tasks = await this.getTasksHandler.handle(new GetTasksQuery(query));
+      if (tasks.isFailure) {
+        return Result.failure(tasks.error);
+      }
+
+      return Result.success({
+        view: this.mapToResponseDto(view),
+        evaluatedAt: now.toISOString(),
+        resolvedQuery: resolved as SavedViewQueryDto,
+        tasks: tasks.value,
+      });
+    } catch (error) {
+      return Result.failure('Failed to evaluate view');
+    }
+  }
+
+  async updateView(
+    idOrName: string,
+    data: UpdateSavedViewDto,
+  ): Promise<Result<SavedViewResponseDto, string>> {
+    try {
+      const view = await this.findView(idOrName);
+      if (!view) {
+        return Result.failure('View not found');
+      }
+
+      if (data.name !== undefined && data.name.trim()) {
+        const existing = await this.viewRepository.findByName(data.name.trim());
+        if (existing && existing.id !== view.id) {
+          return Result.failure(`View "${data.name.trim()}" already exists`);
+        }
+      }
+
+      view.update({
+        name: data.name,
+        description: data.description,
+        query: data.query as SavedViewQuery | undefined,
+      });
+      await this.viewRepository.save(view);
+
+      return Result.success(this.mapToResponseDto(view));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to update view');
+    }
+  }
+
+  async deleteView(idOrName: string): Promise<Result<void, string>> {
+    try {
+      const view = await this.findView(idOrName);
+      if (!view) {
+        return Result.failure('View not found');
+      }
+
+      await this.viewRepository.delete(view.id);
+      return Result.success(undefined);
+    } catch (error) {
+      return Result.failure('Failed to delete view');
+    }
+  }
+
+  private async findView(idOrName: string): Promise<SavedView | null> {
+    return (
+      (await this.viewRepository.findById(idOrName)) ||
+      (await this.viewRepository.findByName(idOrName))
+    );
+  }
+
+  private mapToResponseDto(view: SavedView): SavedViewResponseDto {
+    return {
+      id: view.id,
+      name: view.name,
+      description: view.description,
+      query: view.query as SavedViewQueryDto,
+      createdAt: view.createdAt.toISOString(),
+      updatedAt: view.updatedAt.toISOString(),
+    };
+  }
+}
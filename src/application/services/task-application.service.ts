@@ -4,6 +4,8 @@
  */
 
 import { Injectable, Inject } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { CreateTaskHandler } from '../commands/task/create-task.handler';
 import { UpdateTaskHandler } from '../commands/task/update-task.handler';
 import { GetTasksHandler } from '../queries/task/get-tasks.handler';
@@ -19,11 +21,53 @@ import {
   PrioritizeTasksDto,
   TaskPrioritizationResponseDto,
   TaskAnalyticsResponseDto,
+  TaskSubtreeResponseDto,
+  AddChecklistItemDto,
+  UpdateChecklistItemDto,
+  StartTimerDto,
+  LogTimeDto,
+  TaskDependencyGraphResponseDto,
+  EisenhowerMatrixResponseDto,
+  PlanDayDto,
+  DailyPlanResponseDto,
+  BulkTaskOperationDto,
+  BulkTaskOperationsDto,
+  BulkTaskOperationResultDto,
+  BulkTaskOperationsResponseDto,
+  TaskSearchResponseDto,
+  TaskSearchResultDto,
 } from '../dtos/task.dto';
+import { toTaskResponseDto } from '../dtos/task-response.mapper';
+import { EventHistoryResponseDto } from '../dtos/event-history.dto';
 import { Result } from '../common/result';
 import type { TaskRepository } from '../../domain/repositories/task.repository';
-import { TaskPrioritizationService } from '../../domain/services/task-prioritization.service';
+import type { PrioritizationProfileRepository } from '../../domain/repositories/prioritization-profile.repository';
+import {
+  PrioritizationAdjustments,
+  TaskPrioritizationService,
+} from '../../domain/services/task-prioritization.service';
+import {
+  DependencyGraphAnalysis,
+  TaskDependencyGraphService,
+} from '../../domain/services/task-dependency-graph.service';
+import { TaskPlanningService } from '../../domain/services/task-planning.service';
+import { TaskTimeAnalyticsService } from '../../domain/services/task-time-analytics.service';
+import type { CalendarProvider } from '../../infrastructure/external-services/calendar-provider/calendar-provider.interface';
+import { TaskSearchIndex } from '../../infrastructure/search/task-search-index';
+import { InMemoryTaskRepository } from '../../infrastructure/persistence/in-memory/task.repository.impl';
+import { DomainEventDispatcher } from '../../infrastructure/events/domain-event-dispatcher';
+import { analyze, highlight } from '../../infrastructure/search/text-analyzer';
+import { EventHistoryService } from './event-history.service';
 import { Priority, TaskStatus } from '../../domain/common/value-objects';
+import { zonedDate, zonedDateTime } from '../../domain/common/time-zone';
+import { Task } from '../../domain/entities/task.entity';
+import { PrioritizationProfile } from '../../domain/entities/prioritization-profile.entity';
+import { DEFAULT_PRIORITIZATION_PROFILE } from './default-prioritization-profiles';
+
+const MAX_BULK_OPERATIONS = 200;
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+const SNIPPET_LENGTH = 160;
 
 @Injectable()
 export class TaskApplicationService {
@@ -32,7 +76,17 @@ export class TaskApplicationService {
     private readonly updateTaskHandler: UpdateTaskHandler,
     private readonly getTasksHandler: GetTasksHandler,
     @Inject('TaskRepository') private readonly taskRepository: TaskRepository,
+    @Inject('PrioritizationProfileRepository')
+    private readonly profileRepository: PrioritizationProfileRepository,
     private readonly taskPrioritizationService: TaskPrioritizationService,
+    private readonly dependencyGraphService: TaskDependencyGraphService,
+    private readonly taskPlanningService: TaskPlanningService,
+    private readonly timeAnalyticsService: TaskTimeAnalyticsService,
+    private readonly searchIndex: TaskSearchIndex,
+    @Inject('CalendarProvider')
+    private readonly calendarService: CalendarProvider,
+    private readonly eventHistoryService: EventHistoryService,
+    private readonly config: ConfigService,
   ) {}
 
   async createTask(
@@ -64,13 +118,72 @@ export class TaskApplicationService {
         return Result.failure('Task not found');
       }
 
-      const responseDto = this.mapToResponseDto(task);
+      const responseDto = toTaskResponseDto(task);
       return Result.success(responseDto);
     } catch (error) {
       return Result.failure('Failed to retrieve task');
     }
   }
 
+  async searchTasks(
+    query: string,
+    limit: number = DEFAULT_SEARCH_LIMIT,
+  ): Promise<Result<TaskSearchResponseDto, string>> {
+    if (!query?.trim()) {
+      return Result.failure('Search query is required');
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+      return Result.failure(
+        `Invalid search limit: must be between 1 and ${MAX_SEARCH_LIMIT}`,
+      );
+    }
+
+    try {
+      const hits = await this.searchIndex.search(query);
+      const results: TaskSearchResultDto[] = [];
+
+      for (const hit of hits) {
+        if (results.length >= limit) {
+          break;
+        }
+        const task = await this.taskRepository.findById(hit.taskId);
+        if (!task) {
+          continue;
+        }
+
+        const stems = new Set(hit.stems);
+        results.push({
+          task: toTaskResponseDto(task),
+          score: hit.score,
+          highlights: {
+            title: highlight(task.title, stems),
+            description: task.description
+              ? highlight(task.description, stems, {
+                  maxLength: SNIPPET_LENGTH,
+                })
+              : undefined,
+            tags: task.tags.filter((tag) =>
+              analyze(tag).some((token) => stems.has(token.stem)),
+            ),
+          },
+        });
+      }
+
+      return Result.success({ query, total: hits.length, results });
+    } catch (error) {
+      return Result.failure('Failed to search tasks');
+    }
+  }
+
+  async getTaskHistory(
+    taskId: string,
+  ): Promise<Result<EventHistoryResponseDto, string>> {
+    const result = await this.eventHistoryService.getHistory(taskId);
+    return result.mapError((error) =>
+      error === 'No history found' ? 'Task not found' : error,
+    );
+  }
+
   async deleteTask(taskId: string): Promise<Result<void, string>> {
     try {
       const task = await this.taskRepository.findById(taskId);
@@ -78,6 +191,11 @@ export class TaskApplicationService {
         return Result.failure('Task not found');
       }
 
+      const subtasks = await this.taskRepository.findByParentId(taskId);
+      if (subtasks.length > 0) {
+        return Result.failure('Cannot delete a task that has subtasks');
+      }
+
       await this.taskRepository.delete(taskId);
       return Result.success(undefined);
     } catch (error) {
@@ -85,6 +203,253 @@ export class TaskApplicationService {
     }
   }
 
+  /**
+   * Runs each operation through the same handlers as the single-task
+   * endpoints. By default a failure is reported for its item and the rest
+   * still run. In atomic mode every operation is first tried out on copies
+   * of the tasks, and if one fails there, none of them runs. Undoing them
+   * afterwards would not be enough, since their events have already
+   * deleted comments, updated the search index and sent emails.
+   */
+  async executeBulkOperations(
+    data: BulkTaskOperationsDto,
+  ): Promise<Result<BulkTaskOperationsResponseDto, string>> {
+    const operations = data.operations || [];
+    if (operations.length === 0) {
+      return Result.failure('Invalid bulk request: no operations given');
+    }
+    if (operations.length > MAX_BULK_OPERATIONS) {
+      return Result.failure(
+        `Invalid bulk request: at most ${MAX_BULK_OPERATIONS} operations are allowed`,
+      );
+    }
+
+    try {
+      const atomic = !!data.atomic;
+      const results: BulkTaskOperationResultDto[] = [];
+
+      const rejection = atomic
+        ? await this.tryBulkOperations(operations)
+        : undefined;
+      if (rejection) {
+        return Result.success({
+          atomic,
+          succeeded: 0,
+          failed: 1,
+          rejected: true,
+          results: operations.map((operation, index) => ({
+            index,
+            op: operation.op,
+            taskId: operation.taskId,
+            ...(index === rejection.index
+              ? { status: 'failed' as const, error: rejection.error }
+              : {
+                  status: 'skipped' as const,
+                  error: `Not run because operation ${rejection.index} failed`,
+                }),
+          })),
+        });
+      }
+
+      for (const [index, operation] of operations.entries()) {
+        const result = await this.runBulkOperation(operation);
+        if (result.isSuccess) {
+          results.push({
+            index,
+            op: operation.op,
+            taskId: result.value?.id ?? operation.taskId,
+            status: 'succeeded',
+            task: result.value,
+          });
+          continue;
+        }
+
+        results.push({
+          index,
+          op: operation.op,
+          taskId: operation.taskId,
+          status: 'failed',
+          error: result.error,
+        });
+        // Only possible when the tasks changed since the trial run
+        if (atomic) {
+          for (const [rest, skipped] of operations.entries()) {
+            if (rest > index) {
+              results.push({
+                index: rest,
+                op: skipped.op,
+                taskId: skipped.taskId,
+                status: 'skipped',
+                error: `Not run because operation ${index} failed`,
+              });
+            }
+          }
+          break;
+        }
+      }
+
+      return Result.success({
+        atomic,
+        succeeded: results.filter((item) => item.status === 'succeeded').length,
+        failed: results.filter((item) => item.status === 'failed').length,
+        rejected: false,
+        results,
+      });
+    } catch (error) {
+      return Result.failure('Failed to run bulk operations');
+    }
+  }
+
+  async getTaskSubtree(
+    taskId: string,
+  ): Promise<Result<TaskSubtreeResponseDto, string>> {
+    try {
+      const task = await this.taskRepository.findById(taskId);
+      if (!task) {
+        return Result.failure('Task not found');
+      }
+
+      return Result.success(await this.buildSubtree(task, new Set()));
+    } catch (error) {
+      return Result.failure('Failed to retrieve task subtree');
+    }
+  }
+
+  async addChecklistItem(
+    taskId: string,
+    data: AddChecklistItemDto,
+  ): Promise<Result<TaskResponseDto, string>> {
+    try {
+      const task = await this.taskRepository.findById(taskId);
+      if (!task) {
+        return Result.failure('Task not found');
+      }
+
+      task.addChecklistItem(data.text);
+      await this.taskRepository.save(task);
+
+      return Result.success(toTaskResponseDto(task));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to add checklist item');
+    }
+  }
+
+  async updateChecklistItem(
+    taskId: string,
+    itemId: string,
+    data: UpdateChecklistItemDto,
+  ): Promise<Result<TaskResponseDto, string>> {
+    try {
+      const task = await this.taskRepository.findById(taskId);
+      if (!task) {
+        return Result.failure('Task not found');
+      }
+
+      task.updateChecklistItem(itemId, data);
+      await this.taskRepository.save(task);
+
+      return Result.success(toTaskResponseDto(task));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to update checklist item');
+    }
+  }
+
+  async removeChecklistItem(
+    taskId: string,
+    itemId: string,
+  ): Promise<Result<TaskResponseDto, string>> {
+    try {
+      const task = await this.taskRepository.findById(taskId);
+      if (!task) {
+        return Result.failure('Task not found');
+      }
+
+      task.removeChecklistItem(itemId);
+      await this.taskRepository.save(task);
+
+      return Result.success(toTaskResponseDto(task));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to remove checklist item');
+    }
+  }
+
+  async startTimer(
+    taskId: string,
+    data: StartTimerDto = {},
+  ): Promise<Result<TaskResponseDto, string>> {
+    try {
+      const task = await this.taskRepository.findById(taskId);
+      if (!task) {
+        return Result.failure('Task not found');
+      }
+
+      task.startTimer(data.note);
+      await this.taskRepository.save(task);
+
+      return Result.success(toTaskResponseDto(task));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to start timer');
+    }
+  }
+
+  async stopTimer(taskId: string): Promise<Result<TaskResponseDto, string>> {
+    try {
+      const task = await this.taskRepository.findById(taskId);
+      if (!task) {
+        return Result.failure('Task not found');
+      }
+
+      task.stopTimer();
+      await this.taskRepository.save(task);
+
+      return Result.success(toTaskResponseDto(task));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to stop timer');
+    }
+  }
+
+  async logTime(
+    taskId: string,
+    data: LogTimeDto,
+  ): Promise<Result<TaskResponseDto, string>> {
+    try {
+      const task = await this.taskRepository.findById(taskId);
+      if (!task) {
+        return Result.failure('Task not found');
+      }
+
+      task.logTime(
+        data.minutes,
+        data.startedAt ? new Date(data.startedAt) : undefined,
+        data.note,
+      );
+      await this.taskRepository.save(task);
+
+      return Result.success(toTaskResponseDto(task));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to log time');
+    }
+  }
+
+  async removeTimeEntry(
+    taskId: string,
+    entryId: string,
+  ): Promise<Result<TaskResponseDto, string>> {
+    try {
+      const task = await this.taskRepository.findById(taskId);
+      if (!task) {
+        return Result.failure('Task not found');
+      }
+
+      task.removeTimeEntry(entryId);
+      await this.taskRepository.save(task);
+
+      return Result.success(toTaskResponseDto(task));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to remove time entry');
+    }
+  }
+
   async prioritizeTasks(
     data: PrioritizeTasksDto,
   ): Promise<Result<TaskPrioritizationResponseDto, string>> {
@@ -118,20 +483,32 @@ export class TaskApplicationService {
         return Result.failure('No tasks found for prioritization');
       }
 
-      // Perform prioritization
+      const profile = await this.findProfile(data.profile);
+      if (data.profile && !profile) {
+        return Result.failure(
+          `Prioritization profile '${data.profile}' not found`,
+        );
+      }
+
+      // Perform prioritization; weights in the request override the profile's
       const prioritizationResult =
-        this.taskPrioritizationService.prioritizeTasks(tasks, data.criteria);
+        this.taskPrioritizationService.prioritizeTasks(
+          tasks,
+          { ...profile?.criteria, ...data.criteria },
+          this.toAdjustments(profile),
+        );
 
       // Map to DTO
       const responseDto: TaskPrioritizationResponseDto = {
         prioritizedTasks: prioritizationResult.prioritizedTasks.map((pt) => ({
-          task: this.mapToResponseDto(pt.task),
+          task: toTaskResponseDto(pt.task),
           score: pt.score,
           recommendation: pt.recommendation,
           factors: pt.factors,
         })),
         summary: prioritizationResult.summary,
         recommendations: prioritizationResult.recommendations,
+        profile: profile?.name,
       };
 
       return Result.success(responseDto);
@@ -147,7 +524,7 @@ export class TaskApplicationService {
       const tasks = await this.taskRepository.findByPriority(
         new Priority(priority),
       );
-      const responseDtos = tasks.map((task) => this.mapToResponseDto(task));
+      const responseDtos = tasks.map((task) => toTaskResponseDto(task));
       return Result.success(responseDtos);
     } catch (error) {
       return Result.failure('Failed to retrieve tasks by priority');
@@ -161,7 +538,7 @@ export class TaskApplicationService {
       const tasks = await this.taskRepository.findByStatus(
         new TaskStatus(status),
       );
-      const responseDtos = tasks.map((task) => this.mapToResponseDto(task));
+      const responseDtos = tasks.map((task) => toTaskResponseDto(task));
       return Result.success(responseDtos);
     } catch (error) {
       return Result.failure('Failed to retrieve tasks by status');
@@ -171,7 +548,7 @@ export class TaskApplicationService {
   async getOverdueTasks(): Promise<Result<TaskResponseDto[], string>> {
     try {
       const tasks = await this.taskRepository.findOverdueTasks();
-      const responseDtos = tasks.map((task) => this.mapToResponseDto(task));
+      const responseDtos = tasks.map((task) => toTaskResponseDto(task));
       return Result.success(responseDtos);
     } catch (error) {
       return Result.failure('Failed to retrieve overdue tasks');
@@ -181,31 +558,438 @@ export class TaskApplicationService {
   async getTaskAnalytics(): Promise<Result<TaskAnalyticsResponseDto, string>> {
     try {
       const analytics = await this.taskRepository.getTaskAnalytics();
-      return Result.success(analytics);
+      const tasks = await this.taskRepository.findAll();
+      return Result.success({
+        ...analytics,
+        timeTracking: this.timeAnalyticsService.analyze(tasks),
+      });
     } catch (error) {
       return Result.failure('Failed to retrieve task analytics');
     }
   }
 
-  private mapToResponseDto(task: any): TaskResponseDto {
-    const taskJson = task.toJSON();
+  async getEisenhowerMatrix(): Promise<
+    Result<EisenhowerMatrixResponseDto, string>
+  > {
+    try {
+      const tasks = (await this.taskRepository.findAll())
+        .filter((task) => task.status.isActive)
+        .sort((a, b) => b.urgencyScore - a.urgencyScore);
+      const matrix = this.taskPlanningService.buildMatrix(tasks);
+
+      return Result.success({
+        do: matrix.do.map((task) => toTaskResponseDto(task)),
+        schedule: matrix.schedule.map((task) => toTaskResponseDto(task)),
+        delegate: matrix.delegate.map((task) => toTaskResponseDto(task)),
+        eliminate: matrix.eliminate.map((task) => toTaskResponseDto(task)),
+      });
+    } catch (error) {
+      return Result.failure('Failed to build Eisenhower matrix');
+    }
+  }
+
+  /**
+   * Fits the best open tasks into the free gaps of one working day. The
+   * date and working hours are in the configured time zone. When planning
+   * today, the day starts now rather than at the start of working hours.
+   */
+  async planDay(
+    data: PlanDayDto,
+  ): Promise<Result<DailyPlanResponseDto, string>> {
+    try {
+      const now = new Date();
+      const timeZone = this.config.get<string>('application.timezone', 'UTC');
+      const date = data.date || zonedDate(now, timeZone);
+      const workingHours = data.workingHours || {
+        start: '09:00',
+        end: '17:00',
+      };
+
+      const dayStart = zonedDateTime(date, workingHours.start, timeZone);
+      const dayEnd = zonedDateTime(date, workingHours.end, timeZone);
+      if (
+        !/^\d{4}-\d{2}-\d{2}$/.test(date) ||
+        isNaN(dayStart.getTime()) ||
+        isNaN(dayEnd.getTime()) ||
+        dayEnd <= dayStart
+      ) {
+        return Result.failure(
+          'Invalid plan window: expected date YYYY-MM-DD and working hours HH:mm',
+        );
+      }
+      if (dayEnd <= now) {
+        return Result.failure('Cannot plan a day that is already over');
+      }
+
+      const profile = await this.findProfile(data.profile);
+      if (data.profile && !profile) {
+        return Result.failure(
+          `Prioritization profile '${data.profile}' not found`,
+        );
+      }
+
+      const tasks = await this.taskRepository.findAll();
+      const activeTasks = tasks.filter((task) => task.status.isActive);
+      const { prioritizedTasks } =
+        this.taskPrioritizationService.prioritizeTasks(
+          activeTasks,
+          profile?.criteria,
+          this.toAdjustments(profile),
+        );
+
+      const availability = await this.calendarService.checkAvailability(
+        date,
+        undefined,
+        workingHours,
+      );
+      const gaps = this.taskPlanningService.findFreeGaps(
+        dayStart < now ? now : dayStart,
+        dayEnd,
+        availability.busySlots.map((slot) => ({
+          start: new Date(slot.start),
+          end: new Date(slot.end),
+        })),
+      );
+
+      const plan = this.taskPlanningService.planDay(prioritizedTasks, gaps, {
+        now,
+        limit: data.limit || 10,
+        bufferMinutes: data.bufferMinutes ?? 5,
+        defaultDuration: data.defaultDuration || 30,
+        blockedTaskIds: new Set(
+          this.dependencyGraphService.analyze(tasks).blockedTaskIds,
+        ),
+      });
+
+      // Focus blocks are created all or none, so a failure leaves no strays
+      const focusBlockEventIds: string[] = [];
+      if (data.createFocusBlocks) {
+        try {
+          for (const block of plan.blocks) {
+            const event = await this.calendarService.createEvent({
+              summary: `Focus: ${block.task.title}`,
+              description: block.task.description,
+              start: { dateTime: block.start.toISOString(), timeZone: 'UTC' },
+              end: { dateTime: block.end.toISOString(), timeZone: 'UTC' },
+            });
+            focusBlockEventIds.push(event.id!);
+          }
+        } catch (error) {
+          const leftOver = await this.deleteCalendarEvents(focusBlockEventIds);
+          return Result.failure(
+            leftOver.length > 0
+              ? `Failed to create focus blocks: ${error.message}. These could not be removed again: ${leftOver.join(', ')}`
+              : `Failed to create focus blocks: ${error.message}`,
+          );
+        }
+      }
+
+      const schedule: DailyPlanResponseDto['schedule'] = plan.blocks.map(
+        (block, index) => ({
+          taskId: block.task.id,
+          title: block.task.title,
+          quadrant: block.quadrant,
+          score: block.score,
+          start: block.start.toISOString(),
+          end: block.end.toISOString(),
+          duration: block.duration,
+          estimated: block.estimated,
+          focusBlockEventId: focusBlockEventIds[index],
+        }),
+      );
+
+      return Result.success({
+        date,
+        profile: profile?.name,
+        freeMinutes: plan.freeMinutes,
+        scheduledMinutes: plan.scheduledMinutes,
+        schedule,
+        overflow: plan.overflow.map((item) => ({
+          taskId: item.task.id,
+          title: item.task.title,
+          quadrant: item.quadrant,
+          score: item.score,
+          duration: item.duration,
+          reason: item.reason,
+        })),
+      });
+    } catch (error) {
+      return Result.failure('Failed to plan the day');
+    }
+  }
+
+  async getDependencyGraph(): Promise<
+    Result<TaskDependencyGraphResponseDto, string>
+  > {
+    try {
+      const analysis = this.dependencyGraphService.analyze(
+        await this.taskRepository.findAll(),
+      );
+      return Result.success(this.mapToGraphDto(analysis));
+    } catch (error) {
+      return Result.failure('Failed to build dependency graph');
+    }
+  }
+
+  /**
+   * Renders the dependency graph in Graphviz DOT. Edges point from a
+   * dependency to the task waiting on it; the critical path is drawn in red.
+   */
+  async getDependencyGraphDot(): Promise<Result<string, string>> {
+    const result = await this.getDependencyGraph();
+    if (result.isFailure) {
+      return Result.failure(result.error);
+    }
+
+    const graph = result.value;
+    const criticalEdges = new Set(
+      graph.criticalPath.taskIds
+        .slice(1)
+        .map((id, index) => `${graph.criticalPath.taskIds[index]}->${id}`),
+    );
+    const escape = (value: string) =>
+      value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+    const lines = [
+      'digraph tasks {',
+      '  rankdir=LR;',
+      '  node [shape=box, style=rounded];',
+    ];
+    for (const node of graph.nodes) {
+      const attributes = [`label="${escape(node.title)}\\n${node.status}"`];
+      if (node.status === 'completed' || node.status === 'cancelled') {
+        attributes.push('style="rounded,dashed"');
+      } else if (node.blocked) {
+        attributes.push('style="rounded,filled"', 'fillcolor=lightgrey');
+      }
+      if (node.onCriticalPath) {
+        attributes.push('color=red', 'penwidth=2');
+      }
+      lines.push(`  "${escape(node.id)}" [${attributes.join(', ')}];`);
+    }
+
+    const edges = [
+      ...graph.edges,
+      ...graph.missingDependencies.map((missing) => ({
+        taskId: missing.taskId,
+        dependsOn: missing.dependencyId,
+      })),
+    ];
+    for (const missing of graph.missingDependencies) {
+      lines.push(
+        `  "${escape(missing.dependencyId)}" [label="missing", style=dotted];`,
+      );
+    }
+    for (const edge of edges) {
+      const onPath = criticalEdges.has(`${edge.dependsOn}->${edge.taskId}`);
+      lines.push(
+        `  "${escape(edge.dependsOn)}" -> "${escape(edge.taskId)}"` +
+          (onPath ? ' [color=red, penwidth=2];' : ';'),
+      );
+    }
+    lines.push('}');
+
+    return Result.success(lines.join('\n') + '\n');
+  }
+
+  // Dispatches one bulk item to the matching single-task method
+  private async runBulkOperation(
+    operation: BulkTaskOperationDto,
+  ): Promise<Result<TaskResponseDto | undefined, string>> {
+    if (operation.op === 'create') {
+      return this.createTask((operation.data || {}) as CreateTaskDto);
+    }
+
+    const taskId = operation.taskId;
+    if (!taskId) {
+      return Result.failure(`Task ID is required for ${operation.op}`);
+    }
+
+    switch (operation.op) {
+      case 'update':
+        return this.updateTask(taskId, (operation.data || {}) as UpdateTaskDto);
+      case 'complete':
+        return this.updateTask(taskId, { status: 'completed' });
+      case 'delete':
+        return (await this.deleteTask(taskId)).map(() => undefined);
+      case 'retag': {
+        if (!operation.addTags?.length && !operation.removeTags?.length) {
+          return Result.failure('Retag needs addTags or removeTags');
+        }
+        const task = await this.taskRepository.findById(taskId);
+        if (!task) {
+          return Result.failure('Task not found');
+        }
+        const removed = new Set(
+          (operation.removeTags || []).map((tag) => tag.trim().toLowerCase()),
+        );
+        const tags = task.tags
+          .filter((tag) => !removed.has(tag))
+          .concat(operation.addTags || []);
+        return this.updateTask(taskId, { tags });
+      }
+      default:
+        return Result.failure(
+          `Invalid bulk operation: unknown op "${operation.op}"`,
+        );
+    }
+  }
+
+  /**
+   * Runs the operations on copies of the tasks, where no events are
+   * published, and returns the first failure.
+   */
+  private async tryBulkOperations(
+    operations: BulkTaskOperationDto[],
+  ): Promise<{ index: number; error: string } | undefined> {
+    const copies = new InMemoryTaskRepository(
+      new DomainEventDispatcher(new EventEmitter2()),
+    );
+    for (const task of await this.taskRepository.findAll()) {
+      await copies.save(Task.fromJSON(task.toJSON()));
+    }
+
+    const trial = new TaskApplicationService(
+      this.createTaskHandler.withRepository(copies),
+      this.updateTaskHandler.withRepository(copies),
+      this.getTasksHandler,
+      copies,
+      this.profileRepository,
+      this.taskPrioritizationService,
+      this.dependencyGraphService,
+      this.taskPlanningService,
+      this.timeAnalyticsService,
+      this.searchIndex,
+      this.calendarService,
+      this.eventHistoryService,
+      this.config,
+    );
+    for (const [index, operation] of operations.entries()) {
+      const result = await trial.runBulkOperation(operation);
+      if (result.isFailure) {
+        return { index, error: result.error };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Progress is 100 for a completed task and otherwise the average over its
+   * subtasks' progress and its checklist items. The estimate of a task with
+   * subtasks is the sum of theirs, like a summary task in a project plan.
+   */
+  private async buildSubtree(
+    task: Task,
+    visited: Set<string>,
+  ): Promise<TaskSubtreeResponseDto> {
+    visited.add(task.id);
+    const children = (await this.taskRepository.findByParentId(task.id))
+      .filter((child) => !visited.has(child.id))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    const subtasks: TaskSubtreeResponseDto[] = [];
+    for (const child of children) {
+      subtasks.push(await this.buildSubtree(child, visited));
+    }
+
+    const units = [
+      ...subtasks.map((subtask) => subtask.progress),
+      ...task.checklist.map((item) => (item.done ? 100 : 0)),
+    ];
+    let progress = 0;
+    if (task.isCompleted) {
+      progress = 100;
+    } else if (units.length > 0) {
+      progress = Math.round(
+        units.reduce((sum, value) => sum + value, 0) / units.length,
+      );
+    }
+
+    let estimatedDuration = task.estimatedDuration;
+    if (subtasks.length > 0) {
+      const estimates = subtasks
+        .map((subtask) => subtask.estimatedDuration)
+        .filter((minutes): minutes is number => minutes !== undefined);
+      estimatedDuration =
+        estimates.length > 0
+          ? estimates.reduce((sum, minutes) => sum + minutes, 0)
+          : undefined;
+    }
+
+    return {
+      task: toTaskResponseDto(task),
+      progress,
+      estimatedDuration,
+      openSubtasks: children.filter((child) => child.status.isActive).length,
+      subtasks,
+    };
+  }
+
+  /**
+   * Without an explicit choice the stored "default" profile applies, so
+   * editing it changes how every unqualified request is ranked.
+   */
+  private async findProfile(
+    idOrName?: string,
+  ): Promise<PrioritizationProfile | null> {
+    if (!idOrName) {
+      return this.profileRepository.findByName(DEFAULT_PRIORITIZATION_PROFILE);
+    }
+
+    return (
+      (await this.profileRepository.findById(idOrName)) ||
+      (await this.profileRepository.findByName(idOrName))
+    );
+  }
+
+  private toAdjustments(
+    profile: PrioritizationProfile | null,
+  ): Partial<PrioritizationAdjustments> {
+    return {
+      tagBoosts: profile?.tagBoosts,
+      assigneeBoosts: profile?.assigneeBoosts,
+      factorCaps: profile?.factorCaps,
+    };
+  }
+
+  /**
+   * Deletes calendar events one by one and returns the IDs that could not
+   * be deleted.
+   */
+  private async deleteCalendarEvents(eventIds: string[]): Promise<string[]> {
+    const failed: string[] = [];
+    for (const eventId of eventIds) {
+      try {
+        await this.calendarService.deleteEvent(eventId);
+      } catch {
+        failed.push(eventId);
+      }
+    }
+    return failed;
+  }
+
+  private mapToGraphDto(
+    analysis: DependencyGraphAnalysis,
+  ): TaskDependencyGraphResponseDto {
+    const blocked = new Set(analysis.blockedTaskIds);
+    const critical = new Set(analysis.criticalPath.taskIds);
 
     return {
-      id: taskJson.id,
-      title: taskJson.title,
-      description: taskJson.description,
-      status: taskJson.status,
-      priority: taskJson.priority,
-      assignee: taskJson.assignee,
-      dueDate: taskJson.dueDate,
-      tags: taskJson.tags,
-      estimatedDuration: taskJson.estimatedDuration,
-      dependencies: taskJson.dependencies,
-      completedAt: taskJson.completedAt,
-      isOverdue: taskJson.isOverdue,
-      urgencyScore: taskJson.urgencyScore,
-      createdAt: taskJson.createdAt,
-      updatedAt: taskJson.updatedAt,
+      nodes: analysis.tasks.map((task) => ({
+        id: task.id,
+        title: task.title,
+        status: task.status.value,
+        estimatedDuration: task.estimatedDuration,
+        blocked: blocked.has(task.id),
+        onCriticalPath: critical.has(task.id),
+      })),
+      edges: analysis.edges,
+      missingDependencies: analysis.missingDependencies,
+      blocked: analysis.blockedTaskIds,
+      unblocked: analysis.unblockedTaskIds,
+      topologicalOrder: analysis.topologicalOrder,
+      cyclicTaskIds: analysis.cyclicTaskIds,
+      criticalPath: analysis.criticalPath,
     };
   }
 }
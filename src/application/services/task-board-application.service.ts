@@ -0,0 +1,282 @@
+/**
+ * Task Board Application Service - Application Layer
+ * Projects tasks onto a Kanban board and moves them between columns
+ */
+
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import {
+  BoardCardDto,
+  MoveTaskDto,
+  MoveTaskResponseDto,
+  TaskBoardQueryDto,
+  TaskBoardResponseDto,
+  UpdateTaskBoardDto,
+} from '../dtos/task-board.dto';
+import { Result } from '../common/result';
+import { TaskApplicationService } from './task-application.service';
+import type { DomainEvent } from '../../domain/common/domain-events';
+import type { TaskRepository } from '../../domain/repositories/task.repository';
+import {
+  TaskBoardConflictError,
+  type TaskBoardRepository,
+} from '../../domain/repositories/task-board.repository';
+import {
+  BOARD_COLUMNS,
+  DEFAULT_BOARD_ID,
+  TaskBoard,
+  WipLimit,
+} from '../../domain/entities/task-board.entity';
+import { Task } from '../../domain/entities/task.entity';
+import { TaskStatus } from '../../domain/common/value-objects';
+
+const MAX_CARDS_PER_COLUMN = 500;
+const MAX_SAVE_ATTEMPTS = 3;
+
+@Injectable()
+export class TaskBoardApplicationService {
+  private readonly logger = new Logger(TaskBoardApplicationService.name);
+
+  constructor(
+    @Inject('TaskBoardRepository')
+    private readonly boardRepository: TaskBoardRepository,
+    @Inject('TaskRepository') private readonly taskRepository: TaskRepository,
+    private readonly taskService: TaskApplicationService,
+  ) {}
+
+  /**
+   * New tasks, and tasks whose status changes anywhere else, go to the
+   * bottom of their column.
+   */
+  @OnEvent('TaskCreated')
+  @OnEvent('TaskUpdated')
+  async handleTaskChanged(event: DomainEvent): Promise<void> {
+    const status =
+      event.eventType === 'TaskCreated'
+        ? event.eventData.status
+        : event.eventData.changes?.field === 'status'
+          ? event.eventData.changes.newValue
+          : undefined;
+    if (!status) {
+      return;
+    }
+
+    try {
+      await this.modifyBoard((board) =>
+        board.append(event.aggregateId, status),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to place task ${event.aggregateId} on the board: ${error.message}`,
+      );
+    }
+  }
+
+  @OnEvent('TaskDeleted')
+  async handleTaskDeleted(event: DomainEvent): Promise<void> {
+    try {
+      await this.modifyBoard((board) => board.remove(event.aggregateId));
+    } catch (error) {
+      this.logger.warn(
+        `Failed to remove task ${event.aggregateId} from the board: ${error.message}`,
+      );
+    }
+  }
+
+  async getBoard(
+    query: TaskBoardQueryDto = {},
+  ): Promise<Result<TaskBoardResponseDto, string>> {
+    const { limit } = query;
+    if (
+      limit !== undefined &&
+      (!Number.isInteger(limit) || limit < 1 || limit > MAX_CARDS_PER_COLUMN)
+    ) {
+      return Result.failure(
+        `Invalid limit: must be between 1 and ${MAX_CARDS_PER_COLUMN}`,
+      );
+    }
+
+    try {
+      const board = await this.loadBoard();
+      const tasks = new Map(
+        (await this.taskRepository.findAll()).map((task) => [task.id, task]),
+      );
+      await this.pruneBoard(board, new Set(tasks.keys()));
+
+      const columns = BOARD_COLUMNS.map((status) => {
+        const order = board.arrange(
+          status,
+          this.byCreation(
+            Array.from(tasks.values()).filter(
+              (task) => task.status.value === status,
+            ),
+          ),
+        );
+        const wipLimit = board.wipLimitFor(status);
+        return {
+          status,
+          count: order.length,
+          wipLimit,
+          overLimit: !!wipLimit && order.length > wipLimit.limit,
+          cards: order
+            .slice(0, limit)
+            .map((id, position) => this.mapToCardDto(tasks.get(id)!, position)),
+        };
+      });
+
+      return Result.success({
+        columns,
+        wipLimits: board.wipLimits,
+        updatedAt: board.updatedAt.toISOString(),
+      });
+    } catch (error) {
+      return Result.failure('Failed to retrieve board');
+    }
+  }
+
+  async updateBoard(
+    data: UpdateTaskBoardDto,
+  ): Promise<Result<TaskBoardResponseDto, string>> {
+    try {
+      await this.modifyBoard((board) =>
+        board.setWipLimits((data.wipLimits || {}) as Record<string, WipLimit>),
+      );
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to update board');
+    }
+
+    return this.getBoard();
+  }
+
+  /**
+   * Moving to another column changes the task's status through the usual
+   * update, so its rules apply, WIP limits included. A column whose limit
+   * only warns takes the task and the response lists the warning.
+   */
+  async moveTask(
+    taskId: string,
+    data: MoveTaskDto,
+  ): Promise<Result<MoveTaskResponseDto, string>> {
+    if (
+      data.position !== undefined &&
+      (!Number.isInteger(data.position) || data.position < 0)
+    ) {
+      return Result.failure('Invalid position: must be zero or more');
+    }
+
+    try {
+      const task = await this.taskRepository.findById(taskId);
+      if (!task) {
+        return Result.failure('Task not found');
+      }
+
+      const status = data.status
+        ? new TaskStatus(data.status).value
+        : task.status.value;
+      const changesColumn = status !== task.status.value;
+
+      if (changesColumn) {
+        const updated = await this.taskService.updateTask(taskId, { status });
+        if (updated.isFailure) {
+          return Result.failure(updated.error);
+        }
+      }
+
+      // Read after the status change, which already placed the task
+      const columnTaskIds = await this.columnTaskIds(status);
+      const { position, warnings } = await this.modifyBoard((board) => {
+        const check = changesColumn
+          ? board.checkWipLimit(status, columnTaskIds.length)
+          : undefined;
+        return {
+          position: board.move(taskId, status, columnTaskIds, data.position),
+          warnings: check ? [check.message] : [],
+        };
+      });
+
+      const moved = await this.taskService.getTaskById(taskId);
+      if (moved.isFailure) {
+        return Result.failure(moved.error);
+      }
+      return Result.success({ task: moved.value, status, position, warnings });
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to move task');
+    }
+  }
+
+  private async loadBoard(): Promise<TaskBoard> {
+    return (
+      (await this.boardRepository.findById(DEFAULT_BOARD_ID)) ||
+      TaskBoard.create()
+    );
+  }
+
+  /**
+   * Applies a change to the stored board. When someone else saved it in
+   * the meantime, the change is applied again to their version.
+   */
+  private async modifyBoard<T>(change: (board: TaskBoard) => T): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const board = await this.loadBoard();
+      const outcome = change(board);
+      try {
+        await this.boardRepository.save(board);
+        return outcome;
+      } catch (error) {
+        if (
+          !(error instanceof TaskBoardConflictError) ||
+          attempt >= MAX_SAVE_ATTEMPTS
+        ) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * TaskDeleted takes deleted tasks off the board. Any the listener missed
+   * are dropped here, where every existing task is at hand anyway.
+   */
+  private async pruneBoard(
+    board: TaskBoard,
+    existingTaskIds: Set<string>,
+  ): Promise<void> {
+    if (!board.prune(existingTaskIds)) {
+      return;
+    }
+
+    try {
+      await this.boardRepository.save(board);
+    } catch (error) {
+      // A later read prunes again
+      this.logger.warn(`Failed to prune the board: ${error.message}`);
+    }
+  }
+
+  private async columnTaskIds(status: string): Promise<string[]> {
+    return this.byCreation(
+      await this.taskRepository.findByStatus(new TaskStatus(status)),
+    );
+  }
+
+  // Tasks without a saved position follow in the order they were created
+  private byCreation(tasks: Task[]): string[] {
+    return [...tasks]
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map((task) => task.id);
+  }
+
+  private mapToCardDto(task: Task, position: number): BoardCardDto {
+    return {
+      id: task.id,
+      title: task.title,
+      priority: task.priority.value,
+      assignee: task.assignee?.value,
+      dueDate: task.dueDate?.toISOString(),
+      tags: [...task.tags],
+      estimatedDuration: task.estimatedDuration,
+      isOverdue: task.isOverdue,
+      position,
+    };
+  }
+}
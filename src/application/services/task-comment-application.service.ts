@@ -0,0 +1,297 @@
+/**
+ * Task Comment Application Service - Application Layer
+ * Manages task comments, the activity feed and mention digests
+ */
+
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import {
+  CreateTaskCommentDto,
+  MentionDigestResultDto,
+  TaskActivityEntryDto,
+  TaskActivityResponseDto,
+  TaskCommentResponseDto,
+  UpdateTaskCommentDto,
+} from '../dtos/task-comment.dto';
+import { Result } from '../common/result';
+import { EmailApplicationService } from './email-application.service';
+import { EmailTemplateApplicationService } from './email-template-application.service';
+import { EventHistoryService } from './event-history.service';
+import type { DomainEvent } from '../../domain/common/domain-events';
+import type { TaskRepository } from '../../domain/repositories/task.repository';
+import type { TaskCommentRepository } from '../../domain/repositories/task-comment.repository';
+import {
+  CommentAttachment,
+  TaskComment,
+} from '../../domain/entities/task-comment.entity';
+import { Email } from '../../domain/common/value-objects';
+
+// Task events shown in the activity feed alongside comments
+const ACTIVITY_EVENT_TYPES = [
+  'TaskUpdated',
+  'TaskCompleted',
+  'TaskPriorityChanged',
+];
+const EXCERPT_LENGTH = 200;
+
+@Injectable()
+export class TaskCommentApplicationService {
+  private readonly logger = new Logger(TaskCommentApplicationService.name);
+
+  constructor(
+    @Inject('TaskCommentRepository')
+    private readonly commentRepository: TaskCommentRepository,
+    @Inject('TaskRepository') private readonly taskRepository: TaskRepository,
+    private readonly eventHistoryService: EventHistoryService,
+    private readonly emailService: EmailApplicationService,
+    private readonly templateService: EmailTemplateApplicationService,
+  ) {}
+
+  @OnEvent('TaskDeleted')
+  async handleTaskDeleted(event: DomainEvent): Promise<void> {
+    await this.commentRepository.deleteByTaskId(event.aggregateId);
+  }
+
+  async addComment(
+    taskId: string,
+    data: CreateTaskCommentDto,
+  ): Promise<Result<TaskCommentResponseDto, string>> {
+    try {
+      if (!(await this.taskRepository.findById(taskId))) {
+        return Result.failure('Task not found');
+      }
+
+      const comment = TaskComment.create({
+        taskId,
+        author: data.author ? new Email(data.author) : undefined,
+        body: data.body,
+        attachments: data.attachments as CommentAttachment[] | undefined,
+      });
+      await this.commentRepository.save(comment);
+
+      return Result.success(this.mapToResponseDto(comment));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to add comment');
+    }
+  }
+
+  async getComments(
+    taskId: string,
+  ): Promise<Result<TaskCommentResponseDto[], string>> {
+    try {
+      if (!(await this.taskRepository.findById(taskId))) {
+        return Result.failure('Task not found');
+      }
+
+      const comments = await this.commentRepository.findByTaskId(taskId);
+      return Result.success(
+        comments.map((comment) => this.mapToResponseDto(comment)),
+      );
+    } catch (error) {
+      return Result.failure('Failed to retrieve comments');
+    }
+  }
+
+  async editComment(
+    taskId: string,
+    commentId: string,
+    data: UpdateTaskCommentDto,
+  ): Promise<Result<TaskCommentResponseDto, string>> {
+    try {
+      const comment = await this.findComment(taskId, commentId);
+      if (!comment) {
+        return Result.failure('Comment not found');
+      }
+
+      comment.edit({
+        body: data.body,
+        attachments: data.attachments as CommentAttachment[] | undefined,
+      });
+      await this.commentRepository.save(comment);
+
+      return Result.success(this.mapToResponseDto(comment));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to edit comment');
+    }
+  }
+
+  async deleteComment(
+    taskId: string,
+    commentId: string,
+  ): Promise<Result<TaskCommentResponseDto, string>> {
+    try {
+      const comment = await this.findComment(taskId, commentId);
+      if (!comment) {
+        return Result.failure('Comment not found');
+      }
+
+      comment.delete();
+      await this.commentRepository.save(comment);
+
+      return Result.success(this.mapToResponseDto(comment));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to delete comment');
+    }
+  }
+
+  /**
+   * Comments and task changes in the order they happened. A comment
+   * appears once, at the time it was written, in its current state.
+   */
+  async getActivity(
+    taskId: string,
+  ): Promise<Result<TaskActivityResponseDto, string>> {
+    try {
+      if (!(await this.taskRepository.findById(taskId))) {
+        return Result.failure('Task not found');
+      }
+
+      const entries: TaskActivityEntryDto[] = (
+        await this.commentRepository.findByTaskId(taskId)
+      ).map((comment) => ({
+        type: 'comment',
+        occurredAt: comment.createdAt.toISOString(),
+        comment: this.mapToResponseDto(comment),
+      }));
+
+      const history = await this.eventHistoryService.getHistory(taskId);
+      if (history.isSuccess) {
+        for (const event of history.value.events) {
+          if (ACTIVITY_EVENT_TYPES.includes(event.eventType)) {
+            entries.push({
+              type: 'change',
+              occurredAt: event.occurredOn,
+              eventType: event.eventType,
+              change: event.change,
+            });
+          }
+        }
+      }
+
+      // Stable sort keeps the event store order for simultaneous changes
+      entries.sort(
+        (a, b) =>
+          new Date(a.occurredAt).getTime() - new Date(b.occurredAt).getTime(),
+      );
+      return Result.success({ taskId, total: entries.length, entries });
+    } catch (error) {
+      return Result.failure('Failed to retrieve activity');
+    }
+  }
+
+  /**
+   * Sends everyone with unread mentions one email listing them all. A
+   * mention stays pending until its recipient's digest goes out.
+   */
+  async sendMentionDigests(): Promise<Result<MentionDigestResultDto, string>> {
+    try {
+      const byRecipient = new Map<string, TaskComment[]>();
+      for (const comment of await this.commentRepository.findWithPendingMentions()) {
+        for (const email of comment.pendingMentions) {
+          byRecipient.set(email, [...(byRecipient.get(email) || []), comment]);
+        }
+      }
+
+      const result: MentionDigestResultDto = {
+        recipients: byRecipient.size,
+        sent: 0,
+        failed: 0,
+      };
+      const taskTitles = new Map<string, string>();
+
+      for (const [recipient, comments] of byRecipient) {
+        const mentions: Record<string, string | undefined>[] = [];
+        for (const comment of comments) {
+          if (!taskTitles.has(comment.taskId)) {
+            const task = await this.taskRepository.findById(comment.taskId);
+            taskTitles.set(comment.taskId, task?.title ?? comment.taskId);
+          }
+          mentions.push({
+            taskTitle: taskTitles.get(comment.taskId),
+            author: comment.author?.value,
+            excerpt: this.excerpt(comment.body),
+            commentedAt: comment.createdAt.toISOString(),
+          });
+        }
+
+        if (!(await this.sendDigest(recipient, mentions))) {
+          result.failed++;
+          continue;
+        }
+        for (const comment of comments) {
+          comment.markMentionNotified(recipient);
+          await this.commentRepository.save(comment);
+        }
+        result.sent++;
+      }
+
+      return Result.success(result);
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to send mention digests');
+    }
+  }
+
+  private async sendDigest(
+    recipient: string,
+    mentions: Record<string, string | undefined>[],
+  ): Promise<boolean> {
+    const email = await this.templateService.composeEmail(
+      'mention_digest',
+      { count: mentions.length, mentions },
+      {
+        subject: `New mentions in task comments (${mentions.length})`,
+        text: mentions
+          .map(
+            (m) =>
+              `${m.author ?? 'Someone'} on "${m.taskTitle}" (${m.commentedAt}):\n${m.excerpt}`,
+          )
+          .join('\n\n'),
+      },
+    );
+
+    const result = await this.emailService.sendEmail({
+      to: recipient,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      tags: ['mention-digest'],
+    });
+    if (result.isFailure) {
+      this.logger.error(
+        `Failed to send mention digest to ${recipient}: ${result.error}`,
+      );
+    }
+    return result.isSuccess;
+  }
+
+  private async findComment(
+    taskId: string,
+    commentId: string,
+  ): Promise<TaskComment | null> {
+    const comment = await this.commentRepository.findById(commentId);
+    return comment?.taskId === taskId ? comment : null;
+  }
+
+  private excerpt(body: string): string {
+    return body.length > EXCERPT_LENGTH
+      ? `${body.slice(0, EXCERPT_LENGTH - 3).trimEnd()}...`
+      : body;
+  }
+
+  private mapToResponseDto(comment: TaskComment): TaskCommentResponseDto {
+    const json = comment.toJSON();
+    return {
+      id: json.id,
+      taskId: json.taskId,
+      author: json.author,
+      body: json.body,
+      mentions: json.mentions,
+      attachments: json.attachments,
+      revisions: json.revisions,
+      editedAt: json.editedAt,
+      deletedAt: json.deletedAt,
+      createdAt: json.createdAt,
+      updatedAt: json.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,406 @@
+/**
+ * Task Delegation Application Service - Application Layer
+ * Hands tasks to other people, tracks their answers and nudges them
+ */
+
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OnEvent } from '@nestjs/event-emitter';
+import { randomBytes } from 'crypto';
+import {
+  DelegateTaskDto,
+  DelegationConfirmationDto,
+  DelegationFollowUpResultDto,
+  DelegationListResponseDto,
+  DelegationQueryDto,
+  DelegationResponseDto,
+  TaskResponseDto,
+} from '../dtos/task.dto';
+import { ComposedEmailDto } from '../dtos/email-template.dto';
+import { Result } from '../common/result';
+import { EmailApplicationService } from './email-application.service';
+import { EmailTemplateApplicationService } from './email-template-application.service';
+import { TaskApplicationService } from './task-application.service';
+import type { DomainEvent } from '../../domain/common/domain-events';
+import type { TaskRepository } from '../../domain/repositories/task.repository';
+import { Task } from '../../domain/entities/task.entity';
+import { Email } from '../../domain/common/value-objects';
+
+export type DelegationAction = 'accept' | 'decline' | 'return';
+
+export const DELEGATION_ACTIONS: DelegationAction[] = [
+  'accept',
+  'decline',
+  'return',
+];
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+const DELEGATION_STATUSES = ['pending', 'accepted', 'declined', 'returned'];
+
+@Injectable()
+export class TaskDelegationApplicationService {
+  private readonly logger = new Logger(TaskDelegationApplicationService.name);
+
+  constructor(
+    @Inject('TaskRepository') private readonly taskRepository: TaskRepository,
+    private readonly taskService: TaskApplicationService,
+    private readonly emailService: EmailApplicationService,
+    private readonly templateService: EmailTemplateApplicationService,
+    private readonly config: ConfigService,
+  ) {}
+
+  /**
+   * Assigning a task to anyone but the executive delegates it, whichever
+   * use case made the assignment: create, update, bulk or import.
+   */
+  @OnEvent('TaskCreated')
+  @OnEvent('TaskUpdated')
+  async handleTaskAssigned(event: DomainEvent): Promise<void> {
+    const assignee =
+      event.eventType === 'TaskCreated'
+        ? event.eventData.assignee
+        : event.eventData.changes?.field === 'assignee'
+          ? event.eventData.changes.newValue
+          : undefined;
+    if (!assignee || this.isExecutive(assignee)) {
+      return;
+    }
+
+    try {
+      const task = await this.taskRepository.findById(event.aggregateId);
+      if (
+        !task?.status.isActive ||
+        task.assignee?.value !== assignee ||
+        (task.isDelegated && task.delegation!.delegate === assignee)
+      ) {
+        return; // Changed since, or delegated explicitly
+      }
+
+      await this.startDelegation(task, task.assignee!);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to delegate task ${event.aggregateId}: ${error.message}`,
+      );
+    }
+  }
+
+  async delegateTask(
+    taskId: string,
+    data: DelegateTaskDto,
+  ): Promise<Result<TaskResponseDto, string>> {
+    try {
+      const task = await this.taskRepository.findById(taskId);
+      if (!task) {
+        return Result.failure('Task not found');
+      }
+      if (!data.assignee?.trim()) {
+        return Result.failure('Assignee is required');
+      }
+
+      const delegate = new Email(data.assignee.trim());
+      if (this.isExecutive(delegate.value)) {
+        return Result.failure(
+          'Tasks assigned to the executive are not delegated',
+        );
+      }
+
+      await this.startDelegation(task, delegate, {
+        followUpAt: data.followUpAt ? new Date(data.followUpAt) : undefined,
+        note: data.note,
+      });
+      return this.taskService.getTaskById(task.id);
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to delegate task');
+    }
+  }
+
+  /**
+   * What the delegate is about to confirm, for the page behind the links
+   * in their emails. Nothing changes until they submit it.
+   */
+  async getDelegationConfirmation(
+    taskId: string,
+    action: DelegationAction,
+    token: string,
+  ): Promise<Result<DelegationConfirmationDto, string>> {
+    if (!DELEGATION_ACTIONS.includes(action)) {
+      return this.invalidAction(action);
+    }
+
+    try {
+      const task = await this.taskRepository.findById(taskId);
+      if (!task) {
+        return Result.failure('Task not found');
+      }
+
+      task.verifyDelegationToken(token);
+      return Result.success(this.toConfirmation(task, action));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to retrieve delegation');
+    }
+  }
+
+  /**
+   * Answers from the delegate, authorised by the token in their links.
+   * Declines and returns are passed on to the executive.
+   */
+  async respondToDelegation(
+    taskId: string,
+    action: DelegationAction,
+    data: DelegationResponseDto,
+  ): Promise<Result<DelegationConfirmationDto, string>> {
+    if (!DELEGATION_ACTIONS.includes(action)) {
+      return this.invalidAction(action);
+    }
+
+    try {
+      const task = await this.taskRepository.findById(taskId);
+      if (!task) {
+        return Result.failure('Task not found');
+      }
+
+      switch (action) {
+        case 'accept':
+          task.acceptDelegation(data.token);
+          break;
+        case 'decline':
+          task.declineDelegation(data.token, data.reason);
+          break;
+        default:
+          task.returnDelegation(data.token, data.reason);
+      }
+      await this.taskRepository.save(task);
+
+      if (action !== 'accept') {
+        await this.notifyExecutive(task);
+      }
+      return Result.success(this.toConfirmation(task, action));
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to update delegation');
+    }
+  }
+
+  async getDelegations(
+    query: DelegationQueryDto = {},
+  ): Promise<Result<DelegationListResponseDto, string>> {
+    if (query.status && !DELEGATION_STATUSES.includes(query.status)) {
+      return Result.failure(
+        `Invalid delegation status: ${query.status}. Must be one of: ${DELEGATION_STATUSES.join(', ')}`,
+      );
+    }
+
+    try {
+      const delegated = (await this.taskRepository.findAll())
+        .filter((task) => task.delegation)
+        .sort(
+          (a, b) =>
+            b.delegation!.delegatedAt.getTime() -
+            a.delegation!.delegatedAt.getTime(),
+        );
+
+      const counts = Object.fromEntries(
+        DELEGATION_STATUSES.map((status) => [status, 0]),
+      );
+      delegated.forEach((task) => counts[task.delegation!.status]++);
+
+      const delegate = query.delegate?.trim().toLowerCase();
+      const items: TaskResponseDto[] = [];
+      for (const task of delegated) {
+        if (
+          (query.status && task.delegation!.status !== query.status) ||
+          (delegate && task.delegation!.delegate.toLowerCase() !== delegate)
+        ) {
+          continue;
+        }
+        const dto = await this.taskService.getTaskById(task.id);
+        if (dto.isSuccess) {
+          items.push(dto.value);
+        }
+      }
+
+      return Result.success({ items, counts });
+    } catch (error) {
+      return Result.failure('Failed to retrieve delegations');
+    }
+  }
+
+  /**
+   * Nudges delegates whose tasks have not moved by their follow-up date,
+   * then schedules the next nudge until the configured maximum is reached.
+   */
+  async sendDueFollowUps(
+    now: Date = new Date(),
+  ): Promise<Result<DelegationFollowUpResultDto, string>> {
+    try {
+      const due = (await this.taskRepository.findAll()).filter((task) =>
+        task.isFollowUpDue(now),
+      );
+      const result: DelegationFollowUpResultDto = {
+        due: due.length,
+        sent: 0,
+        failed: 0,
+      };
+
+      for (const task of due) {
+        const delegation = task.delegation!;
+        const email = await this.templateService.composeEmail(
+          'delegation_follow_up',
+          {
+            taskTitle: task.title,
+            delegatedOn: this.formatDate(delegation.delegatedAt),
+            dueDate: task.dueDate && this.formatDate(task.dueDate),
+            accepted: delegation.status === 'accepted',
+            acceptUrl: this.actionUrl(task, 'accept'),
+            declineUrl: this.actionUrl(task, 'decline'),
+            returnUrl: this.actionUrl(task, 'return'),
+          },
+          {
+            subject: `Checking in: ${task.title}`,
+            text: `I delegated "${task.title}" to you on ${this.formatDate(delegation.delegatedAt)} and have not seen any progress yet.\n\n${
+              delegation.status === 'accepted'
+                ? `If you can no longer take it on, hand it back: ${this.actionUrl(task, 'return')}`
+                : `Accept: ${this.actionUrl(task, 'accept')}\nDecline: ${this.actionUrl(task, 'decline')}`
+            }`,
+          },
+        );
+
+        const sent = await this.send(delegation.delegate, email);
+        if (!sent) {
+          result.failed++;
+          continue;
+        }
+
+        const maxFollowUps = this.config.get<number>(
+          'delegation.maxFollowUps',
+          3,
+        );
+        task.recordFollowUp(
+          delegation.followUps + 1 < maxFollowUps
+            ? this.followUpDate(now)
+            : undefined,
+          now,
+        );
+        await this.taskRepository.save(task);
+        result.sent++;
+      }
+
+      return Result.success(result);
+    } catch (error) {
+      return Result.failure(error.message || 'Failed to send follow-ups');
+    }
+  }
+
+  private async startDelegation(
+    task: Task,
+    delegate: Email,
+    options: { followUpAt?: Date; note?: string } = {},
+  ): Promise<void> {
+    const now = new Date();
+    const maxFollowUps = this.config.get<number>('delegation.maxFollowUps', 3);
+    const delegation = task.delegate(
+      delegate,
+      randomBytes(24).toString('hex'),
+      {
+        followUpAt:
+          options.followUpAt ??
+          (maxFollowUps > 0 ? this.followUpDate(now) : undefined),
+        note: options.note,
+      },
+      now,
+    );
+    await this.taskRepository.save(task);
+
+    const email = await this.templateService.composeEmail(
+      'task_delegation',
+      {
+        taskTitle: task.title,
+        taskDescription: task.description,
+        priority: task.priority.value,
+        dueDate: task.dueDate && this.formatDate(task.dueDate),
+        note: delegation.note,
+        acceptUrl: this.actionUrl(task, 'accept'),
+        declineUrl: this.actionUrl(task, 'decline'),
+      },
+      {
+        subject: `Can you take this on? ${task.title}`,
+        text: `I would like to hand "${task.title}" over to you.${
+          delegation.note ? `\n\n${delegation.note}` : ''
+        }\n\nAccept: ${this.actionUrl(task, 'accept')}\nDecline: ${this.actionUrl(task, 'decline')}`,
+      },
+    );
+    await this.send(delegation.delegate, email);
+    this.logger.log(`Delegated task ${task.id} to ${delegation.delegate}`);
+  }
+
+  private async notifyExecutive(task: Task): Promise<void> {
+    const executive = this.config.get<string>('delegation.executiveEmail');
+    const delegation = task.delegation!;
+    if (!executive) {
+      return;
+    }
+
+    await this.send(executive, {
+      subject: `Delegation ${delegation.status}: ${task.title}`,
+      text: `${delegation.delegate} ${delegation.status} "${task.title}".${
+        delegation.reason ? `\n\nReason: ${delegation.reason}` : ''
+      }\n\nThe task is unassigned again.`,
+    });
+  }
+
+  private async send(to: string, email: ComposedEmailDto): Promise<boolean> {
+    const result = await this.emailService.sendEmail({
+      to,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      replyTo: this.config.get<string>('delegation.executiveEmail'),
+      tags: ['delegation'],
+    });
+    if (result.isFailure) {
+      this.logger.error(`Failed to email ${to}: ${result.error}`);
+    }
+    return result.isSuccess;
+  }
+
+  private invalidAction(action: string): Result<never, string> {
+    return Result.failure(
+      `Invalid delegation action: ${action}. Must be one of: ${DELEGATION_ACTIONS.join(', ')}`,
+    );
+  }
+
+  private toConfirmation(
+    task: Task,
+    action: DelegationAction,
+  ): DelegationConfirmationDto {
+    const delegation = task.delegation!;
+    return {
+      taskId: task.id,
+      title: task.title,
+      action,
+      delegate: delegation.delegate,
+      status: delegation.status,
+      respondedAt: delegation.respondedAt?.toISOString(),
+    };
+  }
+
+  private actionUrl(task: Task, action: DelegationAction): string {
+    const baseUrl = this.config
+      .get<string>('delegation.publicUrl', 'http://localhost:3000')
+      .replace(/\/+$/, '');
+    return `${baseUrl}/api/tasks/${encodeURIComponent(task.id)}/delegation/${action}?token=${task.delegation!.token}`;
+  }
+
+  private followUpDate(now: Date): Date {
+    const days = this.config.get<number>('delegation.followUpDays', 3);
+    return new Date(now.getTime() + days * DAY_IN_MS);
+  }
+
+  private isExecutive(email: string): boolean {
+    const executive = this.config.get<string>('delegation.executiveEmail');
+    return !!executive && executive.toLowerCase() === email.toLowerCase();
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
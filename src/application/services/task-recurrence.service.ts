@@ -0,0 +1,42 @@
+/**
+ * Task Recurrence Service - Application Layer
+ * Continues recurring task series when an occurrence is completed
+ */
+
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import type { DomainEvent } from '../../domain/common/domain-events';
+import type { TaskRepository } from '../../domain/repositories/task.repository';
+
+@Injectable()
+export class TaskRecurrenceService {
+  private readonly logger = new Logger(TaskRecurrenceService.name);
+
+  constructor(
+    @Inject('TaskRepository') private readonly taskRepository: TaskRepository,
+  ) {}
+
+  /**
+   * Listens for completions rather than hooking the completion paths, so a
+   * task completed through any use case continues its series.
+   */
+  @OnEvent('TaskCompleted')
+  async handleTaskCompleted(event: DomainEvent): Promise<void> {
+    const task = await this.taskRepository.findById(event.aggregateId);
+    if (!task?.recurrence || task.recurrence.nextOccurrenceId) {
+      return; // Not recurring, or the series was already continued
+    }
+
+    const next = task.createNextOccurrence();
+    if (!next) {
+      this.logger.log(`Recurring series ${task.recurrence.seriesId} ended`);
+      return;
+    }
+
+    await this.taskRepository.save(next);
+    await this.taskRepository.save(task);
+    this.logger.log(
+      `Created next occurrence ${next.id} of ${task.id}, due ${next.dueDate?.toISOString()}`,
+    );
+  }
+}
@@ -0,0 +1,298 @@
+/**
+ * Task Transfer Application Service - Application Layer
+ * Exports tasks to CSV, JSON and iCalendar files and imports them back
+ */
+
+import { Injectable, Inject } from '@nestjs/common';
+import {
+  ImportTasksDto,
+  ImportedTaskDto,
+  TaskExportDto,
+  TaskImportErrorDto,
+  TaskImportResponseDto,
+} from '../dtos/task-transfer.dto';
+import { Result } from '../common/result';
+import type { TaskRepository } from '../../domain/repositories/task.repository';
+import { TaskDependencyGraphService } from '../../domain/services/task-dependency-graph.service';
+import { Task } from '../../domain/entities/task.entity';
+import { Email, Priority, TaskStatus } from '../../domain/common/value-objects';
+import {
+  ParsedTaskRecord,
+  TASK_FILE_FORMATS,
+  TaskFileCodec,
+  TaskFileFormat,
+  TaskRecord,
+} from '../../infrastructure/serialization/task-file-codec';
+
+const CONTENT_TYPES: Record<TaskFileFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  ics: 'text/calendar',
+};
+const MAX_IMPORT_ROWS = 1000;
+
+interface ImportCandidate {
+  row: number;
+  record: TaskRecord;
+  task: Task;
+}
+
+@Injectable()
+export class TaskTransferApplicationService {
+  constructor(
+    @Inject('TaskRepository') private readonly taskRepository: TaskRepository,
+    private readonly dependencyGraphService: TaskDependencyGraphService,
+    private readonly codec: TaskFileCodec,
+  ) {}
+
+  async exportTasks(
+    format: string = 'json',
+  ): Promise<Result<TaskExportDto, string>> {
+    if (!this.isFormat(format)) {
+      return Result.failure(
+        `Invalid export format: ${format}. Must be one of: ${TASK_FILE_FORMATS.join(', ')}`,
+      );
+    }
+
+    try {
+      const tasks = await this.taskRepository.findAll();
+      return Result.success({
+        format,
+        contentType: CONTENT_TYPES[format],
+        filename: `tasks.${format}`,
+        content: this.codec.serialize(
+          tasks.map((task) => task.toJSON()),
+          format,
+        ),
+      });
+    } catch (error) {
+      return Result.failure('Failed to export tasks');
+    }
+  }
+
+  /**
+   * Every row is validated before anything is saved, so a file with errors
+   * imports nothing. Imported tasks get new IDs: dependencies on other rows
+   * follow them, any other dependency must be an existing task.
+   */
+  async importTasks(
+    data: ImportTasksDto,
+  ): Promise<Result<TaskImportResponseDto, string>> {
+    if (!this.isFormat(data.format)) {
+      return Result.failure(
+        `Invalid import format: ${data.format}. Must be one of: ${TASK_FILE_FORMATS.join(', ')}`,
+      );
+    }
+    if (typeof data.content !== 'string' || !data.content.trim()) {
+      return Result.failure('Invalid import: content is required');
+    }
+
+    let rows: ParsedTaskRecord[];
+    try {
+      rows = this.codec.parse(data.content, data.format);
+    } catch (error) {
+      return Result.failure(error.message);
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return Result.failure(
+        `Invalid import: at most ${MAX_IMPORT_ROWS} tasks are allowed per file`,
+      );
+    }
+
+    try {
+      const errors: TaskImportErrorDto[] = [];
+      const candidates: ImportCandidate[] = [];
+      const sourceIds = new Set<string>();
+      const newIds = new Map<string, string>(); // source ID -> new ID
+
+      for (const { row, record, error } of rows) {
+        if (error) {
+          errors.push({ row, message: error });
+          continue;
+        }
+        if (record.id && sourceIds.has(record.id)) {
+          errors.push({
+            row,
+            field: 'id',
+            message: `Duplicate ID in file: ${record.id}`,
+          });
+          continue;
+        }
+        if (record.id) {
+          sourceIds.add(record.id);
+        }
+
+        const rowErrors = this.validateRecord(record);
+        if (rowErrors.length > 0) {
+          errors.push(...rowErrors.map((rowError) => ({ row, ...rowError })));
+          continue;
+        }
+
+        const task = this.buildTask(record);
+        if (record.id) {
+          newIds.set(record.id, task.id);
+        }
+        candidates.push({ row, record, task });
+      }
+
+      const existing = await this.taskRepository.findAll();
+      const existingIds = new Set(existing.map((task) => task.id));
+      for (const { row, record, task } of candidates) {
+        for (const dependencyId of record.dependencies || []) {
+          const targetId =
+            newIds.get(dependencyId) ??
+            (existingIds.has(dependencyId) ? dependencyId : undefined);
+          if (!targetId) {
+            // A row that failed validation already has its own error
+            if (!sourceIds.has(dependencyId)) {
+              errors.push({
+                row,
+                field: 'dependencies',
+                message: `Dependency task not found: ${dependencyId}`,
+              });
+            }
+            continue;
+          }
+          if (targetId === task.id) {
+            errors.push({
+              row,
+              field: 'dependencies',
+              message: 'Task cannot depend on itself',
+            });
+            continue;
+          }
+          task.addDependency(targetId);
+        }
+      }
+
+      const sourceIdsByNewId = new Map(
+        [...newIds].map(([sourceId, newId]) => [newId, sourceId]),
+      );
+      const allTasks = [
+        ...existing,
+        ...candidates.map((candidate) => candidate.task),
+      ];
+      for (const { row, task } of candidates) {
+        const cycle = this.dependencyGraphService.findCycle(allTasks, task.id, [
+          ...task.dependencies,
+        ]);
+        if (cycle) {
+          errors.push({
+            row,
+            field: 'dependencies',
+            message: `Dependency cycle detected: ${cycle
+              .map((id) => sourceIdsByNewId.get(id) ?? id)
+              .join(' -> ')}`,
+          });
+        }
+      }
+
+      errors.sort((a, b) => a.row - b.row);
+      const dryRun = !!data.dryRun;
+      const save = !dryRun && errors.length === 0;
+      if (save) {
+        for (const { task } of candidates) {
+          await this.taskRepository.save(task);
+        }
+      }
+
+      return Result.success({
+        format: data.format,
+        dryRun,
+        total: rows.length,
+        valid: candidates.filter(
+          (candidate) => !errors.some((error) => error.row === candidate.row),
+        ).length,
+        imported: save ? candidates.length : 0,
+        tasks: candidates.map(
+          ({ row, record, task }): ImportedTaskDto => ({
+            row,
+            sourceId: record.id,
+            id: save ? task.id : undefined,
+            title: task.title,
+          }),
+        ),
+        errors,
+      });
+    } catch (error) {
+      return Result.failure('Failed to import tasks');
+    }
+  }
+
+  private validateRecord(
+    record: TaskRecord,
+  ): Array<{ field: string; message: string }> {
+    const errors: Array<{ field: string; message: string }> = [];
+    const check = (field: string, validate: () => void) => {
+      try {
+        validate();
+      } catch (error) {
+        errors.push({ field, message: error.message });
+      }
+    };
+
+    if (!record.title) {
+      errors.push({ field: 'title', message: 'Task title is required' });
+    }
+    if (record.status) {
+      check('status', () => new TaskStatus(record.status!));
+    }
+    if (record.priority) {
+      check('priority', () => new Priority(record.priority!));
+    }
+    if (record.assignee) {
+      check('assignee', () => new Email(record.assignee!));
+    }
+    if (record.dueDate && isNaN(new Date(record.dueDate).getTime())) {
+      errors.push({
+        field: 'dueDate',
+        message: `Invalid due date: ${record.dueDate}`,
+      });
+    }
+    if (
+      record.estimatedDuration !== undefined &&
+      !(record.estimatedDuration > 0)
+    ) {
+      errors.push({
+        field: 'estimatedDuration',
+        message:
+          'Invalid estimated duration: must be a positive number of minutes',
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Past due dates are accepted here, unlike on create, because imported
+   * lists and backups legitimately contain overdue and finished work.
+   */
+  private buildTask(record: TaskRecord): Task {
+    const tags = [
+      ...new Set(
+        (record.tags || [])
+          .map((tag) => tag.trim().toLowerCase())
+          .filter((tag) => tag),
+      ),
+    ];
+
+    const task = Task.create({
+      title: record.title!,
+      description: record.description,
+      priority: record.priority,
+      assignee: record.assignee,
+      dueDate: record.dueDate ? new Date(record.dueDate) : undefined,
+      tags,
+      estimatedDuration: record.estimatedDuration,
+    });
+    if (record.status && record.status !== 'pending') {
+      task.changeStatus(new TaskStatus(record.status));
+    }
+
+    return task;
+  }
+
+  private isFormat(format: string): format is TaskFileFormat {
+    return TASK_FILE_FORMATS.includes(format as TaskFileFormat);
+  }
+}
@@ -22,6 +22,7 @@ import {
   IsEmail,
   IsUrl,
   IsEnum,
+  IsIn,
   Min,
   Max,
 } from 'class-validator';
@@ -154,6 +155,31 @@ export class GoogleServicesConfig {
   region: string = 'us-central1';
 }
 
+/**
+ * Calendar configuration
+ */
+export class CalendarConfig {
+  @IsIn(['google', 'caldav', 'ics'])
+  provider: 'google' | 'caldav' | 'ics' = 'google';
+
+  // URL of the calendar collection itself, not the account
+  @IsString()
+  @IsOptional()
+  caldavUrl: string = '';
+
+  @IsString()
+  @IsOptional()
+  caldavUsername: string = '';
+
+  @IsString()
+  @IsOptional()
+  caldavPassword: string = '';
+
+  @IsString()
+  @Transform(({ value }) => value || 'data/calendar.ics')
+  icsPath: string = 'data/calendar.ics';
+}
+
 /**
  * Email Services configuration
  */
@@ -162,6 +188,16 @@ export class EmailServicesConfig {
   @IsOptional()
   sendgridApiKey: string = '';
 
+  @IsString()
+  @IsOptional()
+  sendgridWebhookPublicKey: string = '';
+
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  @Transform(({ value }) => parseInt(value, 10) || 300)
+  sendgridWebhookToleranceSeconds: number = 300;
+
   @IsEmail()
   @Transform(({ value }) => value || 'assistant@company.com')
   fromEmail: string = 'assistant@company.com';
@@ -180,6 +216,133 @@ export class EmailServicesConfig {
   @IsBoolean()
   @Transform(({ value }) => value === 'true' || value === true)
   enableTemplates: boolean = true;
+
+  @IsIn(['sendgrid', 'smtp', 'file'])
+  transport: 'sendgrid' | 'smtp' | 'file' = 'sendgrid';
+
+  @IsString()
+  @Transform(({ value }) => value || 'localhost')
+  smtpHost: string = 'localhost';
+
+  @IsNumber()
+  @Min(1)
+  @Max(65535)
+  @Type(() => Number)
+  @Transform(({ value }) => parseInt(value, 10) || 587)
+  smtpPort: number = 587;
+
+  @IsBoolean()
+  @Transform(({ value }) => value === 'true' || value === true)
+  smtpSecure: boolean = false;
+
+  @IsString()
+  @IsOptional()
+  smtpUser: string = '';
+
+  @IsString()
+  @IsOptional()
+  smtpPassword: string = '';
+
+  @IsString()
+  @Transform(({ value }) => value || 'data/outbox')
+  fileSinkDirectory: string = 'data/outbox';
+
+  @IsNumber()
+  @Min(1)
+  @Max(20)
+  @Type(() => Number)
+  @Transform(({ value }) => parseInt(value, 10) || 5)
+  retryMaxAttempts: number = 5;
+
+  @IsNumber()
+  @Min(0)
+  @Type(() => Number)
+  @Transform(({ value }) => parseInt(value, 10) || 30000)
+  retryBaseDelayMs: number = 30000;
+
+  @IsNumber()
+  @Min(0)
+  @Type(() => Number)
+  @Transform(({ value }) => parseInt(value, 10) || 3600000)
+  retryMaxDelayMs: number = 3600000;
+}
+
+/**
+ * Persistence configuration
+ */
+export class PersistenceConfig {
+  @IsIn(['memory', 'database'])
+  @Transform(({ value }) => (value === 'database' ? 'database' : 'memory'))
+  taskRepository: 'memory' | 'database' = 'memory';
+
+  @IsIn(['memory', 'database'])
+  @Transform(({ value }) => (value === 'database' ? 'database' : 'memory'))
+  meetingRepository: 'memory' | 'database' = 'memory';
+
+  @IsIn(['memory', 'database'])
+  @Transform(({ value }) => (value === 'database' ? 'database' : 'memory'))
+  emailRepository: 'memory' | 'database' = 'memory';
+
+  @IsIn(['memory', 'database'])
+  @Transform(({ value }) => (value === 'database' ? 'database' : 'memory'))
+  emailTemplateRepository: 'memory' | 'database' = 'memory';
+
+  @IsIn(['memory', 'database'])
+  @Transform(({ value }) => (value === 'database' ? 'database' : 'memory'))
+  prioritizationProfileRepository: 'memory' | 'database' = 'memory';
+
+  @IsIn(['memory', 'database'])
+  @Transform(({ value }) => (value === 'database' ? 'database' : 'memory'))
+  savedViewRepository: 'memory' | 'database' = 'memory';
+
+  @IsIn(['memory', 'database'])
+  @Transform(({ value }) => (value === 'database' ? 'database' : 'memory'))
+  taskCommentRepository: 'memory' | 'database' = 'memory';
+
+  // Escalation rules and the log of fired escalations
+  @IsIn(['memory', 'database'])
+  @Transform(({ value }) => (value === 'database' ? 'database' : 'memory'))
+  escalationRepository: 'memory' | 'database' = 'memory';
+
+  @IsIn(['memory', 'database'])
+  @Transform(({ value }) => (value === 'database' ? 'database' : 'memory'))
+  taskBoardRepository: 'memory' | 'database' = 'memory';
+
+  @IsString()
+  @Transform(({ value }) => value || 'data/executive-assistant.db')
+  sqlitePath: string = 'data/executive-assistant.db';
+
+  @IsString()
+  @Transform(({ value }) => value || 'data/event-store.jsonl')
+  eventStorePath: string = 'data/event-store.jsonl';
+}
+
+/**
+ * Task delegation configuration
+ */
+export class DelegationConfig {
+  // Tasks assigned to anyone else are delegated
+  @IsOptional()
+  @IsEmail()
+  executiveEmail?: string;
+
+  @IsString()
+  @Transform(({ value }) => value || 'http://localhost:3000')
+  publicUrl: string = 'http://localhost:3000';
+
+  @IsNumber()
+  @Min(1)
+  @Max(90)
+  @Type(() => Number)
+  @Transform(({ value }) => parseInt(value, 10) || 3)
+  followUpDays: number = 3;
+
+  @IsNumber()
+  @Min(0)
+  @Max(20)
+  @Type(() => Number)
+  @Transform(({ value }) => parseInt(value, 10) || 3)
+  maxFollowUps: number = 3;
 }
 
 /**
@@ -290,9 +453,18 @@ export class AppConfig {
   @Type(() => GoogleServicesConfig)
   googleServices: GoogleServicesConfig;
 
+  @Type(() => CalendarConfig)
+  calendar: CalendarConfig;
+
   @Type(() => EmailServicesConfig)
   emailServices: EmailServicesConfig;
 
+  @Type(() => PersistenceConfig)
+  persistence: PersistenceConfig;
+
+  @Type(() => DelegationConfig)
+  delegation: DelegationConfig;
+
   @Type(() => SecurityConfig)
   security: SecurityConfig;
 
@@ -306,7 +478,10 @@ export class AppConfig {
     this.application = new ApplicationConfig();
     this.aiServices = new AIServicesConfig();
     this.googleServices = new GoogleServicesConfig();
+    this.calendar = new CalendarConfig();
     this.emailServices = new EmailServicesConfig();
+    this.persistence = new PersistenceConfig();
+    this.delegation = new DelegationConfig();
     this.security = new SecurityConfig();
     this.performance = new PerformanceConfig();
     this.features = new FeatureFlagsConfig();
@@ -359,8 +534,26 @@ export const createConfiguration = (): AppConfig => {
   config.googleServices.projectId = process.env.GCP_PROJECT_ID || '';
   config.googleServices.region = process.env.GCP_REGION || 'us-central1';
 
+  // Set calendar config
+  config.calendar.provider =
+    process.env.CALENDAR_PROVIDER === 'caldav' ||
+    process.env.CALENDAR_PROVIDER === 'ics'
+      ? process.env.CALENDAR_PROVIDER
+      : 'google';
+  config.calendar.caldavUrl = process.env.CALDAV_URL || '';
+  config.calendar.caldavUsername = process.env.CALDAV_USERNAME || '';
+  config.calendar.caldavPassword = process.env.CALDAV_PASSWORD || '';
+  config.calendar.icsPath =
+    process.env.CALENDAR_ICS_PATH || 'data/calendar.ics';
+
   // Set email services config
   config.emailServices.sendgridApiKey = process.env.SENDGRID_API_KEY || '';
+  config.emailServices.sendgridWebhookPublicKey =
+    process.env.SENDGRID_WEBHOOK_PUBLIC_KEY || '';
+  config.emailServices.sendgridWebhookToleranceSeconds = parseInt(
+    process.env.SENDGRID_WEBHOOK_TOLERANCE_SECONDS || '300',
+    10,
+  );
   config.emailServices.fromEmail =
     process.env.SENDGRID_FROM_EMAIL || 'assistant@example.com';
   config.emailServices.fromName =
@@ -371,6 +564,79 @@ export const createConfiguration = (): AppConfig => {
   );
   config.emailServices.enableTemplates =
     process.env.ENABLE_EMAIL_TEMPLATES !== 'false';
+  config.emailServices.transport =
+    process.env.EMAIL_TRANSPORT === 'smtp' ||
+    process.env.EMAIL_TRANSPORT === 'file'
+      ? process.env.EMAIL_TRANSPORT
+      : 'sendgrid';
+  config.emailServices.smtpHost = process.env.SMTP_HOST || 'localhost';
+  config.emailServices.smtpPort = parseInt(process.env.SMTP_PORT || '587', 10);
+  config.emailServices.smtpSecure = process.env.SMTP_SECURE === 'true';
+  config.emailServices.smtpUser = process.env.SMTP_USER || '';
+  config.emailServices.smtpPassword = process.env.SMTP_PASSWORD || '';
+  config.emailServices.fileSinkDirectory =
+    process.env.EMAIL_FILE_SINK_DIR || 'data/outbox';
+  config.emailServices.retryMaxAttempts = parseInt(
+    process.env.EMAIL_RETRY_MAX_ATTEMPTS || '5',
+    10,
+  );
+  config.emailServices.retryBaseDelayMs = parseInt(
+    process.env.EMAIL_RETRY_BASE_DELAY_MS || '30000',
+    10,
+  );
+  config.emailServices.retryMaxDelayMs = parseInt(
+    process.env.EMAIL_RETRY_MAX_DELAY_MS || '3600000',
+    10,
+  );
+
+  // Set persistence config
+  config.persistence.taskRepository =
+    process.env.TASK_REPOSITORY_TYPE === 'database' ? 'database' : 'memory';
+  config.persistence.meetingRepository =
+    process.env.MEETING_REPOSITORY_TYPE === 'database' ? 'database' : 'memory';
+  config.persistence.emailRepository =
+    process.env.EMAIL_REPOSITORY_TYPE === 'database' ? 'database' : 'memory';
+  config.persistence.emailTemplateRepository =
+    process.env.EMAIL_TEMPLATE_REPOSITORY_TYPE === 'database'
+      ? 'database'
+      : 'memory';
+  config.persistence.prioritizationProfileRepository =
+    process.env.PRIORITIZATION_PROFILE_REPOSITORY_TYPE === 'database'
+      ? 'database'
+      : 'memory';
+  config.persistence.savedViewRepository =
+    process.env.SAVED_VIEW_REPOSITORY_TYPE === 'database'
+      ? 'database'
+      : 'memory';
+  config.persistence.taskCommentRepository =
+    process.env.TASK_COMMENT_REPOSITORY_TYPE === 'database'
+      ? 'database'
+      : 'memory';
+  config.persistence.escalationRepository =
+    process.env.ESCALATION_REPOSITORY_TYPE === 'database'
+      ? 'database'
+      : 'memory';
+  config.persistence.taskBoardRepository =
+    process.env.TASK_BOARD_REPOSITORY_TYPE === 'database'
+      ? 'database'
+      : 'memory';
+  config.persistence.sqlitePath =
+    process.env.SQLITE_DATABASE_PATH || 'data/executive-assistant.db';
+  config.persistence.eventStorePath =
+    process.env.EVENT_STORE_PATH || 'data/event-store.jsonl';
+
+  // Set delegation config
+  config.delegation.executiveEmail = process.env.EXECUTIVE_EMAIL || undefined;
+  config.delegation.publicUrl =
+    process.env.APP_PUBLIC_URL || 'http://localhost:3000';
+  config.delegation.followUpDays = parseInt(
+    process.env.DELEGATION_FOLLOW_UP_DAYS || '3',
+    10,
+  );
+  config.delegation.maxFollowUps = parseInt(
+    process.env.DELEGATION_MAX_FOLLOW_UPS || '3',
+    10,
+  );
 
   // Set security config
   config.security.jwtSecret = process.env.JWT_SECRET || 'dev-secret-key';
@@ -60,6 +60,98 @@ export class TaskPriorityChangedEvent extends BaseDomainEvent {
   }
 }
 
+export class TaskDeletedEvent extends BaseDomainEvent {
+  constructor(taskId: string) {
+    super(taskId, 'TaskDeleted');
+  }
+}
+
+export class TaskNextOccurrenceCreatedEvent extends BaseDomainEvent {
+  constructor(taskId: string, nextTaskId: string, dueDate: Date) {
+    super(taskId, 'TaskNextOccurrenceCreated', {
+      nextTaskId,
+      dueDate: dueDate.toISOString(),
+    });
+  }
+}
+
+export class TaskCommentAddedEvent extends BaseDomainEvent {
+  constructor(commentId: string, commentData: Record<string, any>) {
+    super(commentId, 'TaskCommentAdded', commentData);
+  }
+}
+
+export class TaskCommentEditedEvent extends BaseDomainEvent {
+  constructor(commentId: string, commentData: Record<string, any>) {
+    super(commentId, 'TaskCommentEdited', commentData);
+  }
+}
+
+export class TaskCommentDeletedEvent extends BaseDomainEvent {
+  constructor(commentId: string, taskId: string) {
+    super(commentId, 'TaskCommentDeleted', { taskId });
+  }
+}
+
+export class TaskBoardUpdatedEvent extends BaseDomainEvent {
+  constructor(boardId: string, boardData: Record<string, any>) {
+    super(boardId, 'TaskBoardUpdated', boardData);
+  }
+}
+
+export class TaskMovedOnBoardEvent extends BaseDomainEvent {
+  constructor(
+    boardId: string,
+    taskId: string,
+    status: string,
+    position: number,
+  ) {
+    super(boardId, 'TaskMovedOnBoard', { taskId, status, position });
+  }
+}
+
+export class EscalationRuleCreatedEvent extends BaseDomainEvent {
+  constructor(ruleId: string, ruleData: Record<string, any>) {
+    super(ruleId, 'EscalationRuleCreated', ruleData);
+  }
+}
+
+export class EscalationRuleUpdatedEvent extends BaseDomainEvent {
+  constructor(ruleId: string, ruleData: Record<string, any>) {
+    super(ruleId, 'EscalationRuleUpdated', ruleData);
+  }
+}
+
+export class TaskEscalatedEvent extends BaseDomainEvent {
+  constructor(escalationId: string, escalationData: Record<string, any>) {
+    super(escalationId, 'TaskEscalated', escalationData);
+  }
+}
+
+export class PrioritizationProfileCreatedEvent extends BaseDomainEvent {
+  constructor(profileId: string, profileData: Record<string, any>) {
+    super(profileId, 'PrioritizationProfileCreated', profileData);
+  }
+}
+
+export class PrioritizationProfileUpdatedEvent extends BaseDomainEvent {
+  constructor(profileId: string, profileData: Record<string, any>) {
+    super(profileId, 'PrioritizationProfileUpdated', profileData);
+  }
+}
+
+export class SavedViewCreatedEvent extends BaseDomainEvent {
+  constructor(viewId: string, viewData: Record<string, any>) {
+    super(viewId, 'SavedViewCreated', viewData);
+  }
+}
+
+export class SavedViewUpdatedEvent extends BaseDomainEvent {
+  constructor(viewId: string, viewData: Record<string, any>) {
+    super(viewId, 'SavedViewUpdated', viewData);
+  }
+}
+
 // Calendar Domain Events
 export class MeetingScheduledEvent extends BaseDomainEvent {
   constructor(meetingId: string, meetingData: Record<string, any>) {
@@ -73,6 +165,16 @@ export class MeetingCancelledEvent extends BaseDomainEvent {
   }
 }
 
+export class MeetingRescheduledEvent extends BaseDomainEvent {
+  constructor(
+    meetingId: string,
+    oldDateRange: Record<string, any>,
+    newDateRange: Record<string, any>,
+  ) {
+    super(meetingId, 'MeetingRescheduled', { oldDateRange, newDateRange });
+  }
+}
+
 export class MeetingReminderSentEvent extends BaseDomainEvent {
   constructor(meetingId: string, reminderType: string, sentAt: Date) {
     super(meetingId, 'MeetingReminderSent', {
@@ -95,6 +197,53 @@ export class EmailFailedEvent extends BaseDomainEvent {
   }
 }
 
+export class EmailDeliveryStatusChangedEvent extends BaseDomainEvent {
+  constructor(
+    emailId: string,
+    oldStatus: string | undefined,
+    newStatus: string,
+  ) {
+    super(emailId, 'EmailDeliveryStatusChanged', { oldStatus, newStatus });
+  }
+}
+
+export class EmailRetryScheduledEvent extends BaseDomainEvent {
+  constructor(
+    emailId: string,
+    attempt: number,
+    error: string,
+    nextAttemptAt: Date,
+  ) {
+    super(emailId, 'EmailRetryScheduled', {
+      attempt,
+      error,
+      nextAttemptAt: nextAttemptAt.toISOString(),
+    });
+  }
+}
+
+// Email Template Domain Events
+export class EmailTemplateCreatedEvent extends BaseDomainEvent {
+  constructor(templateId: string, templateData: Record<string, any>) {
+    super(templateId, 'EmailTemplateCreated', templateData);
+  }
+}
+
+export class EmailTemplateVersionAddedEvent extends BaseDomainEvent {
+  constructor(templateId: string, version: number, notes?: string) {
+    super(templateId, 'EmailTemplateVersionAdded', { version, notes });
+  }
+}
+
+export class EmailTemplateVersionActivatedEvent extends BaseDomainEvent {
+  constructor(templateId: string, oldVersion: number, newVersion: number) {
+    super(templateId, 'EmailTemplateVersionActivated', {
+      oldVersion,
+      newVersion,
+    });
+  }
+}
+
 // Automation Domain Events
 export class AutomationTriggeredEvent extends BaseDomainEvent {
   constructor(
@@ -0,0 +1,92 @@
+/**
+ * Time Zones - Domain Layer
+ * Conversions between instants and the wall clock of an IANA time zone
+ */
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+export function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Difference between the zone's wall clock and UTC at an instant
+export function zoneOffset(time: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(time));
+  const part = (type: string) =>
+    Number(parts.find((item) => item.type === type)!.value);
+
+  return (
+    Date.UTC(
+      part('year'),
+      part('month') - 1,
+      part('day'),
+      part('hour'),
+      part('minute'),
+      part('second'),
+    ) -
+    (time - (time % 1000))
+  );
+}
+
+/**
+ * The instant at which the zone's clock shows `wallClock`, given as if the
+ * wall clock time were UTC.
+ */
+export function fromZonedTime(wallClock: number, timeZone: string): number {
+  const guess = wallClock - zoneOffset(wallClock, timeZone);
+  return wallClock - zoneOffset(guess, timeZone);
+}
+
+/**
+ * The calendar date (YYYY-MM-DD) in the zone at an instant.
+ */
+export function zonedDate(time: Date, timeZone: string): string {
+  const wallClock = time.getTime() + zoneOffset(time.getTime(), timeZone);
+  return new Date(wallClock).toISOString().split('T')[0];
+}
+
+/**
+ * The first moment of a calendar day in the zone and of the day after it.
+ */
+export function zonedDayRange(
+  date: string,
+  timeZone: string,
+): { from: Date; to: Date } {
+  const midnight = new Date(`${date.split('T')[0]}T00:00:00Z`).getTime();
+  if (Number.isNaN(midnight)) {
+    throw new Error(`Invalid date: ${date}`);
+  }
+  return {
+    from: new Date(fromZonedTime(midnight, timeZone)),
+    to: new Date(fromZonedTime(midnight + DAY_IN_MS, timeZone)),
+  };
+}
+
+/**
+ * The instant of a wall clock time (HH:mm) on a calendar day in the zone,
+ * or an invalid date if either is malformed.
+ */
+export function zonedDateTime(
+  date: string,
+  time: string,
+  timeZone: string,
+): Date {
+  const wallClock = new Date(`${date}T${time}:00Z`).getTime();
+  return new Date(
+    Number.isNaN(wallClock) ? NaN : fromZonedTime(wallClock, timeZone),
+  );
+}
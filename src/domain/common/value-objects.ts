@@ -3,6 +3,8 @@
  * Immutable objects that represent domain concepts
  */
 
+import { fromZonedTime, zonedDate, zonedDayRange } from './time-zone';
+
 export abstract class ValueObject {
   public abstract equals(other: ValueObject): boolean;
   public abstract toJSON(): Record<string, any>;
@@ -179,3 +181,519 @@ export class DateRange extends ValueObject {
     };
   }
 }
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = [
+  'DAILY',
+  'WEEKLY',
+  'MONTHLY',
+  'YEARLY',
+];
+const RECURRENCE_PARTS = [
+  'FREQ',
+  'INTERVAL',
+  'COUNT',
+  'UNTIL',
+  'BYDAY',
+  'BYMONTHDAY',
+  'X-BYDAY-INTERVAL',
+];
+const RECURRENCE_WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+// Upper bound on periods scanned for a valid date, e.g. BYMONTHDAY=31
+const MAX_RECURRENCE_SEARCH = 400;
+
+/**
+ * Subset of an RFC 5545 RRULE: FREQ, INTERVAL, COUNT, UNTIL, BYDAY (plain
+ * weekdays) and BYMONTHDAY, plus X-BYDAY-INTERVAL, which steps a daily
+ * rule over its BYDAY days only. Dates are evaluated in UTC.
+ */
+export class RecurrenceRule extends ValueObject {
+  private readonly _value: string;
+  private readonly _frequency: RecurrenceFrequency;
+  private readonly _interval: number;
+  private readonly _count?: number;
+  private readonly _until?: Date;
+  private readonly _byDay: number[]; // 0 = Monday
+  private readonly _byMonthDay: number[];
+  private readonly _byDayInterval?: number;
+
+  constructor(rule: string) {
+    super();
+    const parts = this.parseParts(rule);
+
+    const frequency = parts.get('FREQ') as RecurrenceFrequency;
+    if (!RECURRENCE_FREQUENCIES.includes(frequency)) {
+      throw new Error(`Invalid recurrence frequency: ${frequency}`);
+    }
+
+    if (parts.has('COUNT') && parts.has('UNTIL')) {
+      throw new Error(
+        'Invalid recurrence rule: COUNT and UNTIL cannot be combined',
+      );
+    }
+
+    if (parts.has('BYDAY') && frequency !== 'DAILY' && frequency !== 'WEEKLY') {
+      throw new Error(
+        'Invalid recurrence rule: BYDAY requires FREQ=DAILY or FREQ=WEEKLY',
+      );
+    }
+
+    if (parts.has('BYMONTHDAY') && frequency !== 'MONTHLY') {
+      throw new Error(
+        'Invalid recurrence rule: BYMONTHDAY requires FREQ=MONTHLY',
+      );
+    }
+
+    if (parts.has('X-BYDAY-INTERVAL')) {
+      if (frequency !== 'DAILY' || !parts.has('BYDAY')) {
+        throw new Error(
+          'Invalid recurrence rule: X-BYDAY-INTERVAL requires FREQ=DAILY with BYDAY',
+        );
+      }
+      if (parts.has('INTERVAL')) {
+        throw new Error(
+          'Invalid recurrence rule: INTERVAL and X-BYDAY-INTERVAL cannot be combined',
+        );
+      }
+    }
+
+    this._frequency = frequency;
+    this._interval = this.parsePositiveInteger(parts, 'INTERVAL') ?? 1;
+    this._count = this.parsePositiveInteger(parts, 'COUNT');
+    this._until = parts.has('UNTIL')
+      ? this.parseUntil(parts.get('UNTIL')!)
+      : undefined;
+    this._byDay = this.parseByDay(parts.get('BYDAY'));
+    this._byMonthDay = this.parseByMonthDay(parts.get('BYMONTHDAY'));
+    this._byDayInterval = this.parsePositiveInteger(parts, 'X-BYDAY-INTERVAL');
+    this._value = Array.from(parts, ([key, value]) => `${key}=${value}`).join(
+      ';',
+    );
+  }
+
+  get value(): string {
+    return this._value;
+  }
+
+  get frequency(): RecurrenceFrequency {
+    return this._frequency;
+  }
+
+  get interval(): number {
+    return this._interval;
+  }
+
+  get count(): number | undefined {
+    return this._count;
+  }
+
+  get until(): Date | undefined {
+    return this._until ? new Date(this._until) : undefined;
+  }
+
+  /**
+   * Returns the occurrence after `previous`, which is occurrence number
+   * `occurrence` (1-based) of the series, or undefined once COUNT or UNTIL
+   * has ended the series.
+   */
+  public nextOccurrence(previous: Date, occurrence: number): Date | undefined {
+    if (this._count !== undefined && occurrence >= this._count) {
+      return undefined;
+    }
+
+    const next = this.advance(previous);
+    if (!next || (this._until && next > this._until)) {
+      return undefined;
+    }
+
+    return next;
+  }
+
+  private advance(from: Date): Date | undefined {
+    switch (this._frequency) {
+      case 'DAILY':
+        return this.advanceDaily(from);
+      case 'WEEKLY':
+        return this.advanceWeekly(from);
+      case 'MONTHLY':
+        return this.advanceMonthly(from);
+      case 'YEARLY':
+        return this.advanceYearly(from);
+    }
+  }
+
+  private advanceDaily(from: Date): Date | undefined {
+    if (this._byDay.length === 0) {
+      return this.addDays(from, this._interval);
+    }
+
+    // X-BYDAY-INTERVAL counts matching days only, so
+    // FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR;X-BYDAY-INTERVAL=3 is every third
+    // business day
+    if (this._byDayInterval !== undefined) {
+      let next = from;
+      let remaining = this._byDayInterval;
+      while (remaining > 0) {
+        next = this.addDays(next, 1);
+        if (this._byDay.includes(this.weekday(next))) {
+          remaining--;
+        }
+      }
+      return next;
+    }
+
+    // Otherwise BYDAY filters every INTERVAL-th day, as RFC 5545 defines;
+    // an interval in whole weeks may never reach a matching day
+    for (let period = 1; period <= MAX_RECURRENCE_SEARCH; period++) {
+      const candidate = this.addDays(from, period * this._interval);
+      if (this._byDay.includes(this.weekday(candidate))) {
+        return candidate;
+      }
+    }
+    return undefined;
+  }
+
+  private advanceWeekly(from: Date): Date {
+    if (this._byDay.length === 0) {
+      return this.addDays(from, 7 * this._interval);
+    }
+
+    const day = this.weekday(from);
+    const laterThisWeek = this._byDay.find((d) => d > day);
+    if (laterThisWeek !== undefined) {
+      return this.addDays(from, laterThisWeek - day);
+    }
+
+    return this.addDays(from, 7 * this._interval - day + this._byDay[0]);
+  }
+
+  private advanceMonthly(from: Date): Date | undefined {
+    const monthDays =
+      this._byMonthDay.length > 0 ? this._byMonthDay : [from.getUTCDate()];
+
+    for (let period = 0; period < MAX_RECURRENCE_SEARCH; period++) {
+      const year = from.getUTCFullYear();
+      const month = from.getUTCMonth() + period * this._interval;
+      const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+      // Months without the requested day are skipped, as RFC 5545 requires
+      const days = monthDays
+        .map((day) => (day > 0 ? day : daysInMonth + day + 1))
+        .filter((day) => day >= 1 && day <= daysInMonth)
+        .sort((a, b) => a - b);
+
+      for (const day of days) {
+        const candidate = this.withDate(from, year, month, day);
+        if (candidate > from) {
+          return candidate;
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  private advanceYearly(from: Date): Date | undefined {
+    for (let period = 1; period < MAX_RECURRENCE_SEARCH; period++) {
+      const year = from.getUTCFullYear() + period * this._interval;
+      const candidate = this.withDate(
+        from,
+        year,
+        from.getUTCMonth(),
+        from.getUTCDate(),
+      );
+
+      // Skips years where the date does not exist, i.e. 29 February
+      if (candidate.getUTCMonth() === from.getUTCMonth()) {
+        return candidate;
+      }
+    }
+
+    return undefined;
+  }
+
+  private withDate(time: Date, year: number, month: number, day: number): Date {
+    return new Date(
+      Date.UTC(
+        year,
+        month,
+        day,
+        time.getUTCHours(),
+        time.getUTCMinutes(),
+        time.getUTCSeconds(),
+        time.getUTCMilliseconds(),
+      ),
+    );
+  }
+
+  private addDays(date: Date, days: number): Date {
+    return new Date(date.getTime() + days * DAY_IN_MS);
+  }
+
+  private weekday(date: Date): number {
+    return (date.getUTCDay() + 6) % 7;
+  }
+
+  private parseParts(rule: string): Map<string, string> {
+    const source = (rule || '').trim().replace(/^RRULE:/i, '');
+    const parts = new Map<string, string>();
+
+    for (const part of source.split(';')) {
+      if (!part.trim()) {
+        continue;
+      }
+
+      const [key, value, ...rest] = part.split('=');
+      const name = key.trim().toUpperCase();
+      if (!value?.trim() || rest.length > 0) {
+        throw new Error(`Invalid recurrence rule part: ${part}`);
+      }
+
+      if (!RECURRENCE_PARTS.includes(name)) {
+        throw new Error(`Invalid recurrence rule: ${name} is not supported`);
+      }
+
+      if (parts.has(name)) {
+        throw new Error(`Invalid recurrence rule: ${name} appears twice`);
+      }
+
+      parts.set(name, value.trim().toUpperCase());
+    }
+
+    if (!parts.has('FREQ')) {
+      throw new Error('Invalid recurrence rule: FREQ is required');
+    }
+
+    return parts;
+  }
+
+  private parsePositiveInteger(
+    parts: Map<string, string>,
+    name: string,
+  ): number | undefined {
+    const value = parts.get(name);
+    if (value === undefined) {
+      return undefined;
+    }
+
+    if (!/^\d+$/.test(value) || Number(value) < 1) {
+      throw new Error(`Invalid ${name} value: ${value}`);
+    }
+
+    return Number(value);
+  }
+
+  private parseUntil(value: string): Date {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(
+      value,
+    );
+    if (!match) {
+      throw new Error(`Invalid UNTIL value: ${value}`);
+    }
+
+    const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+    // A date-only UNTIL includes occurrences on that day
+    const until = match[4]
+      ? new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds))
+      : new Date(Date.UTC(year, month - 1, day, 23, 59, 59, 999));
+
+    if (until.getUTCMonth() !== month - 1 || until.getUTCDate() !== day) {
+      throw new Error(`Invalid UNTIL value: ${value}`);
+    }
+
+    return until;
+  }
+
+  private parseByDay(value: string | undefined): number[] {
+    if (!value) {
+      return [];
+    }
+
+    const days = value.split(',').map((day) => {
+      const index = RECURRENCE_WEEKDAYS.indexOf(day.trim());
+      if (index === -1) {
+        throw new Error(`Invalid BYDAY value: ${day}`);
+      }
+      return index;
+    });
+
+    return [...new Set(days)].sort((a, b) => a - b);
+  }
+
+  private parseByMonthDay(value: string | undefined): number[] {
+    if (!value) {
+      return [];
+    }
+
+    const days = value.split(',').map((day) => {
+      const parsed = Number(day);
+      if (
+        !Number.isInteger(parsed) ||
+        parsed === 0 ||
+        parsed < -31 ||
+        parsed > 31
+      ) {
+        throw new Error(`Invalid BYMONTHDAY value: ${day}`);
+      }
+      return parsed;
+    });
+
+    return [...new Set(days)];
+  }
+
+  public equals(other: RecurrenceRule): boolean {
+    return other instanceof RecurrenceRule && this._value === other._value;
+  }
+
+  public toJSON(): Record<string, any> {
+    return {
+      rule: this._value,
+      frequency: this._frequency,
+      interval: this._interval,
+      count: this._count,
+      until: this._until?.toISOString(),
+    };
+  }
+}
+
+export type DateBoundary = 'start' | 'end';
+
+const NAMED_DATE_TOKENS = [
+  'now',
+  'today',
+  'tomorrow',
+  'yesterday',
+  'this-week',
+  'next-week',
+  'last-week',
+  'this-month',
+  'next-month',
+  'last-month',
+];
+const RELATIVE_DATE_PATTERN = /^([+-])(\d{1,4})([dwm])$/;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * A date in a stored query, either absolute (ISO 8601) or relative to the
+ * moment the query runs: `now`, `today`, `tomorrow`, `yesterday`,
+ * `this-week`, `next-week`, `last-week`, `this-month`, `next-month`,
+ * `last-month`, or an offset from today such as `+7d`, `-2w` or `+1m`.
+ * Days and periods resolve to their first moment as a lower bound and to
+ * their last as an upper bound. Weeks start on Monday, and days begin at
+ * midnight in the time zone the token is resolved in.
+ */
+export class DateToken extends ValueObject {
+  private readonly _value: string;
+
+  constructor(token: string) {
+    super();
+    const value = (token ?? '').trim().toLowerCase();
+    if (
+      !NAMED_DATE_TOKENS.includes(value) &&
+      !RELATIVE_DATE_PATTERN.test(value) &&
+      isNaN(new Date(token).getTime())
+    ) {
+      throw new Error(
+        `Invalid date token: ${token}. Use an ISO date, ${NAMED_DATE_TOKENS.join(', ')} or an offset like +7d, -2w, +1m`,
+      );
+    }
+    this._value = DateToken.isRelative(value) ? value : token.trim();
+  }
+
+  get value(): string {
+    return this._value;
+  }
+
+  get isRelative(): boolean {
+    return DateToken.isRelative(this._value);
+  }
+
+  public resolve(
+    now: Date,
+    boundary: DateBoundary,
+    timeZone: string = 'UTC',
+  ): Date {
+    if (!this.isRelative) {
+      // A bare date covers the whole day
+      if (DATE_ONLY_PATTERN.test(this._value)) {
+        const { from, to } = zonedDayRange(this._value, timeZone);
+        return boundary === 'start' ? from : new Date(to.getTime() - 1);
+      }
+      return new Date(this._value);
+    }
+    if (this._value === 'now') {
+      return new Date(now.getTime());
+    }
+
+    const today = new Date(`${zonedDate(now, timeZone)}T00:00:00Z`);
+    const [from, to] = this.period(today);
+    return boundary === 'start'
+      ? new Date(fromZonedTime(from.getTime(), timeZone))
+      : new Date(fromZonedTime(to.getTime(), timeZone) - 1);
+  }
+
+  /**
+   * The calendar days a relative token covers, as [first day, day after),
+   * each given by its midnight in UTC.
+   */
+  private period(today: Date): [Date, Date] {
+    const addDays = (date: Date, days: number) =>
+      new Date(date.getTime() + days * DAY_IN_MS);
+    const addMonths = (date: Date, months: number) =>
+      new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+
+    const relative = RELATIVE_DATE_PATTERN.exec(this._value);
+    if (relative) {
+      const amount = Number(relative[2]) * (relative[1] === '-' ? -1 : 1);
+      let day: Date;
+      if (relative[3] === 'm') {
+        // +1m from 31 January is the last day of February
+        const month = addMonths(today, amount);
+        const lastDay = addDays(addMonths(month, 1), -1).getUTCDate();
+        day = addDays(month, Math.min(today.getUTCDate(), lastDay) - 1);
+      } else {
+        day = addDays(today, relative[3] === 'w' ? amount * 7 : amount);
+      }
+      return [day, addDays(day, 1)];
+    }
+
+    const monday = addDays(today, -((today.getUTCDay() + 6) % 7));
+    const firstOfMonth = addMonths(today, 0);
+    switch (this._value) {
+      case 'tomorrow':
+        return [addDays(today, 1), addDays(today, 2)];
+      case 'yesterday':
+        return [addDays(today, -1), today];
+      case 'this-week':
+        return [monday, addDays(monday, 7)];
+      case 'next-week':
+        return [addDays(monday, 7), addDays(monday, 14)];
+      case 'last-week':
+        return [addDays(monday, -7), monday];
+      case 'this-month':
+        return [firstOfMonth, addMonths(today, 1)];
+      case 'next-month':
+        return [addMonths(today, 1), addMonths(today, 2)];
+      case 'last-month':
+        return [addMonths(today, -1), firstOfMonth];
+      default:
+        return [today, addDays(today, 1)];
+    }
+  }
+
+  private static isRelative(value: string): boolean {
+    return (
+      NAMED_DATE_TOKENS.includes(value) || RELATIVE_DATE_PATTERN.test(value)
+    );
+  }
+
+  public equals(other: DateToken): boolean {
+    return other instanceof DateToken && this._value === other._value;
+  }
+
+  public toJSON(): Record<string, any> {
+    return { token: this._value };
+  }
+}
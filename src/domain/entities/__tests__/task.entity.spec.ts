@@ -4,7 +4,12 @@
  */
 
 import { Task } from '../task.entity';
-import { Priority, TaskStatus, Email } from '../../common/value-objects';
+import {
+  Priority,
+  TaskStatus,
+  Email,
+  RecurrenceRule,
+} from '../../common/value-objects';
 
 describe('Task Entity', () => {
   describe('Task Creation', () => {
@@ -253,4 +258,231 @@ describe('Task Entity', () => {
       expect(task.priority.value).toBe('medium');
     });
   });
+
+  describe('Recurrence', () => {
+    const completeOccurrence = (recurrenceRule: string, dueDate: string) => {
+      const task = Task.create({
+        title: 'Board report',
+        dueDate: new Date(dueDate),
+        tags: ['reporting'],
+        recurrenceRule,
+      });
+      task.markAsCompleted();
+      return task;
+    };
+
+    it('should spawn the next occurrence with a shifted due date', () => {
+      const task = completeOccurrence(
+        'RRULE:FREQ=WEEKLY;BYDAY=MO,TH',
+        '2025-03-03T09:00:00Z',
+      );
+
+      const next = task.createNextOccurrence(new Date('2025-03-03T10:00:00Z'));
+
+      expect(next?.dueDate?.toISOString()).toBe('2025-03-06T09:00:00.000Z');
+      expect(next?.status.value).toBe('pending');
+      expect(next?.tags).toEqual(['reporting']);
+      expect(next?.recurrence).toMatchObject({
+        seriesId: task.id,
+        occurrence: 2,
+      });
+      expect(task.recurrence?.nextOccurrenceId).toBe(next?.id);
+      expect(task.createNextOccurrence()).toBeUndefined();
+    });
+
+    it('should filter every INTERVAL-th day by BYDAY for DAILY rules', () => {
+      const task = completeOccurrence(
+        'FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR;INTERVAL=3',
+        '2025-03-05T09:00:00Z', // Wednesday
+      );
+
+      const next = task.createNextOccurrence(new Date('2025-03-05T10:00:00Z'));
+
+      // Saturday is skipped, not replaced by the next weekday
+      expect(next?.dueDate?.toISOString()).toBe('2025-03-11T09:00:00.000Z');
+    });
+
+    it('should count business days with X-BYDAY-INTERVAL', () => {
+      const task = completeOccurrence(
+        'FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR;X-BYDAY-INTERVAL=3',
+        '2025-03-05T09:00:00Z', // Wednesday
+      );
+
+      const next = task.createNextOccurrence(new Date('2025-03-05T10:00:00Z'));
+
+      expect(next?.dueDate?.toISOString()).toBe('2025-03-10T09:00:00.000Z');
+      expect(
+        () => new RecurrenceRule('FREQ=DAILY;INTERVAL=2;X-BYDAY-INTERVAL=2'),
+      ).toThrow('X-BYDAY-INTERVAL requires FREQ=DAILY with BYDAY');
+    });
+
+    it('should support quarterly rules on the last day of the month', () => {
+      const task = completeOccurrence(
+        'FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=-1',
+        '2025-03-31T09:00:00Z',
+      );
+
+      const next = task.createNextOccurrence(new Date('2025-03-31T10:00:00Z'));
+
+      expect(next?.dueDate?.toISOString()).toBe('2025-06-30T09:00:00.000Z');
+    });
+
+    it('should skip occurrences that passed while the task was open', () => {
+      const task = completeOccurrence('FREQ=DAILY', '2025-03-01T09:00:00Z');
+
+      const next = task.createNextOccurrence(new Date('2025-03-05T12:00:00Z'));
+
+      expect(next?.dueDate?.toISOString()).toBe('2025-03-06T09:00:00.000Z');
+      expect(next?.recurrence?.occurrence).toBe(6);
+    });
+
+    it('should end the series after COUNT occurrences or past UNTIL', () => {
+      const counted = completeOccurrence(
+        'FREQ=WEEKLY;COUNT=2',
+        '2025-03-07T09:00:00Z',
+      );
+      const second = counted.createNextOccurrence(
+        new Date('2025-03-07T10:00:00Z'),
+      )!;
+      second.markAsCompleted();
+
+      expect(
+        second.createNextOccurrence(new Date('2025-03-14T10:00:00Z')),
+      ).toBeUndefined();
+
+      const bounded = completeOccurrence(
+        'FREQ=WEEKLY;UNTIL=20250310',
+        '2025-03-07T09:00:00Z',
+      );
+      expect(
+        bounded.createNextOccurrence(new Date('2025-03-07T10:00:00Z')),
+      ).toBeUndefined();
+    });
+
+    it('should reject invalid rules and recurring tasks without a due date', () => {
+      expect(() =>
+        Task.create({
+          title: 'Tax filing',
+          dueDate: new Date('2025-04-15'),
+          recurrenceRule: 'FREQ=HOURLY',
+        }),
+      ).toThrow('Invalid recurrence frequency: HOURLY');
+
+      expect(() =>
+        Task.create({ title: 'Tax filing', recurrenceRule: 'FREQ=YEARLY' }),
+      ).toThrow('Recurring tasks must have a due date');
+    });
+
+    it('should keep the recurrence when restored from JSON', () => {
+      const task = Task.create({
+        title: 'Standup notes',
+        dueDate: new Date('2025-03-07T09:00:00Z'),
+        recurrenceRule: 'FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR',
+      });
+
+      const restored = Task.fromJSON(task.toJSON());
+
+      expect(restored.recurrence?.rule.value).toBe(
+        'FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR',
+      );
+      expect(restored.recurrence?.seriesId).toBe(task.id);
+    });
+  });
+
+  describe('Time Tracking', () => {
+    it('should track timer sessions and stop the timer on completion', () => {
+      const task = Task.create({ title: 'Board deck', estimatedDuration: 60 });
+      const start = new Date(Date.now() - 45 * 60000);
+
+      task.startTimer('First draft', start);
+      expect(() => task.startTimer()).toThrow(
+        'A timer is already running on this task',
+      );
+      expect(task.runningTimer?.note).toBe('First draft');
+
+      task.changeStatus(new TaskStatus('completed'));
+
+      expect(task.runningTimer).toBeUndefined();
+      expect(task.actualDuration).toBe(45);
+      expect(() => task.stopTimer()).toThrow(
+        'No timer is running on this task',
+      );
+    });
+
+    it('should log manual time and keep it through serialization', () => {
+      const task = Task.create({ title: 'Expense report' });
+      const now = new Date('2025-03-10T12:00:00Z');
+
+      task.logTime(30, undefined, 'Receipts', now);
+      task.logTime(15, new Date('2025-03-09T08:00:00Z'), undefined, now);
+      expect(() => task.logTime(0)).toThrow('Invalid time entry');
+      expect(() =>
+        task.logTime(90, new Date('2025-03-10T11:00:00Z'), undefined, now),
+      ).toThrow('Invalid time entry: cannot log time in the future');
+
+      const restored = Task.fromJSON(task.toJSON());
+
+      expect(restored.actualDuration).toBe(45);
+      expect(restored.timeEntries[0]).toMatchObject({
+        source: 'manual',
+        note: 'Receipts',
+        startedAt: new Date('2025-03-10T11:30:00Z'),
+      });
+    });
+  });
+
+  describe('Delegation', () => {
+    it('should track a delegation from pending to accepted to returned', () => {
+      const task = Task.create({ title: 'Vendor shortlist' });
+      const now = new Date();
+      const followUpAt = new Date(now.getTime() + 3 * 24 * 60 * 60 * 1000);
+
+      task.delegate(new Email('sam@example.com'), 'secret', { followUpAt });
+      expect(task.assignee?.value).toBe('sam@example.com');
+      expect(task.isDelegated).toBe(true);
+      expect(() => task.acceptDelegation('wrong')).toThrow(
+        'Invalid delegation token',
+      );
+
+      task.acceptDelegation('secret');
+      expect(() => task.declineDelegation('secret')).toThrow(
+        'Delegation is already accepted',
+      );
+      expect(task.isFollowUpDue(followUpAt)).toBe(true);
+
+      const restored = Task.fromJSON(task.toJSON());
+      restored.returnDelegation('secret', 'Out next week');
+
+      expect(restored.assignee).toBeUndefined();
+      expect(restored.delegation).toMatchObject({
+        status: 'returned',
+        reason: 'Out next week',
+        followUpAt: undefined,
+        delegatedAt: task.delegation!.delegatedAt,
+      });
+    });
+
+    it('should only be due for a follow-up when nothing has happened', () => {
+      const task = Task.create({ title: 'Book offsite venue' });
+      const delegatedAt = new Date('2025-04-01T09:00:00Z');
+      const followUpAt = new Date('2025-04-04T09:00:00Z');
+      task.delegate(
+        new Email('kim@example.com'),
+        'secret',
+        { followUpAt },
+        delegatedAt,
+      );
+
+      expect(task.isFollowUpDue(new Date('2025-04-03T09:00:00Z'))).toBe(false);
+      expect(task.isFollowUpDue(followUpAt)).toBe(true);
+
+      task.logTime(20, undefined, undefined, new Date('2025-04-02T09:00:00Z'));
+      expect(task.isFollowUpDue(followUpAt)).toBe(false);
+
+      // Reassigning takes the task back from the delegate
+      task.assignTo(new Email('lee@example.com'));
+      expect(task.delegation?.status).toBe('returned');
+      expect(task.isDelegated).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,257 @@
+/**
+ * Email Template Entity - Domain Layer
+ * Versioned email templates with a declared variable schema
+ */
+
+import { AggregateRoot } from '../common/aggregate-root';
+import {
+  EmailTemplateCreatedEvent,
+  EmailTemplateVersionAddedEvent,
+  EmailTemplateVersionActivatedEvent,
+} from '../common/domain-events';
+
+export type TemplateVariableType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'date'
+  | 'array'
+  | 'object';
+
+export interface TemplateVariable {
+  name: string;
+  type: TemplateVariableType;
+  required: boolean;
+  description?: string;
+}
+
+export interface EmailTemplateContent {
+  subject: string;
+  html: string;
+  text: string;
+  variables: TemplateVariable[];
+}
+
+export interface EmailTemplateVersion extends EmailTemplateContent {
+  version: number;
+  notes?: string;
+  createdAt: Date;
+}
+
+export interface EmailTemplateProps {
+  name: string;
+  description?: string;
+  isPartial?: boolean;
+}
+
+const TEMPLATE_NAME_PATTERN = /^[a-z][a-z0-9_-]*$/;
+const VARIABLE_TYPES: TemplateVariableType[] = [
+  'string',
+  'number',
+  'boolean',
+  'date',
+  'array',
+  'object',
+];
+
+export class EmailTemplate extends AggregateRoot {
+  private _name: string;
+  private _description?: string;
+  private _isPartial: boolean;
+  private _versions: EmailTemplateVersion[] = [];
+  private _activeVersion = 0;
+
+  constructor(id: string, props: EmailTemplateProps, createdAt?: Date) {
+    super(id, createdAt);
+
+    if (!TEMPLATE_NAME_PATTERN.test(props.name)) {
+      throw new Error(
+        'Template name must start with a letter and contain only lowercase letters, digits, "_" or "-"',
+      );
+    }
+
+    this._name = props.name;
+    this._description = props.description;
+    this._isPartial = props.isPartial || false;
+  }
+
+  // Getters
+  get name(): string {
+    return this._name;
+  }
+
+  get description(): string | undefined {
+    return this._description;
+  }
+
+  get isPartial(): boolean {
+    return this._isPartial;
+  }
+
+  get versions(): readonly EmailTemplateVersion[] {
+    return this._versions.map((version) => this.copyVersion(version));
+  }
+
+  get activeVersion(): EmailTemplateVersion {
+    return this.getVersion(this._activeVersion);
+  }
+
+  get activeVersionNumber(): number {
+    return this._activeVersion;
+  }
+
+  get latestVersionNumber(): number {
+    return this._versions.length;
+  }
+
+  // Business methods
+  public getVersion(version: number): EmailTemplateVersion {
+    const found = this._versions.find((v) => v.version === version);
+    if (!found) {
+      throw new Error(`Template version ${version} does not exist`);
+    }
+
+    return this.copyVersion(found);
+  }
+
+  /**
+   * Adds a new version and makes it active. Older versions are kept so a
+   * bad edit can be rolled back with `activateVersion`.
+   */
+  public addVersion(content: EmailTemplateContent, notes?: string): number {
+    this.validateContent(content);
+
+    const version = this._versions.length + 1;
+    this._versions.push({
+      version,
+      subject: content.subject,
+      html: content.html,
+      text: content.text,
+      variables: content.variables.map((variable) => ({ ...variable })),
+      notes,
+      createdAt: new Date(),
+    });
+    this._activeVersion = version;
+    this.markAsUpdated();
+
+    this.addDomainEvent(
+      new EmailTemplateVersionAddedEvent(this.id, version, notes),
+    );
+    return version;
+  }
+
+  public activateVersion(version: number): void {
+    this.getVersion(version);
+
+    if (this._activeVersion === version) {
+      return;
+    }
+
+    const previousVersion = this._activeVersion;
+    this._activeVersion = version;
+    this.markAsUpdated();
+
+    this.addDomainEvent(
+      new EmailTemplateVersionActivatedEvent(this.id, previousVersion, version),
+    );
+  }
+
+  public updateDescription(description: string | undefined): void {
+    this._description = description;
+    this.markAsUpdated();
+  }
+
+  private validateContent(content: EmailTemplateContent): void {
+    if (!content.subject?.trim()) {
+      throw new Error('Template subject cannot be empty');
+    }
+
+    if (!content.html?.trim() && !content.text?.trim()) {
+      throw new Error('Template must have an HTML or text body');
+    }
+
+    const names = new Set<string>();
+    for (const variable of content.variables) {
+      if (!variable.name?.trim()) {
+        throw new Error('Template variable name cannot be empty');
+      }
+
+      if (!VARIABLE_TYPES.includes(variable.type)) {
+        throw new Error(
+          `Invalid type "${variable.type}" for variable "${variable.name}"`,
+        );
+      }
+
+      if (names.has(variable.name)) {
+        throw new Error(
+          `Template variable "${variable.name}" is declared twice`,
+        );
+      }
+      names.add(variable.name);
+    }
+  }
+
+  private copyVersion(version: EmailTemplateVersion): EmailTemplateVersion {
+    return {
+      ...version,
+      variables: version.variables.map((variable) => ({ ...variable })),
+      createdAt: new Date(version.createdAt),
+    };
+  }
+
+  public toJSON(): Record<string, any> {
+    return {
+      ...super.toJSON(),
+      name: this._name,
+      description: this._description,
+      isPartial: this._isPartial,
+      activeVersion: this._activeVersion,
+      versions: this._versions.map((version) => ({
+        ...version,
+        createdAt: version.createdAt.toISOString(),
+      })),
+    };
+  }
+
+  // Factory method
+  public static create(
+    props: EmailTemplateProps & { content: EmailTemplateContent },
+  ): EmailTemplate {
+    const id = `template_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    const template = new EmailTemplate(id, props);
+
+    template.addVersion(props.content, 'Initial version');
+    // The creation event already describes the first version
+    template.clearDomainEvents();
+    template.addDomainEvent(
+      new EmailTemplateCreatedEvent(template.id, template.toJSON()),
+    );
+
+    return template;
+  }
+
+  // Factory method for creating templates from JSON
+  public static fromJSON(json: any): EmailTemplate {
+    const template = new EmailTemplate(
+      json.id,
+      {
+        name: json.name,
+        description: json.description,
+        isPartial: json.isPartial,
+      },
+      json.createdAt ? new Date(json.createdAt) : undefined,
+    );
+
+    template._versions = (json.versions || []).map((version: any) => ({
+      ...version,
+      createdAt: new Date(version.createdAt),
+    }));
+    template._activeVersion = json.activeVersion;
+    if (json.updatedAt) {
+      template._updatedAt = new Date(json.updatedAt);
+    }
+    template.clearDomainEvents();
+
+    return template;
+  }
+}
@@ -5,7 +5,12 @@
 
 import { AggregateRoot } from '../common/aggregate-root';
 import { Email as EmailAddress } from '../common/value-objects';
-import { EmailSentEvent, EmailFailedEvent } from '../common/domain-events';
+import {
+  EmailSentEvent,
+  EmailFailedEvent,
+  EmailRetryScheduledEvent,
+  EmailDeliveryStatusChangedEvent,
+} from '../common/domain-events';
 
 export interface EmailRecipient {
   email: EmailAddress;
@@ -20,6 +25,13 @@ export interface EmailAttachment {
   size: number; // in bytes
 }
 
+export interface EmailSendAttempt {
+  attemptedAt: Date;
+  outcome: 'sent' | 'failed';
+  error?: string;
+  statusCode?: number;
+}
+
 export interface EmailProps {
   subject: string;
   body: string;
@@ -27,6 +39,7 @@ export interface EmailProps {
   recipients: EmailRecipient[];
   attachments?: EmailAttachment[];
   isHtml?: boolean;
+  textBody?: string; // plain-text part sent alongside an HTML body
   priority?: 'low' | 'normal' | 'high';
   templateId?: string;
   templateVariables?: Record<string, any>;
@@ -42,6 +55,7 @@ export class EmailMessage extends AggregateRoot {
   private _recipients: EmailRecipient[];
   private _attachments: EmailAttachment[];
   private _isHtml: boolean;
+  private _textBody?: string;
   private _priority: 'low' | 'normal' | 'high';
   private _templateId?: string;
   private _templateVariables?: Record<string, any>;
@@ -59,6 +73,9 @@ export class EmailMessage extends AggregateRoot {
   private _failureReason?: string;
   private _externalId?: string; // ID from email service provider
   private _deliveryStatus?: 'delivered' | 'bounced' | 'spam' | 'unknown';
+  private _attempts: EmailSendAttempt[] = [];
+  private _openedAt?: Date;
+  private _clickedAt?: Date;
 
   constructor(id: string, props: EmailProps, createdAt?: Date) {
     super(id, createdAt);
@@ -70,6 +87,7 @@ export class EmailMessage extends AggregateRoot {
     this._recipients = props.recipients;
     this._attachments = props.attachments || [];
     this._isHtml = props.isHtml || false;
+    this._textBody = this._isHtml ? props.textBody : undefined;
     this._priority = props.priority || 'normal';
     this._templateId = props.templateId;
     this._templateVariables = props.templateVariables;
@@ -104,6 +122,10 @@ export class EmailMessage extends AggregateRoot {
     return this._isHtml;
   }
 
+  get textBody(): string | undefined {
+    return this._textBody;
+  }
+
   get priority(): 'low' | 'normal' | 'high' {
     return this._priority;
   }
@@ -159,6 +181,22 @@ export class EmailMessage extends AggregateRoot {
     return this._deliveryStatus;
   }
 
+  get openedAt(): Date | undefined {
+    return this._openedAt ? new Date(this._openedAt) : undefined;
+  }
+
+  get clickedAt(): Date | undefined {
+    return this._clickedAt ? new Date(this._clickedAt) : undefined;
+  }
+
+  get attempts(): readonly EmailSendAttempt[] {
+    return this._attempts.map((attempt) => ({ ...attempt }));
+  }
+
+  get attemptCount(): number {
+    return this._attempts.length;
+  }
+
   get totalAttachmentSize(): number {
     return this._attachments.reduce(
       (total, attachment) => total + attachment.size,
@@ -352,16 +390,18 @@ export class EmailMessage extends AggregateRoot {
     this._status = 'sent';
     this._sentAt = new Date();
     this._externalId = externalId;
+    this._attempts.push({ attemptedAt: this._sentAt, outcome: 'sent' });
     this.markAsUpdated();
 
     this.addDomainEvent(new EmailSentEvent(this.id, this.toJSON()));
   }
 
-  public markAsFailed(reason: string): void {
+  public markAsFailed(reason: string, statusCode?: number): void {
     if (this._status !== 'sending') {
       throw new Error('Email must be in sending status to mark as failed');
     }
 
+    this.recordFailedAttempt(reason, statusCode);
     this._status = 'failed';
     this._failureReason = reason;
     this.markAsUpdated();
@@ -369,8 +409,65 @@ export class EmailMessage extends AggregateRoot {
     this.addDomainEvent(new EmailFailedEvent(this.id, reason));
   }
 
+  /**
+   * Records a failed attempt and schedules the email to be picked up again by
+   * the scheduled email dispatcher once `nextAttemptAt` has passed.
+   */
+  public scheduleRetry(
+    reason: string,
+    nextAttemptAt: Date,
+    statusCode?: number,
+  ): void {
+    if (this._status !== 'sending') {
+      throw new Error('Email must be in sending status to schedule a retry');
+    }
+
+    this.recordFailedAttempt(reason, statusCode);
+    this._status = 'scheduled';
+    this._scheduledAt = new Date(nextAttemptAt);
+    this._failureReason = reason;
+    this.markAsUpdated();
+
+    this.addDomainEvent(
+      new EmailRetryScheduledEvent(
+        this.id,
+        this._attempts.length,
+        reason,
+        nextAttemptAt,
+      ),
+    );
+  }
+
+  private recordFailedAttempt(reason: string, statusCode?: number): void {
+    this._attempts.push({
+      attemptedAt: new Date(),
+      outcome: 'failed',
+      error: reason,
+      statusCode,
+    });
+  }
+
+  /**
+   * Returns a failed email to draft so it can be sent again with a fresh set
+   * of attempts. Earlier failures remain in the email's event history.
+   */
+  public requeue(): void {
+    if (this._status !== 'failed') {
+      throw new Error('Can only requeue failed emails');
+    }
+
+    this._status = 'draft';
+    this._failureReason = undefined;
+    this._attempts = [];
+    this.markAsUpdated();
+  }
+
   public cancel(): void {
-    if (this._status === 'sent' || this._status === 'failed') {
+    if (
+      this._status === 'sending' ||
+      this._status === 'sent' ||
+      this._status === 'failed'
+    ) {
       throw new Error(`Cannot cancel ${this._status} email`);
     }
 
@@ -385,8 +482,37 @@ export class EmailMessage extends AggregateRoot {
       throw new Error('Can only update delivery status of sent emails');
     }
 
+    if (this._deliveryStatus === status) {
+      return;
+    }
+
+    const oldStatus = this._deliveryStatus;
     this._deliveryStatus = status;
     this.markAsUpdated();
+
+    this.addDomainEvent(
+      new EmailDeliveryStatusChangedEvent(this.id, oldStatus, status),
+    );
+  }
+
+  /**
+   * Records recipient engagement reported by the provider. Only the first
+   * open and click are kept, so redelivered provider events are harmless.
+   */
+  public recordEngagement(type: 'open' | 'click', occurredAt: Date): void {
+    if (this._status !== 'sent') {
+      throw new Error('Can only record engagement for sent emails');
+    }
+
+    if (type === 'open' && !this._openedAt) {
+      this._openedAt = new Date(occurredAt);
+      this.markAsUpdated();
+    } else if (type === 'click' && !this._clickedAt) {
+      this._clickedAt = new Date(occurredAt);
+      // A click implies the email was opened even if images were blocked
+      this._openedAt = this._openedAt || new Date(occurredAt);
+      this.markAsUpdated();
+    }
   }
 
   public addTag(tag: string): void {
@@ -426,6 +552,7 @@ export class EmailMessage extends AggregateRoot {
         size: a.size,
       })),
       isHtml: this._isHtml,
+      textBody: this._textBody,
       priority: this._priority,
       templateId: this._templateId,
       templateVariables: this._templateVariables,
@@ -437,6 +564,13 @@ export class EmailMessage extends AggregateRoot {
       failureReason: this._failureReason,
       externalId: this._externalId,
       deliveryStatus: this._deliveryStatus,
+      openedAt: this._openedAt?.toISOString(),
+      clickedAt: this._clickedAt?.toISOString(),
+      attempts: this._attempts.map((attempt) => ({
+        ...attempt,
+        attemptedAt: attempt.attemptedAt.toISOString(),
+      })),
+      attemptCount: this.attemptCount,
       totalAttachmentSize: this.totalAttachmentSize,
       recipientCount: this.recipientCount,
       isScheduled: this.isScheduled,
@@ -464,4 +598,58 @@ export class EmailMessage extends AggregateRoot {
 
     return new EmailMessage(id, emailProps);
   }
+
+  // Factory method for creating emails from JSON
+  public static fromJSON(json: any): EmailMessage {
+    const emailProps: EmailProps = {
+      subject: json.subject,
+      body: json.body,
+      sender: new EmailAddress(json.sender.email),
+      recipients: json.recipients.map((r: any) => ({
+        email: new EmailAddress(r.email.email),
+        name: r.name,
+        type: r.type,
+      })),
+      attachments: (json.attachments || []).map((a: any) => ({
+        filename: a.filename,
+        content: a.content || '',
+        contentType: a.contentType,
+        size: a.size,
+      })),
+      isHtml: json.isHtml,
+      textBody: json.textBody,
+      priority: json.priority,
+      templateId: json.templateId,
+      templateVariables: json.templateVariables,
+      replyTo: json.replyTo ? new EmailAddress(json.replyTo.email) : undefined,
+      tags: json.tags || [],
+    };
+
+    // scheduledAt is restored after construction: a stored schedule may
+    // already be in the past, which the constructor would reject
+    const email = new EmailMessage(
+      json.id,
+      emailProps,
+      json.createdAt ? new Date(json.createdAt) : undefined,
+    );
+    email._scheduledAt = json.scheduledAt
+      ? new Date(json.scheduledAt)
+      : undefined;
+    email._status = json.status;
+    email._sentAt = json.sentAt ? new Date(json.sentAt) : undefined;
+    email._failureReason = json.failureReason;
+    email._externalId = json.externalId;
+    email._deliveryStatus = json.deliveryStatus;
+    email._openedAt = json.openedAt ? new Date(json.openedAt) : undefined;
+    email._clickedAt = json.clickedAt ? new Date(json.clickedAt) : undefined;
+    email._attempts = (json.attempts || []).map((attempt: any) => ({
+      ...attempt,
+      attemptedAt: new Date(attempt.attemptedAt),
+    }));
+    if (json.updatedAt) {
+      email._updatedAt = new Date(json.updatedAt);
+    }
+
+    return email;
+  }
 }
@@ -0,0 +1,378 @@
+/**
+ * Escalation Rule Entity - Domain Layer
+ * Conditions that mark an active task as neglected and what to do about it
+ */
+
+import { AggregateRoot } from '../common/aggregate-root';
+import {
+  EscalationRuleCreatedEvent,
+  EscalationRuleUpdatedEvent,
+} from '../common/domain-events';
+import { Email, Priority } from '../common/value-objects';
+import { Task } from './task.entity';
+
+export interface EscalationConditions {
+  priority?: string;
+  status?: string; // pending or in-progress; finished tasks never match
+  assignee?: string;
+  hasAssignee?: boolean;
+  tags?: string[]; // the task must have all of them
+  untouchedForHours?: number; // time since someone last changed the task
+  overdueForHours?: number; // time past the due date, 0 as soon as it is due
+}
+
+export type EscalationActionType =
+  | 'raise_priority'
+  | 'notify_assignee'
+  | 'notify_executive'
+  | 'add_tag';
+
+export interface EscalationAction {
+  type: EscalationActionType;
+  priority?: string; // raise_priority: target, one level up when omitted
+  tag?: string; // add_tag
+}
+
+export interface EscalationRuleProps {
+  name: string;
+  description?: string;
+  enabled?: boolean;
+  conditions: EscalationConditions;
+  actions: EscalationAction[];
+  cooldownHours?: number;
+}
+
+export interface EscalationRuleUpdate {
+  name?: string;
+  description?: string;
+  enabled?: boolean;
+  conditions?: EscalationConditions;
+  actions?: EscalationAction[];
+  cooldownHours?: number;
+}
+
+export const ESCALATION_ACTION_TYPES: EscalationActionType[] = [
+  'raise_priority',
+  'notify_assignee',
+  'notify_executive',
+  'add_tag',
+];
+const CONDITION_KEYS: (keyof EscalationConditions)[] = [
+  'priority',
+  'status',
+  'assignee',
+  'hasAssignee',
+  'tags',
+  'untouchedForHours',
+  'overdueForHours',
+];
+const ACTIVE_STATUSES = ['pending', 'in-progress'];
+const DEFAULT_COOLDOWN_HOURS = 24;
+const HOUR_IN_MS = 60 * 60 * 1000;
+
+export class EscalationRule extends AggregateRoot {
+  private _name: string;
+  private _description?: string;
+  private _enabled: boolean;
+  private _conditions: EscalationConditions;
+  private _actions: EscalationAction[];
+  private _cooldownHours: number;
+
+  constructor(id: string, props: EscalationRuleProps, createdAt?: Date) {
+    super(id, createdAt);
+
+    this._name = this.validateName(props.name);
+    this._description = props.description;
+    this._enabled = props.enabled ?? true;
+    this._conditions = this.normalizeConditions(props.conditions);
+    this._actions = this.normalizeActions(props.actions);
+    this._cooldownHours = this.validateCooldown(
+      props.cooldownHours ?? DEFAULT_COOLDOWN_HOURS,
+    );
+  }
+
+  // Getters
+  get name(): string {
+    return this._name;
+  }
+
+  get description(): string | undefined {
+    return this._description;
+  }
+
+  get enabled(): boolean {
+    return this._enabled;
+  }
+
+  get conditions(): EscalationConditions {
+    return this.copyConditions(this._conditions);
+  }
+
+  get actions(): EscalationAction[] {
+    return this._actions.map((action) => ({ ...action }));
+  }
+
+  // Minimum time before the rule escalates the same task again
+  get cooldownHours(): number {
+    return this._cooldownHours;
+  }
+
+  // Business methods
+  public update(update: EscalationRuleUpdate): void {
+    if (update.name !== undefined) {
+      this._name = this.validateName(update.name);
+    }
+    if (update.description !== undefined) {
+      this._description = update.description;
+    }
+    if (update.enabled !== undefined) {
+      this._enabled = !!update.enabled;
+    }
+    if (update.conditions !== undefined) {
+      this._conditions = this.normalizeConditions(update.conditions);
+    }
+    if (update.actions !== undefined) {
+      this._actions = this.normalizeActions(update.actions);
+    }
+    if (update.cooldownHours !== undefined) {
+      this._cooldownHours = this.validateCooldown(update.cooldownHours);
+    }
+    this.markAsUpdated();
+
+    this.addDomainEvent(new EscalationRuleUpdatedEvent(this.id, this.toJSON()));
+  }
+
+  /**
+   * Why the task meets every condition as of `now`, one reason per
+   * condition, or undefined when it does not match.
+   */
+  public matchReasons(task: Task, now: Date): string[] | undefined {
+    if (!task.status.isActive) {
+      return undefined;
+    }
+
+    const {
+      priority,
+      status,
+      assignee,
+      hasAssignee,
+      tags,
+      untouchedForHours,
+      overdueForHours,
+    } = this._conditions;
+    const reasons: string[] = [];
+
+    if (priority !== undefined) {
+      if (task.priority.value !== priority) return undefined;
+      reasons.push(`priority is ${priority}`);
+    }
+    if (status !== undefined) {
+      if (task.status.value !== status) return undefined;
+      reasons.push(`status is ${status}`);
+    }
+    if (assignee !== undefined) {
+      if (task.assignee?.value !== assignee) return undefined;
+      reasons.push(`assigned to ${assignee}`);
+    }
+    if (hasAssignee !== undefined) {
+      if (!!task.assignee !== hasAssignee) return undefined;
+      reasons.push(hasAssignee ? 'has an assignee' : 'has no assignee');
+    }
+    if (tags !== undefined) {
+      if (!tags.every((tag) => task.tags.includes(tag))) return undefined;
+      reasons.push(`tagged ${tags.join(', ')}`);
+    }
+    if (untouchedForHours !== undefined) {
+      const idle = this.hoursBetween(task.lastActivityAt, now);
+      if (idle < untouchedForHours) return undefined;
+      reasons.push(`untouched for ${idle}h`);
+    }
+    if (overdueForHours !== undefined) {
+      if (!task.dueDate) return undefined;
+      const overdue = this.hoursBetween(task.dueDate, now);
+      if (now <= task.dueDate || overdue < overdueForHours) return undefined;
+      reasons.push(`overdue by ${overdue}h`);
+    }
+
+    return reasons;
+  }
+
+  private hoursBetween(from: Date, to: Date): number {
+    return Math.floor((to.getTime() - from.getTime()) / HOUR_IN_MS);
+  }
+
+  private validateName(name: string): string {
+    if (!name?.trim()) {
+      throw new Error('Rule name cannot be empty');
+    }
+    return name.trim();
+  }
+
+  private validateCooldown(hours: number): number {
+    if (typeof hours !== 'number' || !Number.isFinite(hours) || hours < 1) {
+      throw new Error('Invalid cooldown: must be at least 1 hour');
+    }
+    return hours;
+  }
+
+  private normalizeConditions(
+    conditions: EscalationConditions | undefined,
+  ): EscalationConditions {
+    if (!conditions || typeof conditions !== 'object') {
+      throw new Error('Invalid rule conditions: conditions are required');
+    }
+
+    const normalized: EscalationConditions = {};
+    for (const [key, value] of Object.entries(conditions)) {
+      if (!CONDITION_KEYS.includes(key as keyof EscalationConditions)) {
+        throw new Error(`Invalid rule condition: unknown condition "${key}"`);
+      }
+      if (value === undefined || value === null || value === '') {
+        continue;
+      }
+
+      switch (key) {
+        case 'priority':
+          normalized.priority = new Priority(value).value;
+          break;
+        case 'status':
+          if (!ACTIVE_STATUSES.includes(value)) {
+            throw new Error(
+              `Invalid rule condition: status must be one of: ${ACTIVE_STATUSES.join(', ')}`,
+            );
+          }
+          normalized.status = value;
+          break;
+        case 'assignee':
+          normalized.assignee = new Email(value).value;
+          break;
+        case 'hasAssignee':
+          if (typeof value !== 'boolean') {
+            throw new Error(
+              'Invalid rule condition: hasAssignee must be true or false',
+            );
+          }
+          normalized.hasAssignee = value;
+          break;
+        case 'tags':
+          if (
+            !Array.isArray(value) ||
+            value.some((tag) => typeof tag !== 'string')
+          ) {
+            throw new Error('Invalid rule condition: tags must be a list');
+          }
+          normalized.tags = [
+            ...new Set(
+              value
+                .map((tag: string) => tag.trim().toLowerCase())
+                .filter(Boolean),
+            ),
+          ];
+          break;
+        default:
+          if (
+            typeof value !== 'number' ||
+            !Number.isFinite(value) ||
+            value < 0
+          ) {
+            throw new Error(
+              `Invalid rule condition: ${key} must be zero or more hours`,
+            );
+          }
+          normalized[key as 'untouchedForHours' | 'overdueForHours'] = value;
+      }
+    }
+
+    if (Object.keys(normalized).length === 0) {
+      throw new Error('Invalid rule conditions: at least one is required');
+    }
+    return normalized;
+  }
+
+  private normalizeActions(
+    actions: EscalationAction[] | undefined,
+  ): EscalationAction[] {
+    if (!Array.isArray(actions) || actions.length === 0) {
+      throw new Error('Invalid rule actions: at least one is required');
+    }
+
+    return actions.map((action) => {
+      if (!ESCALATION_ACTION_TYPES.includes(action?.type)) {
+        throw new Error(
+          `Invalid rule action: ${action?.type}. Must be one of: ${ESCALATION_ACTION_TYPES.join(', ')}`,
+        );
+      }
+
+      switch (action.type) {
+        case 'raise_priority':
+          return action.priority
+            ? {
+                type: action.type,
+                priority: new Priority(action.priority).value,
+              }
+            : { type: action.type };
+        case 'add_tag':
+          if (!action.tag?.trim()) {
+            throw new Error('Invalid rule action: add_tag needs a tag');
+          }
+          return { type: action.type, tag: action.tag.trim().toLowerCase() };
+        default:
+          return { type: action.type };
+      }
+    });
+  }
+
+  private copyConditions(
+    conditions: EscalationConditions,
+  ): EscalationConditions {
+    return {
+      ...conditions,
+      tags: conditions.tags ? [...conditions.tags] : undefined,
+    };
+  }
+
+  public toJSON(): Record<string, any> {
+    return {
+      ...super.toJSON(),
+      name: this._name,
+      description: this._description,
+      enabled: this._enabled,
+      conditions: this.copyConditions(this._conditions),
+      actions: this.actions,
+      cooldownHours: this._cooldownHours,
+    };
+  }
+
+  // Factory method
+  public static create(props: EscalationRuleProps): EscalationRule {
+    const id = `rule_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    const rule = new EscalationRule(id, props);
+
+    rule.addDomainEvent(new EscalationRuleCreatedEvent(rule.id, rule.toJSON()));
+
+    return rule;
+  }
+
+  // Factory method for creating rules from JSON
+  public static fromJSON(json: any): EscalationRule {
+    const rule = new EscalationRule(
+      json.id,
+      {
+        name: json.name,
+        description: json.description,
+        enabled: json.enabled,
+        conditions: json.conditions,
+        actions: json.actions,
+        cooldownHours: json.cooldownHours,
+      },
+      json.createdAt ? new Date(json.createdAt) : undefined,
+    );
+
+    if (json.updatedAt) {
+      rule._updatedAt = new Date(json.updatedAt);
+    }
+    rule.clearDomainEvents();
+
+    return rule;
+  }
+}
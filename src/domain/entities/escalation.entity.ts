@@ -0,0 +1,124 @@
+/**
+ * Escalation Entity - Domain Layer
+ * Record of an escalation rule firing for a task and what it did
+ */
+
+import { AggregateRoot } from '../common/aggregate-root';
+import { TaskEscalatedEvent } from '../common/domain-events';
+import type { EscalationActionType } from './escalation-rule.entity';
+
+export type EscalationActionStatus = 'done' | 'skipped' | 'failed';
+
+export interface EscalationActionResult {
+  type: EscalationActionType;
+  status: EscalationActionStatus;
+  detail?: string;
+}
+
+export interface EscalationProps {
+  ruleId: string;
+  ruleName: string; // kept for the log after the rule is renamed or deleted
+  taskId: string;
+  taskTitle: string;
+  reasons: string[];
+  actions: EscalationActionResult[];
+}
+
+export class Escalation extends AggregateRoot {
+  private _ruleId: string;
+  private _ruleName: string;
+  private _taskId: string;
+  private _taskTitle: string;
+  private _reasons: string[];
+  private _actions: EscalationActionResult[];
+
+  constructor(id: string, props: EscalationProps, createdAt?: Date) {
+    super(id, createdAt);
+
+    if (!props.ruleId || !props.taskId) {
+      throw new Error('Escalation must reference a rule and a task');
+    }
+    this._ruleId = props.ruleId;
+    this._ruleName = props.ruleName;
+    this._taskId = props.taskId;
+    this._taskTitle = props.taskTitle;
+    this._reasons = [...props.reasons];
+    this._actions = props.actions.map((action) => ({ ...action }));
+  }
+
+  // Getters
+  get ruleId(): string {
+    return this._ruleId;
+  }
+
+  get ruleName(): string {
+    return this._ruleName;
+  }
+
+  get taskId(): string {
+    return this._taskId;
+  }
+
+  get taskTitle(): string {
+    return this._taskTitle;
+  }
+
+  get reasons(): readonly string[] {
+    return [...this._reasons];
+  }
+
+  get actions(): readonly EscalationActionResult[] {
+    return this._actions.map((action) => ({ ...action }));
+  }
+
+  get firedAt(): Date {
+    return this.createdAt;
+  }
+
+  public toJSON(): Record<string, any> {
+    return {
+      ...super.toJSON(),
+      ruleId: this._ruleId,
+      ruleName: this._ruleName,
+      taskId: this._taskId,
+      taskTitle: this._taskTitle,
+      reasons: [...this._reasons],
+      actions: this._actions.map((action) => ({ ...action })),
+    };
+  }
+
+  // Factory method
+  public static create(props: EscalationProps, firedAt?: Date): Escalation {
+    const id = `escalation_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    const escalation = new Escalation(id, props, firedAt);
+
+    escalation.addDomainEvent(
+      new TaskEscalatedEvent(escalation.id, escalation.toJSON()),
+    );
+
+    return escalation;
+  }
+
+  // Factory method for creating escalations from JSON
+  public static fromJSON(json: any): Escalation {
+    const escalation = new Escalation(
+      json.id,
+      {
+        ruleId: json.ruleId,
+        ruleName: json.ruleName,
+        taskId: json.taskId,
+        taskTitle: json.taskTitle,
+        reasons: json.reasons || [],
+        actions: json.actions || [],
+      },
+      json.createdAt ? new Date(json.createdAt) : undefined,
+    );
+
+    if (json.updatedAt) {
+      escalation._updatedAt = new Date(json.updatedAt);
+    }
+    escalation.clearDomainEvents();
+
+    return escalation;
+  }
+}
@@ -8,6 +8,7 @@ import { Email, DateRange } from '../common/value-objects';
 import {
   MeetingScheduledEvent,
   MeetingCancelledEvent,
+  MeetingRescheduledEvent,
   MeetingReminderSentEvent,
 } from '../common/domain-events';
 
@@ -178,8 +179,17 @@ export class Meeting extends AggregateRoot {
       throw new Error(`Cannot reschedule ${this._status} meeting`);
     }
 
+    const oldDateRange = this._dateRange;
     this._dateRange = newDateRange;
     this.markAsUpdated();
+
+    this.addDomainEvent(
+      new MeetingRescheduledEvent(
+        this.id,
+        oldDateRange.toJSON(),
+        newDateRange.toJSON(),
+      ),
+    );
   }
 
   public addAttendee(attendee: Attendee): void {
@@ -323,4 +333,48 @@ export class Meeting extends AggregateRoot {
 
     return new Meeting(id, meetingProps);
   }
+
+  // Factory method for creating meetings from JSON
+  public static fromJSON(json: any): Meeting {
+    const meetingProps: MeetingProps = {
+      title: json.title,
+      description: json.description,
+      dateRange: new DateRange(
+        new Date(json.dateRange.startDate),
+        new Date(json.dateRange.endDate),
+      ),
+      location: json.location,
+      organizer: new Email(json.organizer.email),
+      attendees: json.attendees.map((a: any) => ({
+        email: new Email(a.email.email),
+        name: a.name,
+        isRequired: a.isRequired,
+        responseStatus: a.responseStatus,
+      })),
+      meetingType: json.meetingType,
+      meetingUrl: json.meetingUrl,
+      agenda: json.agenda || [],
+      isRecurring: json.isRecurring,
+      recurrencePattern: json.recurrencePattern,
+    };
+
+    const meeting = new Meeting(
+      json.id,
+      meetingProps,
+      json.createdAt ? new Date(json.createdAt) : undefined,
+    );
+    meeting._status = json.status || 'scheduled';
+    meeting._remindersSent = (json.remindersSent || []).map((r: any) => ({
+      type: r.type,
+      sentAt: new Date(r.sentAt),
+    }));
+    if (json.updatedAt) {
+      meeting._updatedAt = new Date(json.updatedAt);
+    }
+
+    // Rehydrating a stored meeting must not raise a second MeetingScheduledEvent
+    meeting.clearDomainEvents();
+
+    return meeting;
+  }
 }
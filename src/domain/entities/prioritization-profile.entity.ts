@@ -0,0 +1,229 @@
+/**
+ * Prioritization Profile Entity - Domain Layer
+ * Named weighting schemes for task prioritization
+ */
+
+import { AggregateRoot } from '../common/aggregate-root';
+import {
+  PrioritizationProfileCreatedEvent,
+  PrioritizationProfileUpdatedEvent,
+} from '../common/domain-events';
+import type {
+  PrioritizationAdjustments,
+  PrioritizationCriteria,
+  PrioritizationFactor,
+} from '../services/task-prioritization.service';
+
+export interface PrioritizationProfileSettings
+  extends PrioritizationAdjustments {
+  criteria: PrioritizationCriteria;
+}
+
+export interface PrioritizationProfileProps
+  extends PrioritizationProfileSettings {
+  name: string;
+  description?: string;
+}
+
+export interface PrioritizationProfileUpdate
+  extends Partial<PrioritizationAdjustments> {
+  criteria?: Partial<PrioritizationCriteria>;
+  description?: string;
+}
+
+const CRITERIA_KEYS: (keyof PrioritizationCriteria)[] = [
+  'dueDateWeight',
+  'priorityWeight',
+  'statusWeight',
+  'dependencyWeight',
+  'estimatedDurationWeight',
+];
+const FACTORS: PrioritizationFactor[] = [
+  'dueDate',
+  'priority',
+  'status',
+  'dependencies',
+  'estimatedDuration',
+];
+const MAX_BOOST = 100;
+
+export class PrioritizationProfile extends AggregateRoot {
+  private _name: string;
+  private _description?: string;
+  private _criteria: PrioritizationCriteria;
+  private _tagBoosts: Record<string, number>;
+  private _assigneeBoosts: Record<string, number>;
+  private _factorCaps: Partial<Record<PrioritizationFactor, number>>;
+
+  constructor(id: string, props: PrioritizationProfileProps, createdAt?: Date) {
+    super(id, createdAt);
+
+    if (!props.name?.trim()) {
+      throw new Error('Profile name cannot be empty');
+    }
+
+    this._name = props.name.trim();
+    this._description = props.description;
+    this.applySettings(props);
+  }
+
+  // Getters
+  get name(): string {
+    return this._name;
+  }
+
+  get description(): string | undefined {
+    return this._description;
+  }
+
+  get criteria(): PrioritizationCriteria {
+    return { ...this._criteria };
+  }
+
+  get tagBoosts(): Record<string, number> {
+    return { ...this._tagBoosts };
+  }
+
+  get assigneeBoosts(): Record<string, number> {
+    return { ...this._assigneeBoosts };
+  }
+
+  get factorCaps(): Partial<Record<PrioritizationFactor, number>> {
+    return { ...this._factorCaps };
+  }
+
+  // Business methods
+  /**
+   * Replaces only the parts given; boosts and caps are replaced as a whole,
+   * criteria weight by weight.
+   */
+  public update(update: PrioritizationProfileUpdate): void {
+    this.applySettings({
+      criteria: { ...this._criteria, ...update.criteria },
+      tagBoosts: update.tagBoosts ?? this._tagBoosts,
+      assigneeBoosts: update.assigneeBoosts ?? this._assigneeBoosts,
+      factorCaps: update.factorCaps ?? this._factorCaps,
+    });
+    if (update.description !== undefined) {
+      this._description = update.description;
+    }
+    this.markAsUpdated();
+
+    this.addDomainEvent(
+      new PrioritizationProfileUpdatedEvent(this.id, this.toJSON()),
+    );
+  }
+
+  /**
+   * Weights are relative: they are scaled to sum to 1 so a profile scores
+   * on the same 0-100 range as the built-in defaults.
+   */
+  private applySettings(settings: PrioritizationProfileSettings): void {
+    let total = 0;
+    for (const key of CRITERIA_KEYS) {
+      const weight = settings.criteria[key];
+      if (!Number.isFinite(weight) || weight < 0) {
+        throw new Error(`Invalid weight for ${key}: must be zero or more`);
+      }
+      total += weight;
+    }
+    if (total === 0) {
+      throw new Error('Invalid weights: at least one must be above zero');
+    }
+
+    // Already-normalized weights are kept as they are so reloading is stable
+    const scale = Math.abs(total - 1) < 0.001 ? 1 : total;
+    const criteria = {} as PrioritizationCriteria;
+    for (const key of CRITERIA_KEYS) {
+      criteria[key] =
+        Math.round((settings.criteria[key] / scale) * 1000) / 1000;
+    }
+
+    const factorCaps: Partial<Record<PrioritizationFactor, number>> = {};
+    for (const [factor, cap] of Object.entries(settings.factorCaps || {})) {
+      if (!FACTORS.includes(factor as PrioritizationFactor)) {
+        throw new Error(`Invalid factor cap: unknown factor "${factor}"`);
+      }
+      if (!Number.isFinite(cap) || cap < 0 || cap > 100) {
+        throw new Error(`Invalid cap for ${factor}: must be between 0 and 100`);
+      }
+      factorCaps[factor as PrioritizationFactor] = cap;
+    }
+
+    this._criteria = criteria;
+    this._tagBoosts = this.normalizeBoosts(settings.tagBoosts, 'tag');
+    this._assigneeBoosts = this.normalizeBoosts(
+      settings.assigneeBoosts,
+      'assignee',
+    );
+    this._factorCaps = factorCaps;
+  }
+
+  private normalizeBoosts(
+    boosts: Record<string, number> | undefined,
+    kind: string,
+  ): Record<string, number> {
+    const normalized: Record<string, number> = {};
+    for (const [key, boost] of Object.entries(boosts || {})) {
+      if (!key.trim()) {
+        throw new Error(`Invalid ${kind} boost: key cannot be empty`);
+      }
+      if (!Number.isFinite(boost) || Math.abs(boost) > MAX_BOOST) {
+        throw new Error(
+          `Invalid ${kind} boost for "${key}": must be between -${MAX_BOOST} and ${MAX_BOOST}`,
+        );
+      }
+      normalized[key.trim().toLowerCase()] = boost;
+    }
+    return normalized;
+  }
+
+  public toJSON(): Record<string, any> {
+    return {
+      ...super.toJSON(),
+      name: this._name,
+      description: this._description,
+      criteria: { ...this._criteria },
+      tagBoosts: { ...this._tagBoosts },
+      assigneeBoosts: { ...this._assigneeBoosts },
+      factorCaps: { ...this._factorCaps },
+    };
+  }
+
+  // Factory method
+  public static create(
+    props: PrioritizationProfileProps,
+  ): PrioritizationProfile {
+    const id = `profile_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    const profile = new PrioritizationProfile(id, props);
+
+    profile.addDomainEvent(
+      new PrioritizationProfileCreatedEvent(profile.id, profile.toJSON()),
+    );
+
+    return profile;
+  }
+
+  // Factory method for creating profiles from JSON
+  public static fromJSON(json: any): PrioritizationProfile {
+    const profile = new PrioritizationProfile(
+      json.id,
+      {
+        name: json.name,
+        description: json.description,
+        criteria: json.criteria,
+        tagBoosts: json.tagBoosts,
+        assigneeBoosts: json.assigneeBoosts,
+        factorCaps: json.factorCaps,
+      },
+      json.createdAt ? new Date(json.createdAt) : undefined,
+    );
+
+    if (json.updatedAt) {
+      profile._updatedAt = new Date(json.updatedAt);
+    }
+    profile.clearDomainEvents();
+
+    return profile;
+  }
+}
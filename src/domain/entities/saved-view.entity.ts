@@ -0,0 +1,267 @@
+/**
+ * Saved View Entity - Domain Layer
+ * Named task filter and sort combinations that are evaluated on demand
+ */
+
+import { AggregateRoot } from '../common/aggregate-root';
+import {
+  SavedViewCreatedEvent,
+  SavedViewUpdatedEvent,
+} from '../common/domain-events';
+import {
+  DateToken,
+  Email,
+  Priority,
+  TaskStatus,
+} from '../common/value-objects';
+
+export interface SavedViewFilters {
+  status?: string;
+  priority?: string;
+  assignee?: string;
+  tags?: string[];
+  dueDateFrom?: string; // ISO date or date token such as "today" or "+7d"
+  dueDateTo?: string;
+  isOverdue?: boolean;
+  hasAssignee?: boolean;
+}
+
+export interface SavedViewQuery {
+  filters: SavedViewFilters;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  limit?: number;
+}
+
+export interface SavedViewProps {
+  name: string;
+  description?: string;
+  query: SavedViewQuery;
+}
+
+export interface SavedViewUpdate {
+  name?: string;
+  description?: string;
+  query?: SavedViewQuery;
+}
+
+const FILTER_KEYS: (keyof SavedViewFilters)[] = [
+  'status',
+  'priority',
+  'assignee',
+  'tags',
+  'dueDateFrom',
+  'dueDateTo',
+  'isOverdue',
+  'hasAssignee',
+];
+const SORT_FIELDS = [
+  'title',
+  'createdAt',
+  'updatedAt',
+  'dueDate',
+  'priority',
+  'urgencyScore',
+];
+const MAX_LIMIT = 100;
+
+export class SavedView extends AggregateRoot {
+  private _name: string;
+  private _description?: string;
+  private _query: SavedViewQuery;
+
+  constructor(id: string, props: SavedViewProps, createdAt?: Date) {
+    super(id, createdAt);
+
+    this._name = this.validateName(props.name);
+    this._description = props.description;
+    this._query = this.normalizeQuery(props.query);
+  }
+
+  // Getters
+  get name(): string {
+    return this._name;
+  }
+
+  get description(): string | undefined {
+    return this._description;
+  }
+
+  get query(): SavedViewQuery {
+    return this.copyQuery(this._query);
+  }
+
+  // Business methods
+  public update(update: SavedViewUpdate): void {
+    if (update.name !== undefined) {
+      this._name = this.validateName(update.name);
+    }
+    if (update.description !== undefined) {
+      this._description = update.description;
+    }
+    if (update.query !== undefined) {
+      this._query = this.normalizeQuery(update.query);
+    }
+    this.markAsUpdated();
+
+    this.addDomainEvent(new SavedViewUpdatedEvent(this.id, this.toJSON()));
+  }
+
+  /**
+   * The query with its date tokens replaced by ISO timestamps as of `now`,
+   * with days in `timeZone`. A token in `dueDateFrom` resolves to the start
+   * of its day or period, one in `dueDateTo` to the end, so "today" to
+   * "this-week" includes everything due up to Sunday night.
+   */
+  public resolveQuery(now: Date, timeZone: string = 'UTC'): SavedViewQuery {
+    const query = this.copyQuery(this._query);
+    const { dueDateFrom, dueDateTo } = query.filters;
+    if (dueDateFrom) {
+      query.filters.dueDateFrom = new DateToken(dueDateFrom)
+        .resolve(now, 'start', timeZone)
+        .toISOString();
+    }
+    if (dueDateTo) {
+      query.filters.dueDateTo = new DateToken(dueDateTo)
+        .resolve(now, 'end', timeZone)
+        .toISOString();
+    }
+    return query;
+  }
+
+  private validateName(name: string): string {
+    if (!name?.trim()) {
+      throw new Error('View name cannot be empty');
+    }
+    return name.trim();
+  }
+
+  private normalizeQuery(query: SavedViewQuery | undefined): SavedViewQuery {
+    if (!query || typeof query !== 'object') {
+      throw new Error('Invalid view query: query is required');
+    }
+
+    const filters: SavedViewFilters = {};
+    for (const [key, value] of Object.entries(query.filters || {})) {
+      if (!FILTER_KEYS.includes(key as keyof SavedViewFilters)) {
+        throw new Error(`Invalid view filter: unknown filter "${key}"`);
+      }
+      if (value === undefined || value === null || value === '') {
+        continue;
+      }
+
+      switch (key) {
+        case 'status':
+          filters.status = new TaskStatus(value).value;
+          break;
+        case 'priority':
+          filters.priority = new Priority(value).value;
+          break;
+        case 'assignee':
+          filters.assignee = new Email(value).value;
+          break;
+        case 'tags':
+          if (
+            !Array.isArray(value) ||
+            value.some((tag) => typeof tag !== 'string')
+          ) {
+            throw new Error('Invalid view filter: tags must be a list');
+          }
+          filters.tags = [
+            ...new Set(value.map((tag: string) => tag.trim()).filter(Boolean)),
+          ];
+          break;
+        case 'dueDateFrom':
+        case 'dueDateTo':
+          filters[key] = new DateToken(value).value;
+          break;
+        default:
+          if (typeof value !== 'boolean') {
+            throw new Error(
+              `Invalid view filter: ${key} must be true or false`,
+            );
+          }
+          filters[key as 'isOverdue' | 'hasAssignee'] = value;
+      }
+    }
+
+    if (query.sortBy !== undefined && !SORT_FIELDS.includes(query.sortBy)) {
+      throw new Error(
+        `Invalid sort field: ${query.sortBy}. Must be one of: ${SORT_FIELDS.join(', ')}`,
+      );
+    }
+    if (
+      query.sortOrder !== undefined &&
+      query.sortOrder !== 'asc' &&
+      query.sortOrder !== 'desc'
+    ) {
+      throw new Error(
+        `Invalid sort order: ${query.sortOrder}. Must be asc or desc`,
+      );
+    }
+    if (
+      query.limit !== undefined &&
+      (!Number.isInteger(query.limit) ||
+        query.limit < 1 ||
+        query.limit > MAX_LIMIT)
+    ) {
+      throw new Error(`Invalid limit: must be between 1 and ${MAX_LIMIT}`);
+    }
+
+    return {
+      filters,
+      sortBy: query.sortBy,
+      sortOrder: query.sortOrder,
+      limit: query.limit,
+    };
+  }
+
+  private copyQuery(query: SavedViewQuery): SavedViewQuery {
+    return {
+      ...query,
+      filters: {
+        ...query.filters,
+        tags: query.filters.tags ? [...query.filters.tags] : undefined,
+      },
+    };
+  }
+
+  public toJSON(): Record<string, any> {
+    return {
+      ...super.toJSON(),
+      name: this._name,
+      description: this._description,
+      query: this.copyQuery(this._query),
+    };
+  }
+
+  // Factory method
+  public static create(props: SavedViewProps): SavedView {
+    const id = `view_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    const view = new SavedView(id, props);
+
+    view.addDomainEvent(new SavedViewCreatedEvent(view.id, view.toJSON()));
+
+    return view;
+  }
+
+  // Factory method for creating views from JSON
+  public static fromJSON(json: any): SavedView {
+    const view = new SavedView(
+      json.id,
+      {
+        name: json.name,
+        description: json.description,
+        query: json.query,
+      },
+      json.createdAt ? new Date(json.createdAt) : undefined,
+    );
+
+    if (json.updatedAt) {
+      view._updatedAt = new Date(json.updatedAt);
+    }
+    view.clearDomainEvents();
+
+    return view;
+  }
+}
@@ -0,0 +1,281 @@
+/**
+ * Task Board Entity - Domain Layer
+ * Manual card order per status column and the WIP limits of a Kanban board
+ */
+
+import { AggregateRoot } from '../common/aggregate-root';
+import {
+  TaskBoardUpdatedEvent,
+  TaskMovedOnBoardEvent,
+} from '../common/domain-events';
+import { TaskStatus } from '../common/value-objects';
+
+export type WipEnforcement = 'reject' | 'warn';
+
+export interface WipLimit {
+  limit: number;
+  enforcement: WipEnforcement;
+}
+
+export interface WipLimitCheck {
+  rejected: boolean; // otherwise the limit only warns
+  message: string;
+}
+
+export interface TaskBoardProps {
+  columns?: Record<string, string[]>; // task IDs by status, top first
+  wipLimits?: Record<string, WipLimit>;
+}
+
+export const DEFAULT_BOARD_ID = 'default';
+export const BOARD_COLUMNS = [
+  'pending',
+  'in-progress',
+  'completed',
+  'cancelled',
+];
+const WIP_ENFORCEMENTS: WipEnforcement[] = ['reject', 'warn'];
+
+/**
+ * The tasks' own status decides which column they are in. The board only
+ * remembers their order, so a column is always arranged against the tasks
+ * that actually have its status.
+ */
+export class TaskBoard extends AggregateRoot {
+  private _columns: Map<string, string[]>;
+  private _wipLimits: Map<string, WipLimit>;
+  private _storedUpdatedAt?: Date; // as last read from or written to storage
+
+  constructor(id: string, props: TaskBoardProps = {}, createdAt?: Date) {
+    super(id, createdAt);
+
+    this._columns = new Map(
+      BOARD_COLUMNS.map((status) => [
+        status,
+        [...(props.columns?.[status] || [])],
+      ]),
+    );
+    this._wipLimits = this.normalizeWipLimits(props.wipLimits || {});
+  }
+
+  // Getters
+  get wipLimits(): Record<string, WipLimit> {
+    return Object.fromEntries(
+      Array.from(this._wipLimits, ([status, limit]) => [status, { ...limit }]),
+    );
+  }
+
+  public wipLimitFor(status: string): WipLimit | undefined {
+    const limit = this._wipLimits.get(status);
+    return limit && { ...limit };
+  }
+
+  get storedUpdatedAt(): Date | undefined {
+    return this._storedUpdatedAt;
+  }
+
+  /**
+   * Checks a column about to hold `count` tasks against its WIP limit.
+   * Returns nothing while the column is within its limit.
+   */
+  public checkWipLimit(
+    status: string,
+    count: number,
+  ): WipLimitCheck | undefined {
+    const wip = this._wipLimits.get(status);
+    if (!wip || count <= wip.limit) {
+      return undefined;
+    }
+
+    return wip.enforcement === 'reject'
+      ? {
+          rejected: true,
+          message: `WIP limit reached: ${status} allows ${wip.limit} tasks`,
+        }
+      : {
+          rejected: false,
+          message: `${status} now has ${count} tasks, over its WIP limit of ${wip.limit}`,
+        };
+  }
+
+  // Business methods
+
+  /**
+   * Orders the given tasks of a column: first those with a saved position,
+   * in that order, then the rest as given.
+   */
+  public arrange(status: string, taskIds: string[]): string[] {
+    const present = new Set(taskIds);
+    const ordered = this.column(status).filter((id) => present.has(id));
+    const placed = new Set(ordered);
+    return [...ordered, ...taskIds.filter((id) => !placed.has(id))];
+  }
+
+  /**
+   * Puts a task at the end of its column. Keeps the board in step with
+   * status changes made anywhere else.
+   */
+  public append(taskId: string, status: string): void {
+    this.remove(taskId);
+    this.column(status).push(taskId);
+    this.markAsUpdated();
+  }
+
+  /**
+   * Places a task at a position within the other tasks of the column,
+   * counted from 0 at the top. Past the end, or without a position, it
+   * goes last. Returns the position it ended up at.
+   */
+  public move(
+    taskId: string,
+    status: string,
+    columnTaskIds: string[],
+    position?: number,
+  ): number {
+    if (
+      position !== undefined &&
+      (!Number.isInteger(position) || position < 0)
+    ) {
+      throw new Error('Invalid position: must be zero or more');
+    }
+
+    const order = this.arrange(
+      status,
+      columnTaskIds.filter((id) => id !== taskId),
+    );
+    const index = Math.min(position ?? order.length, order.length);
+    order.splice(index, 0, taskId);
+
+    this.remove(taskId);
+    this._columns.set(status, order);
+    this.markAsUpdated();
+
+    this.addDomainEvent(
+      new TaskMovedOnBoardEvent(this.id, taskId, status, index),
+    );
+    return index;
+  }
+
+  public remove(taskId: string): void {
+    for (const [status, order] of this._columns) {
+      if (order.includes(taskId)) {
+        this._columns.set(
+          status,
+          order.filter((id) => id !== taskId),
+        );
+        this.markAsUpdated();
+      }
+    }
+  }
+
+  /**
+   * Drops the positions of tasks that no longer exist. Returns whether
+   * anything was dropped.
+   */
+  public prune(existingTaskIds: Set<string>): boolean {
+    let pruned = false;
+    for (const [status, order] of this._columns) {
+      const kept = order.filter((id) => existingTaskIds.has(id));
+      if (kept.length < order.length) {
+        this._columns.set(status, kept);
+        pruned = true;
+      }
+    }
+    if (pruned) {
+      this.markAsUpdated();
+    }
+    return pruned;
+  }
+
+  // Called by repositories, whose save checks that nobody saved in between
+  public markAsStored(): void {
+    this._storedUpdatedAt = this._updatedAt;
+  }
+
+  public setWipLimits(wipLimits: Record<string, WipLimit>): void {
+    this._wipLimits = this.normalizeWipLimits(wipLimits);
+    this.markAsUpdated();
+
+    this.addDomainEvent(
+      new TaskBoardUpdatedEvent(this.id, { wipLimits: this.wipLimits }),
+    );
+  }
+
+  // Always later than the stored board, so updatedAt works as its version
+  protected markAsUpdated(): void {
+    super.markAsUpdated();
+    if (this._storedUpdatedAt && this._updatedAt <= this._storedUpdatedAt) {
+      this._updatedAt = new Date(this._storedUpdatedAt.getTime() + 1);
+    }
+  }
+
+  private column(status: string): string[] {
+    return this._columns.get(new TaskStatus(status).value)!;
+  }
+
+  private normalizeWipLimits(
+    wipLimits: Record<string, WipLimit>,
+  ): Map<string, WipLimit> {
+    if (!wipLimits || typeof wipLimits !== 'object') {
+      throw new Error('Invalid WIP limits: must map a status to a limit');
+    }
+
+    const normalized = new Map<string, WipLimit>();
+    for (const [status, wip] of Object.entries(wipLimits)) {
+      if (!BOARD_COLUMNS.includes(status)) {
+        throw new Error(
+          `Invalid WIP limit column: ${status}. Must be one of: ${BOARD_COLUMNS.join(', ')}`,
+        );
+      }
+      if (!wip || !Number.isInteger(wip.limit) || wip.limit < 1) {
+        throw new Error(
+          `Invalid WIP limit for ${status}: must be a whole number of at least 1`,
+        );
+      }
+
+      const enforcement = wip.enforcement ?? 'reject';
+      if (!WIP_ENFORCEMENTS.includes(enforcement)) {
+        throw new Error(
+          `Invalid WIP enforcement for ${status}: must be reject or warn`,
+        );
+      }
+      normalized.set(status, { limit: wip.limit, enforcement });
+    }
+    return normalized;
+  }
+
+  public toJSON(): Record<string, any> {
+    return {
+      ...super.toJSON(),
+      columns: Object.fromEntries(
+        Array.from(this._columns, ([status, order]) => [status, [...order]]),
+      ),
+      wipLimits: this.wipLimits,
+    };
+  }
+
+  // Factory method; there is one board, holding every task
+  public static create(): TaskBoard {
+    return new TaskBoard(DEFAULT_BOARD_ID);
+  }
+
+  // Factory method for creating boards from JSON
+  public static fromJSON(json: any): TaskBoard {
+    const board = new TaskBoard(
+      json.id,
+      {
+        columns: json.columns || {},
+        wipLimits: json.wipLimits || {},
+      },
+      json.createdAt ? new Date(json.createdAt) : undefined,
+    );
+
+    if (json.updatedAt) {
+      board._updatedAt = new Date(json.updatedAt);
+    }
+    board.markAsStored();
+    board.clearDomainEvents();
+
+    return board;
+  }
+}
@@ -0,0 +1,313 @@
+/**
+ * Task Comment Entity - Domain Layer
+ * Discussion on a task, with mentions, linked attachments and edit history
+ */
+
+import { AggregateRoot } from '../common/aggregate-root';
+import {
+  TaskCommentAddedEvent,
+  TaskCommentDeletedEvent,
+  TaskCommentEditedEvent,
+} from '../common/domain-events';
+import { Email } from '../common/value-objects';
+
+export interface CommentAttachment {
+  name: string;
+  url: string; // attachments are linked, not uploaded
+  contentType?: string;
+}
+
+export interface CommentRevision {
+  body: string;
+  attachments: CommentAttachment[];
+  replacedAt: Date; // when this content was edited or deleted
+}
+
+export interface TaskCommentProps {
+  taskId: string;
+  author?: Email;
+  body: string;
+  attachments?: CommentAttachment[];
+  revisions?: CommentRevision[];
+  pendingMentions?: string[];
+  deletedAt?: Date;
+}
+
+export interface TaskCommentUpdate {
+  body?: string;
+  attachments?: CommentAttachment[];
+}
+
+const MAX_BODY_LENGTH = 5000;
+const MAX_ATTACHMENTS = 10;
+// "@" directly followed by an email address, e.g. "@sam@example.com"
+const MENTION_PATTERN =
+  /(?:^|[^\w@.])@([\w.%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,})/g;
+
+export class TaskComment extends AggregateRoot {
+  private _taskId: string;
+  private _author?: Email;
+  private _body: string;
+  private _attachments: CommentAttachment[];
+  private _revisions: CommentRevision[];
+  private _pendingMentions: string[];
+  private _deletedAt?: Date;
+
+  constructor(id: string, props: TaskCommentProps, createdAt?: Date) {
+    super(id, createdAt);
+
+    if (!props.taskId) {
+      throw new Error('Comment must belong to a task');
+    }
+    this._taskId = props.taskId;
+    this._author = props.author;
+    this._deletedAt = props.deletedAt;
+    this._body = this._deletedAt ? '' : this.validateBody(props.body);
+    this._attachments = this.validateAttachments(props.attachments || []);
+    this._revisions = (props.revisions || []).map((revision) => ({
+      ...revision,
+      attachments: revision.attachments.map((a) => ({ ...a })),
+    }));
+    this._pendingMentions = [...(props.pendingMentions || [])];
+  }
+
+  // Getters
+  get taskId(): string {
+    return this._taskId;
+  }
+
+  get author(): Email | undefined {
+    return this._author;
+  }
+
+  get body(): string {
+    return this._body;
+  }
+
+  get attachments(): readonly CommentAttachment[] {
+    return this._attachments.map((a) => ({ ...a }));
+  }
+
+  get revisions(): readonly CommentRevision[] {
+    return this._revisions.map((revision) => ({
+      ...revision,
+      attachments: revision.attachments.map((a) => ({ ...a })),
+    }));
+  }
+
+  // Everyone mentioned in the current body
+  get mentions(): string[] {
+    return TaskComment.parseMentions(this._body);
+  }
+
+  // Mentioned people who have not been sent a digest yet
+  get pendingMentions(): readonly string[] {
+    return [...this._pendingMentions];
+  }
+
+  get deletedAt(): Date | undefined {
+    return this._deletedAt;
+  }
+
+  get isDeleted(): boolean {
+    return !!this._deletedAt;
+  }
+
+  get editedAt(): Date | undefined {
+    return this._revisions.length > 0 && !this._deletedAt
+      ? this._revisions[this._revisions.length - 1].replacedAt
+      : undefined;
+  }
+
+  // Business methods
+
+  /**
+   * Keeps the replaced content as a revision. People newly mentioned by
+   * the edit are queued for the next digest.
+   */
+  public edit(update: TaskCommentUpdate, now: Date = new Date()): void {
+    if (this._deletedAt) {
+      throw new Error('Cannot edit a deleted comment');
+    }
+
+    const body =
+      update.body !== undefined ? this.validateBody(update.body) : this._body;
+    const attachments =
+      update.attachments !== undefined
+        ? this.validateAttachments(update.attachments)
+        : this._attachments;
+
+    const previousMentions = this.mentions;
+    this._revisions.push({
+      body: this._body,
+      attachments: this._attachments,
+      replacedAt: now,
+    });
+    this._body = body;
+    this._attachments = attachments;
+    this.queueMentions(
+      this.mentions.filter((email) => !previousMentions.includes(email)),
+    );
+    this.markAsUpdated();
+
+    this.addDomainEvent(new TaskCommentEditedEvent(this.id, this.toJSON()));
+  }
+
+  /**
+   * Deleting keeps the comment as a tombstone, with its last content in
+   * the revisions.
+   */
+  public delete(now: Date = new Date()): void {
+    if (this._deletedAt) {
+      throw new Error('Comment is already deleted');
+    }
+
+    this._revisions.push({
+      body: this._body,
+      attachments: this._attachments,
+      replacedAt: now,
+    });
+    this._body = '';
+    this._attachments = [];
+    this._pendingMentions = [];
+    this._deletedAt = now;
+    this.markAsUpdated();
+
+    this.addDomainEvent(new TaskCommentDeletedEvent(this.id, this._taskId));
+  }
+
+  public markMentionNotified(email: string): void {
+    this._pendingMentions = this._pendingMentions.filter((e) => e !== email);
+    this.markAsUpdated();
+  }
+
+  private queueMentions(emails: string[]): void {
+    for (const email of emails) {
+      if (
+        email !== this._author?.value &&
+        !this._pendingMentions.includes(email)
+      ) {
+        this._pendingMentions.push(email);
+      }
+    }
+  }
+
+  private validateBody(body: string): string {
+    if (!body?.trim()) {
+      throw new Error('Comment cannot be empty');
+    }
+    if (body.length > MAX_BODY_LENGTH) {
+      throw new Error(
+        `Comment is too long: at most ${MAX_BODY_LENGTH} characters`,
+      );
+    }
+    return body.trim();
+  }
+
+  private validateAttachments(
+    attachments: CommentAttachment[],
+  ): CommentAttachment[] {
+    if (!Array.isArray(attachments)) {
+      throw new Error('Invalid attachments: must be a list');
+    }
+    if (attachments.length > MAX_ATTACHMENTS) {
+      throw new Error(
+        `Invalid attachments: at most ${MAX_ATTACHMENTS} per comment`,
+      );
+    }
+
+    return attachments.map((attachment) => {
+      let url: URL;
+      try {
+        url = new URL(attachment?.url);
+      } catch {
+        throw new Error(`Invalid attachment URL: ${attachment?.url}`);
+      }
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new Error(`Invalid attachment URL: ${attachment.url}`);
+      }
+
+      return {
+        name:
+          attachment.name?.trim() || url.pathname.split('/').pop() || url.host,
+        url: url.toString(),
+        contentType: attachment.contentType?.trim() || undefined,
+      };
+    });
+  }
+
+  public toJSON(): Record<string, any> {
+    return {
+      ...super.toJSON(),
+      taskId: this._taskId,
+      author: this._author?.value,
+      body: this._body,
+      mentions: this.mentions,
+      attachments: this._attachments.map((a) => ({ ...a })),
+      revisions: this._revisions.map((revision) => ({
+        ...revision,
+        attachments: revision.attachments.map((a) => ({ ...a })),
+        replacedAt: revision.replacedAt.toISOString(),
+      })),
+      pendingMentions: [...this._pendingMentions],
+      editedAt: this.editedAt?.toISOString(),
+      deletedAt: this._deletedAt?.toISOString(),
+    };
+  }
+
+  /**
+   * The distinct, lowercased addresses mentioned as "@name@domain".
+   */
+  public static parseMentions(body: string): string[] {
+    const mentions = new Set<string>();
+    for (const match of body.matchAll(MENTION_PATTERN)) {
+      mentions.add(new Email(match[1]).value);
+    }
+    return [...mentions];
+  }
+
+  // Factory method
+  public static create(
+    props: Omit<
+      TaskCommentProps,
+      'revisions' | 'pendingMentions' | 'deletedAt'
+    >,
+  ): TaskComment {
+    const id = `comment_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    const comment = new TaskComment(id, props);
+    comment.queueMentions(comment.mentions);
+
+    comment.addDomainEvent(
+      new TaskCommentAddedEvent(comment.id, comment.toJSON()),
+    );
+
+    return comment;
+  }
+
+  // Factory method for creating comments from JSON
+  public static fromJSON(json: any): TaskComment {
+    const comment = new TaskComment(
+      json.id,
+      {
+        taskId: json.taskId,
+        author: json.author ? new Email(json.author) : undefined,
+        body: json.body,
+        attachments: json.attachments || [],
+        revisions: (json.revisions || []).map((revision: any) => ({
+          ...revision,
+          replacedAt: new Date(revision.replacedAt),
+        })),
+        pendingMentions: json.pendingMentions || [],
+        deletedAt: json.deletedAt ? new Date(json.deletedAt) : undefined,
+      },
+      json.createdAt ? new Date(json.createdAt) : undefined,
+    );
+
+    if (json.updatedAt) {
+      comment._updatedAt = new Date(json.updatedAt);
+    }
+    comment.clearDomainEvents();
+
+    return comment;
+  }
+}
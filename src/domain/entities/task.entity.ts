@@ -3,15 +3,72 @@
  * Core business logic for task management
  */
 
+import { timingSafeEqual } from 'crypto';
 import { AggregateRoot } from '../common/aggregate-root';
-import { Priority, TaskStatus, Email } from '../common/value-objects';
+import {
+  Priority,
+  TaskStatus,
+  Email,
+  RecurrenceRule,
+} from '../common/value-objects';
 import {
   TaskCreatedEvent,
   TaskUpdatedEvent,
   TaskCompletedEvent,
   TaskPriorityChangedEvent,
+  TaskNextOccurrenceCreatedEvent,
 } from '../common/domain-events';
 
+export interface TaskRecurrence {
+  rule: RecurrenceRule;
+  seriesId: string; // ID of the first task in the series
+  occurrence: number; // 1-based position in the series
+  nextOccurrenceId?: string;
+}
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+  completedAt?: Date;
+}
+
+export interface TimeEntry {
+  id: string;
+  startedAt: Date;
+  endedAt?: Date; // unset while the timer is running
+  source: 'timer' | 'manual';
+  note?: string;
+}
+
+const MAX_TIME_ENTRY_MINUTES = 24 * 60;
+
+/**
+ * Minutes covered by a time entry; a running timer counts up to `now`.
+ */
+export function timeEntryMinutes(
+  entry: TimeEntry,
+  now: Date = new Date(),
+): number {
+  const end = entry.endedAt ?? now;
+  return Math.max(0, (end.getTime() - entry.startedAt.getTime()) / 60000);
+}
+
+export type DelegationStatus = 'pending' | 'accepted' | 'declined' | 'returned';
+
+export interface TaskDelegation {
+  delegate: string; // email of the person the task was handed to
+  status: DelegationStatus;
+  token: string; // secret in the accept/decline links sent to the delegate
+  delegatedAt: Date;
+  respondedAt?: Date;
+  followUpAt?: Date; // nudge the delegate if nothing has happened by then
+  followUps: number;
+  lastFollowUpAt?: Date;
+  note?: string; // message from the executive
+  reason?: string; // given by the delegate when declining or returning
+}
+
 export interface TaskProps {
   title: string;
   description?: string;
@@ -22,6 +79,11 @@ export interface TaskProps {
   tags?: string[];
   estimatedDuration?: number; // in minutes
   dependencies?: string[]; // task IDs
+  recurrence?: TaskRecurrence;
+  parentId?: string;
+  checklist?: ChecklistItem[];
+  timeEntries?: TimeEntry[];
+  delegation?: TaskDelegation;
 }
 
 export class Task extends AggregateRoot {
@@ -35,6 +97,12 @@ export class Task extends AggregateRoot {
   private _estimatedDuration?: number;
   private _dependencies: string[];
   private _completedAt?: Date;
+  private _recurrence?: TaskRecurrence;
+  private _parentId?: string;
+  private _checklist: ChecklistItem[];
+  private _timeEntries: TimeEntry[];
+  private _delegation?: TaskDelegation;
+  private _lastActivityAt: Date;
 
   constructor(id: string, props: TaskProps, createdAt?: Date) {
     super(id, createdAt);
@@ -48,6 +116,22 @@ export class Task extends AggregateRoot {
     this._estimatedDuration = props.estimatedDuration;
     this._dependencies = props.dependencies || [];
 
+    if (props.recurrence && !props.dueDate) {
+      throw new Error('Recurring tasks must have a due date');
+    }
+    this._recurrence = props.recurrence ? { ...props.recurrence } : undefined;
+
+    if (props.parentId === id) {
+      throw new Error('Task cannot be its own parent');
+    }
+    this._parentId = props.parentId;
+    this._checklist = (props.checklist || []).map((item) => ({ ...item }));
+    this._timeEntries = (props.timeEntries || []).map((entry) => ({
+      ...entry,
+    }));
+    this._delegation = props.delegation ? { ...props.delegation } : undefined;
+    this._lastActivityAt = this._updatedAt;
+
     this.addDomainEvent(new TaskCreatedEvent(this.id, this.toJSON()));
   }
 
@@ -92,6 +176,55 @@ export class Task extends AggregateRoot {
     return this._completedAt ? new Date(this._completedAt) : undefined;
   }
 
+  get recurrence(): TaskRecurrence | undefined {
+    return this._recurrence ? { ...this._recurrence } : undefined;
+  }
+
+  get parentId(): string | undefined {
+    return this._parentId;
+  }
+
+  get checklist(): readonly ChecklistItem[] {
+    return this._checklist.map((item) => ({ ...item }));
+  }
+
+  get timeEntries(): readonly TimeEntry[] {
+    return this._timeEntries.map((entry) => ({ ...entry }));
+  }
+
+  get runningTimer(): TimeEntry | undefined {
+    const entry = this._timeEntries.find((e) => !e.endedAt);
+    return entry && { ...entry };
+  }
+
+  // Minutes tracked so far, including a running timer
+  get actualDuration(): number {
+    const now = new Date();
+    return Math.round(
+      this._timeEntries.reduce(
+        (sum, entry) => sum + timeEntryMinutes(entry, now),
+        0,
+      ),
+    );
+  }
+
+  get delegation(): TaskDelegation | undefined {
+    return this._delegation && { ...this._delegation };
+  }
+
+  // Last change made by a person rather than by escalations or follow-ups
+  get lastActivityAt(): Date {
+    return this._lastActivityAt;
+  }
+
+  // Handed to someone who has not declined or returned it
+  get isDelegated(): boolean {
+    return (
+      this._delegation?.status === 'pending' ||
+      this._delegation?.status === 'accepted'
+    );
+  }
+
   get isOverdue(): boolean {
     if (!this._dueDate || this._status.isCompleted) {
       return false;
@@ -184,6 +317,14 @@ export class Task extends AggregateRoot {
     this._status = newStatus;
     this.markAsUpdated();
 
+    // Finishing or cancelling a task stops its timer
+    if (!newStatus.isActive) {
+      const running = this._timeEntries.find((e) => !e.endedAt);
+      if (running) {
+        running.endedAt = new Date();
+      }
+    }
+
     // Set completion time if task is being completed
     if (newStatus.isCompleted && !oldStatus.isCompleted) {
       this._completedAt = new Date();
@@ -200,13 +341,223 @@ export class Task extends AggregateRoot {
   }
 
   public assignTo(assignee: Email): void {
+    // Handing the task to someone else takes it back from the delegate
+    if (this.isDelegated && this._delegation!.delegate !== assignee.value) {
+      this.closeDelegation('returned', `Reassigned to ${assignee.value}`);
+    }
+    this.setAssignee(assignee);
+  }
+
+  private setAssignee(assignee: Email | undefined): void {
+    const oldAssignee = this._assignee;
     this._assignee = assignee;
     this.markAsUpdated();
 
     this.addDomainEvent(
       new TaskUpdatedEvent(this.id, {
         field: 'assignee',
-        newValue: assignee.value,
+        oldValue: oldAssignee?.value,
+        newValue: assignee?.value,
+      }),
+    );
+  }
+
+  /**
+   * Assigns the task to `delegate` and waits for them to accept or decline
+   * through the links carrying `token`. A newer delegation replaces the
+   * current one.
+   */
+  public delegate(
+    delegate: Email,
+    token: string,
+    options: { followUpAt?: Date; note?: string } = {},
+    now: Date = new Date(),
+  ): TaskDelegation {
+    if (!this._status.isActive) {
+      throw new Error('Cannot delegate a completed or cancelled task');
+    }
+    if (this.isDelegated && this._delegation!.delegate === delegate.value) {
+      throw new Error(`Task is already delegated to ${delegate.value}`);
+    }
+    const { followUpAt } = options;
+    if (followUpAt && (isNaN(followUpAt.getTime()) || followUpAt <= now)) {
+      throw new Error('Invalid follow-up date: must be in the future');
+    }
+
+    if (!this._assignee?.equals(delegate)) {
+      this.setAssignee(delegate);
+    }
+    this._delegation = {
+      delegate: delegate.value,
+      status: 'pending',
+      token,
+      delegatedAt: now,
+      followUpAt,
+      followUps: 0,
+      note: options.note?.trim() || undefined,
+    };
+    this.markAsUpdated();
+
+    this.addDomainEvent(
+      new TaskUpdatedEvent(this.id, {
+        field: 'delegation',
+        action: 'delegated',
+        delegate: delegate.value,
+        followUpAt: followUpAt?.toISOString(),
+      }),
+    );
+    return { ...this._delegation };
+  }
+
+  public acceptDelegation(token: string, now: Date = new Date()): void {
+    const delegation = this.verifyDelegationToken(token);
+    if (delegation.status !== 'pending') {
+      throw new Error(`Delegation is already ${delegation.status}`);
+    }
+    this.closeDelegation('accepted', undefined, now);
+  }
+
+  /**
+   * Declining or returning a delegation leaves the task unassigned, back
+   * with the executive.
+   */
+  public declineDelegation(
+    token: string,
+    reason?: string,
+    now: Date = new Date(),
+  ): void {
+    const delegation = this.verifyDelegationToken(token);
+    if (delegation.status !== 'pending') {
+      throw new Error(`Delegation is already ${delegation.status}`);
+    }
+    this.closeDelegation('declined', reason, now);
+    this.setAssignee(undefined);
+  }
+
+  public returnDelegation(
+    token: string,
+    reason?: string,
+    now: Date = new Date(),
+  ): void {
+    const delegation = this.verifyDelegationToken(token);
+    if (delegation.status !== 'accepted') {
+      throw new Error('Only an accepted delegation can be returned');
+    }
+    this.closeDelegation('returned', reason, now);
+    this.setAssignee(undefined);
+  }
+
+  /**
+   * Progress is a status change, a ticked checklist item or tracked time
+   * since the task was delegated.
+   */
+  public isFollowUpDue(now: Date = new Date()): boolean {
+    const delegation = this._delegation;
+    if (
+      !this.isDelegated ||
+      !delegation!.followUpAt ||
+      delegation!.followUpAt > now ||
+      this._status.value !== 'pending'
+    ) {
+      return false;
+    }
+
+    const since = delegation!.delegatedAt;
+    const tickedItems = this._checklist.filter(
+      (item) => item.completedAt && item.completedAt > since,
+    );
+    const trackedTime = this._timeEntries.filter(
+      (entry) => entry.startedAt > since,
+    );
+    return tickedItems.length === 0 && trackedTime.length === 0;
+  }
+
+  /**
+   * Records a nudge sent to the delegate; without `nextFollowUpAt` no
+   * further nudges are scheduled.
+   */
+  public recordFollowUp(nextFollowUpAt?: Date, now: Date = new Date()): void {
+    if (!this.isDelegated) {
+      throw new Error('Task is not delegated');
+    }
+    const delegation = this._delegation!;
+    this.asSystemChange(() => {
+      delegation.followUps++;
+      delegation.lastFollowUpAt = now;
+      delegation.followUpAt = nextFollowUpAt;
+      this.markAsUpdated();
+
+      this.addDomainEvent(
+        new TaskUpdatedEvent(this.id, {
+          field: 'delegation',
+          action: 'followed-up',
+          delegate: delegation.delegate,
+          followUps: delegation.followUps,
+        }),
+      );
+    });
+  }
+
+  /**
+   * Raises the priority and adds tags for an escalation rule. Like
+   * follow-ups, this does not count as activity on the task.
+   */
+  public applyEscalation(priority: Priority | undefined, tags: string[]): void {
+    this.asSystemChange(() => {
+      if (priority) {
+        this.changePriority(priority);
+      }
+      tags.forEach((tag) => this.addTag(tag));
+    });
+  }
+
+  /**
+   * Checks a token from the delegate's links without changing anything.
+   * The comparison takes the same time however much of the token matches.
+   */
+  public verifyDelegationToken(token: string): TaskDelegation {
+    if (!this._delegation) {
+      throw new Error('Task is not delegated');
+    }
+    const expected = Buffer.from(this._delegation.token);
+    const given = Buffer.from(token || '');
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      throw new Error('Invalid delegation token');
+    }
+    return this._delegation;
+  }
+
+  protected markAsUpdated(): void {
+    super.markAsUpdated();
+    this._lastActivityAt = this._updatedAt;
+  }
+
+  private asSystemChange(change: () => void): void {
+    const lastActivityAt = this._lastActivityAt;
+    change();
+    this._lastActivityAt = lastActivityAt;
+  }
+
+  private closeDelegation(
+    status: Exclude<DelegationStatus, 'pending'>,
+    reason?: string,
+    now: Date = new Date(),
+  ): void {
+    const delegation = this._delegation!;
+    delegation.status = status;
+    delegation.respondedAt = now;
+    delegation.reason = reason?.trim() || undefined;
+    if (status !== 'accepted') {
+      delegation.followUpAt = undefined;
+    }
+    this.markAsUpdated();
+
+    this.addDomainEvent(
+      new TaskUpdatedEvent(this.id, {
+        field: 'delegation',
+        action: status,
+        delegate: delegation.delegate,
+        reason: delegation.reason,
       }),
     );
   }
@@ -216,12 +567,14 @@ export class Task extends AggregateRoot {
       throw new Error('Due date must be in the future');
     }
 
+    const oldDueDate = this._dueDate;
     this._dueDate = new Date(dueDate);
     this.markAsUpdated();
 
     this.addDomainEvent(
       new TaskUpdatedEvent(this.id, {
         field: 'dueDate',
+        oldValue: oldDueDate?.toISOString(),
         newValue: this._dueDate.toISOString(),
       }),
     );
@@ -270,12 +623,14 @@ export class Task extends AggregateRoot {
       throw new Error('Estimated duration must be positive');
     }
 
+    const oldDuration = this._estimatedDuration;
     this._estimatedDuration = minutes;
     this.markAsUpdated();
 
     this.addDomainEvent(
       new TaskUpdatedEvent(this.id, {
         field: 'estimatedDuration',
+        oldValue: oldDuration,
         newValue: minutes,
       }),
     );
@@ -316,6 +671,309 @@ export class Task extends AggregateRoot {
     }
   }
 
+  public setParent(parentId: string | undefined): void {
+    if (parentId === this.id) {
+      throw new Error('Task cannot be its own parent');
+    }
+
+    if (parentId === this._parentId) {
+      return;
+    }
+
+    const oldParentId = this._parentId;
+    this._parentId = parentId;
+    this.markAsUpdated();
+
+    this.addDomainEvent(
+      new TaskUpdatedEvent(this.id, {
+        field: 'parentId',
+        oldValue: oldParentId,
+        newValue: parentId,
+      }),
+    );
+  }
+
+  public addChecklistItem(text: string): ChecklistItem {
+    if (!text?.trim()) {
+      throw new Error('Checklist item text cannot be empty');
+    }
+
+    const item: ChecklistItem = {
+      id: `item_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+      text: text.trim(),
+      done: false,
+    };
+    this._checklist.push(item);
+    this.markAsUpdated();
+
+    this.addDomainEvent(
+      new TaskUpdatedEvent(this.id, {
+        field: 'checklist',
+        action: 'added',
+        value: item.text,
+      }),
+    );
+    return { ...item };
+  }
+
+  public updateChecklistItem(
+    itemId: string,
+    changes: { text?: string; done?: boolean },
+  ): void {
+    const item = this.findChecklistItem(itemId);
+
+    if (changes.text !== undefined) {
+      if (!changes.text.trim()) {
+        throw new Error('Checklist item text cannot be empty');
+      }
+      item.text = changes.text.trim();
+    }
+
+    if (changes.done !== undefined && changes.done !== item.done) {
+      item.done = changes.done;
+      item.completedAt = changes.done ? new Date() : undefined;
+    }
+    this.markAsUpdated();
+
+    this.addDomainEvent(
+      new TaskUpdatedEvent(this.id, {
+        field: 'checklist',
+        action: 'updated',
+        value: item.text,
+        done: item.done,
+      }),
+    );
+  }
+
+  public removeChecklistItem(itemId: string): void {
+    const item = this.findChecklistItem(itemId);
+    this._checklist = this._checklist.filter((i) => i.id !== itemId);
+    this.markAsUpdated();
+
+    this.addDomainEvent(
+      new TaskUpdatedEvent(this.id, {
+        field: 'checklist',
+        action: 'removed',
+        value: item.text,
+      }),
+    );
+  }
+
+  private findChecklistItem(itemId: string): ChecklistItem {
+    const item = this._checklist.find((i) => i.id === itemId);
+    if (!item) {
+      throw new Error('Checklist item not found');
+    }
+    return item;
+  }
+
+  public startTimer(note?: string, now: Date = new Date()): TimeEntry {
+    if (!this._status.isActive) {
+      throw new Error('Cannot start a timer on a completed or cancelled task');
+    }
+    if (this._timeEntries.some((e) => !e.endedAt)) {
+      throw new Error('A timer is already running on this task');
+    }
+
+    const entry: TimeEntry = {
+      id: Task.generateTimeEntryId(),
+      startedAt: now,
+      source: 'timer',
+      note: note?.trim() || undefined,
+    };
+    this._timeEntries.push(entry);
+    this.markAsUpdated();
+
+    this.addDomainEvent(
+      new TaskUpdatedEvent(this.id, {
+        field: 'timeEntries',
+        action: 'started',
+        entryId: entry.id,
+      }),
+    );
+    return { ...entry };
+  }
+
+  public stopTimer(now: Date = new Date()): TimeEntry {
+    const entry = this._timeEntries.find((e) => !e.endedAt);
+    if (!entry) {
+      throw new Error('No timer is running on this task');
+    }
+
+    entry.endedAt = now < entry.startedAt ? entry.startedAt : now;
+    this.markAsUpdated();
+
+    this.addDomainEvent(
+      new TaskUpdatedEvent(this.id, {
+        field: 'timeEntries',
+        action: 'stopped',
+        entryId: entry.id,
+        minutes: Math.round(timeEntryMinutes(entry)),
+      }),
+    );
+    return { ...entry };
+  }
+
+  /**
+   * Records time spent without a timer. Without `startedAt` the entry is
+   * taken to end now.
+   */
+  public logTime(
+    minutes: number,
+    startedAt?: Date,
+    note?: string,
+    now: Date = new Date(),
+  ): TimeEntry {
+    if (
+      !Number.isFinite(minutes) ||
+      minutes <= 0 ||
+      minutes > MAX_TIME_ENTRY_MINUTES
+    ) {
+      throw new Error(
+        `Invalid time entry: minutes must be above 0 and at most ${MAX_TIME_ENTRY_MINUTES}`,
+      );
+    }
+    if (startedAt && isNaN(startedAt.getTime())) {
+      throw new Error('Invalid time entry: startedAt is not a valid date');
+    }
+
+    const start = startedAt ?? new Date(now.getTime() - minutes * 60000);
+    const entry: TimeEntry = {
+      id: Task.generateTimeEntryId(),
+      startedAt: start,
+      endedAt: new Date(start.getTime() + minutes * 60000),
+      source: 'manual',
+      note: note?.trim() || undefined,
+    };
+    if (entry.endedAt! > now) {
+      throw new Error('Invalid time entry: cannot log time in the future');
+    }
+    this._timeEntries.push(entry);
+    this.markAsUpdated();
+
+    this.addDomainEvent(
+      new TaskUpdatedEvent(this.id, {
+        field: 'timeEntries',
+        action: 'logged',
+        entryId: entry.id,
+        minutes,
+      }),
+    );
+    return { ...entry };
+  }
+
+  public removeTimeEntry(entryId: string): void {
+    if (!this._timeEntries.some((e) => e.id === entryId)) {
+      throw new Error('Time entry not found');
+    }
+    this._timeEntries = this._timeEntries.filter((e) => e.id !== entryId);
+    this.markAsUpdated();
+
+    this.addDomainEvent(
+      new TaskUpdatedEvent(this.id, {
+        field: 'timeEntries',
+        action: 'removed',
+        entryId,
+      }),
+    );
+  }
+
+  private static generateTimeEntryId(): string {
+    return `time_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+  }
+
+  public setRecurrence(rule: string | undefined): void {
+    const oldRule = this._recurrence?.rule.value;
+
+    if (!rule) {
+      if (!this._recurrence) {
+        return;
+      }
+      this._recurrence = undefined;
+    } else {
+      if (!this._dueDate) {
+        throw new Error('Recurring tasks must have a due date');
+      }
+
+      const recurrenceRule = new RecurrenceRule(rule);
+      if (this._recurrence?.rule.equals(recurrenceRule)) {
+        return;
+      }
+
+      this._recurrence = {
+        seriesId: this.id,
+        occurrence: 1,
+        ...this._recurrence,
+        rule: recurrenceRule,
+      };
+    }
+    this.markAsUpdated();
+
+    this.addDomainEvent(
+      new TaskUpdatedEvent(this.id, {
+        field: 'recurrence',
+        oldValue: oldRule,
+        newValue: this._recurrence?.rule.value,
+      }),
+    );
+  }
+
+  /**
+   * Creates the next task of a completed recurring task, with its due date
+   * shifted by the rule. Occurrences that are already in the past are
+   * skipped, so a task completed late does not spawn an overdue copy.
+   * Returns undefined when the series has ended or was already continued.
+   */
+  public createNextOccurrence(now: Date = new Date()): Task | undefined {
+    if (
+      !this._recurrence ||
+      !this._dueDate ||
+      !this._status.isCompleted ||
+      this._recurrence.nextOccurrenceId
+    ) {
+      return undefined;
+    }
+
+    const { rule, seriesId } = this._recurrence;
+    let occurrence = this._recurrence.occurrence;
+    let dueDate: Date | undefined = this._dueDate;
+    do {
+      dueDate = rule.nextOccurrence(dueDate, occurrence);
+      occurrence++;
+    } while (dueDate && dueDate <= now);
+
+    if (!dueDate) {
+      return undefined;
+    }
+
+    const next = new Task(Task.generateId(), {
+      title: this._title,
+      description: this._description,
+      status: new TaskStatus('pending'),
+      priority: this._priority,
+      assignee: this._assignee,
+      dueDate,
+      tags: [...this._tags],
+      estimatedDuration: this._estimatedDuration,
+      recurrence: { rule, seriesId, occurrence },
+      parentId: this._parentId,
+      // Each occurrence starts with a fresh copy of the checklist
+      checklist: this._checklist.map((item) => ({
+        id: item.id,
+        text: item.text,
+        done: false,
+      })),
+    });
+
+    this._recurrence.nextOccurrenceId = next.id;
+    this.markAsUpdated();
+    this.addDomainEvent(
+      new TaskNextOccurrenceCreatedEvent(this.id, next.id, dueDate),
+    );
+
+    return next;
+  }
+
   // Test compatibility methods
   public markAsCompleted(): void {
     this._status = new TaskStatus('completed');
@@ -357,6 +1015,7 @@ export class Task extends AggregateRoot {
   public toJSON(): Record<string, any> {
     return {
       ...super.toJSON(),
+      lastActivityAt: this._lastActivityAt.toISOString(),
       title: this._title,
       description: this._description,
       status: this._status.value,
@@ -367,6 +1026,30 @@ export class Task extends AggregateRoot {
       estimatedDuration: this._estimatedDuration,
       dependencies: [...this._dependencies],
       completedAt: this._completedAt?.toISOString(),
+      recurrence: this._recurrence && {
+        rule: this._recurrence.rule.value,
+        seriesId: this._recurrence.seriesId,
+        occurrence: this._recurrence.occurrence,
+        nextOccurrenceId: this._recurrence.nextOccurrenceId,
+      },
+      parentId: this._parentId,
+      checklist: this._checklist.map((item) => ({
+        ...item,
+        completedAt: item.completedAt?.toISOString(),
+      })),
+      timeEntries: this._timeEntries.map((entry) => ({
+        ...entry,
+        startedAt: entry.startedAt.toISOString(),
+        endedAt: entry.endedAt?.toISOString(),
+      })),
+      actualDuration: this.actualDuration,
+      delegation: this._delegation && {
+        ...this._delegation,
+        delegatedAt: this._delegation.delegatedAt.toISOString(),
+        respondedAt: this._delegation.respondedAt?.toISOString(),
+        followUpAt: this._delegation.followUpAt?.toISOString(),
+        lastFollowUpAt: this._delegation.lastFollowUpAt?.toISOString(),
+      },
       isOverdue: this.isOverdue,
       urgencyScore: this.urgencyScore,
     };
@@ -374,24 +1057,44 @@ export class Task extends AggregateRoot {
 
   // Factory method for creating tasks
   public static create(
-    props: Omit<TaskProps, 'status' | 'priority' | 'assignee'> & {
+    props: Omit<
+      TaskProps,
+      'status' | 'priority' | 'assignee' | 'recurrence'
+    > & {
       status?: string;
       priority?: string;
       assignee?: string;
+      recurrenceRule?: string;
     },
   ): Task {
-    const id = `task_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    const id = Task.generateId();
+    const { recurrenceRule, ...rest } = props;
 
     const taskProps: TaskProps = {
-      ...props,
+      ...rest,
       status: new TaskStatus(props.status || 'pending'),
       priority: new Priority(props.priority || 'medium'),
       assignee: props.assignee ? new Email(props.assignee) : undefined,
+      recurrence: recurrenceRule
+        ? {
+            rule: new RecurrenceRule(recurrenceRule),
+            seriesId: id,
+            occurrence: 1,
+          }
+        : undefined,
     };
 
     return new Task(id, taskProps);
   }
 
+  private static generateId(): string {
+    return `task_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+  }
+
+  private static optionalDate(value?: string): Date | undefined {
+    return value ? new Date(value) : undefined;
+  }
+
   // Factory method for creating tasks from JSON
   public static fromJSON(json: any): Task {
     const taskProps: TaskProps = {
@@ -404,16 +1107,45 @@ export class Task extends AggregateRoot {
       tags: json.tags || [],
       estimatedDuration: json.estimatedDuration,
       dependencies: json.dependencies || [],
+      recurrence: json.recurrence
+        ? {
+            rule: new RecurrenceRule(json.recurrence.rule),
+            seriesId: json.recurrence.seriesId,
+            occurrence: json.recurrence.occurrence,
+            nextOccurrenceId: json.recurrence.nextOccurrenceId,
+          }
+        : undefined,
+      parentId: json.parentId,
+      checklist: (json.checklist || []).map((item: any) => ({
+        ...item,
+        completedAt: item.completedAt ? new Date(item.completedAt) : undefined,
+      })),
+      timeEntries: (json.timeEntries || []).map((entry: any) => ({
+        ...entry,
+        startedAt: new Date(entry.startedAt),
+        endedAt: entry.endedAt ? new Date(entry.endedAt) : undefined,
+      })),
+      delegation: json.delegation && {
+        ...json.delegation,
+        delegatedAt: new Date(json.delegation.delegatedAt),
+        respondedAt: Task.optionalDate(json.delegation.respondedAt),
+        followUpAt: Task.optionalDate(json.delegation.followUpAt),
+        lastFollowUpAt: Task.optionalDate(json.delegation.lastFollowUpAt),
+      },
     };
 
     const task = new Task(json.id, taskProps, json.createdAt ? new Date(json.createdAt) : undefined);
     if (json.updatedAt) {
       task._updatedAt = new Date(json.updatedAt);
     }
+    task._lastActivityAt = new Date(json.lastActivityAt || task._updatedAt);
     if (json.completedAt) {
       task._completedAt = new Date(json.completedAt);
     }
 
+    // Rehydrating a stored task must not raise a second TaskCreatedEvent
+    task.clearDomainEvents();
+
     return task;
   }
 }
@@ -0,0 +1,13 @@
+/**
+ * Email Template Repository Interface - Domain Layer
+ * Contract for email template persistence
+ */
+
+import { Repository } from '../common/repository.interface';
+import { EmailTemplate } from '../entities/email-template.entity';
+
+export interface EmailTemplateRepository extends Repository<EmailTemplate> {
+  findByName(name: string): Promise<EmailTemplate | null>;
+  findAll(): Promise<EmailTemplate[]>;
+  findPartials(): Promise<EmailTemplate[]>;
+}
@@ -39,6 +39,7 @@ export interface EmailRepository extends Repository<EmailMessage> {
   findEmailsDueForSending(): Promise<EmailMessage[]>;
   findByTags(tags: string[]): Promise<EmailMessage[]>;
   findByPriority(priority: 'low' | 'normal' | 'high'): Promise<EmailMessage[]>;
+  findByExternalId(externalId: string): Promise<EmailMessage | null>;
   findMany(options?: EmailQueryOptions): Promise<QueryResult<EmailMessage>>;
   getEmailAnalytics(): Promise<{
     total: number;
@@ -47,6 +48,9 @@ export interface EmailRepository extends Repository<EmailMessage> {
     scheduled: number;
     deliveryRate: number;
     bounceRate: number;
+    spamRate: number;
+    openRate: number;
+    clickRate: number;
     byStatus: Record<string, number>;
     byPriority: Record<string, number>;
   }>;
@@ -0,0 +1,12 @@
+/**
+ * Escalation Rule Repository Interface - Domain Layer
+ * Contract for escalation rule persistence
+ */
+
+import { Repository } from '../common/repository.interface';
+import { EscalationRule } from '../entities/escalation-rule.entity';
+
+export interface EscalationRuleRepository extends Repository<EscalationRule> {
+  findByName(name: string): Promise<EscalationRule | null>;
+  findAll(): Promise<EscalationRule[]>;
+}
@@ -0,0 +1,19 @@
+/**
+ * Escalation Repository Interface - Domain Layer
+ * Contract for the log of fired escalations
+ */
+
+import { Repository } from '../common/repository.interface';
+import { Escalation } from '../entities/escalation.entity';
+
+export interface EscalationQueryOptions {
+  ruleId?: string;
+  taskId?: string;
+  limit?: number;
+}
+
+export interface EscalationRepository extends Repository<Escalation> {
+  // Newest first
+  findMany(options?: EscalationQueryOptions): Promise<Escalation[]>;
+  findLatest(ruleId: string, taskId: string): Promise<Escalation | null>;
+}
@@ -0,0 +1,25 @@
+/**
+ * Event Store Interface - Domain Layer
+ * Contract for the append-only domain event log
+ */
+
+import { DomainEvent } from '../common/domain-events';
+
+export interface StoredEvent {
+  sequence: number;
+  eventId: string;
+  aggregateId: string;
+  eventType: string;
+  occurredOn: string; // ISO string
+  eventData: Record<string, any>;
+  metadata?: EventMetadata;
+}
+
+export interface EventMetadata {
+  actor?: string; // Who caused the event, or 'system' for background jobs
+}
+
+export interface EventStore {
+  append(event: DomainEvent, metadata?: EventMetadata): Promise<StoredEvent>;
+  findByAggregateId(aggregateId: string): Promise<StoredEvent[]>;
+}
@@ -39,6 +39,7 @@ export interface MeetingRepository extends Repository<Meeting> {
     status: 'scheduled' | 'in-progress' | 'completed' | 'cancelled',
   ): Promise<Meeting[]>;
   findRecurringMeetings(): Promise<Meeting[]>;
+  searchMeetings(query: string): Promise<Meeting[]>;
   findMany(options?: MeetingQueryOptions): Promise<QueryResult<Meeting>>;
   getMeetingAnalytics(): Promise<{
     total: number;
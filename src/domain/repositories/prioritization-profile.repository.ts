@@ -0,0 +1,13 @@
+/**
+ * Prioritization Profile Repository Interface - Domain Layer
+ * Contract for prioritization profile persistence
+ */
+
+import { Repository } from '../common/repository.interface';
+import { PrioritizationProfile } from '../entities/prioritization-profile.entity';
+
+export interface PrioritizationProfileRepository
+  extends Repository<PrioritizationProfile> {
+  findByName(name: string): Promise<PrioritizationProfile | null>;
+  findAll(): Promise<PrioritizationProfile[]>;
+}
@@ -0,0 +1,12 @@
+/**
+ * Saved View Repository Interface - Domain Layer
+ * Contract for saved view persistence
+ */
+
+import { Repository } from '../common/repository.interface';
+import { SavedView } from '../entities/saved-view.entity';
+
+export interface SavedViewRepository extends Repository<SavedView> {
+  findByName(name: string): Promise<SavedView | null>;
+  findAll(): Promise<SavedView[]>;
+}
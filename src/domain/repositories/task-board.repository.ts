@@ -0,0 +1,20 @@
+/**
+ * Task Board Repository Interface - Domain Layer
+ * Contract for task board persistence
+ */
+
+import { Repository } from '../common/repository.interface';
+import { TaskBoard } from '../entities/task-board.entity';
+
+/**
+ * `save` throws a TaskBoardConflictError when the stored board was saved
+ * by someone else since this one was read, so neither change is lost.
+ */
+export type TaskBoardRepository = Repository<TaskBoard>;
+
+export class TaskBoardConflictError extends Error {
+  constructor(boardId: string) {
+    super(`Task board ${boardId} was changed meanwhile`);
+    this.name = 'TaskBoardConflictError';
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Task Comment Repository Interface - Domain Layer
+ * Contract for task comment persistence
+ */
+
+import { Repository } from '../common/repository.interface';
+import { TaskComment } from '../entities/task-comment.entity';
+
+export interface TaskCommentRepository extends Repository<TaskComment> {
+  findByTaskId(taskId: string): Promise<TaskComment[]>; // oldest first
+  findWithPendingMentions(): Promise<TaskComment[]>;
+  deleteByTaskId(taskId: string): Promise<void>;
+}
@@ -34,6 +34,8 @@ export interface TaskRepository extends Repository<Task> {
   findOverdueTasks(): Promise<Task[]>;
   findTasksDueWithin(days: number): Promise<Task[]>;
   findByTags(tags: string[]): Promise<Task[]>;
+  findByParentId(parentId: string): Promise<Task[]>;
+  findAll(): Promise<Task[]>;
   findMany(options?: TaskQueryOptions): Promise<QueryResult<Task>>;
   countByStatus(): Promise<Record<string, number>>;
   countByPriority(): Promise<Record<string, number>>;
@@ -0,0 +1,94 @@
+/**
+ * Task Dependency Graph Service Tests - Domain Layer
+ * Verifies cycle detection, blocking, ordering and the critical path
+ */
+
+import { TaskDependencyGraphService } from '../task-dependency-graph.service';
+import { Task } from '../../entities/task.entity';
+
+describe('TaskDependencyGraphService', () => {
+  const service = new TaskDependencyGraphService();
+
+  const task = (
+    id: string,
+    dependencies: string[] = [],
+    estimatedDuration?: number,
+    status = 'pending',
+  ) =>
+    Task.fromJSON({
+      id,
+      title: id,
+      status,
+      priority: 'medium',
+      dependencies,
+      estimatedDuration,
+    });
+
+  // design -> build -> launch, with a short docs branch off design
+  const tasks = () => [
+    task('design', [], 60, 'completed'),
+    task('build', ['design'], 240),
+    task('docs', ['design'], 30),
+    task('review', ['build'], 60),
+    task('launch', ['review', 'docs'], 15),
+  ];
+
+  it('should find the cycle a new dependency would close', () => {
+    expect(service.findCycle(tasks(), 'design', ['launch'])).toEqual([
+      'design',
+      'launch',
+      'review',
+      'build',
+      'design',
+    ]);
+    expect(service.findCycle(tasks(), 'docs', ['build'])).toBeUndefined();
+    expect(service.findCycle(tasks(), 'docs', ['docs'])).toEqual([
+      'docs',
+      'docs',
+    ]);
+  });
+
+  it('should split open tasks into blocked and unblocked', () => {
+    const analysis = service.analyze(tasks());
+
+    expect(analysis.unblockedTaskIds).toEqual(['build', 'docs']);
+    expect(analysis.blockedTaskIds).toEqual(['review', 'launch']);
+  });
+
+  it('should order dependencies before the tasks that need them', () => {
+    const analysis = service.analyze(tasks());
+
+    expect(analysis.topologicalOrder).toEqual([
+      'design',
+      'build',
+      'docs',
+      'review',
+      'launch',
+    ]);
+    expect(analysis.cyclicTaskIds).toEqual([]);
+  });
+
+  it('should weight the critical path by estimated duration of open tasks', () => {
+    const analysis = service.analyze(tasks());
+
+    expect(analysis.criticalPath).toEqual({
+      taskIds: ['build', 'review', 'launch'],
+      totalDuration: 315,
+    });
+  });
+
+  it('should report missing dependencies and tasks stuck in stored cycles', () => {
+    const analysis = service.analyze([
+      task('a', ['b']),
+      task('b', ['a']),
+      task('c', ['ghost']),
+    ]);
+
+    expect(analysis.missingDependencies).toEqual([
+      { taskId: 'c', dependencyId: 'ghost' },
+    ]);
+    expect(analysis.blockedTaskIds).toEqual(['a', 'b', 'c']);
+    expect(analysis.cyclicTaskIds).toEqual(['a', 'b']);
+    expect(analysis.topologicalOrder).toEqual(['c']);
+  });
+});
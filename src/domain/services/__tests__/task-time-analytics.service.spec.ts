@@ -0,0 +1,96 @@
+/**
+ * Task Time Analytics Service Tests - Domain Layer
+ * Verifies estimate accuracy, breakdowns, weekly totals and overrun warnings
+ */
+
+import { TaskTimeAnalyticsService } from '../task-time-analytics.service';
+import { TaskPrioritizationService } from '../task-prioritization.service';
+import { Task } from '../../entities/task.entity';
+
+describe('TaskTimeAnalyticsService', () => {
+  const service = new TaskTimeAnalyticsService();
+  const now = new Date('2025-03-12T12:00:00Z'); // a Wednesday
+
+  const task = (
+    id: string,
+    estimatedDuration: number | undefined,
+    tracked: Array<[string, number]>, // [start, minutes]
+    extra: Record<string, any> = {},
+  ) =>
+    Task.fromJSON({
+      id,
+      title: id,
+      status: 'completed',
+      priority: 'medium',
+      estimatedDuration,
+      timeEntries: tracked.map(([start, minutes], index) => ({
+        id: `${id}_${index}`,
+        startedAt: start,
+        endedAt: new Date(
+          new Date(start).getTime() + minutes * 60000,
+        ).toISOString(),
+        source: 'manual',
+      })),
+      ...extra,
+    });
+
+  it('should compare tracked time with estimates on completed tasks', () => {
+    const analytics = service.analyze(
+      [
+        task('memo', 60, [['2025-03-10T09:00:00Z', 60]], { tags: ['legal'] }),
+        task('deck', 60, [['2025-03-03T09:00:00Z', 120]], {
+          tags: ['board', 'legal'],
+          assignee: 'ea@example.com',
+        }),
+        task('call', 30, [['2025-03-11T09:00:00Z', 15]]),
+        task('draft', 60, [['2025-03-11T10:00:00Z', 90]], {
+          status: 'in-progress',
+        }),
+        task('idea', undefined, []),
+      ],
+      now,
+      2,
+    );
+
+    expect(analytics.trackedMinutes).toBe(285);
+    expect(analytics.estimateAccuracy).toEqual({
+      tasksCompared: 3,
+      averageRatio: 1.17,
+      medianRatio: 1,
+      withinTolerance: 33,
+      overruns: 1,
+      underruns: 1,
+    });
+    expect(analytics.byTag.legal).toEqual({
+      trackedMinutes: 180,
+      estimatedMinutes: 120,
+      tasks: 2,
+    });
+    expect(analytics.byAssignee['ea@example.com'].trackedMinutes).toBe(120);
+    expect(analytics.byAssignee.unassigned.tasks).toBe(3);
+    expect(analytics.weekly).toEqual([
+      { weekStart: '2025-03-03', trackedMinutes: 120 },
+      { weekStart: '2025-03-10', trackedMinutes: 165 },
+    ]);
+  });
+
+  it('should warn about open tasks that ran over their estimate', () => {
+    const overrun = task(
+      'Vendor contract',
+      60,
+      [['2025-03-11T09:00:00Z', 90]],
+      {
+        status: 'in-progress',
+      },
+    );
+
+    const result = new TaskPrioritizationService().prioritizeTasks([overrun]);
+
+    expect(result.prioritizedTasks[0].recommendation).toContain(
+      'over estimate (90 of 60 min tracked)',
+    );
+    expect(result.recommendations).toContain(
+      '1 task(s) have run over their estimate ("Vendor contract") - re-plan or split them',
+    );
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Task Dependency Graph Service - Domain Layer
+ * Business logic for dependency validation, ordering and critical path analysis
+ */
+
+import { Task } from '../entities/task.entity';
+
+export interface DependencyEdge {
+  taskId: string;
+  dependsOn: string;
+}
+
+export interface MissingDependency {
+  taskId: string;
+  dependencyId: string;
+}
+
+export interface CriticalPath {
+  taskIds: string[];
+  totalDuration: number; // in minutes
+}
+
+export interface DependencyGraphAnalysis {
+  tasks: Task[];
+  edges: DependencyEdge[];
+  missingDependencies: MissingDependency[];
+  blockedTaskIds: string[];
+  unblockedTaskIds: string[];
+  topologicalOrder: string[];
+  cyclicTaskIds: string[];
+  criticalPath: CriticalPath;
+}
+
+export class TaskDependencyGraphService {
+  /**
+   * Returns the cycle that giving `taskId` the dependencies `dependencyIds`
+   * would close, as a path starting and ending at `taskId`, or undefined
+   * when the graph stays acyclic.
+   */
+  public findCycle(
+    tasks: Task[],
+    taskId: string,
+    dependencyIds: string[],
+  ): string[] | undefined {
+    const adjacency = this.buildAdjacency(tasks);
+    adjacency.set(taskId, dependencyIds);
+
+    const visited = new Set<string>();
+    const search = (id: string, path: string[]): string[] | undefined => {
+      if (id === taskId) {
+        return [...path, id];
+      }
+      if (visited.has(id)) {
+        return undefined;
+      }
+      visited.add(id);
+
+      for (const next of adjacency.get(id) || []) {
+        const cycle = search(next, [...path, id]);
+        if (cycle) {
+          return cycle;
+        }
+      }
+      return undefined;
+    };
+
+    for (const dependencyId of dependencyIds) {
+      const cycle = search(dependencyId, [taskId]);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    return undefined;
+  }
+
+  public analyze(tasks: Task[]): DependencyGraphAnalysis {
+    const byId = new Map(tasks.map((task) => [task.id, task]));
+    const edges: DependencyEdge[] = [];
+    const missingDependencies: MissingDependency[] = [];
+
+    for (const task of tasks) {
+      for (const dependencyId of task.dependencies) {
+        if (byId.has(dependencyId)) {
+          edges.push({ taskId: task.id, dependsOn: dependencyId });
+        } else {
+          missingDependencies.push({ taskId: task.id, dependencyId });
+        }
+      }
+    }
+
+    const completedIds = new Set(
+      tasks.filter((task) => task.isCompleted).map((task) => task.id),
+    );
+    const activeTasks = tasks.filter((task) => task.status.isActive);
+    const blockedTaskIds = activeTasks
+      .filter((task) => !task.canBeStarted(completedIds))
+      .map((task) => task.id);
+    const unblockedTaskIds = activeTasks
+      .filter((task) => task.canBeStarted(completedIds))
+      .map((task) => task.id);
+
+    const topologicalOrder = this.sortTopologically(tasks, edges);
+    const ordered = new Set(topologicalOrder);
+    const cyclicTaskIds = tasks
+      .filter((task) => !ordered.has(task.id))
+      .map((task) => task.id);
+
+    return {
+      tasks,
+      edges,
+      missingDependencies,
+      blockedTaskIds,
+      unblockedTaskIds,
+      topologicalOrder,
+      cyclicTaskIds,
+      criticalPath: this.findCriticalPath(topologicalOrder, byId),
+    };
+  }
+
+  /**
+   * Kahn's algorithm, dependencies first. Tasks caught in a cycle (only
+   * possible for data written before cycles were rejected) are left out.
+   */
+  private sortTopologically(tasks: Task[], edges: DependencyEdge[]): string[] {
+    const inDegree = new Map(tasks.map((task) => [task.id, 0]));
+    const dependents = new Map<string, string[]>();
+
+    for (const edge of edges) {
+      inDegree.set(edge.taskId, (inDegree.get(edge.taskId) || 0) + 1);
+      dependents.set(edge.dependsOn, [
+        ...(dependents.get(edge.dependsOn) || []),
+        edge.taskId,
+      ]);
+    }
+
+    const queue = tasks
+      .filter((task) => inDegree.get(task.id) === 0)
+      .map((task) => task.id);
+    const order: string[] = [];
+
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      order.push(id);
+
+      for (const dependentId of dependents.get(id) || []) {
+        const remaining = inDegree.get(dependentId)! - 1;
+        inDegree.set(dependentId, remaining);
+        if (remaining === 0) {
+          queue.push(dependentId);
+        }
+      }
+    }
+
+    return order;
+  }
+
+  /**
+   * Longest chain of open tasks weighted by estimated duration. Completed
+   * and cancelled tasks no longer hold anything up, so they are skipped.
+   */
+  private findCriticalPath(
+    topologicalOrder: string[],
+    byId: Map<string, Task>,
+  ): CriticalPath {
+    const finish = new Map<string, number>();
+    const previous = new Map<string, string>();
+    let end: string | undefined;
+
+    for (const id of topologicalOrder) {
+      const task = byId.get(id)!;
+      if (!task.status.isActive) {
+        continue;
+      }
+
+      let start = 0;
+      for (const dependencyId of task.dependencies) {
+        const dependencyFinish = finish.get(dependencyId);
+        if (dependencyFinish !== undefined && dependencyFinish > start) {
+          start = dependencyFinish;
+          previous.set(id, dependencyId);
+        }
+      }
+
+      finish.set(id, start + (task.estimatedDuration || 0));
+      if (end === undefined || finish.get(id)! > finish.get(end)!) {
+        end = id;
+      }
+    }
+
+    const taskIds: string[] = [];
+    for (let id = end; id !== undefined; id = previous.get(id)) {
+      taskIds.unshift(id);
+    }
+
+    return {
+      taskIds,
+      totalDuration: end === undefined ? 0 : finish.get(end)!,
+    };
+  }
+
+  private buildAdjacency(tasks: Task[]): Map<string, string[]> {
+    return new Map(tasks.map((task) => [task.id, [...task.dependencies]]));
+  }
+}
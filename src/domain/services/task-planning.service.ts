@@ -0,0 +1,227 @@
+/**
+ * Task Planning Service - Domain Layer
+ * Business logic for Eisenhower classification and time-boxed daily plans
+ */
+
+import { Task } from '../entities/task.entity';
+import type { TimeSlot } from './meeting-scheduling.service';
+
+export type EisenhowerQuadrant = 'do' | 'schedule' | 'delegate' | 'eliminate';
+
+export interface QuadrantClassification {
+  quadrant: EisenhowerQuadrant;
+  important: boolean;
+  urgent: boolean;
+}
+
+export interface PlanCandidate {
+  task: Task;
+  score: number;
+}
+
+export interface PlanningOptions {
+  now: Date;
+  limit: number; // how many of the best candidates to try to fit
+  bufferMinutes: number; // gap kept after every block
+  defaultDuration: number; // in minutes, for tasks without an estimate
+  blockedTaskIds?: Set<string>;
+}
+
+export interface TimeBlock {
+  task: Task;
+  score: number;
+  quadrant: EisenhowerQuadrant;
+  start: Date;
+  end: Date;
+  duration: number; // in minutes
+  estimated: boolean; // false when the default duration was used
+}
+
+export interface OverflowItem {
+  task: Task;
+  score: number;
+  quadrant: EisenhowerQuadrant;
+  duration: number; // in minutes
+  reason: string;
+}
+
+export interface DailyPlan {
+  blocks: TimeBlock[];
+  overflow: OverflowItem[];
+  freeMinutes: number;
+  scheduledMinutes: number;
+}
+
+const QUADRANT_ORDER: EisenhowerQuadrant[] = [
+  'do',
+  'schedule',
+  'delegate',
+  'eliminate',
+];
+const URGENT_WITHIN_HOURS = 48;
+const URGENT_SCORE = 90;
+
+export class TaskPlanningService {
+  /**
+   * High and urgent priorities are important. A task is urgent when it is
+   * due within two days (or overdue), or when its urgency score is high
+   * enough on its own, e.g. urgent priority or a high one already in progress.
+   */
+  public classify(task: Task, now: Date = new Date()): QuadrantClassification {
+    const important =
+      task.priority.value === 'high' || task.priority.value === 'urgent';
+
+    const hoursUntilDue = task.dueDate
+      ? (task.dueDate.getTime() - now.getTime()) / (60 * 60 * 1000)
+      : undefined;
+    const urgent =
+      (hoursUntilDue !== undefined && hoursUntilDue <= URGENT_WITHIN_HOURS) ||
+      task.urgencyScore >= URGENT_SCORE;
+
+    let quadrant: EisenhowerQuadrant = 'eliminate';
+    if (important && urgent) {
+      quadrant = 'do';
+    } else if (important) {
+      quadrant = 'schedule';
+    } else if (urgent) {
+      quadrant = 'delegate';
+    }
+
+    return { quadrant, important, urgent };
+  }
+
+  public buildMatrix(
+    tasks: Task[],
+    now: Date = new Date(),
+  ): Record<EisenhowerQuadrant, Task[]> {
+    const matrix: Record<EisenhowerQuadrant, Task[]> = {
+      do: [],
+      schedule: [],
+      delegate: [],
+      eliminate: [],
+    };
+
+    for (const task of tasks) {
+      matrix[this.classify(task, now).quadrant].push(task);
+    }
+
+    return matrix;
+  }
+
+  /**
+   * Subtracts busy periods from a window and returns the gaps between them.
+   */
+  public findFreeGaps(
+    windowStart: Date,
+    windowEnd: Date,
+    busy: Array<{ start: Date; end: Date }>,
+  ): TimeSlot[] {
+    const gaps: TimeSlot[] = [];
+    const sorted = [...busy].sort(
+      (a, b) => a.start.getTime() - b.start.getTime(),
+    );
+
+    let cursor = windowStart;
+    for (const period of sorted) {
+      if (period.end <= cursor) {
+        continue;
+      }
+      if (period.start >= windowEnd) {
+        break;
+      }
+      if (period.start > cursor) {
+        gaps.push(this.toSlot(cursor, period.start));
+      }
+      cursor = period.end;
+    }
+    if (cursor < windowEnd) {
+      gaps.push(this.toSlot(cursor, windowEnd));
+    }
+
+    return gaps;
+  }
+
+  /**
+   * Fits the best candidates into the gaps, first fit in quadrant order and
+   * then by score. Tasks are never split; whatever does not fit, is blocked
+   * or belongs to the eliminate quadrant ends up in the overflow.
+   */
+  public planDay(
+    candidates: PlanCandidate[],
+    gaps: TimeSlot[],
+    options: PlanningOptions,
+  ): DailyPlan {
+    const ranked = candidates
+      .map((candidate) => ({
+        ...candidate,
+        quadrant: this.classify(candidate.task, options.now).quadrant,
+      }))
+      .sort(
+        (a, b) =>
+          QUADRANT_ORDER.indexOf(a.quadrant) -
+            QUADRANT_ORDER.indexOf(b.quadrant) || b.score - a.score,
+      )
+      .slice(0, options.limit);
+
+    const free = gaps.map((gap) => ({ start: gap.start, end: gap.end }));
+    const blocks: TimeBlock[] = [];
+    const overflow: OverflowItem[] = [];
+
+    for (const candidate of ranked) {
+      const estimated = !!candidate.task.estimatedDuration;
+      const duration =
+        candidate.task.estimatedDuration || options.defaultDuration;
+      const item = { ...candidate, duration };
+
+      if (candidate.quadrant === 'eliminate') {
+        overflow.push({ ...item, reason: 'Neither urgent nor important' });
+        continue;
+      }
+      if (options.blockedTaskIds?.has(candidate.task.id)) {
+        overflow.push({
+          ...item,
+          reason: 'Waiting on unfinished dependencies',
+        });
+        continue;
+      }
+
+      const gap = free.find(
+        (slot) => slot.end.getTime() - slot.start.getTime() >= duration * 60000,
+      );
+      if (!gap) {
+        overflow.push({ ...item, reason: 'No free gap is long enough' });
+        continue;
+      }
+
+      const start = gap.start;
+      const end = new Date(start.getTime() + duration * 60000);
+      blocks.push({ ...item, start, end, estimated });
+      gap.start = new Date(
+        Math.min(
+          end.getTime() + options.bufferMinutes * 60000,
+          gap.end.getTime(),
+        ),
+      );
+    }
+
+    blocks.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    return {
+      blocks,
+      overflow,
+      freeMinutes: gaps.reduce((total, gap) => total + gap.duration, 0),
+      scheduledMinutes: blocks.reduce(
+        (total, block) => total + block.duration,
+        0,
+      ),
+    };
+  }
+
+  private toSlot(start: Date, end: Date): TimeSlot {
+    return {
+      start,
+      end,
+      duration: Math.round((end.getTime() - start.getTime()) / 60000),
+    };
+  }
+}
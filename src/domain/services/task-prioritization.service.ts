@@ -14,6 +14,19 @@ export interface PrioritizationCriteria {
   estimatedDurationWeight: number;
 }
 
+export type PrioritizationFactor =
+  | 'dueDate'
+  | 'priority'
+  | 'status'
+  | 'dependencies'
+  | 'estimatedDuration';
+
+export interface PrioritizationAdjustments {
+  tagBoosts: Record<string, number>; // score points added per matching tag
+  assigneeBoosts: Record<string, number>; // score points keyed by assignee email
+  factorCaps: Partial<Record<PrioritizationFactor, number>>; // 0-100 ceiling per factor
+}
+
 export interface PrioritizedTask {
   task: Task;
   score: number;
@@ -24,6 +37,8 @@ export interface PrioritizedTask {
     status: number;
     dependencies: number;
     estimatedDuration: number;
+    tagBoost: number;
+    assigneeBoost: number;
   };
 }
 
@@ -48,14 +63,19 @@ export class TaskPrioritizationService {
     estimatedDurationWeight: 0.1,
   };
 
+  get defaults(): PrioritizationCriteria {
+    return { ...this.defaultCriteria };
+  }
+
   public prioritizeTasks(
     tasks: Task[],
     criteria: Partial<PrioritizationCriteria> = {},
+    adjustments: Partial<PrioritizationAdjustments> = {},
   ): PrioritizationResult {
     const finalCriteria = { ...this.defaultCriteria, ...criteria };
 
     const prioritizedTasks = tasks.map((task) =>
-      this.calculateTaskScore(task, finalCriteria),
+      this.calculateTaskScore(task, finalCriteria, adjustments),
     );
 
     // Sort by score (highest first)
@@ -74,13 +94,26 @@ export class TaskPrioritizationService {
   private calculateTaskScore(
     task: Task,
     criteria: PrioritizationCriteria,
+    adjustments: Partial<PrioritizationAdjustments>,
   ): PrioritizedTask {
+    const caps = adjustments.factorCaps || {};
+    const cap = (factor: PrioritizationFactor, score: number) =>
+      Math.min(score, caps[factor] ?? score);
+
     const factors = {
-      dueDate: this.calculateDueDateScore(task),
-      priority: this.calculatePriorityScore(task),
-      status: this.calculateStatusScore(task),
-      dependencies: this.calculateDependencyScore(task),
-      estimatedDuration: this.calculateDurationScore(task),
+      dueDate: cap('dueDate', this.calculateDueDateScore(task)),
+      priority: cap('priority', this.calculatePriorityScore(task)),
+      status: cap('status', this.calculateStatusScore(task)),
+      dependencies: cap('dependencies', this.calculateDependencyScore(task)),
+      estimatedDuration: cap(
+        'estimatedDuration',
+        this.calculateDurationScore(task),
+      ),
+      tagBoost: this.calculateTagBoost(task, adjustments.tagBoosts || {}),
+      assigneeBoost: this.calculateAssigneeBoost(
+        task,
+        adjustments.assigneeBoosts || {},
+      ),
     };
 
     const score = Math.round(
@@ -88,19 +121,45 @@ export class TaskPrioritizationService {
         factors.priority * criteria.priorityWeight +
         factors.status * criteria.statusWeight +
         factors.dependencies * criteria.dependencyWeight +
-        factors.estimatedDuration * criteria.estimatedDurationWeight,
+        factors.estimatedDuration * criteria.estimatedDurationWeight +
+        factors.tagBoost +
+        factors.assigneeBoost,
     );
 
-    const recommendation = this.generateTaskRecommendation(score, factors);
+    let recommendation = this.generateTaskRecommendation(score, factors);
+    if (this.isOverEstimate(task)) {
+      recommendation += ` - over estimate (${task.actualDuration} of ${task.estimatedDuration} min tracked)`;
+    }
 
     return {
       task,
-      score: Math.min(score, 100), // Cap at 100
+      score: Math.max(Math.min(score, 100), 0), // Keep within 0-100
       recommendation,
       factors,
     };
   }
 
+  private calculateTagBoost(
+    task: Task,
+    tagBoosts: Record<string, number>,
+  ): number {
+    return task.tags.reduce(
+      (boost, tag) => boost + (tagBoosts[tag.toLowerCase()] || 0),
+      0,
+    );
+  }
+
+  private calculateAssigneeBoost(
+    task: Task,
+    assigneeBoosts: Record<string, number>,
+  ): number {
+    if (!task.assignee) {
+      return 0;
+    }
+
+    return assigneeBoosts[task.assignee.value.toLowerCase()] || 0;
+  }
+
   private calculateDueDateScore(task: Task): number {
     if (!task.dueDate) {
       return 20; // Base score for tasks without due date
@@ -231,6 +290,19 @@ export class TaskPrioritizationService {
       );
     }
 
+    const overrunTasks = prioritizedTasks.filter((t) =>
+      this.isOverEstimate(t.task),
+    );
+    if (overrunTasks.length > 0) {
+      const titles = overrunTasks
+        .slice(0, 3)
+        .map((t) => `"${t.task.title}"`)
+        .join(', ');
+      recommendations.push(
+        `${overrunTasks.length} task(s) have run over their estimate (${titles}${overrunTasks.length > 3 ? ', ...' : ''}) - re-plan or split them`,
+      );
+    }
+
     const inProgressTasks = prioritizedTasks.filter(
       (t) => t.task.status.value === 'in-progress',
     );
@@ -266,6 +338,15 @@ export class TaskPrioritizationService {
     return recommendations;
   }
 
+  // Open tasks whose tracked time already exceeds their estimate
+  private isOverEstimate(task: Task): boolean {
+    return (
+      task.status.isActive &&
+      !!task.estimatedDuration &&
+      task.actualDuration > task.estimatedDuration
+    );
+  }
+
   public suggestPriorityAdjustments(tasks: Task[]): Array<{
     task: Task;
     currentPriority: string;
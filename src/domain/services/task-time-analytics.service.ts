@@ -0,0 +1,183 @@
+/**
+ * Task Time Analytics Service - Domain Layer
+ * Business logic for comparing tracked time with task estimates
+ */
+
+import { Task, timeEntryMinutes } from '../entities/task.entity';
+
+export interface TimeBreakdown {
+  trackedMinutes: number;
+  estimatedMinutes: number; // summed over the tasks that have an estimate
+  tasks: number;
+}
+
+export interface EstimateAccuracy {
+  tasksCompared: number; // completed tasks with an estimate and tracked time
+  averageRatio: number; // tracked / estimated; above 1 means overruns
+  medianRatio: number;
+  withinTolerance: number; // percentage of tasks within the tolerance
+  overruns: number;
+  underruns: number;
+}
+
+export interface WeeklyTime {
+  weekStart: string; // Monday, YYYY-MM-DD
+  trackedMinutes: number;
+}
+
+export interface TimeTrackingAnalytics {
+  trackedMinutes: number;
+  runningTimers: number;
+  estimateAccuracy: EstimateAccuracy;
+  byTag: Record<string, TimeBreakdown>;
+  byAssignee: Record<string, TimeBreakdown>;
+  weekly: WeeklyTime[];
+}
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+// An actual within 25% of the estimate counts as accurate
+const ESTIMATE_TOLERANCE = 0.25;
+const DEFAULT_WEEKS = 12;
+const UNASSIGNED = 'unassigned';
+
+export class TaskTimeAnalyticsService {
+  /**
+   * Accuracy only looks at completed tasks, since open ones may still be
+   * far from done. Breakdowns and weekly totals include all tracked time;
+   * an entry counts towards the week it started in.
+   */
+  public analyze(
+    tasks: Task[],
+    now: Date = new Date(),
+    weeks: number = DEFAULT_WEEKS,
+  ): TimeTrackingAnalytics {
+    const byTag: Record<string, TimeBreakdown> = {};
+    const byAssignee: Record<string, TimeBreakdown> = {};
+    const ratios: number[] = [];
+    const currentWeek = this.weekStart(now);
+    const firstWeek = currentWeek - (weeks - 1) * 7 * DAY_IN_MS;
+    const weekly = new Map<number, number>();
+    for (let week = firstWeek; week <= currentWeek; week += 7 * DAY_IN_MS) {
+      weekly.set(week, 0);
+    }
+
+    let trackedMinutes = 0;
+    let runningTimers = 0;
+    for (const task of tasks) {
+      let tracked = 0;
+      for (const entry of task.timeEntries) {
+        const minutes = timeEntryMinutes(entry, now);
+        tracked += minutes;
+        const week = this.weekStart(entry.startedAt);
+        if (weekly.has(week)) {
+          weekly.set(week, weekly.get(week)! + minutes);
+        }
+        if (!entry.endedAt) {
+          runningTimers++;
+        }
+      }
+      if (tracked === 0) {
+        continue;
+      }
+      trackedMinutes += tracked;
+
+      for (const tag of task.tags) {
+        this.addTo(byTag, tag.toLowerCase(), task, tracked);
+      }
+      this.addTo(byAssignee, task.assignee?.value ?? UNASSIGNED, task, tracked);
+
+      if (task.isCompleted && task.estimatedDuration) {
+        ratios.push(tracked / task.estimatedDuration);
+      }
+    }
+
+    return {
+      trackedMinutes: Math.round(trackedMinutes),
+      runningTimers,
+      estimateAccuracy: this.accuracy(ratios),
+      byTag: this.rounded(byTag),
+      byAssignee: this.rounded(byAssignee),
+      weekly: [...weekly].map(([week, minutes]) => ({
+        weekStart: new Date(week).toISOString().split('T')[0],
+        trackedMinutes: Math.round(minutes),
+      })),
+    };
+  }
+
+  private accuracy(ratios: number[]): EstimateAccuracy {
+    if (ratios.length === 0) {
+      return {
+        tasksCompared: 0,
+        averageRatio: 0,
+        medianRatio: 0,
+        withinTolerance: 0,
+        overruns: 0,
+        underruns: 0,
+      };
+    }
+
+    const sorted = [...ratios].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    const median =
+      sorted.length % 2 === 0
+        ? (sorted[middle - 1] + sorted[middle]) / 2
+        : sorted[middle];
+    const overruns = ratios.filter((r) => r > 1 + ESTIMATE_TOLERANCE).length;
+    const underruns = ratios.filter((r) => r < 1 - ESTIMATE_TOLERANCE).length;
+
+    return {
+      tasksCompared: ratios.length,
+      averageRatio: this.round2(
+        ratios.reduce((sum, r) => sum + r, 0) / ratios.length,
+      ),
+      medianRatio: this.round2(median),
+      withinTolerance: Math.round(
+        ((ratios.length - overruns - underruns) / ratios.length) * 100,
+      ),
+      overruns,
+      underruns,
+    };
+  }
+
+  private addTo(
+    breakdown: Record<string, TimeBreakdown>,
+    key: string,
+    task: Task,
+    tracked: number,
+  ): void {
+    const entry = breakdown[key] ?? {
+      trackedMinutes: 0,
+      estimatedMinutes: 0,
+      tasks: 0,
+    };
+    entry.trackedMinutes += tracked;
+    entry.estimatedMinutes += task.estimatedDuration ?? 0;
+    entry.tasks++;
+    breakdown[key] = entry;
+  }
+
+  private rounded(
+    breakdown: Record<string, TimeBreakdown>,
+  ): Record<string, TimeBreakdown> {
+    return Object.fromEntries(
+      Object.entries(breakdown).map(([key, entry]) => [
+        key,
+        { ...entry, trackedMinutes: Math.round(entry.trackedMinutes) },
+      ]),
+    );
+  }
+
+  // Start of the UTC week (Monday) containing the date, in milliseconds
+  private weekStart(date: Date): number {
+    const day = Date.UTC(
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate(),
+    );
+    return day - ((date.getUTCDay() + 6) % 7) * DAY_IN_MS;
+  }
+
+  private round2(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Domain Event Dispatcher Tests - Infrastructure Layer
+ * Verifies that repository saves publish aggregate events
+ */
+
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DomainEventDispatcher } from '../domain-event-dispatcher';
+import { InMemoryTaskRepository } from '../../persistence/in-memory/task.repository.impl';
+import { Task } from '../../../domain/entities/task.entity';
+import { DomainEvent } from '../../../domain/common/domain-events';
+
+describe('DomainEventDispatcher', () => {
+  let eventEmitter: EventEmitter2;
+  let repository: InMemoryTaskRepository;
+  let published: DomainEvent[];
+
+  beforeEach(() => {
+    eventEmitter = new EventEmitter2();
+    repository = new InMemoryTaskRepository(
+      new DomainEventDispatcher(eventEmitter),
+    );
+    published = [];
+
+    ['TaskCreated', 'TaskUpdated', 'TaskCompleted'].forEach((eventType) =>
+      eventEmitter.on(eventType, (event: DomainEvent) => published.push(event)),
+    );
+  });
+
+  it('should publish uncommitted events when a task is saved', async () => {
+    const task = Task.create({ title: 'Prepare board deck' });
+
+    await repository.save(task);
+
+    expect(published.map((e) => e.eventType)).toEqual(['TaskCreated']);
+    expect(published[0].aggregateId).toBe(task.id);
+    expect(task.domainEvents).toHaveLength(0);
+  });
+
+  it('should publish events in the order they were raised', async () => {
+    const task = Task.create({ title: 'Prepare board deck' });
+    await repository.save(task);
+    published = [];
+
+    task.updateTitle('Prepare Q3 board deck');
+    task.markAsCompleted();
+    await repository.save(task);
+
+    expect(published.map((e) => e.eventType)).toEqual([
+      'TaskUpdated',
+      'TaskCompleted',
+    ]);
+  });
+
+  it('should not publish the same events twice', async () => {
+    const task = Task.create({ title: 'Prepare board deck' });
+
+    await repository.save(task);
+    await repository.save(task);
+
+    expect(published).toHaveLength(1);
+  });
+
+  it('should keep dispatching when a subscriber fails', async () => {
+    eventEmitter.on('TaskCreated', () => {
+      throw new Error('subscriber failure');
+    });
+    const task = Task.create({ title: 'Prepare board deck' });
+
+    await expect(repository.save(task)).resolves.toBeUndefined();
+    expect(await repository.findById(task.id)).toBe(task);
+  });
+});
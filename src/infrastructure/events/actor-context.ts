@@ -0,0 +1,40 @@
+/**
+ * Actor Context - Infrastructure Layer
+ * Tracks who triggered the work in progress so stored events can name them
+ */
+
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { AsyncLocalStorage } from 'async_hooks';
+import { NextFunction, Request, Response } from 'express';
+
+// Work started outside a request, such as cron jobs
+export const SYSTEM_ACTOR = 'system';
+export const ANONYMOUS_ACTOR = 'anonymous';
+
+const MAX_ACTOR_LENGTH = 200;
+
+const storage = new AsyncLocalStorage<{ actor: string }>();
+
+export function runAsActor<T>(actor: string, work: () => T): T {
+  return storage.run({ actor }, work);
+}
+
+export function currentActor(): string {
+  return storage.getStore()?.actor ?? SYSTEM_ACTOR;
+}
+
+/**
+ * Runs each request as the caller named in the `X-Actor` header, e.g. an
+ * email address. Requests without one are recorded as anonymous.
+ */
+@Injectable()
+export class ActorContextMiddleware implements NestMiddleware {
+  use(request: Request, _response: Response, next: NextFunction): void {
+    const header = request.headers['x-actor'];
+    const actor = (Array.isArray(header) ? header[0] : header)
+      ?.trim()
+      .slice(0, MAX_ACTOR_LENGTH);
+
+    runAsActor(actor || ANONYMOUS_ACTOR, next);
+  }
+}
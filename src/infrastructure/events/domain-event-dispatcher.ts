@@ -0,0 +1,42 @@
+/**
+ * Domain Event Dispatcher - Infrastructure Layer
+ * Publishes committed aggregate events through the application event bus
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { AggregateRoot } from '../../domain/common/aggregate-root';
+import { DomainEvent } from '../../domain/common/domain-events';
+
+@Injectable()
+export class DomainEventDispatcher {
+  private readonly logger = new Logger(DomainEventDispatcher.name);
+
+  constructor(private readonly eventEmitter: EventEmitter2) {}
+
+  /**
+   * Drains the aggregate's pending events and publishes them in the order
+   * they were raised. Events are emitted under their `eventType`, so
+   * subscribers listen with e.g. `@OnEvent('TaskCompleted')`.
+   */
+  async dispatchEventsForAggregate(aggregate: AggregateRoot): Promise<void> {
+    const events = aggregate.domainEvents;
+    aggregate.markEventsAsCommitted();
+
+    await this.dispatch(events);
+  }
+
+  async dispatch(events: readonly DomainEvent[]): Promise<void> {
+    for (const event of events) {
+      try {
+        await this.eventEmitter.emitAsync(event.eventType, event);
+      } catch (error) {
+        // A failing subscriber must not roll back an already persisted aggregate
+        this.logger.error(
+          `Failed to dispatch ${event.eventType} for ${event.aggregateId}`,
+          error.stack,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Event Store Subscriber - Infrastructure Layer
+ * Appends every published domain event to the event store
+ */
+
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import type { DomainEvent } from '../../domain/common/domain-events';
+import type { EventStore } from '../../domain/repositories/event-store.repository';
+import { currentActor } from './actor-context';
+
+@Injectable()
+export class EventStoreSubscriber {
+  private readonly logger = new Logger(EventStoreSubscriber.name);
+
+  constructor(@Inject('EventStore') private readonly eventStore: EventStore) {}
+
+  @OnEvent('**')
+  async handleDomainEvent(event: DomainEvent): Promise<void> {
+    if (!event?.eventId || !event.aggregateId) {
+      return; // Not a domain event
+    }
+
+    try {
+      // Listeners run inside the emitting request, so this is its caller
+      await this.eventStore.append(event, { actor: currentActor() });
+    } catch (error) {
+      this.logger.error(
+        `Failed to store ${event.eventType} for ${event.aggregateId}`,
+        error.stack,
+      );
+    }
+  }
+}
@@ -0,0 +1,372 @@
+/**
+ * Calendar Provider Tests - Infrastructure Layer
+ * Verifies the .ics file and CalDAV calendars read, expand and write events
+ */
+
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { IcsFileCalendarProvider } from '../ics-file-calendar.provider';
+import { CalDavCalendarProvider } from '../caldav-calendar.provider';
+
+const CALENDAR = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Fastmail//Calendar//EN',
+  'X-WR-CALNAME:Work',
+  'BEGIN:VEVENT',
+  'UID:standup',
+  'DTSTAMP:20261001T000000Z',
+  'DTSTART;TZID=America/New_York:20261019T090000',
+  'DTEND;TZID=America/New_York:20261019T093000',
+  'RRULE:FREQ=WEEKLY;BYDAY=MO;WKST=MO',
+  'EXDATE;TZID=America/New_York:20261026T090000',
+  'SUMMARY:Leadership standup',
+  'ATTENDEE;CN=Sam Lee;PARTSTAT=ACCEPTED:mailto:sam@example.com',
+  'BEGIN:VALARM',
+  'ACTION:DISPLAY',
+  'TRIGGER:-PT10M',
+  'END:VALARM',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:standup',
+  'RECURRENCE-ID;TZID=America/New_York:20261102T090000',
+  'DTSTAMP:20261001T000000Z',
+  'DTSTART;TZID=America/New_York:20261102T100000',
+  'DTEND;TZID=America/New_York:20261102T103000',
+  'SUMMARY:Leadership standup (moved)',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:holiday',
+  'DTSTAMP:20261001T000000Z',
+  'DTSTART;VALUE=DATE:20261102',
+  'SUMMARY:Company offsite',
+  'TRANSP:TRANSPARENT',
+  'END:VEVENT',
+  'END:VCALENDAR',
+  '',
+].join('\r\n');
+
+/**
+ * Minimal CalDAV server in the style of Radicale: one collection, each
+ * event a resource. Reports return every resource, or those whose data
+ * contains the queried UID, leaving time ranges to the client.
+ */
+function startCalDavStandIn(): Promise<{
+  url: string;
+  resources: Map<string, { etag: string; body: string }>;
+  requests: Array<{ method: string; url: string; authorization?: string }>;
+  close: () => Promise<void>;
+}> {
+  const resources = new Map<string, { etag: string; body: string }>();
+  const requests: Array<{
+    method: string;
+    url: string;
+    authorization?: string;
+  }> = [];
+  let version = 0;
+
+  const server = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => {
+      const url = request.url!;
+      const resource = resources.get(url);
+      requests.push({
+        method: request.method!,
+        url,
+        authorization: request.headers.authorization,
+      });
+
+      if (request.method === 'REPORT') {
+        const uid = body.match(/<C:text-match[^>]*>([^<]*)</)?.[1];
+        const matches = Array.from(resources).filter(
+          ([, stored]) => !uid || stored.body.includes(`UID:${uid}`),
+        );
+        response.writeHead(207, { 'Content-Type': 'application/xml' });
+        response.end(
+          '<?xml version="1.0"?><multistatus xmlns="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">' +
+            matches
+              .map(
+                ([href, stored]) =>
+                  `<response><href>${href}</href><propstat><prop>` +
+                  `<getetag>${stored.etag.replace(/"/g, '&quot;')}</getetag>` +
+                  `<C:calendar-data>${stored.body.replace(/&/g, '&amp;').replace(/</g, '&lt;')}</C:calendar-data>` +
+                  '</prop><status>HTTP/1.1 200 OK</status></propstat></response>',
+              )
+              .join('') +
+            '</multistatus>',
+        );
+      } else if (request.method === 'PUT') {
+        const ifMatch = request.headers['if-match'];
+        if (
+          (request.headers['if-none-match'] === '*' && resource) ||
+          (ifMatch && resource?.etag !== ifMatch)
+        ) {
+          response.writeHead(412).end();
+          return;
+        }
+        resources.set(url, { etag: `"v${++version}"`, body });
+        response.writeHead(resource ? 204 : 201).end();
+      } else if (request.method === 'DELETE') {
+        response.writeHead(resources.delete(url) ? 204 : 404).end();
+      } else {
+        response.writeHead(405).end();
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}/dav/calendars/exec/work`,
+        resources,
+        requests,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+describe('Calendar providers', () => {
+  describe('IcsFileCalendarProvider', () => {
+    let directory: string;
+    let filePath: string;
+    let provider: IcsFileCalendarProvider;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'calendar-'));
+      filePath = path.join(directory, 'calendar.ics');
+      await fs.writeFile(filePath, CALENDAR);
+      provider = new IcsFileCalendarProvider(
+        new ConfigService({ calendar: { icsPath: filePath } }),
+      );
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should expand series in their time zone with exceptions and overrides', async () => {
+      const [first] = await provider.getEvents('2026-10-19');
+      expect(first).toMatchObject({
+        id: 'standup_20261019T130000Z',
+        recurringEventId: 'standup',
+        summary: 'Leadership standup',
+        start: { dateTime: '2026-10-19T13:00:00.000Z' },
+        end: { dateTime: '2026-10-19T13:30:00.000Z' },
+        attendees: [
+          {
+            email: 'sam@example.com',
+            displayName: 'Sam Lee',
+            responseStatus: 'accepted',
+          },
+        ],
+      });
+
+      // Excluded by EXDATE
+      expect(await provider.getEvents('2026-10-26')).toEqual([]);
+
+      // Overridden, after the switch from daylight saving time
+      const moved = await provider.getEvents('2026-11-02');
+      expect(moved.map((event) => [event.id, event.summary])).toEqual([
+        ['holiday', 'Company offsite'],
+        ['standup_20261102T140000Z', 'Leadership standup (moved)'],
+      ]);
+      const [later] = await provider.getEvents('2026-11-09');
+      expect(later.start.dateTime).toBe('2026-11-09T14:00:00.000Z');
+
+      // The transparent all-day event leaves the day free
+      const availability = await provider.checkAvailability('2026-11-02', 60, {
+        start: '13:00',
+        end: '16:00',
+      });
+      expect(availability.busySlots).toEqual([
+        {
+          start: '2026-11-02T15:00:00.000Z',
+          end: '2026-11-02T15:30:00.000Z',
+          duration: 30,
+        },
+      ]);
+      expect(availability.availableSlots.map((slot) => slot.start)).toEqual([
+        '2026-11-02T13:00:00.000Z',
+        '2026-11-02T13:30:00.000Z',
+        '2026-11-02T14:00:00.000Z',
+      ]);
+    });
+
+    it('should place working hours in the configured time zone', async () => {
+      provider = new IcsFileCalendarProvider(
+        new ConfigService({
+          application: { timezone: 'America/New_York' },
+          calendar: { icsPath: filePath },
+        }),
+      );
+
+      const availability = await provider.checkAvailability('2026-10-19', 60);
+      const starts = availability.availableSlots.map((slot) => slot.start);
+      // 09:00 to 17:00 in New York, with the 09:00 standup taken
+      expect(starts[0]).toBe('2026-10-19T13:30:00.000Z');
+      expect(starts[starts.length - 1]).toBe('2026-10-19T20:00:00.000Z');
+
+      // 09:00 is an hour later in UTC after the switch from daylight saving
+      const [slot] = await provider.findMeetingSlots(
+        '2026-11-02',
+        '2026-11-02',
+        30,
+      );
+      expect(slot.start).toBe('2026-11-02T14:00:00.000Z');
+    });
+
+    it('should create, update and delete events in the file', async () => {
+      const created = await provider.createEvent({
+        summary: 'Board prep, Q4',
+        start: { dateTime: '2026-10-20T15:00:00-04:00' },
+        end: { dateTime: '2026-10-20T16:00:00-04:00' },
+        attendees: [{ email: 'cfo@example.com' }],
+      });
+      expect(created.start.dateTime).toBe('2026-10-20T19:00:00.000Z');
+
+      const updated = await provider.updateEvent(created.id!, {
+        location: 'Boardroom',
+      });
+      expect(updated).toMatchObject({
+        summary: 'Board prep, Q4',
+        location: 'Boardroom',
+        attendees: [
+          { email: 'cfo@example.com', responseStatus: 'needsAction' },
+        ],
+      });
+
+      const content = await fs.readFile(filePath, 'utf8');
+      expect(content).toContain('SUMMARY:Board prep\\, Q4');
+      expect(content).toContain('SEQUENCE:1');
+      // Calendar properties and unknown components survive the rewrite
+      expect(content).toContain('X-WR-CALNAME:Work');
+      expect(content).toContain('TRIGGER:-PT10M');
+
+      await expect(
+        provider.updateEvent('standup_20261019T130000Z', { summary: 'x' }),
+      ).rejects.toThrow(
+        'Calendar event standup_20261019T130000Z is one occurrence of a series; change the series standup instead',
+      );
+      await expect(
+        provider.updateEvent(created.id!, {
+          end: { dateTime: '2026-10-20T18:00:00Z' },
+        }),
+      ).rejects.toThrow('Invalid calendar event: end must not be before start');
+
+      await provider.deleteEvent('standup');
+      await provider.deleteEvent(created.id!);
+      expect(await provider.getEvents('2026-10-20')).toEqual([]);
+      expect(await provider.getEvents('2026-11-02')).toHaveLength(1);
+      await expect(provider.deleteEvent('standup')).rejects.toThrow(
+        'Calendar event not found: standup',
+      );
+    });
+  });
+
+  describe('CalDavCalendarProvider', () => {
+    let server: Awaited<ReturnType<typeof startCalDavStandIn>>;
+    let provider: CalDavCalendarProvider;
+
+    beforeEach(async () => {
+      server = await startCalDavStandIn();
+      provider = new CalDavCalendarProvider(
+        new ConfigService({
+          calendar: {
+            caldavUrl: server.url,
+            caldavUsername: 'exec',
+            caldavPassword: 'secret',
+          },
+        }),
+      );
+    });
+
+    afterEach(async () => {
+      jest.restoreAllMocks();
+      await server.close();
+    });
+
+    it('should store events as resources and read them back', async () => {
+      server.resources.set('/dav/calendars/exec/work/standup.ics', {
+        etag: '"v0"',
+        body: CALENDAR,
+      });
+
+      const created = await provider.createEvent({
+        summary: 'Investor call',
+        start: { dateTime: '2026-10-20T14:00:00Z' },
+        end: { dateTime: '2026-10-20T15:00:00Z' },
+      });
+      expect(
+        server.resources.has(`/dav/calendars/exec/work/${created.id}.ics`),
+      ).toBe(true);
+
+      const events = await provider.getEvents('2026-10-20');
+      expect(events.map((event) => event.summary)).toEqual(['Investor call']);
+
+      const updated = await provider.updateEvent(created.id!, {
+        start: { dateTime: '2026-10-20T16:00:00Z' },
+        end: { dateTime: '2026-10-20T17:00:00Z' },
+      });
+      expect(updated.start.dateTime).toBe('2026-10-20T16:00:00.000Z');
+      const put = server.requests.filter(({ method }) => method === 'PUT');
+      expect(put).toHaveLength(2);
+      expect(server.requests[0].authorization).toBe(
+        `Basic ${Buffer.from('exec:secret').toString('base64')}`,
+      );
+
+      const slots = await provider.findMeetingSlots(
+        '2026-10-19',
+        '2026-10-20',
+        60,
+        ['cfo@example.com'],
+      );
+      expect(slots[0]).toEqual({
+        start: '2026-10-19T09:00:00.000Z',
+        end: '2026-10-19T10:00:00.000Z',
+        attendeeAvailability: { 'cfo@example.com': true },
+      });
+      // 13:00 UTC is the standup on Monday
+      expect(slots.map((slot) => slot.start)).not.toContain(
+        '2026-10-19T13:00:00.000Z',
+      );
+
+      await provider.deleteEvent(created.id!);
+      expect(await provider.getEvents('2026-10-20')).toEqual([]);
+      await expect(provider.deleteEvent(created.id!)).rejects.toThrow(
+        `Calendar event not found: ${created.id}`,
+      );
+    });
+
+    it('should refuse to overwrite an event changed on the server', async () => {
+      const created = await provider.createEvent({
+        summary: 'Budget review',
+        start: { date: '2026-10-21' },
+        end: { date: '2026-10-22' },
+      });
+
+      // Another client edits the event after it was read
+      const href = `/dav/calendars/exec/work/${created.id}.ics`;
+      const fetchResource = global.fetch;
+      jest.spyOn(global, 'fetch').mockImplementation(async (url, init) => {
+        const response = await fetchResource(url, init);
+        if (init?.method === 'REPORT') {
+          server.resources.get(href)!.etag = '"edited"';
+        }
+        return response;
+      });
+
+      await expect(
+        provider.updateEvent(created.id!, { summary: 'Budget review v2' }),
+      ).rejects.toThrow(
+        'Calendar event was changed on the server meanwhile; try again',
+      );
+    });
+  });
+});
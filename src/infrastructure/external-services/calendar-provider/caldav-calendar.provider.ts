@@ -0,0 +1,332 @@
+/**
+ * CalDAV Calendar Provider - Infrastructure Layer
+ * Integration with any CalDAV server (RFC 4791), e.g. Fastmail or Radicale
+ */
+
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { toIcsDateTime } from '../../serialization/icalendar';
+import {
+  AvailabilityResponse,
+  CalendarEvent,
+  CalendarProvider,
+  MeetingSlot,
+} from './calendar-provider.interface';
+import {
+  DEFAULT_WORKING_HOURS,
+  computeAvailability,
+  computeMeetingSlots,
+  dayRange,
+} from './calendar-availability';
+import {
+  ICalendar,
+  createVEvent,
+  emptyICalendar,
+  expandVEvents,
+  parseICalendar,
+  serializeICalendar,
+  splitEventId,
+  toCalendarEvent,
+  updateVEvent,
+} from './ical-events';
+import { zonedDate } from '../../../domain/common/time-zone';
+
+interface CalendarResource {
+  url: string;
+  etag?: string;
+  calendar: ICalendar;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Talks to one calendar collection. Every event is stored as its own
+ * resource; new ones are named after their UID.
+ */
+export class CalDavCalendarProvider implements CalendarProvider {
+  readonly name = 'caldav';
+  private readonly logger = new Logger(CalDavCalendarProvider.name);
+  private readonly calendarUrl: string;
+  private readonly username: string;
+  private readonly authorization?: string;
+  private readonly timeZone: string;
+
+  constructor(private readonly config: ConfigService) {
+    this.timeZone = this.config.get('application.timezone', 'UTC');
+    const url: string = this.config.get('calendar.caldavUrl', '');
+    if (!url) {
+      throw new Error('CALDAV_URL is required for the CalDAV calendar');
+    }
+    this.calendarUrl = url.endsWith('/') ? url : `${url}/`;
+
+    this.username = this.config.get('calendar.caldavUsername', '');
+    if (this.username) {
+      const password = this.config.get('calendar.caldavPassword', '');
+      this.authorization = `Basic ${Buffer.from(`${this.username}:${password}`).toString('base64')}`;
+    }
+
+    this.logger.log(`Using the CalDAV calendar at ${this.calendarUrl}`);
+  }
+
+  async getEvents(date?: string): Promise<CalendarEvent[]> {
+    const { from, to } = dayRange(
+      date || zonedDate(new Date(), this.timeZone),
+      this.timeZone,
+    );
+    return this.getEventsBetween(from, to);
+  }
+
+  async createEvent(event: CalendarEvent): Promise<CalendarEvent> {
+    const vevent = createVEvent(randomUUID(), event);
+    await this.request('PUT', `${this.calendarUrl}${vevent.uid}.ics`, {
+      body: serializeICalendar({ ...emptyICalendar(), events: [vevent] }),
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'If-None-Match': '*',
+      },
+    });
+
+    this.logger.log(`Calendar event created: ${vevent.uid}`);
+    return toCalendarEvent(vevent);
+  }
+
+  async updateEvent(
+    eventId: string,
+    event: Partial<CalendarEvent>,
+  ): Promise<CalendarEvent> {
+    const resource = await this.findResource(eventId);
+    const events = resource.calendar.events;
+    const index = events.findIndex(
+      (vevent) => vevent.uid === eventId && vevent.recurrenceId === undefined,
+    );
+    events[index] = updateVEvent(events[index], event);
+
+    await this.request('PUT', resource.url, {
+      body: serializeICalendar(resource.calendar),
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        ...(resource.etag ? { 'If-Match': resource.etag } : {}),
+      },
+    });
+
+    return toCalendarEvent(events[index]);
+  }
+
+  async deleteEvent(eventId: string): Promise<void> {
+    const resource = await this.findResource(eventId);
+    await this.request('DELETE', resource.url, {
+      headers: resource.etag ? { 'If-Match': resource.etag } : {},
+    });
+  }
+
+  async checkAvailability(
+    date: string,
+    duration: number = 60,
+    workingHours: { start: string; end: string } = DEFAULT_WORKING_HOURS,
+  ): Promise<AvailabilityResponse> {
+    return computeAvailability(
+      date,
+      await this.getEvents(date),
+      duration,
+      workingHours,
+      this.timeZone,
+    );
+  }
+
+  async findMeetingSlots(
+    startDate: string,
+    endDate: string,
+    duration: number,
+    attendees: string[] = [],
+  ): Promise<MeetingSlot[]> {
+    const events = await this.getEventsBetween(
+      dayRange(startDate, this.timeZone).from,
+      dayRange(endDate, this.timeZone).to,
+    );
+    return computeMeetingSlots(
+      startDate,
+      endDate,
+      events,
+      duration,
+      attendees,
+      this.timeZone,
+    );
+  }
+
+  getStatus(): Record<string, any> {
+    return {
+      configured: true,
+      provider: this.name,
+      calendarUrl: this.calendarUrl,
+      username: this.username || undefined,
+      features: ['events', 'availability', 'scheduling', 'recurrence'],
+      lastCheck: new Date().toISOString(),
+    };
+  }
+
+  private async getEventsBetween(
+    from: Date,
+    to: Date,
+  ): Promise<CalendarEvent[]> {
+    const resources = await this.query(
+      `<C:time-range start="${toIcsDateTime(from)}" end="${toIcsDateTime(to)}"/>`,
+    );
+    return expandVEvents(
+      resources.flatMap((resource) => resource.calendar.events),
+      from,
+      to,
+    );
+  }
+
+  private async findResource(eventId: string): Promise<CalendarResource> {
+    const { uid, occurrence } = splitEventId(eventId);
+
+    // text-match finds the UID anywhere in the value, so compare exactly
+    for (const candidate of occurrence ? [eventId, uid] : [eventId]) {
+      const resource = (
+        await this.query(
+          `<C:prop-filter name="UID"><C:text-match collation="i;octet">${this.escapeXml(candidate)}</C:text-match></C:prop-filter>`,
+        )
+      ).find((found) =>
+        found.calendar.events.some((vevent) => vevent.uid === candidate),
+      );
+
+      if (resource && candidate !== eventId) {
+        throw new Error(
+          `Calendar event ${eventId} is one occurrence of a series; change the series ${uid} instead`,
+        );
+      }
+      if (resource) {
+        return resource;
+      }
+    }
+
+    throw new Error(`Calendar event not found: ${eventId}`);
+  }
+
+  private async query(filter: string): Promise<CalendarResource[]> {
+    const response = await this.request('REPORT', this.calendarUrl, {
+      body: [
+        '<?xml version="1.0" encoding="utf-8"?>',
+        '<C:calendar-query xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">',
+        '<D:prop><D:getetag/><C:calendar-data/></D:prop>',
+        '<C:filter><C:comp-filter name="VCALENDAR"><C:comp-filter name="VEVENT">',
+        filter,
+        '</C:comp-filter></C:comp-filter></C:filter>',
+        '</C:calendar-query>',
+      ].join(''),
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        Depth: '1',
+      },
+    });
+
+    return this.readMultistatus(await response.text()).map((resource) => ({
+      url: new URL(resource.href, this.calendarUrl).toString(),
+      etag: resource.etag,
+      calendar: parseICalendar(resource.calendarData),
+    }));
+  }
+
+  private async request(
+    method: string,
+    url: string,
+    options: { body?: string; headers?: Record<string, string> } = {},
+  ): Promise<Response> {
+    const response = await fetch(url, {
+      method,
+      body: options.body,
+      headers: {
+        ...options.headers,
+        ...(this.authorization ? { Authorization: this.authorization } : {}),
+      },
+    });
+
+    if (response.status === 412) {
+      throw new Error(
+        'Calendar event was changed on the server meanwhile; try again',
+      );
+    }
+    if (!response.ok) {
+      this.logger.error(
+        `CalDAV ${method} ${url} failed: ${response.status} ${await response.text()}`,
+      );
+      throw new Error(`CalDAV ${method} failed: ${response.status}`);
+    }
+    return response;
+  }
+
+  /**
+   * Reads the calendar objects of a 207 Multi-Status response. Responses
+   * without calendar data, such as the collection itself, are skipped.
+   */
+  private readMultistatus(
+    xml: string,
+  ): Array<{ href: string; etag?: string; calendarData: string }> {
+    const resources: Array<{
+      href: string;
+      etag?: string;
+      calendarData: string;
+    }> = [];
+
+    for (const [, response] of xml.matchAll(
+      /<(?:[\w-]+:)?response\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?response>/g,
+    )) {
+      const href = this.readElement(response, 'href');
+      const calendarData = this.readElement(response, 'calendar-data');
+      if (href && calendarData?.trim()) {
+        resources.push({
+          href: href.trim(),
+          etag: this.readElement(response, 'getetag')?.trim() || undefined,
+          calendarData,
+        });
+      }
+    }
+
+    return resources;
+  }
+
+  private readElement(xml: string, name: string): string | undefined {
+    const match = xml.match(
+      new RegExp(
+        `<(?:[\\w-]+:)?${name}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`,
+      ),
+    );
+    if (!match) {
+      return undefined;
+    }
+
+    const cdata = match[1].match(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/);
+    if (cdata) {
+      return cdata[1];
+    }
+    return match[1].replace(
+      /&(#x[\da-f]+|#\d+|\w+);/gi,
+      (entity, code: string) => {
+        if (code[0] === '#') {
+          return String.fromCodePoint(
+            code[1].toLowerCase() === 'x'
+              ? parseInt(code.slice(2), 16)
+              : parseInt(code.slice(1), 10),
+          );
+        }
+        return XML_ENTITIES[code] ?? entity;
+      },
+    );
+  }
+
+  private escapeXml(value: string): string {
+    return value.replace(
+      /[<>&"']/g,
+      (char) =>
+        `&${Object.keys(XML_ENTITIES).find((name) => XML_ENTITIES[name] === char)};`,
+    );
+  }
+}
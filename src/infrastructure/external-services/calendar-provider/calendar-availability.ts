@@ -0,0 +1,150 @@
+/**
+ * Calendar Availability - Infrastructure Layer
+ * Free and busy time worked out from a calendar's own events, for providers
+ * without a free/busy service
+ */
+
+import {
+  AvailabilityResponse,
+  AvailabilitySlot,
+  CalendarEvent,
+  MeetingSlot,
+} from './calendar-provider.interface';
+import { zonedDateTime, zonedDayRange } from '../../../domain/common/time-zone';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+const MINUTE_IN_MS = 60 * 1000;
+const SLOT_STEP_MINUTES = 30;
+const MAX_MEETING_SLOTS = 10;
+
+export const DEFAULT_WORKING_HOURS = { start: '09:00', end: '17:00' };
+
+export function dayRange(
+  date: string,
+  timeZone: string = 'UTC',
+): { from: Date; to: Date } {
+  return zonedDayRange(date, timeZone);
+}
+
+/**
+ * Busy periods of the opaque events, in start order. All-day events block
+ * the whole day unless they are marked transparent.
+ */
+export function busySlots(events: CalendarEvent[]): AvailabilitySlot[] {
+  return events
+    .filter((event) => event.transparency !== 'transparent')
+    .map((event) => {
+      const start = new Date(event.start.dateTime || event.start.date!);
+      const end = new Date(event.end.dateTime || event.end.date!);
+      return {
+        start: start.toISOString(),
+        end: end.toISOString(),
+        duration: Math.round((end.getTime() - start.getTime()) / MINUTE_IN_MS),
+      };
+    })
+    .sort((a, b) => a.start.localeCompare(b.start));
+}
+
+/**
+ * Slots of `duration` minutes within the working hours of a day, every 30
+ * minutes, that do not overlap a busy period. Working hours are wall clock
+ * times in `timeZone`.
+ */
+export function computeAvailability(
+  date: string,
+  events: CalendarEvent[],
+  duration: number,
+  workingHours: { start: string; end: string },
+  timeZone: string = 'UTC',
+): AvailabilityResponse {
+  const busy = busySlots(events);
+  return {
+    date,
+    availableSlots: freeSlots(date, busy, duration, workingHours, timeZone),
+    busySlots: busy,
+    workingHours,
+  };
+}
+
+/**
+ * The first free slots on weekdays between the two dates. Other people's
+ * calendars are not visible to these providers, so attendees are taken to
+ * be available.
+ */
+export function computeMeetingSlots(
+  startDate: string,
+  endDate: string,
+  events: CalendarEvent[],
+  duration: number,
+  attendees: string[],
+  timeZone: string = 'UTC',
+): MeetingSlot[] {
+  const busy = busySlots(events);
+  const slots: MeetingSlot[] = [];
+  const last = dayRange(endDate).from.getTime();
+
+  for (
+    let day = dayRange(startDate).from.getTime();
+    day <= last && slots.length < MAX_MEETING_SLOTS;
+    day += DAY_IN_MS
+  ) {
+    const weekday = new Date(day).getUTCDay();
+    if (weekday === 0 || weekday === 6) {
+      continue;
+    }
+
+    const date = new Date(day).toISOString().split('T')[0];
+    for (const slot of freeSlots(
+      date,
+      busy,
+      duration,
+      DEFAULT_WORKING_HOURS,
+      timeZone,
+    )) {
+      slots.push({
+        start: slot.start,
+        end: slot.end,
+        attendeeAvailability: Object.fromEntries(
+          attendees.map((email) => [email, true]),
+        ),
+      });
+    }
+  }
+
+  return slots.slice(0, MAX_MEETING_SLOTS);
+}
+
+function freeSlots(
+  date: string,
+  busy: AvailabilitySlot[],
+  duration: number,
+  workingHours: { start: string; end: string },
+  timeZone: string,
+): AvailabilitySlot[] {
+  const day = date.split('T')[0];
+  const workStart = zonedDateTime(day, workingHours.start, timeZone).getTime();
+  const workEnd = zonedDateTime(day, workingHours.end, timeZone).getTime();
+  const slots: AvailabilitySlot[] = [];
+
+  for (
+    let start = workStart;
+    start + duration * MINUTE_IN_MS <= workEnd;
+    start += SLOT_STEP_MINUTES * MINUTE_IN_MS
+  ) {
+    const end = start + duration * MINUTE_IN_MS;
+    const conflict = busy.some(
+      (period) =>
+        start < new Date(period.end).getTime() &&
+        end > new Date(period.start).getTime(),
+    );
+    if (!conflict) {
+      slots.push({
+        start: new Date(start).toISOString(),
+        end: new Date(end).toISOString(),
+        duration,
+      });
+    }
+  }
+
+  return slots;
+}
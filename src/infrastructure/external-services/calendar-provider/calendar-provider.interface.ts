@@ -0,0 +1,89 @@
+/**
+ * Calendar Provider Interface - Infrastructure Layer
+ * Contract shared by every backend that can hold the executive's calendar
+ */
+
+export interface CalendarEvent {
+  id?: string;
+  summary: string;
+  description?: string;
+  start: {
+    dateTime?: string;
+    date?: string;
+    timeZone?: string;
+  };
+  end: {
+    dateTime?: string;
+    date?: string;
+    timeZone?: string;
+  };
+  attendees?: Array<{
+    email: string;
+    displayName?: string;
+    responseStatus?: 'needsAction' | 'declined' | 'tentative' | 'accepted';
+  }>;
+  location?: string;
+  conferenceData?: {
+    createRequest?: {
+      requestId: string;
+      conferenceSolutionKey: {
+        type: 'hangoutsMeet';
+      };
+    };
+  };
+  recurrence?: string[];
+  recurringEventId?: string; // set on single occurrences of a series
+  transparency?: 'opaque' | 'transparent'; // transparent events are free time
+  reminders?: {
+    useDefault: boolean;
+    overrides?: Array<{
+      method: 'email' | 'popup';
+      minutes: number;
+    }>;
+  };
+}
+
+export interface AvailabilitySlot {
+  start: string;
+  end: string;
+  duration: number;
+}
+
+export interface AvailabilityResponse {
+  date: string;
+  availableSlots: AvailabilitySlot[];
+  busySlots: AvailabilitySlot[];
+  workingHours: {
+    start: string;
+    end: string;
+  };
+}
+
+export interface MeetingSlot {
+  start: string;
+  end: string;
+  attendeeAvailability: Record<string, boolean>;
+}
+
+export interface CalendarProvider {
+  readonly name: string;
+  getEvents(date?: string): Promise<CalendarEvent[]>;
+  createEvent(event: CalendarEvent): Promise<CalendarEvent>;
+  updateEvent(
+    eventId: string,
+    event: Partial<CalendarEvent>,
+  ): Promise<CalendarEvent>;
+  deleteEvent(eventId: string): Promise<void>;
+  checkAvailability(
+    date: string,
+    duration?: number,
+    workingHours?: { start: string; end: string },
+  ): Promise<AvailabilityResponse>;
+  findMeetingSlots(
+    startDate: string,
+    endDate: string,
+    duration: number,
+    attendees?: string[],
+  ): Promise<MeetingSlot[]>;
+  getStatus(): Record<string, any>;
+}
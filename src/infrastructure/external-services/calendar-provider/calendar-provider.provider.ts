@@ -0,0 +1,29 @@
+/**
+ * Calendar Provider Provider - Infrastructure Layer
+ * Selects the calendar backend from calendar configuration
+ */
+
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { GoogleCalendarService } from '../google-calendar/google-calendar.service';
+import { CalDavCalendarProvider } from './caldav-calendar.provider';
+import { IcsFileCalendarProvider } from './ics-file-calendar.provider';
+import { CalendarProvider } from './calendar-provider.interface';
+
+export const CalendarProviderProvider: Provider = {
+  provide: 'CalendarProvider',
+  useFactory: (
+    config: ConfigService,
+    googleCalendarService: GoogleCalendarService,
+  ): CalendarProvider => {
+    switch (config.get('calendar.provider')) {
+      case 'caldav':
+        return new CalDavCalendarProvider(config);
+      case 'ics':
+        return new IcsFileCalendarProvider(config);
+      default:
+        return googleCalendarService;
+    }
+  },
+  inject: [ConfigService, GoogleCalendarService],
+};
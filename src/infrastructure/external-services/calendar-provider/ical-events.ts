@@ -0,0 +1,540 @@
+/**
+ * iCalendar Events - Infrastructure Layer
+ * Reads, edits and expands the VEVENTs of the CalDAV and .ics calendars
+ */
+
+import { RecurrenceRule } from '../../../domain/common/value-objects';
+import {
+  fromZonedTime,
+  isTimeZone,
+  zoneOffset,
+} from '../../../domain/common/time-zone';
+import {
+  IcsProperty,
+  escapeIcsText,
+  joinIcsLines,
+  readIcsProperty,
+  toIcsDateTime,
+  unescapeIcsText,
+  unfoldIcsLines,
+} from '../../serialization/icalendar';
+import { CalendarEvent } from './calendar-provider.interface';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+// Upper bound on occurrences walked per series, e.g. a daily event from 2010
+const MAX_OCCURRENCES = 10000;
+
+type Attendee = NonNullable<CalendarEvent['attendees']>[number];
+
+const PARTSTATS: Record<string, Attendee['responseStatus']> = {
+  ACCEPTED: 'accepted',
+  DECLINED: 'declined',
+  TENTATIVE: 'tentative',
+  'NEEDS-ACTION': 'needsAction',
+};
+
+// Properties written from CalendarEvent fields, replaced as a whole on update
+const EVENT_FIELDS: Record<string, string[]> = {
+  summary: ['SUMMARY'],
+  description: ['DESCRIPTION'],
+  location: ['LOCATION'],
+  start: ['DTSTART'],
+  end: ['DTEND', 'DURATION'],
+  attendees: ['ATTENDEE'],
+  recurrence: ['RRULE', 'RDATE', 'EXDATE'],
+  transparency: ['TRANSP'],
+};
+
+/**
+ * A VEVENT as its unfolded content lines, BEGIN and END included, so
+ * properties this codec does not know survive an update.
+ */
+export interface VEvent {
+  uid: string;
+  recurrenceId?: number; // start of the occurrence an override replaces
+  lines: string[];
+}
+
+export interface ICalendar {
+  properties: string[]; // calendar-level lines, e.g. PRODID
+  components: string[][]; // anything but events, e.g. VTIMEZONE
+  events: VEvent[];
+}
+
+interface EventTime {
+  time: number;
+  allDay: boolean;
+  timeZone?: string; // IANA name, for times given in a zone
+}
+
+export function parseICalendar(text: string): ICalendar {
+  const lines = unfoldIcsLines(text);
+  if (!lines.some((line) => line.toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('Invalid iCalendar: no VCALENDAR found');
+  }
+
+  const calendar: ICalendar = { properties: [], components: [], events: [] };
+  let component: string[] | undefined;
+  let depth = 0; // components open inside VCALENDAR
+
+  for (const line of lines) {
+    const property = readIcsProperty(line);
+    if (!property) {
+      continue;
+    }
+
+    if (
+      property.name === 'BEGIN' &&
+      property.value.toUpperCase() !== 'VCALENDAR'
+    ) {
+      depth++;
+      component = component || [];
+    }
+    if (component) {
+      component.push(line);
+    } else if (property.name !== 'BEGIN' && property.name !== 'END') {
+      calendar.properties.push(line);
+    }
+    if (property.name === 'END' && component && --depth === 0) {
+      if (property.value.toUpperCase() === 'VEVENT') {
+        calendar.events.push(toVEvent(component));
+      } else {
+        calendar.components.push(component);
+      }
+      component = undefined;
+    }
+  }
+
+  return calendar;
+}
+
+export function serializeICalendar(calendar: ICalendar): string {
+  const names = calendar.properties.map((line) => readIcsProperty(line)?.name);
+  return joinIcsLines([
+    'BEGIN:VCALENDAR',
+    ...(names.includes('VERSION') ? [] : ['VERSION:2.0']),
+    ...(names.includes('PRODID')
+      ? []
+      : ['PRODID:-//Executive Assistant AI//Calendar//EN']),
+    ...calendar.properties,
+    ...calendar.components.flat(),
+    ...calendar.events.flatMap((event) => event.lines),
+    'END:VCALENDAR',
+  ]);
+}
+
+export function emptyICalendar(): ICalendar {
+  return { properties: [], components: [], events: [] };
+}
+
+/**
+ * Writes a new VEVENT. Start and end are written in UTC, or as dates for
+ * all-day events.
+ */
+export function createVEvent(
+  uid: string,
+  event: CalendarEvent,
+  now = new Date(),
+): VEvent {
+  if (!event.start || !event.end) {
+    throw new Error('Invalid calendar event: start and end are required');
+  }
+
+  return updateVEvent(
+    toVEvent([
+      'BEGIN:VEVENT',
+      `UID:${uid}`,
+      `CREATED:${toIcsDateTime(now)}`,
+      'END:VEVENT',
+    ]),
+    event,
+    now,
+  );
+}
+
+/**
+ * Replaces the properties behind each given field and bumps SEQUENCE so
+ * other clients pick up the change.
+ */
+export function updateVEvent(
+  vevent: VEvent,
+  changes: Partial<CalendarEvent>,
+  now = new Date(),
+): VEvent {
+  const fields = Object.keys(EVENT_FIELDS).filter(
+    (field) => changes[field as keyof CalendarEvent] !== undefined,
+  );
+  const replaced = new Set([
+    ...fields.flatMap((field) => EVENT_FIELDS[field]),
+    'DTSTAMP',
+    'LAST-MODIFIED',
+    'SEQUENCE',
+  ]);
+  const sequence = parseInt(readProperty(vevent, 'SEQUENCE')?.value || '', 10);
+
+  const added = [
+    `DTSTAMP:${toIcsDateTime(now)}`,
+    `LAST-MODIFIED:${toIcsDateTime(now)}`,
+    `SEQUENCE:${Number.isNaN(sequence) ? 0 : sequence + 1}`,
+    ...fields.flatMap((field) => writeField(field, changes)),
+  ];
+
+  // Nested components such as VALARM stay where they are
+  const lines = vevent.lines.filter((line, index) => {
+    const depth = nestingDepth(vevent.lines, index);
+    return depth > 0 || !replaced.has(readIcsProperty(line)?.name || '');
+  });
+  const end = lines.findIndex(
+    (line, index) =>
+      index > 0 &&
+      nestingDepth(lines, index) === 0 &&
+      /^(BEGIN|END):/i.test(line),
+  );
+  lines.splice(end, 0, ...added);
+
+  const updated = toVEvent(lines);
+  const start = readTime(updated, 'DTSTART');
+  const finish = eventEnd(updated, start);
+  if (!start || !finish) {
+    throw new Error(
+      'Invalid calendar event: start and end must be valid dates',
+    );
+  }
+  if (finish.time < start.time) {
+    throw new Error('Invalid calendar event: end must not be before start');
+  }
+
+  return updated;
+}
+
+/**
+ * Lists the events that overlap [from, to). Recurring series are expanded
+ * into occurrences, skipping EXDATEs and using overrides in their place.
+ * Rules beyond what RecurrenceRule supports show only their first
+ * occurrence.
+ */
+export function expandVEvents(
+  vevents: VEvent[],
+  from: Date,
+  to: Date,
+): CalendarEvent[] {
+  const overrides = new Set(
+    vevents
+      .filter((vevent) => vevent.recurrenceId !== undefined)
+      .map((vevent) => `${vevent.uid}|${vevent.recurrenceId}`),
+  );
+
+  const events: CalendarEvent[] = [];
+  const include = (vevent: VEvent, start: EventTime, instance: boolean) => {
+    const end = eventEnd(vevent, start)!;
+    const finish = Math.max(end.time, start.time + 1); // instants still count
+    if (start.time < to.getTime() && finish > from.getTime()) {
+      events.push(toCalendarEvent(vevent, start, end, instance));
+    }
+  };
+
+  for (const vevent of vevents) {
+    const start = readTime(vevent, 'DTSTART');
+    if (!start || !eventEnd(vevent, start)) {
+      continue;
+    }
+    if (vevent.recurrenceId !== undefined) {
+      include(vevent, start, true);
+      continue;
+    }
+
+    const rule = readRule(vevent);
+    if (!rule) {
+      include(vevent, start, false);
+      continue;
+    }
+
+    const excluded = new Set(
+      readProperties(vevent, 'EXDATE').flatMap((property) =>
+        property.value
+          .split(',')
+          .map((value) => parseTime(value, property.params)?.time),
+      ),
+    );
+
+    // Series repeat on the wall clock of their zone, across DST changes
+    const zone = start.timeZone;
+    let wallClock: number | undefined = zone
+      ? start.time + zoneOffset(start.time, zone)
+      : start.time;
+    for (
+      let occurrence = 1;
+      wallClock !== undefined && occurrence <= MAX_OCCURRENCES;
+      occurrence++
+    ) {
+      const time = zone ? fromZonedTime(wallClock, zone) : wallClock;
+      if (time >= to.getTime()) {
+        break;
+      }
+      if (!excluded.has(time) && !overrides.has(`${vevent.uid}|${time}`)) {
+        include(vevent, { ...start, time }, true);
+      }
+      wallClock = rule
+        .nextOccurrence(new Date(wallClock), occurrence)
+        ?.getTime();
+    }
+  }
+
+  return events.sort((a, b) => startOf(a) - startOf(b));
+}
+
+/**
+ * Occurrences of a series get the ID `<uid>_<start in UTC>`, as Google
+ * Calendar does.
+ */
+export function splitEventId(eventId: string): {
+  uid: string;
+  occurrence?: string;
+} {
+  const match = eventId.match(/^(.+)_(\d{8}T\d{6}Z)$/);
+  return match ? { uid: match[1], occurrence: match[2] } : { uid: eventId };
+}
+
+export function toCalendarEvent(
+  vevent: VEvent,
+  start = readTime(vevent, 'DTSTART')!,
+  end = eventEnd(vevent, start)!,
+  instance = false,
+): CalendarEvent {
+  const text = (name: string) => {
+    const value = readProperty(vevent, name)?.value;
+    return value === undefined ? undefined : unescapeIcsText(value);
+  };
+  const recurrence = vevent.lines.filter(
+    (line, index) =>
+      /^(RRULE|RDATE|EXDATE)[;:]/i.test(line) &&
+      nestingDepth(vevent.lines, index) === 0,
+  );
+
+  return {
+    // Overrides keep the ID of the occurrence they replace
+    id: instance
+      ? `${vevent.uid}_${toIcsDateTime(new Date(vevent.recurrenceId ?? start.time))}`
+      : vevent.uid,
+    summary: text('SUMMARY') || '',
+    description: text('DESCRIPTION'),
+    location: text('LOCATION'),
+    start: toEventTime(start),
+    end: toEventTime(end),
+    attendees: readProperties(vevent, 'ATTENDEE').map((property) => ({
+      email: property.value.replace(/^mailto:/i, ''),
+      displayName: property.params.CN,
+      responseStatus:
+        PARTSTATS[property.params.PARTSTAT?.toUpperCase()] || 'needsAction',
+    })),
+    recurrence: recurrence.length ? recurrence : undefined,
+    recurringEventId: instance ? vevent.uid : undefined,
+    transparency:
+      readProperty(vevent, 'TRANSP')?.value.toUpperCase() === 'TRANSPARENT'
+        ? 'transparent'
+        : 'opaque',
+  };
+}
+
+function toVEvent(lines: string[]): VEvent {
+  const vevent: VEvent = { uid: '', lines };
+  vevent.uid = readProperty(vevent, 'UID')?.value.trim() || '';
+  const recurrenceId = readProperty(vevent, 'RECURRENCE-ID');
+  if (recurrenceId) {
+    vevent.recurrenceId = parseTime(
+      recurrenceId.value,
+      recurrenceId.params,
+    )?.time;
+  }
+  return vevent;
+}
+
+function writeField(field: string, event: Partial<CalendarEvent>): string[] {
+  switch (field) {
+    case 'summary':
+    case 'description':
+    case 'location': {
+      const value = event[field];
+      return value ? [`${EVENT_FIELDS[field][0]}:${escapeIcsText(value)}`] : [];
+    }
+    case 'start':
+      return [writeTime('DTSTART', event.start!)];
+    case 'end':
+      return [writeTime('DTEND', event.end!)];
+    case 'attendees':
+      return event.attendees!.map((attendee) => {
+        // Callers sometimes pass plain addresses
+        const { email, displayName, responseStatus }: Attendee =
+          typeof attendee === 'string' ? { email: attendee } : attendee;
+        const partstat = Object.keys(PARTSTATS).find(
+          (key) => PARTSTATS[key] === responseStatus,
+        );
+        return (
+          [
+            'ATTENDEE',
+            ...(displayName
+              ? [`CN="${displayName.replace(/[";]/g, '')}"`]
+              : []),
+            `PARTSTAT=${partstat || 'NEEDS-ACTION'}`,
+          ].join(';') + `:mailto:${email}`
+        );
+      });
+    case 'recurrence':
+      return event.recurrence!.filter((line) =>
+        /^(RRULE|RDATE|EXDATE)[;:]/i.test(line),
+      );
+    case 'transparency':
+      return [`TRANSP:${event.transparency!.toUpperCase()}`];
+    default:
+      return [];
+  }
+}
+
+function writeTime(name: string, value: CalendarEvent['start']): string {
+  if (value.date) {
+    return `${name};VALUE=DATE:${value.date.replace(/-/g, '')}`;
+  }
+  const time = new Date(value.dateTime || '');
+  if (Number.isNaN(time.getTime())) {
+    throw new Error(
+      'Invalid calendar event: start and end need a dateTime or a date',
+    );
+  }
+  return `${name}:${toIcsDateTime(time)}`;
+}
+
+function toEventTime(time: EventTime): CalendarEvent['start'] {
+  const iso = new Date(time.time).toISOString();
+  return time.allDay
+    ? { date: iso.split('T')[0] }
+    : { dateTime: iso, timeZone: time.timeZone || 'UTC' };
+}
+
+function startOf(event: CalendarEvent): number {
+  return new Date(event.start.dateTime || event.start.date!).getTime();
+}
+
+// Top-level properties only; those of nested components such as VALARM are skipped
+function readProperties(vevent: VEvent, name: string): IcsProperty[] {
+  return vevent.lines
+    .filter((_, index) => nestingDepth(vevent.lines, index) === 0)
+    .map((line) => readIcsProperty(line))
+    .filter((property): property is IcsProperty => property?.name === name);
+}
+
+function readProperty(vevent: VEvent, name: string): IcsProperty | undefined {
+  return readProperties(vevent, name)[0];
+}
+
+// How many components inside the VEVENT a line belongs to
+function nestingDepth(lines: string[], index: number): number {
+  let depth = 0;
+  for (let i = 1; i < index; i++) {
+    if (/^BEGIN:/i.test(lines[i])) depth++;
+    if (/^END:/i.test(lines[i])) depth--;
+  }
+  return depth;
+}
+
+function readTime(vevent: VEvent, name: string): EventTime | undefined {
+  const property = readProperty(vevent, name);
+  return property && parseTime(property.value, property.params);
+}
+
+/**
+ * Without DTEND, an event lasts its DURATION, a whole day when it is an
+ * all-day event, or no time at all.
+ */
+function eventEnd(
+  vevent: VEvent,
+  start: EventTime | undefined,
+): EventTime | undefined {
+  if (!start) {
+    return undefined;
+  }
+  if (readProperty(vevent, 'DTEND')) {
+    const end = readTime(vevent, 'DTEND');
+    // Occurrences keep the length of the series' first event
+    const first = readTime(vevent, 'DTSTART')!;
+    return end && { ...end, time: start.time + end.time - first.time };
+  }
+
+  const duration = readProperty(vevent, 'DURATION');
+  if (duration) {
+    const length = parseDuration(duration.value);
+    return length === undefined
+      ? undefined
+      : { ...start, time: start.time + length };
+  }
+  return { ...start, time: start.time + (start.allDay ? DAY_IN_MS : 0) };
+}
+
+/**
+ * Times with a TZID are converted from that zone, which must be an IANA
+ * name; floating times and unknown zones are read as UTC.
+ */
+function parseTime(
+  value: string,
+  params: Record<string, string>,
+): EventTime | undefined {
+  const match = value
+    .trim()
+    .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const wallClock = Date.UTC(
+    +year,
+    +month - 1,
+    +day,
+    +(hour || 0),
+    +(minute || 0),
+    +(second || 0),
+  );
+  if (hour === undefined || params.VALUE?.toUpperCase() === 'DATE') {
+    return { time: wallClock, allDay: true };
+  }
+
+  const timeZone = params.TZID;
+  if (!utc && timeZone && isTimeZone(timeZone)) {
+    return {
+      time: fromZonedTime(wallClock, timeZone),
+      allDay: false,
+      timeZone,
+    };
+  }
+  return { time: wallClock, allDay: false };
+}
+
+function parseDuration(value: string): number | undefined {
+  const match = value
+    .trim()
+    .match(
+      /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/,
+    );
+  if (!match) {
+    return undefined;
+  }
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const length =
+    (((+(weeks || 0) * 7 + +(days || 0)) * 24 + +(hours || 0)) * 60 +
+      +(minutes || 0)) *
+      60000 +
+    +(seconds || 0) * 1000;
+  return sign === '-' ? -length : length;
+}
+
+function readRule(vevent: VEvent): RecurrenceRule | undefined {
+  const rrule = readProperty(vevent, 'RRULE');
+  if (!rrule) {
+    return undefined;
+  }
+  try {
+    // WKST only changes weekly rules with an interval, which are rare
+    return new RecurrenceRule(rrule.value.replace(/(^|;)WKST=[A-Z]{2}/i, ''));
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * ICS File Calendar Provider - Infrastructure Layer
+ * Keeps the calendar in a local iCalendar (.ics) file
+ */
+
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import {
+  AvailabilityResponse,
+  CalendarEvent,
+  CalendarProvider,
+  MeetingSlot,
+} from './calendar-provider.interface';
+import {
+  DEFAULT_WORKING_HOURS,
+  computeAvailability,
+  computeMeetingSlots,
+  dayRange,
+} from './calendar-availability';
+import {
+  ICalendar,
+  VEvent,
+  createVEvent,
+  emptyICalendar,
+  expandVEvents,
+  parseICalendar,
+  serializeICalendar,
+  splitEventId,
+  toCalendarEvent,
+  updateVEvent,
+} from './ical-events';
+import { zonedDate } from '../../../domain/common/time-zone';
+
+/**
+ * The file is read on every call, so changes made by other programs show
+ * up straight away. Writes replace the whole file.
+ */
+export class IcsFileCalendarProvider implements CalendarProvider {
+  readonly name = 'ics';
+  private readonly logger = new Logger(IcsFileCalendarProvider.name);
+  private readonly filePath: string;
+  private readonly timeZone: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly config: ConfigService) {
+    this.timeZone = this.config.get('application.timezone', 'UTC');
+    this.filePath = resolve(
+      this.config.get('calendar.icsPath', 'data/calendar.ics'),
+    );
+    this.logger.log(`Using the calendar file at ${this.filePath}`);
+  }
+
+  async getEvents(date?: string): Promise<CalendarEvent[]> {
+    const { from, to } = dayRange(
+      date || zonedDate(new Date(), this.timeZone),
+      this.timeZone,
+    );
+    return expandVEvents((await this.read()).events, from, to);
+  }
+
+  async createEvent(event: CalendarEvent): Promise<CalendarEvent> {
+    const vevent = createVEvent(randomUUID(), event);
+    await this.modify((calendar) => {
+      calendar.events.push(vevent);
+    });
+
+    this.logger.log(`Calendar event created: ${vevent.uid}`);
+    return toCalendarEvent(vevent);
+  }
+
+  async updateEvent(
+    eventId: string,
+    event: Partial<CalendarEvent>,
+  ): Promise<CalendarEvent> {
+    let updated!: VEvent;
+    await this.modify((calendar) => {
+      const index = this.findEvent(calendar, eventId);
+      updated = updateVEvent(calendar.events[index], event);
+      calendar.events[index] = updated;
+    });
+
+    return toCalendarEvent(updated);
+  }
+
+  async deleteEvent(eventId: string): Promise<void> {
+    await this.modify((calendar) => {
+      this.findEvent(calendar, eventId);
+      // Overrides of single occurrences go with their series
+      calendar.events = calendar.events.filter(
+        (vevent) => vevent.uid !== eventId,
+      );
+    });
+  }
+
+  async checkAvailability(
+    date: string,
+    duration: number = 60,
+    workingHours: { start: string; end: string } = DEFAULT_WORKING_HOURS,
+  ): Promise<AvailabilityResponse> {
+    return computeAvailability(
+      date,
+      await this.getEvents(date),
+      duration,
+      workingHours,
+      this.timeZone,
+    );
+  }
+
+  async findMeetingSlots(
+    startDate: string,
+    endDate: string,
+    duration: number,
+    attendees: string[] = [],
+  ): Promise<MeetingSlot[]> {
+    const events = expandVEvents(
+      (await this.read()).events,
+      dayRange(startDate, this.timeZone).from,
+      dayRange(endDate, this.timeZone).to,
+    );
+    return computeMeetingSlots(
+      startDate,
+      endDate,
+      events,
+      duration,
+      attendees,
+      this.timeZone,
+    );
+  }
+
+  getStatus(): Record<string, any> {
+    return {
+      configured: true,
+      provider: this.name,
+      filePath: this.filePath,
+      features: ['events', 'availability', 'scheduling', 'recurrence'],
+      lastCheck: new Date().toISOString(),
+    };
+  }
+
+  private findEvent(calendar: ICalendar, eventId: string): number {
+    const index = calendar.events.findIndex(
+      (vevent) => vevent.uid === eventId && vevent.recurrenceId === undefined,
+    );
+    if (index !== -1) {
+      return index;
+    }
+
+    const { uid, occurrence } = splitEventId(eventId);
+    if (occurrence && calendar.events.some((vevent) => vevent.uid === uid)) {
+      throw new Error(
+        `Calendar event ${eventId} is one occurrence of a series; change the series ${uid} instead`,
+      );
+    }
+    throw new Error(`Calendar event not found: ${eventId}`);
+  }
+
+  private async read(): Promise<ICalendar> {
+    try {
+      return parseICalendar(await readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return emptyICalendar();
+      }
+      throw error;
+    }
+  }
+
+  // Serialize writes so no change is lost to a concurrent one
+  private async modify(change: (calendar: ICalendar) => void): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      const calendar = await this.read();
+      change(calendar);
+
+      const temporaryPath = `${this.filePath}.tmp`;
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await writeFile(temporaryPath, serializeICalendar(calendar), 'utf8');
+      await rename(temporaryPath, this.filePath);
+    });
+    this.writeQueue = write.catch(() => undefined);
+    await write;
+  }
+}
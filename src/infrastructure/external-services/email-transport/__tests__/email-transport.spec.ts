@@ -0,0 +1,172 @@
+/**
+ * Email Transport Tests - Infrastructure Layer
+ * Verifies the SMTP and file-sink transports produce the expected message
+ */
+
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { SmtpEmailTransport } from '../smtp-email.transport';
+import { FileEmailTransport } from '../file-email.transport';
+import { EmailRequest } from '../email-transport.interface';
+import { EmailTransportError } from '../email-transport.error';
+
+/**
+ * Minimal SMTP server that accepts every message and keeps the raw DATA.
+ */
+function startSmtpStandIn(): Promise<{
+  port: number;
+  messages: string[];
+  close: () => Promise<void>;
+}> {
+  const messages: string[] = [];
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let data: string[] | null = null;
+
+    socket.write('220 localhost ESMTP stand-in\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (data) {
+          if (line === '.') {
+            messages.push(data.join('\r\n'));
+            data = null;
+            socket.write('250 2.0.0 Ok: queued\r\n');
+          } else {
+            data.push(line);
+          }
+        } else if (/^(EHLO|HELO)/i.test(line)) {
+          socket.write('250 localhost\r\n');
+        } else if (/^DATA/i.test(line)) {
+          data = [];
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (/^RCPT TO:<blocked@/i.test(line)) {
+          socket.write('550 5.1.1 Mailbox unavailable\r\n');
+        } else if (/^QUIT/i.test(line)) {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 Ok\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        port: (server.address() as net.AddressInfo).port,
+        messages,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+describe('Email transports', () => {
+  const request: EmailRequest = {
+    to: ['investors@example.com'],
+    cc: 'cfo@example.com',
+    from: 'ceo@example.com',
+    subject: 'Q3 investor update',
+    html: '<p>Numbers attached</p>',
+    attachments: [
+      {
+        filename: 'q3.csv',
+        content: Buffer.from('revenue,42').toString('base64'),
+        type: 'text/csv',
+      },
+    ],
+    customArgs: { emailMessageId: 'email_123' },
+  };
+
+  describe('SmtpEmailTransport', () => {
+    it('should deliver the message to the SMTP server', async () => {
+      const smtp = await startSmtpStandIn();
+      const transport = new SmtpEmailTransport(
+        new ConfigService({
+          emailServices: { smtpHost: '127.0.0.1', smtpPort: smtp.port },
+        }),
+      );
+
+      try {
+        const response = await transport.sendEmail(request);
+
+        expect(response.status).toBe('sent');
+        expect(response.details!.accepted).toEqual([
+          'investors@example.com',
+          'cfo@example.com',
+        ]);
+        expect(smtp.messages).toHaveLength(1);
+        expect(smtp.messages[0]).toContain('Subject: Q3 investor update');
+        expect(smtp.messages[0]).toContain('X-Email-Message-ID: email_123');
+      } finally {
+        transport.onModuleDestroy();
+        await smtp.close();
+      }
+    });
+
+    it('should report rejected recipients as a permanent failure', async () => {
+      const smtp = await startSmtpStandIn();
+      const transport = new SmtpEmailTransport(
+        new ConfigService({
+          emailServices: { smtpHost: '127.0.0.1', smtpPort: smtp.port },
+        }),
+      );
+
+      try {
+        const error = await transport
+          .sendEmail({ ...request, to: 'blocked@example.com', cc: undefined })
+          .catch((e) => e);
+
+        expect(error).toBeInstanceOf(EmailTransportError);
+        expect(error.retryable).toBe(false);
+        expect(error.statusCode).toBe(550);
+      } finally {
+        transport.onModuleDestroy();
+        await smtp.close();
+      }
+    });
+  });
+
+  describe('FileEmailTransport', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'email-sink-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should write the message as an .eml file', async () => {
+      const transport = new FileEmailTransport(
+        new ConfigService({
+          emailServices: { fileSinkDirectory: directory },
+        }),
+      );
+
+      const response = await transport.sendEmail(request);
+
+      const files = await fs.readdir(directory);
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatch(/\.eml$/);
+      expect(response.details!.path).toBe(path.join(directory, files[0]));
+
+      const eml = await fs.readFile(path.join(directory, files[0]), 'utf8');
+      expect(eml).toContain('From: ceo@example.com\r\n');
+      expect(eml).toContain('To: investors@example.com\r\n');
+      expect(eml).toContain('Cc: cfo@example.com\r\n');
+      expect(eml).toContain(`Message-ID: <${response.messageId}>`);
+      expect(eml).toContain('filename=q3.csv');
+      expect(eml).toContain(Buffer.from('revenue,42').toString('base64'));
+    });
+  });
+});
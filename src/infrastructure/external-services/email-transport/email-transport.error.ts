@@ -0,0 +1,34 @@
+/**
+ * Email Transport Error - Infrastructure Layer
+ * Carries the provider status code and whether the send may be retried
+ */
+
+export class EmailTransportError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+    readonly statusCode?: number,
+  ) {
+    super(message);
+    this.name = 'EmailTransportError';
+  }
+
+  /**
+   * Timeouts, rate limiting and server errors are transient; any other
+   * 4xx response means the request itself was rejected.
+   */
+  static fromHttpStatus(message: string, statusCode: number) {
+    const retryable =
+      statusCode === 408 || statusCode === 429 || statusCode >= 500;
+    return new EmailTransportError(message, retryable, statusCode);
+  }
+
+  /**
+   * SMTP uses 4xx replies for temporary and 5xx replies for permanent
+   * failures. Errors without a reply code are connection problems.
+   */
+  static fromSmtpResponseCode(message: string, responseCode?: number) {
+    const retryable = responseCode === undefined || responseCode < 500;
+    return new EmailTransportError(message, retryable, responseCode);
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Email Transport Interface - Infrastructure Layer
+ * Contract shared by every provider that can deliver an outgoing email
+ */
+
+export interface EmailRequest {
+  to: string | string[];
+  cc?: string | string[];
+  bcc?: string | string[];
+  from?: string;
+  subject: string;
+  text?: string;
+  html?: string;
+  attachments?: Array<{
+    content: string; // base64 encoded
+    filename: string;
+    type: string;
+    disposition?: 'attachment' | 'inline';
+  }>;
+  templateId?: string;
+  dynamicTemplateData?: Record<string, any>;
+  replyTo?: string;
+  sendAt?: number; // Unix timestamp for scheduled sending
+  categories?: string[];
+  customArgs?: Record<string, string>;
+}
+
+export interface EmailResponse {
+  messageId: string;
+  status: 'queued' | 'sent' | 'failed';
+  timestamp: string;
+  details?: Record<string, any>;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  sendEmail(request: EmailRequest): Promise<EmailResponse>;
+  getStatus(): Record<string, any>;
+}
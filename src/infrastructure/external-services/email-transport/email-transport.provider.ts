@@ -0,0 +1,29 @@
+/**
+ * Email Transport Provider - Infrastructure Layer
+ * Selects the email transport implementation from email services configuration
+ */
+
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SendGridService } from '../sendgrid/sendgrid.service';
+import { SmtpEmailTransport } from './smtp-email.transport';
+import { FileEmailTransport } from './file-email.transport';
+import { EmailTransport } from './email-transport.interface';
+
+export const EmailTransportProvider: Provider = {
+  provide: 'EmailTransport',
+  useFactory: (
+    config: ConfigService,
+    sendGridService: SendGridService,
+  ): EmailTransport => {
+    switch (config.get('emailServices.transport')) {
+      case 'smtp':
+        return new SmtpEmailTransport(config);
+      case 'file':
+        return new FileEmailTransport(config);
+      default:
+        return sendGridService;
+    }
+  },
+  inject: [ConfigService, SendGridService],
+};
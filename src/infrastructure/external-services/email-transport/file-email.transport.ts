@@ -0,0 +1,74 @@
+/**
+ * File Email Transport - Infrastructure Layer
+ * Writes every outgoing email as an RFC 822 .eml file instead of sending it
+ */
+
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import {
+  EmailRequest,
+  EmailResponse,
+  EmailTransport,
+} from './email-transport.interface';
+import { toMailOptions } from './mail-options';
+
+export class FileEmailTransport implements EmailTransport {
+  readonly name = 'file';
+  private readonly logger = new Logger(FileEmailTransport.name);
+  private readonly transporter: Transporter;
+  private readonly directory: string;
+  private readonly fromEmail: string;
+
+  constructor(private readonly config: ConfigService) {
+    this.directory = path.resolve(
+      this.config.get('emailServices.fileSinkDirectory', 'data/outbox'),
+    );
+    this.fromEmail = this.config.get(
+      'emailServices.fromEmail',
+      'assistant@company.com',
+    );
+    this.transporter = nodemailer.createTransport({
+      streamTransport: true,
+      buffer: true,
+      newline: 'windows',
+    });
+
+    this.logger.log(`Writing outgoing email to ${this.directory}`);
+  }
+
+  async sendEmail(request: EmailRequest): Promise<EmailResponse> {
+    const info = await this.transporter.sendMail(
+      toMailOptions(request, this.fromEmail),
+    );
+    const messageId = info.messageId.replace(/^<|>$/g, '');
+    const filePath = path.join(
+      this.directory,
+      `${Date.now()}-${messageId.replace(/[^\w.-]/g, '_')}.eml`,
+    );
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(filePath, info.message as Buffer);
+
+    this.logger.log(`Email written to ${filePath}`);
+
+    return {
+      messageId,
+      status: 'sent',
+      timestamp: new Date().toISOString(),
+      details: { path: filePath },
+    };
+  }
+
+  getStatus(): Record<string, any> {
+    return {
+      configured: true,
+      transport: this.name,
+      directory: this.directory,
+      fromEmail: this.fromEmail,
+      lastCheck: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Mail Options Mapping - Infrastructure Layer
+ * Converts transport-neutral email requests into nodemailer message options
+ */
+
+import type { SendMailOptions } from 'nodemailer';
+import { EmailRequest } from './email-transport.interface';
+
+export function toMailOptions(
+  request: EmailRequest,
+  defaultFrom: string,
+): SendMailOptions {
+  return {
+    from: request.from || defaultFrom,
+    to: request.to,
+    cc: request.cc,
+    bcc: request.bcc,
+    replyTo: request.replyTo,
+    subject: request.subject,
+    text: request.text,
+    html: request.html,
+    attachments: (request.attachments || []).map((attachment) => ({
+      filename: attachment.filename,
+      content: attachment.content,
+      encoding: 'base64',
+      contentType: attachment.type,
+      contentDisposition: attachment.disposition || 'attachment',
+    })),
+    headers: {
+      ...(request.categories &&
+        request.categories.length > 0 && {
+          'X-Categories': request.categories.join(', '),
+        }),
+      ...(request.customArgs?.emailMessageId && {
+        'X-Email-Message-ID': request.customArgs.emailMessageId,
+      }),
+    },
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * SMTP Email Transport - Infrastructure Layer
+ * Delivers email to any SMTP relay through nodemailer
+ */
+
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import nodemailer, { Transporter } from 'nodemailer';
+import {
+  EmailRequest,
+  EmailResponse,
+  EmailTransport,
+} from './email-transport.interface';
+import { EmailTransportError } from './email-transport.error';
+import { toMailOptions } from './mail-options';
+
+export class SmtpEmailTransport implements EmailTransport, OnModuleDestroy {
+  readonly name = 'smtp';
+  private readonly logger = new Logger(SmtpEmailTransport.name);
+  private readonly transporter: Transporter;
+  private readonly host: string;
+  private readonly port: number;
+  private readonly fromEmail: string;
+
+  constructor(private readonly config: ConfigService) {
+    this.host = this.config.get('emailServices.smtpHost', 'localhost');
+    this.port = this.config.get('emailServices.smtpPort', 587);
+    this.fromEmail = this.config.get(
+      'emailServices.fromEmail',
+      'assistant@company.com',
+    );
+
+    const user = this.config.get('emailServices.smtpUser', '');
+    this.transporter = nodemailer.createTransport({
+      host: this.host,
+      port: this.port,
+      secure: this.config.get('emailServices.smtpSecure', false),
+      ...(user && {
+        auth: { user, pass: this.config.get('emailServices.smtpPassword') },
+      }),
+    });
+
+    this.logger.log(`SMTP transport configured for ${this.host}:${this.port}`);
+  }
+
+  onModuleDestroy(): void {
+    this.transporter.close();
+  }
+
+  async sendEmail(request: EmailRequest): Promise<EmailResponse> {
+    const info = await this.transporter
+      .sendMail(toMailOptions(request, this.fromEmail))
+      .catch((error) => {
+        throw EmailTransportError.fromSmtpResponseCode(
+          `SMTP error: ${error.message}`,
+          error.responseCode,
+        );
+      });
+
+    this.logger.log(`Email sent via SMTP: ${info.messageId}`);
+
+    return {
+      messageId: info.messageId,
+      status: 'sent',
+      timestamp: new Date().toISOString(),
+      details: {
+        accepted: info.accepted,
+        rejected: info.rejected,
+        response: info.response,
+      },
+    };
+  }
+
+  getStatus(): Record<string, any> {
+    return {
+      configured: true,
+      transport: this.name,
+      host: this.host,
+      port: this.port,
+      fromEmail: this.fromEmail,
+      lastCheck: new Date().toISOString(),
+    };
+  }
+}
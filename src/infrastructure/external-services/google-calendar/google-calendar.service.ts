@@ -5,63 +5,17 @@
 
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-
-export interface CalendarEvent {
-  id?: string;
-  summary: string;
-  description?: string;
-  start: {
-    dateTime?: string;
-    date?: string;
-    timeZone?: string;
-  };
-  end: {
-    dateTime?: string;
-    date?: string;
-    timeZone?: string;
-  };
-  attendees?: Array<{
-    email: string;
-    displayName?: string;
-    responseStatus?: 'needsAction' | 'declined' | 'tentative' | 'accepted';
-  }>;
-  location?: string;
-  conferenceData?: {
-    createRequest?: {
-      requestId: string;
-      conferenceSolutionKey: {
-        type: 'hangoutsMeet';
-      };
-    };
-  };
-  recurrence?: string[];
-  reminders?: {
-    useDefault: boolean;
-    overrides?: Array<{
-      method: 'email' | 'popup';
-      minutes: number;
-    }>;
-  };
-}
-
-export interface AvailabilitySlot {
-  start: string;
-  end: string;
-  duration: number;
-}
-
-export interface AvailabilityResponse {
-  date: string;
-  availableSlots: AvailabilitySlot[];
-  busySlots: AvailabilitySlot[];
-  workingHours: {
-    start: string;
-    end: string;
-  };
-}
+import {
+  AvailabilityResponse,
+  AvailabilitySlot,
+  CalendarEvent,
+  CalendarProvider,
+  MeetingSlot,
+} from '../calendar-provider/calendar-provider.interface';
 
 @Injectable()
-export class GoogleCalendarService {
+export class GoogleCalendarService implements CalendarProvider {
+  readonly name = 'google';
   private readonly logger = new Logger(GoogleCalendarService.name);
   private readonly isConfigured: boolean;
 
@@ -108,15 +62,9 @@ export class GoogleCalendarService {
       const calendarEvent = {
         summary: event.summary,
         description: event.description,
-        start: {
-          dateTime: event.start,
-          timeZone: 'America/New_York',
-        },
-        end: {
-          dateTime: event.end,
-          timeZone: 'America/New_York',
-        },
-        attendees: event.attendees?.map((email) => ({ email })),
+        start: event.start,
+        end: event.end,
+        attendees: event.attendees?.map(({ email }) => ({ email })),
         location: event.location,
         reminders: {
           useDefault: false,
@@ -274,13 +222,7 @@ export class GoogleCalendarService {
     endDate: string,
     duration: number,
     attendees: string[] = [],
-  ): Promise<
-    Array<{
-      start: string;
-      end: string;
-      attendeeAvailability: Record<string, boolean>;
-    }>
-  > {
+  ): Promise<MeetingSlot[]> {
     if (!this.isConfigured) {
       return this.getMockMeetingSlots(startDate, endDate, duration, attendees);
     }
@@ -299,11 +241,13 @@ export class GoogleCalendarService {
 
   getStatus(): {
     configured: boolean;
+    provider: string;
     lastSync: string;
     features: string[];
   } {
     return {
       configured: this.isConfigured,
+      provider: this.name,
       lastSync: new Date().toISOString(),
       features: ['events', 'availability', 'scheduling', 'reminders'],
     };
@@ -472,16 +416,8 @@ export class GoogleCalendarService {
     endDate: string,
     duration: number,
     attendees: string[],
-  ): Array<{
-    start: string;
-    end: string;
-    attendeeAvailability: Record<string, boolean>;
-  }> {
-    const slots: Array<{
-      start: string;
-      end: string;
-      attendeeAvailability: Record<string, boolean>;
-    }> = [];
+  ): MeetingSlot[] {
+    const slots: MeetingSlot[] = [];
     const start = new Date(startDate);
     const end = new Date(endDate);
 
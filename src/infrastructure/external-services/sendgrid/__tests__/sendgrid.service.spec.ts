@@ -0,0 +1,115 @@
+/**
+ * SendGrid Service Tests - Infrastructure Layer
+ * Verifies Event Webhook signature checks and event parsing
+ */
+
+import { ConfigService } from '@nestjs/config';
+import { createSign, generateKeyPairSync } from 'crypto';
+import { SendGridService } from '../sendgrid.service';
+
+describe('SendGridService webhooks', () => {
+  const { publicKey, privateKey } = generateKeyPairSync('ec', {
+    namedCurve: 'prime256v1',
+  });
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const payload = Buffer.from(
+    JSON.stringify([
+      {
+        email: 'investors@example.com',
+        event: 'bounce',
+        timestamp: 1792400000,
+        sg_message_id: 'abc123.filterdrecv-1234.0',
+        reason: '550 5.1.1 Unknown user',
+      },
+    ]),
+  );
+  const sign = (body: Buffer, signedAt = timestamp) =>
+    createSign('sha256')
+      .update(signedAt)
+      .update(body)
+      .sign(privateKey, 'base64');
+
+  const createService = (key: string) =>
+    new SendGridService(
+      new ConfigService({
+        emailServices: { sendgridWebhookPublicKey: key },
+      }),
+    );
+  const service = createService(
+    publicKey.export({ format: 'der', type: 'spki' }).toString('base64'),
+  );
+
+  it('should accept payloads signed by the configured key', () => {
+    expect(
+      service.verifyWebhookSignature(payload, sign(payload), timestamp),
+    ).toBe(true);
+  });
+
+  it('should reject tampered payloads and missing headers', () => {
+    const signature = sign(payload);
+    const tampered = Buffer.from(payload.toString().replace('bounce', 'open'));
+
+    expect(service.verifyWebhookSignature(tampered, signature, timestamp)).toBe(
+      false,
+    );
+    expect(service.verifyWebhookSignature(payload, signature, '1')).toBe(false);
+    expect(service.verifyWebhookSignature(payload, undefined, timestamp)).toBe(
+      false,
+    );
+  });
+
+  it('should reject signed payloads older than the tolerance', () => {
+    const stale = String(Number(timestamp) - 301);
+    const recent = String(Number(timestamp) - 290);
+
+    expect(
+      service.verifyWebhookSignature(payload, sign(payload, stale), stale),
+    ).toBe(false);
+    expect(
+      service.verifyWebhookSignature(payload, sign(payload, recent), recent),
+    ).toBe(true);
+    expect(
+      service.verifyWebhookSignature(payload, sign(payload, 'abc'), 'abc'),
+    ).toBe(false);
+  });
+
+  it('should reject every payload when no key is configured', () => {
+    expect(
+      createService('').verifyWebhookSignature(
+        payload,
+        sign(payload),
+        timestamp,
+      ),
+    ).toBe(false);
+  });
+
+  it('should parse events and strip the filter suffix from message ids', () => {
+    expect(service.parseWebhookEvents(payload)).toEqual([
+      {
+        messageId: 'abc123',
+        event: 'bounce',
+        timestamp: 1792400000,
+        email: 'investors@example.com',
+        reason: '550 5.1.1 Unknown user',
+        url: undefined,
+      },
+    ]);
+    const [missing, text, huge] = service.parseWebhookEvents(
+      Buffer.from(
+        JSON.stringify([
+          { event: 'open' },
+          { event: 'open', timestamp: 'yesterday' },
+          { event: 'click', timestamp: 1e20 },
+        ]),
+      ),
+    );
+    expect([missing, text, huge].map((event) => event.timestamp)).toEqual([
+      undefined,
+      undefined,
+      undefined,
+    ]);
+    expect(() => service.parseWebhookEvents(Buffer.from('[{"event"'))).toThrow(
+      'SendGrid webhook payload is not valid JSON',
+    );
+  });
+});
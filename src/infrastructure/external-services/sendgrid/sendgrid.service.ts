@@ -5,74 +5,44 @@
 
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-
-export interface EmailRequest {
-  to: string | string[];
-  cc?: string | string[];
-  bcc?: string | string[];
-  subject: string;
-  text?: string;
-  html?: string;
-  attachments?: Array<{
-    content: string; // base64 encoded
-    filename: string;
-    type: string;
-    disposition?: 'attachment' | 'inline';
-  }>;
-  templateId?: string;
-  dynamicTemplateData?: Record<string, any>;
-  replyTo?: string;
-  sendAt?: number; // Unix timestamp for scheduled sending
-  categories?: string[];
-  customArgs?: Record<string, string>;
-}
-
-export interface EmailResponse {
-  messageId: string;
-  status: 'queued' | 'sent' | 'failed';
-  timestamp: string;
-  details?: Record<string, any>;
-}
-
-export interface EmailTemplate {
-  id: string;
-  name: string;
-  subject: string;
-  versions: Array<{
-    id: string;
-    name: string;
-    subject: string;
-    htmlContent: string;
-    plainContent: string;
-    active: boolean;
-  }>;
-}
+import { createPublicKey, createVerify, KeyObject } from 'crypto';
+import {
+  EmailRequest,
+  EmailResponse,
+  EmailTransport,
+} from '../email-transport/email-transport.interface';
+import { EmailTransportError } from '../email-transport/email-transport.error';
 
 export interface DeliveryStatus {
   messageId: string;
   event:
+    | 'processed'
+    | 'deferred'
     | 'delivered'
     | 'bounce'
     | 'dropped'
-    | 'spam_report'
+    | 'spamreport'
     | 'unsubscribe'
     | 'group_unsubscribe'
     | 'group_resubscribe'
     | 'open'
     | 'click';
-  timestamp: number;
+  timestamp?: number; // left out when the event carries no usable time
   email: string;
   reason?: string;
   url?: string;
 }
 
 @Injectable()
-export class SendGridService {
+export class SendGridService implements EmailTransport {
+  readonly name = 'sendgrid';
   private readonly logger = new Logger(SendGridService.name);
   private readonly isConfigured: boolean;
   private readonly apiKey: string;
   private readonly fromEmail: string;
   private readonly fromName: string;
+  private readonly webhookPublicKey?: KeyObject;
+  private readonly webhookToleranceSeconds: number;
 
   constructor(private readonly config: ConfigService) {
     this.apiKey = this.config.get('SENDGRID_API_KEY', '');
@@ -85,6 +55,13 @@ export class SendGridService {
       'Executive Assistant AI',
     );
     this.isConfigured = !!this.apiKey;
+    this.webhookPublicKey = this.loadWebhookPublicKey(
+      this.config.get('emailServices.sendgridWebhookPublicKey', ''),
+    );
+    this.webhookToleranceSeconds = this.config.get(
+      'emailServices.sendgridWebhookToleranceSeconds',
+      300,
+    );
 
     if (this.isConfigured) {
       this.logger.log('SendGrid service configured successfully');
@@ -107,22 +84,23 @@ export class SendGridService {
       const emailData = {
         personalizations: [
           {
-            to: Array.isArray(request.to)
-              ? request.to.map((email) => ({ email }))
-              : [{ email: request.to }],
+            to: this.toAddressList(request.to),
+            ...(request.cc && { cc: this.toAddressList(request.cc) }),
+            ...(request.bcc && { bcc: this.toAddressList(request.bcc) }),
             subject: request.subject,
+            ...(request.customArgs && { custom_args: request.customArgs }),
             ...(request.sendAt && {
               send_at: Math.floor(new Date(request.sendAt).getTime() / 1000),
             }),
           },
         ],
         from: {
-          email: this.fromEmail,
+          email: request.from || this.fromEmail,
           name: this.fromName,
         },
         content: [
           {
-            type: 'text/html',
+            type: request.html ? 'text/html' : 'text/plain',
             value: request.html || request.text || '',
           },
         ],
@@ -133,6 +111,9 @@ export class SendGridService {
               { type: 'text/html', value: request.html },
             ],
           }),
+        ...(request.replyTo && { reply_to: { email: request.replyTo } }),
+        ...(request.categories &&
+          request.categories.length > 0 && { categories: request.categories }),
         tracking_settings: {
           click_tracking: { enable: true },
           open_tracking: { enable: true },
@@ -161,7 +142,10 @@ export class SendGridService {
         this.logger.error(
           `SendGrid API error: ${response.status} ${errorText}`,
         );
-        throw new Error(`SendGrid API error: ${response.status}`);
+        throw EmailTransportError.fromHttpStatus(
+          `SendGrid API error: ${response.status}`,
+          response.status,
+        );
       }
 
       // SendGrid returns 202 with X-Message-Id header
@@ -182,103 +166,76 @@ export class SendGridService {
         },
       };
     } catch (error) {
+      // Surface the failure so the caller can record it on the message
       this.logger.error('Failed to send email via SendGrid', error.stack);
-      // Fallback to mock response for demo purposes
-      return this.getMockEmailResponse(request);
+      throw error;
     }
   }
 
-  async sendTemplateEmail(
-    templateId: string,
-    to: string | string[],
-    dynamicData: Record<string, any>,
-    options?: {
-      cc?: string | string[];
-      bcc?: string | string[];
-      replyTo?: string;
-      sendAt?: number;
-      categories?: string[];
-    },
-  ): Promise<EmailResponse> {
-    if (!this.isConfigured) {
-      return this.getMockTemplateEmailResponse(templateId, to, dynamicData);
-    }
-
-    try {
-      this.logger.log(
-        `Sending template email: ${templateId} to ${Array.isArray(to) ? to.join(', ') : to}`,
+  /**
+   * Verifies the ECDSA signature SendGrid attaches to Event Webhook requests.
+   * The signed content is the timestamp header followed by the raw body, so
+   * the body must not be re-serialized before it gets here. Requests whose
+   * timestamp is further from now than the tolerance are rejected, so a
+   * captured request cannot be replayed later.
+   */
+  verifyWebhookSignature(
+    payload: Buffer,
+    signature: string | undefined,
+    timestamp: string | undefined,
+  ): boolean {
+    if (!this.webhookPublicKey) {
+      this.logger.warn(
+        'SendGrid webhook verification key not configured, rejecting event',
       );
-
-      // In a real implementation, this would call the SendGrid API
-      return this.getMockTemplateEmailResponse(templateId, to, dynamicData);
-    } catch (error) {
-      this.logger.error(
-        'Failed to send template email via SendGrid',
-        error.stack,
-      );
-      throw new Error('Failed to send template email');
-    }
-  }
-
-  async getTemplates(): Promise<EmailTemplate[]> {
-    if (!this.isConfigured) {
-      return this.getMockTemplates();
+      return false;
     }
 
-    try {
-      this.logger.log('Fetching email templates from SendGrid');
-
-      // In a real implementation, this would call the SendGrid API
-      return this.getMockTemplates();
-    } catch (error) {
-      this.logger.error('Failed to fetch email templates', error.stack);
-      return this.getMockTemplates();
+    if (!signature || !timestamp) {
+      return false;
     }
-  }
-
-  async scheduleEmail(
-    request: EmailRequest,
-    sendAt: Date,
-  ): Promise<EmailResponse> {
-    const scheduledRequest = {
-      ...request,
-      sendAt: Math.floor(sendAt.getTime() / 1000), // Convert to Unix timestamp
-    };
-
-    return this.sendEmail(scheduledRequest);
-  }
 
-  async cancelScheduledEmail(messageId: string): Promise<boolean> {
-    if (!this.isConfigured) {
-      this.logger.log(`Mock: Cancelled scheduled email: ${messageId}`);
-      return true;
+    const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+    if (!(age <= this.webhookToleranceSeconds)) {
+      this.logger.warn(
+        `Rejecting SendGrid webhook with stale timestamp ${timestamp}`,
+      );
+      return false;
     }
 
     try {
-      this.logger.log(`Cancelling scheduled email: ${messageId}`);
-
-      // In a real implementation, this would call the SendGrid API
-      return true;
+      return createVerify('sha256')
+        .update(timestamp)
+        .update(payload)
+        .verify(this.webhookPublicKey, signature, 'base64');
     } catch (error) {
-      this.logger.error('Failed to cancel scheduled email', error.stack);
+      this.logger.warn(
+        `Malformed SendGrid webhook signature: ${error.message}`,
+      );
       return false;
     }
   }
 
-  async getDeliveryStatus(messageId: string): Promise<DeliveryStatus[]> {
-    if (!this.isConfigured) {
-      return this.getMockDeliveryStatus(messageId);
-    }
-
+  parseWebhookEvents(payload: Buffer): DeliveryStatus[] {
+    let events: any;
     try {
-      this.logger.log(`Fetching delivery status for: ${messageId}`);
-
-      // In a real implementation, this would call the SendGrid API
-      return this.getMockDeliveryStatus(messageId);
-    } catch (error) {
-      this.logger.error('Failed to fetch delivery status', error.stack);
-      return [];
+      events = JSON.parse(payload.toString('utf8'));
+    } catch {
+      throw new Error('SendGrid webhook payload is not valid JSON');
+    }
+    if (!Array.isArray(events)) {
+      throw new Error('SendGrid webhook payload must be an array of events');
     }
+
+    return events.map((event) => ({
+      // sg_message_id is the X-Message-Id returned on send plus a filter suffix
+      messageId: String(event.sg_message_id || '').split('.')[0],
+      event: event.event,
+      timestamp: this.toEventTimestamp(event.timestamp),
+      email: event.email,
+      reason: event.reason,
+      url: event.url,
+    }));
   }
 
   getStatus(): {
@@ -292,11 +249,48 @@ export class SendGridService {
       configured: this.isConfigured,
       fromEmail: this.fromEmail,
       fromName: this.fromName,
-      features: ['send', 'templates', 'scheduling', 'tracking', 'webhooks'],
+      features: ['send', 'scheduling', 'tracking', 'webhooks'],
       lastCheck: new Date().toISOString(),
     };
   }
 
+  // Unix seconds that make a valid date, as anything else breaks serializing
+  private toEventTimestamp(value: unknown): number | undefined {
+    return typeof value === 'number' && !isNaN(new Date(value * 1000).getTime())
+      ? value
+      : undefined;
+  }
+
+  private loadWebhookPublicKey(key: string): KeyObject | undefined {
+    if (!key) {
+      return undefined;
+    }
+
+    try {
+      // SendGrid shows the key as base64 DER; a full PEM is accepted as well
+      return key.includes('BEGIN PUBLIC KEY')
+        ? createPublicKey(key)
+        : createPublicKey({
+            key: Buffer.from(key, 'base64'),
+            format: 'der',
+            type: 'spki',
+          });
+    } catch (error) {
+      this.logger.error(
+        `Invalid SendGrid webhook verification key: ${error.message}`,
+      );
+      return undefined;
+    }
+  }
+
+  private toAddressList(
+    addresses: string | string[],
+  ): Array<{ email: string }> {
+    return (Array.isArray(addresses) ? addresses : [addresses]).map(
+      (email) => ({ email }),
+    );
+  }
+
   private getMockEmailResponse(request: EmailRequest): EmailResponse {
     const messageId = `mock_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
@@ -311,204 +305,4 @@ export class SendGridService {
       },
     };
   }
-
-  private getMockTemplateEmailResponse(
-    templateId: string,
-    to: string | string[],
-    dynamicData: Record<string, any>,
-  ): EmailResponse {
-    const messageId = `mock_template_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-    return {
-      messageId,
-      status: 'queued',
-      timestamp: new Date().toISOString(),
-      details: {
-        templateId,
-        to,
-        dynamicData,
-      },
-    };
-  }
-
-  private getMockTemplates(): EmailTemplate[] {
-    return [
-      {
-        id: 'template_meeting_reminder',
-        name: 'Meeting Reminder',
-        subject: 'Reminder: {{meeting_title}} in {{time_until}}',
-        versions: [
-          {
-            id: 'version_1',
-            name: 'Default',
-            subject: 'Reminder: {{meeting_title}} in {{time_until}}',
-            htmlContent: `
-              <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-                <h2 style="color: #333;">Meeting Reminder</h2>
-                <p>Hi {{attendee_name}},</p>
-                <p>This is a friendly reminder about your upcoming meeting:</p>
-                <div style="background: #f5f5f5; padding: 20px; border-radius: 5px; margin: 20px 0;">
-                  <h3 style="margin: 0 0 10px 0; color: #2c5aa0;">{{meeting_title}}</h3>
-                  <p style="margin: 5px 0;"><strong>Date:</strong> {{meeting_date}}</p>
-                  <p style="margin: 5px 0;"><strong>Time:</strong> {{meeting_time}}</p>
-                  <p style="margin: 5px 0;"><strong>Duration:</strong> {{meeting_duration}}</p>
-                  {{#if meeting_location}}<p style="margin: 5px 0;"><strong>Location:</strong> {{meeting_location}}</p>{{/if}}
-                  {{#if meeting_url}}<p style="margin: 5px 0;"><strong>Join URL:</strong> <a href="{{meeting_url}}">{{meeting_url}}</a></p>{{/if}}
-                </div>
-                {{#if meeting_agenda}}
-                <h4>Agenda:</h4>
-                <ul>
-                  {{#each meeting_agenda}}
-                  <li>{{this}}</li>
-                  {{/each}}
-                </ul>
-                {{/if}}
-                <p>See you there!</p>
-                <p>Best regards,<br>Executive Assistant AI</p>
-              </div>
-            `,
-            plainContent: `
-              Meeting Reminder
-              
-              Hi {{attendee_name}},
-              
-              This is a friendly reminder about your upcoming meeting:
-              
-              {{meeting_title}}
-              Date: {{meeting_date}}
-              Time: {{meeting_time}}
-              Duration: {{meeting_duration}}
-              {{#if meeting_location}}Location: {{meeting_location}}{{/if}}
-              {{#if meeting_url}}Join URL: {{meeting_url}}{{/if}}
-              
-              {{#if meeting_agenda}}
-              Agenda:
-              {{#each meeting_agenda}}
-              - {{this}}
-              {{/each}}
-              {{/if}}
-              
-              See you there!
-              
-              Best regards,
-              Executive Assistant AI
-            `,
-            active: true,
-          },
-        ],
-      },
-      {
-        id: 'template_task_reminder',
-        name: 'Task Reminder',
-        subject: 'Task Due: {{task_title}}',
-        versions: [
-          {
-            id: 'version_1',
-            name: 'Default',
-            subject: 'Task Due: {{task_title}}',
-            htmlContent: `
-              <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-                <h2 style="color: #333;">Task Reminder</h2>
-                <p>Hi {{assignee_name}},</p>
-                <p>You have a task that {{#if is_overdue}}is overdue{{else}}is due soon{{/if}}:</p>
-                <div style="background: {{#if is_overdue}}#ffebee{{else}}#f5f5f5{{/if}}; padding: 20px; border-radius: 5px; margin: 20px 0; border-left: 4px solid {{#if is_overdue}}#f44336{{else}}#2c5aa0{{/if}};">
-                  <h3 style="margin: 0 0 10px 0; color: {{#if is_overdue}}#d32f2f{{else}}#2c5aa0{{/if}};">{{task_title}}</h3>
-                  {{#if task_description}}<p style="margin: 5px 0;">{{task_description}}</p>{{/if}}
-                  <p style="margin: 5px 0;"><strong>Priority:</strong> {{task_priority}}</p>
-                  <p style="margin: 5px 0;"><strong>Due Date:</strong> {{due_date}}</p>
-                  {{#if estimated_duration}}<p style="margin: 5px 0;"><strong>Estimated Duration:</strong> {{estimated_duration}}</p>{{/if}}
-                </div>
-                <p>{{#if is_overdue}}Please prioritize this task as it's overdue.{{else}}Please make sure to complete this task on time.{{/if}}</p>
-                <p>Best regards,<br>Executive Assistant AI</p>
-              </div>
-            `,
-            plainContent: `
-              Task Reminder
-              
-              Hi {{assignee_name}},
-              
-              You have a task that {{#if is_overdue}}is overdue{{else}}is due soon{{/if}}:
-              
-              {{task_title}}
-              {{#if task_description}}{{task_description}}{{/if}}
-              Priority: {{task_priority}}
-              Due Date: {{due_date}}
-              {{#if estimated_duration}}Estimated Duration: {{estimated_duration}}{{/if}}
-              
-              {{#if is_overdue}}Please prioritize this task as it's overdue.{{else}}Please make sure to complete this task on time.{{/if}}
-              
-              Best regards,
-              Executive Assistant AI
-            `,
-            active: true,
-          },
-        ],
-      },
-      {
-        id: 'template_follow_up',
-        name: 'Follow Up Email',
-        subject: 'Following up on {{subject}}',
-        versions: [
-          {
-            id: 'version_1',
-            name: 'Default',
-            subject: 'Following up on {{subject}}',
-            htmlContent: `
-              <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-                <p>Hi {{recipient_name}},</p>
-                <p>I hope this email finds you well. I wanted to follow up on {{subject}}.</p>
-                {{#if previous_context}}<p>{{previous_context}}</p>{{/if}}
-                <p>{{follow_up_message}}</p>
-                {{#if action_required}}
-                <div style="background: #e3f2fd; padding: 15px; border-radius: 5px; margin: 20px 0;">
-                  <h4 style="margin: 0 0 10px 0; color: #1976d2;">Action Required:</h4>
-                  <p style="margin: 0;">{{action_required}}</p>
-                </div>
-                {{/if}}
-                <p>Please let me know if you have any questions or if there's anything I can help with.</p>
-                <p>Best regards,<br>{{sender_name}}</p>
-              </div>
-            `,
-            plainContent: `
-              Hi {{recipient_name}},
-              
-              I hope this email finds you well. I wanted to follow up on {{subject}}.
-              
-              {{#if previous_context}}{{previous_context}}{{/if}}
-              
-              {{follow_up_message}}
-              
-              {{#if action_required}}
-              Action Required:
-              {{action_required}}
-              {{/if}}
-              
-              Please let me know if you have any questions or if there's anything I can help with.
-              
-              Best regards,
-              {{sender_name}}
-            `,
-            active: true,
-          },
-        ],
-      },
-    ];
-  }
-
-  private getMockDeliveryStatus(messageId: string): DeliveryStatus[] {
-    return [
-      {
-        messageId,
-        event: 'delivered',
-        timestamp: Date.now() - 3600000, // 1 hour ago
-        email: 'recipient@example.com',
-      },
-      {
-        messageId,
-        event: 'open',
-        timestamp: Date.now() - 1800000, // 30 minutes ago
-        email: 'recipient@example.com',
-      },
-    ];
-  }
 }
@@ -0,0 +1,26 @@
+/**
+ * Email Repository Provider - Infrastructure Layer
+ * Selects the email repository implementation from persistence configuration
+ */
+
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DomainEventDispatcher } from '../events/domain-event-dispatcher';
+import { InMemoryEmailRepository } from './in-memory/email.repository.impl';
+import { SqliteEmailRepository } from './sqlite/email.repository.impl';
+import { EmailRepository } from '../../domain/repositories/email.repository';
+
+export const EmailRepositoryProvider: Provider = {
+  provide: 'EmailRepository',
+  useFactory: (
+    config: ConfigService,
+    eventDispatcher: DomainEventDispatcher,
+  ): EmailRepository => {
+    if (config.get('persistence.emailRepository') === 'database') {
+      return new SqliteEmailRepository(config, eventDispatcher);
+    }
+
+    return new InMemoryEmailRepository(eventDispatcher);
+  },
+  inject: [ConfigService, DomainEventDispatcher],
+};
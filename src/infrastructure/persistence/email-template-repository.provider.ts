@@ -0,0 +1,26 @@
+/**
+ * Email Template Repository Provider - Infrastructure Layer
+ * Selects the email template repository implementation from persistence configuration
+ */
+
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DomainEventDispatcher } from '../events/domain-event-dispatcher';
+import { InMemoryEmailTemplateRepository } from './in-memory/email-template.repository.impl';
+import { SqliteEmailTemplateRepository } from './sqlite/email-template.repository.impl';
+import { EmailTemplateRepository } from '../../domain/repositories/email-template.repository';
+
+export const EmailTemplateRepositoryProvider: Provider = {
+  provide: 'EmailTemplateRepository',
+  useFactory: (
+    config: ConfigService,
+    eventDispatcher: DomainEventDispatcher,
+  ): EmailTemplateRepository => {
+    if (config.get('persistence.emailTemplateRepository') === 'database') {
+      return new SqliteEmailTemplateRepository(config, eventDispatcher);
+    }
+
+    return new InMemoryEmailTemplateRepository(eventDispatcher);
+  },
+  inject: [ConfigService, DomainEventDispatcher],
+};
@@ -0,0 +1,26 @@
+/**
+ * Escalation Repository Provider - Infrastructure Layer
+ * Selects the escalation log implementation from persistence configuration
+ */
+
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DomainEventDispatcher } from '../events/domain-event-dispatcher';
+import { InMemoryEscalationRepository } from './in-memory/escalation.repository.impl';
+import { SqliteEscalationRepository } from './sqlite/escalation.repository.impl';
+import { EscalationRepository } from '../../domain/repositories/escalation.repository';
+
+export const EscalationRepositoryProvider: Provider = {
+  provide: 'EscalationRepository',
+  useFactory: (
+    config: ConfigService,
+    eventDispatcher: DomainEventDispatcher,
+  ): EscalationRepository => {
+    if (config.get('persistence.escalationRepository') === 'database') {
+      return new SqliteEscalationRepository(config, eventDispatcher);
+    }
+
+    return new InMemoryEscalationRepository(eventDispatcher);
+  },
+  inject: [ConfigService, DomainEventDispatcher],
+};
@@ -0,0 +1,26 @@
+/**
+ * Escalation Rule Repository Provider - Infrastructure Layer
+ * Selects the escalation rule repository implementation from persistence configuration
+ */
+
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DomainEventDispatcher } from '../events/domain-event-dispatcher';
+import { InMemoryEscalationRuleRepository } from './in-memory/escalation-rule.repository.impl';
+import { SqliteEscalationRuleRepository } from './sqlite/escalation-rule.repository.impl';
+import { EscalationRuleRepository } from '../../domain/repositories/escalation-rule.repository';
+
+export const EscalationRuleRepositoryProvider: Provider = {
+  provide: 'EscalationRuleRepository',
+  useFactory: (
+    config: ConfigService,
+    eventDispatcher: DomainEventDispatcher,
+  ): EscalationRuleRepository => {
+    if (config.get('persistence.escalationRepository') === 'database') {
+      return new SqliteEscalationRuleRepository(config, eventDispatcher);
+    }
+
+    return new InMemoryEscalationRuleRepository(eventDispatcher);
+  },
+  inject: [ConfigService, DomainEventDispatcher],
+};
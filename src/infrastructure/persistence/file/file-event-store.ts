@@ -0,0 +1,107 @@
+/**
+ * File Event Store - Infrastructure Layer
+ * Durable, append-only JSON Lines log of every published domain event
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { DomainEvent } from '../../../domain/common/domain-events';
+import {
+  EventMetadata,
+  EventStore,
+  StoredEvent,
+} from '../../../domain/repositories/event-store.repository';
+
+@Injectable()
+export class FileEventStore implements EventStore {
+  private readonly logger = new Logger(FileEventStore.name);
+  private readonly filePath: string;
+  private loading?: Promise<StoredEvent[]>;
+  private writeQueue: Promise<void> = Promise.resolve();
+  // Set when the log ends in a partially written line
+  private startNewLine = false;
+
+  constructor(private readonly config: ConfigService) {
+    this.filePath = resolve(
+      this.config.get('persistence.eventStorePath', 'data/event-store.jsonl'),
+    );
+  }
+
+  async append(
+    event: DomainEvent,
+    metadata?: EventMetadata,
+  ): Promise<StoredEvent> {
+    const events = await this.load();
+
+    const storedEvent: StoredEvent = {
+      sequence: events.length + 1,
+      eventId: event.eventId,
+      aggregateId: event.aggregateId,
+      eventType: event.eventType,
+      occurredOn: new Date(event.occurredOn).toISOString(),
+      eventData: event.eventData,
+      ...(metadata ? { metadata } : {}),
+    };
+    events.push(storedEvent);
+
+    // Serialize writes so the file order always matches the sequence numbers
+    const write = this.writeQueue.then(async () => {
+      const line = `${JSON.stringify(storedEvent)}\n`;
+      await appendFile(
+        this.filePath,
+        this.startNewLine ? `\n${line}` : line,
+        'utf8',
+      );
+      this.startNewLine = false;
+    });
+    this.writeQueue = write.catch(() => undefined);
+    await write;
+
+    return storedEvent;
+  }
+
+  async findByAggregateId(aggregateId: string): Promise<StoredEvent[]> {
+    const events = await this.load();
+    return events
+      .filter((event) => event.aggregateId === aggregateId)
+      .sort((a, b) => a.sequence - b.sequence);
+  }
+
+  private load(): Promise<StoredEvent[]> {
+    if (!this.loading) {
+      this.loading = this.readEventLog();
+    }
+    return this.loading;
+  }
+
+  private async readEventLog(): Promise<StoredEvent[]> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+
+    let content: string;
+    try {
+      content = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        this.logger.log(`Creating event store at ${this.filePath}`);
+        return [];
+      }
+      throw error;
+    }
+
+    const events: StoredEvent[] = [];
+    this.startNewLine = content.length > 0 && !content.endsWith('\n');
+    content.split('\n').forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        events.push(JSON.parse(line));
+      } catch {
+        this.logger.warn(`Skipping malformed event log line ${index + 1}`);
+      }
+    });
+
+    this.logger.log(`Loaded ${events.length} events from ${this.filePath}`);
+    return events;
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * In-Memory Email Template Repository Implementation - Infrastructure Layer
+ * Concrete implementation of email template repository for development/testing
+ */
+
+import { Injectable } from '@nestjs/common';
+import { EmailTemplateRepository } from '../../../domain/repositories/email-template.repository';
+import { EmailTemplate } from '../../../domain/entities/email-template.entity';
+import { DomainEventDispatcher } from '../../events/domain-event-dispatcher';
+
+@Injectable()
+export class InMemoryEmailTemplateRepository
+  implements EmailTemplateRepository
+{
+  private templates: Map<string, EmailTemplate> = new Map();
+
+  constructor(private readonly eventDispatcher: DomainEventDispatcher) {}
+
+  async findById(id: string): Promise<EmailTemplate | null> {
+    return this.templates.get(id) || null;
+  }
+
+  async save(template: EmailTemplate): Promise<void> {
+    this.templates.set(template.id, template);
+    await this.eventDispatcher.dispatchEventsForAggregate(template);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.templates.delete(id);
+  }
+
+  async findByName(name: string): Promise<EmailTemplate | null> {
+    return (
+      Array.from(this.templates.values()).find(
+        (template) => template.name === name,
+      ) || null
+    );
+  }
+
+  async findAll(): Promise<EmailTemplate[]> {
+    return Array.from(this.templates.values()).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }
+
+  async findPartials(): Promise<EmailTemplate[]> {
+    return (await this.findAll()).filter((template) => template.isPartial);
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * In-Memory Email Repository Implementation - Infrastructure Layer
+ * Concrete implementation of email repository for development/testing
+ */
+
+import { Injectable } from '@nestjs/common';
+import {
+  EmailRepository,
+  EmailQueryOptions,
+  EmailFilters,
+} from '../../../domain/repositories/email.repository';
+import { EmailMessage } from '../../../domain/entities/email.entity';
+import { QueryResult } from '../../../domain/common/repository.interface';
+import { DomainEventDispatcher } from '../../events/domain-event-dispatcher';
+
+@Injectable()
+export class InMemoryEmailRepository implements EmailRepository {
+  private emails: Map<string, EmailMessage> = new Map();
+
+  constructor(private readonly eventDispatcher: DomainEventDispatcher) {}
+
+  async findById(id: string): Promise<EmailMessage | null> {
+    return this.emails.get(id) || null;
+  }
+
+  async save(email: EmailMessage): Promise<void> {
+    this.emails.set(email.id, email);
+    await this.eventDispatcher.dispatchEventsForAggregate(email);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.emails.delete(id);
+  }
+
+  async findByStatus(
+    status: 'draft' | 'scheduled' | 'sending' | 'sent' | 'failed' | 'cancelled',
+  ): Promise<EmailMessage[]> {
+    return Array.from(this.emails.values()).filter(
+      (email) => email.status === status,
+    );
+  }
+
+  async findBySender(senderEmail: string): Promise<EmailMessage[]> {
+    return Array.from(this.emails.values()).filter(
+      (email) => email.sender.value === senderEmail.toLowerCase(),
+    );
+  }
+
+  async findByRecipient(recipientEmail: string): Promise<EmailMessage[]> {
+    return Array.from(this.emails.values()).filter((email) =>
+      this.hasRecipient(email, recipientEmail),
+    );
+  }
+
+  async findScheduledEmails(): Promise<EmailMessage[]> {
+    return Array.from(this.emails.values())
+      .filter((email) => email.isScheduled)
+      .sort((a, b) => a.scheduledAt!.getTime() - b.scheduledAt!.getTime());
+  }
+
+  async findEmailsDueForSending(): Promise<EmailMessage[]> {
+    const now = new Date();
+
+    return (await this.findScheduledEmails()).filter(
+      (email) => email.scheduledAt! <= now,
+    );
+  }
+
+  async findByTags(tags: string[]): Promise<EmailMessage[]> {
+    return Array.from(this.emails.values()).filter((email) =>
+      tags.some((tag) => email.tags.includes(tag.toLowerCase())),
+    );
+  }
+
+  async findByPriority(
+    priority: 'low' | 'normal' | 'high',
+  ): Promise<EmailMessage[]> {
+    return Array.from(this.emails.values()).filter(
+      (email) => email.priority === priority,
+    );
+  }
+
+  async findByExternalId(externalId: string): Promise<EmailMessage | null> {
+    return (
+      Array.from(this.emails.values()).find(
+        (email) => email.externalId === externalId,
+      ) || null
+    );
+  }
+
+  async findMany(
+    options?: EmailQueryOptions,
+  ): Promise<QueryResult<EmailMessage>> {
+    let emails = Array.from(this.emails.values());
+
+    // Apply filters
+    if (options?.filters) {
+      emails = this.applyFilters(emails, options.filters);
+    }
+
+    // Apply sorting
+    emails = this.applySorting(
+      emails,
+      options?.sortBy || 'createdAt',
+      options?.sortOrder || 'desc',
+    );
+
+    // Calculate total before pagination
+    const total = emails.length;
+
+    // Apply pagination
+    const offset = options?.offset || 0;
+    const limit = options?.limit || 20;
+    const paginatedEmails = emails.slice(offset, offset + limit);
+    const hasMore = offset + limit < total;
+
+    return {
+      items: paginatedEmails,
+      total,
+      hasMore,
+    };
+  }
+
+  async getEmailAnalytics(): Promise<{
+    total: number;
+    sent: number;
+    failed: number;
+    scheduled: number;
+    deliveryRate: number;
+    bounceRate: number;
+    spamRate: number;
+    openRate: number;
+    clickRate: number;
+    byStatus: Record<string, number>;
+    byPriority: Record<string, number>;
+  }> {
+    const emails = Array.from(this.emails.values());
+    const byStatus: Record<string, number> = {
+      draft: 0,
+      scheduled: 0,
+      sending: 0,
+      sent: 0,
+      failed: 0,
+      cancelled: 0,
+    };
+    const byPriority: Record<string, number> = {
+      low: 0,
+      normal: 0,
+      high: 0,
+    };
+
+    for (const email of emails) {
+      byStatus[email.status]++;
+      byPriority[email.priority]++;
+    }
+
+    const sent = byStatus.sent;
+    const spam = emails.filter((e) => e.deliveryStatus === 'spam').length;
+    // A spam report means the email reached the inbox first
+    const delivered =
+      emails.filter((e) => e.deliveryStatus === 'delivered').length + spam;
+    const bounced = emails.filter((e) => e.deliveryStatus === 'bounced').length;
+    const opened = emails.filter((e) => e.openedAt).length;
+    const clicked = emails.filter((e) => e.clickedAt).length;
+
+    return {
+      total: emails.length,
+      sent,
+      failed: byStatus.failed,
+      scheduled: byStatus.scheduled,
+      deliveryRate: sent > 0 ? (delivered / sent) * 100 : 0,
+      bounceRate: sent > 0 ? (bounced / sent) * 100 : 0,
+      spamRate: sent > 0 ? (spam / sent) * 100 : 0,
+      openRate: sent > 0 ? (opened / sent) * 100 : 0,
+      clickRate: sent > 0 ? (clicked / sent) * 100 : 0,
+      byStatus,
+      byPriority,
+    };
+  }
+
+  private hasRecipient(email: EmailMessage, address: string): boolean {
+    const normalizedAddress = address.toLowerCase();
+    return email.recipients.some((r) => r.email.value === normalizedAddress);
+  }
+
+  private applyFilters(
+    emails: EmailMessage[],
+    filters: EmailFilters,
+  ): EmailMessage[] {
+    return emails.filter((email) => {
+      if (filters.status && email.status !== filters.status) {
+        return false;
+      }
+
+      if (
+        filters.sender &&
+        email.sender.value !== filters.sender.toLowerCase()
+      ) {
+        return false;
+      }
+
+      if (filters.recipient && !this.hasRecipient(email, filters.recipient)) {
+        return false;
+      }
+
+      if (filters.priority && email.priority !== filters.priority) {
+        return false;
+      }
+
+      if (filters.tags && filters.tags.length > 0) {
+        const hasMatchingTag = filters.tags.some((tag) =>
+          email.tags.includes(tag.toLowerCase()),
+        );
+        if (!hasMatchingTag) {
+          return false;
+        }
+      }
+
+      if (
+        filters.scheduledFrom &&
+        (!email.scheduledAt || email.scheduledAt < filters.scheduledFrom)
+      ) {
+        return false;
+      }
+
+      if (
+        filters.scheduledTo &&
+        (!email.scheduledAt || email.scheduledAt > filters.scheduledTo)
+      ) {
+        return false;
+      }
+
+      if (
+        filters.sentFrom &&
+        (!email.sentAt || email.sentAt < filters.sentFrom)
+      ) {
+        return false;
+      }
+
+      if (filters.sentTo && (!email.sentAt || email.sentAt > filters.sentTo)) {
+        return false;
+      }
+
+      if (
+        filters.hasAttachments !== undefined &&
+        email.attachments.length > 0 !== filters.hasAttachments
+      ) {
+        return false;
+      }
+
+      if (
+        filters.deliveryStatus &&
+        email.deliveryStatus !== filters.deliveryStatus
+      ) {
+        return false;
+      }
+
+      return true;
+    });
+  }
+
+  private applySorting(
+    emails: EmailMessage[],
+    sortBy: string,
+    sortOrder: 'asc' | 'desc',
+  ): EmailMessage[] {
+    const time = (date?: Date) => date?.getTime() ?? 0;
+
+    return emails.sort((a, b) => {
+      let comparison = 0;
+
+      switch (sortBy) {
+        case 'subject':
+          comparison = a.subject.localeCompare(b.subject);
+          break;
+        case 'scheduledAt':
+          comparison = time(a.scheduledAt) - time(b.scheduledAt);
+          break;
+        case 'sentAt':
+          comparison = time(a.sentAt) - time(b.sentAt);
+          break;
+        case 'updatedAt':
+          comparison = time(a.updatedAt) - time(b.updatedAt);
+          break;
+        case 'createdAt':
+        default:
+          comparison = time(a.createdAt) - time(b.createdAt);
+          break;
+      }
+
+      return sortOrder === 'desc' ? -comparison : comparison;
+    });
+  }
+}
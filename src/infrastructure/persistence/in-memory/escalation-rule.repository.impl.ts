@@ -0,0 +1,45 @@
+/**
+ * In-Memory Escalation Rule Repository Implementation - Infrastructure Layer
+ * Concrete implementation of escalation rule repository for development/testing
+ */
+
+import { Injectable } from '@nestjs/common';
+import { EscalationRuleRepository } from '../../../domain/repositories/escalation-rule.repository';
+import { EscalationRule } from '../../../domain/entities/escalation-rule.entity';
+import { DomainEventDispatcher } from '../../events/domain-event-dispatcher';
+
+@Injectable()
+export class InMemoryEscalationRuleRepository
+  implements EscalationRuleRepository
+{
+  private rules: Map<string, EscalationRule> = new Map();
+
+  constructor(private readonly eventDispatcher: DomainEventDispatcher) {}
+
+  async findById(id: string): Promise<EscalationRule | null> {
+    return this.rules.get(id) || null;
+  }
+
+  async save(rule: EscalationRule): Promise<void> {
+    this.rules.set(rule.id, rule);
+    await this.eventDispatcher.dispatchEventsForAggregate(rule);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.rules.delete(id);
+  }
+
+  async findByName(name: string): Promise<EscalationRule | null> {
+    return (
+      Array.from(this.rules.values()).find(
+        (rule) => rule.name.toLowerCase() === name.toLowerCase(),
+      ) || null
+    );
+  }
+
+  async findAll(): Promise<EscalationRule[]> {
+    return Array.from(this.rules.values()).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * In-Memory Escalation Repository Implementation - Infrastructure Layer
+ * Concrete implementation of the escalation log for development/testing
+ */
+
+import { Injectable } from '@nestjs/common';
+import {
+  EscalationQueryOptions,
+  EscalationRepository,
+} from '../../../domain/repositories/escalation.repository';
+import { Escalation } from '../../../domain/entities/escalation.entity';
+import { DomainEventDispatcher } from '../../events/domain-event-dispatcher';
+
+@Injectable()
+export class InMemoryEscalationRepository implements EscalationRepository {
+  private escalations: Map<string, Escalation> = new Map();
+
+  constructor(private readonly eventDispatcher: DomainEventDispatcher) {}
+
+  async findById(id: string): Promise<Escalation | null> {
+    return this.escalations.get(id) || null;
+  }
+
+  async save(escalation: Escalation): Promise<void> {
+    this.escalations.set(escalation.id, escalation);
+    await this.eventDispatcher.dispatchEventsForAggregate(escalation);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.escalations.delete(id);
+  }
+
+  async findMany(options: EscalationQueryOptions = {}): Promise<Escalation[]> {
+    const escalations = Array.from(this.escalations.values())
+      .filter(
+        (escalation) =>
+          (!options.ruleId || escalation.ruleId === options.ruleId) &&
+          (!options.taskId || escalation.taskId === options.taskId),
+      )
+      .sort((a, b) => b.firedAt.getTime() - a.firedAt.getTime());
+    return options.limit ? escalations.slice(0, options.limit) : escalations;
+  }
+
+  async findLatest(ruleId: string, taskId: string): Promise<Escalation | null> {
+    const [latest] = await this.findMany({ ruleId, taskId, limit: 1 });
+    return latest || null;
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * In-Memory Meeting Repository Implementation - Infrastructure Layer
+ * Concrete implementation of meeting repository for development/testing
+ */
+
+import { Injectable } from '@nestjs/common';
+import {
+  MeetingRepository,
+  MeetingQueryOptions,
+  MeetingFilters,
+} from '../../../domain/repositories/meeting.repository';
+import { Meeting } from '../../../domain/entities/meeting.entity';
+import { DateRange } from '../../../domain/common/value-objects';
+import { QueryResult } from '../../../domain/common/repository.interface';
+import { DomainEventDispatcher } from '../../events/domain-event-dispatcher';
+
+@Injectable()
+export class InMemoryMeetingRepository implements MeetingRepository {
+  private meetings: Map<string, Meeting> = new Map();
+
+  constructor(private readonly eventDispatcher: DomainEventDispatcher) {}
+
+  async findById(id: string): Promise<Meeting | null> {
+    return this.meetings.get(id) || null;
+  }
+
+  async save(meeting: Meeting): Promise<void> {
+    this.meetings.set(meeting.id, meeting);
+    await this.eventDispatcher.dispatchEventsForAggregate(meeting);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.meetings.delete(id);
+  }
+
+  async findByDateRange(dateRange: DateRange): Promise<Meeting[]> {
+    return Array.from(this.meetings.values()).filter((meeting) =>
+      meeting.dateRange.overlaps(dateRange),
+    );
+  }
+
+  async findByOrganizer(organizerEmail: string): Promise<Meeting[]> {
+    return Array.from(this.meetings.values()).filter(
+      (meeting) => meeting.organizer.value === organizerEmail.toLowerCase(),
+    );
+  }
+
+  async findByAttendee(attendeeEmail: string): Promise<Meeting[]> {
+    return Array.from(this.meetings.values()).filter((meeting) =>
+      this.hasAttendee(meeting, attendeeEmail),
+    );
+  }
+
+  async findUpcomingMeetings(days: number = 7): Promise<Meeting[]> {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() + days);
+
+    return Array.from(this.meetings.values())
+      .filter(
+        (meeting) =>
+          meeting.isUpcoming && meeting.dateRange.startDate <= cutoffDate,
+      )
+      .sort(
+        (a, b) =>
+          a.dateRange.startDate.getTime() - b.dateRange.startDate.getTime(),
+      );
+  }
+
+  async findConflictingMeetings(
+    dateRange: DateRange,
+    excludeMeetingId?: string,
+  ): Promise<Meeting[]> {
+    return Array.from(this.meetings.values()).filter(
+      (meeting) =>
+        meeting.id !== excludeMeetingId &&
+        (meeting.status === 'scheduled' || meeting.status === 'in-progress') &&
+        meeting.dateRange.overlaps(dateRange),
+    );
+  }
+
+  async findByStatus(
+    status: 'scheduled' | 'in-progress' | 'completed' | 'cancelled',
+  ): Promise<Meeting[]> {
+    return Array.from(this.meetings.values()).filter(
+      (meeting) => meeting.status === status,
+    );
+  }
+
+  async findRecurringMeetings(): Promise<Meeting[]> {
+    return Array.from(this.meetings.values()).filter(
+      (meeting) => meeting.isRecurring,
+    );
+  }
+
+  async searchMeetings(query: string): Promise<Meeting[]> {
+    const term = query.trim().toLowerCase();
+    if (!term) {
+      return [];
+    }
+
+    return Array.from(this.meetings.values()).filter((meeting) =>
+      [
+        meeting.title,
+        meeting.description,
+        meeting.location,
+        ...meeting.agenda,
+      ].some((text) => text?.toLowerCase().includes(term)),
+    );
+  }
+
+  async findMany(options?: MeetingQueryOptions): Promise<QueryResult<Meeting>> {
+    let meetings = Array.from(this.meetings.values());
+
+    // Apply filters
+    if (options?.filters) {
+      meetings = this.applyFilters(meetings, options.filters);
+    }
+
+    // Apply sorting
+    meetings = this.applySorting(
+      meetings,
+      options?.sortBy || 'startDate',
+      options?.sortOrder || 'asc',
+    );
+
+    // Calculate total before pagination
+    const total = meetings.length;
+
+    // Apply pagination
+    const offset = options?.offset || 0;
+    const limit = options?.limit || 20;
+    const paginatedMeetings = meetings.slice(offset, offset + limit);
+    const hasMore = offset + limit < total;
+
+    return {
+      items: paginatedMeetings,
+      total,
+      hasMore,
+    };
+  }
+
+  async getMeetingAnalytics(): Promise<{
+    total: number;
+    upcoming: number;
+    completed: number;
+    cancelled: number;
+    averageDuration: number;
+    byType: Record<string, number>;
+    byStatus: Record<string, number>;
+  }> {
+    const meetings = Array.from(this.meetings.values());
+    const byType: Record<string, number> = {
+      'in-person': 0,
+      virtual: 0,
+      hybrid: 0,
+    };
+    const byStatus: Record<string, number> = {
+      scheduled: 0,
+      'in-progress': 0,
+      completed: 0,
+      cancelled: 0,
+    };
+
+    for (const meeting of meetings) {
+      byType[meeting.meetingType]++;
+      byStatus[meeting.status]++;
+    }
+
+    const totalDuration = meetings.reduce(
+      (sum, meeting) => sum + meeting.dateRange.durationInMinutes,
+      0,
+    );
+
+    return {
+      total: meetings.length,
+      upcoming: meetings.filter((m) => m.isUpcoming).length,
+      completed: byStatus.completed,
+      cancelled: byStatus.cancelled,
+      averageDuration:
+        meetings.length > 0 ? totalDuration / meetings.length : 0, // in minutes
+      byType,
+      byStatus,
+    };
+  }
+
+  private hasAttendee(meeting: Meeting, email: string): boolean {
+    const normalizedEmail = email.toLowerCase();
+    return meeting.attendees.some((a) => a.email.value === normalizedEmail);
+  }
+
+  private applyFilters(
+    meetings: Meeting[],
+    filters: MeetingFilters,
+  ): Meeting[] {
+    return meetings.filter((meeting) => {
+      if (filters.status && meeting.status !== filters.status) {
+        return false;
+      }
+
+      if (
+        filters.organizer &&
+        meeting.organizer.value !== filters.organizer.toLowerCase()
+      ) {
+        return false;
+      }
+
+      if (filters.attendee && !this.hasAttendee(meeting, filters.attendee)) {
+        return false;
+      }
+
+      if (filters.meetingType && meeting.meetingType !== filters.meetingType) {
+        return false;
+      }
+
+      if (filters.dateFrom && meeting.dateRange.endDate < filters.dateFrom) {
+        return false;
+      }
+
+      if (filters.dateTo && meeting.dateRange.startDate > filters.dateTo) {
+        return false;
+      }
+
+      if (
+        filters.isRecurring !== undefined &&
+        meeting.isRecurring !== filters.isRecurring
+      ) {
+        return false;
+      }
+
+      return true;
+    });
+  }
+
+  private applySorting(
+    meetings: Meeting[],
+    sortBy: string,
+    sortOrder: 'asc' | 'desc',
+  ): Meeting[] {
+    return meetings.sort((a, b) => {
+      let comparison = 0;
+
+      switch (sortBy) {
+        case 'title':
+          comparison = a.title.localeCompare(b.title);
+          break;
+        case 'createdAt':
+          comparison = a.createdAt.getTime() - b.createdAt.getTime();
+          break;
+        case 'updatedAt':
+          comparison = a.updatedAt.getTime() - b.updatedAt.getTime();
+          break;
+        case 'startDate':
+        default:
+          comparison =
+            a.dateRange.startDate.getTime() - b.dateRange.startDate.getTime();
+          break;
+      }
+
+      return sortOrder === 'desc' ? -comparison : comparison;
+    });
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * In-Memory Prioritization Profile Repository Implementation - Infrastructure Layer
+ * Concrete implementation of prioritization profile repository for development/testing
+ */
+
+import { Injectable } from '@nestjs/common';
+import { PrioritizationProfileRepository } from '../../../domain/repositories/prioritization-profile.repository';
+import { PrioritizationProfile } from '../../../domain/entities/prioritization-profile.entity';
+import { DomainEventDispatcher } from '../../events/domain-event-dispatcher';
+
+@Injectable()
+export class InMemoryPrioritizationProfileRepository
+  implements PrioritizationProfileRepository
+{
+  private profiles: Map<string, PrioritizationProfile> = new Map();
+
+  constructor(private readonly eventDispatcher: DomainEventDispatcher) {}
+
+  async findById(id: string): Promise<PrioritizationProfile | null> {
+    return this.profiles.get(id) || null;
+  }
+
+  async save(profile: PrioritizationProfile): Promise<void> {
+    this.profiles.set(profile.id, profile);
+    await this.eventDispatcher.dispatchEventsForAggregate(profile);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.profiles.delete(id);
+  }
+
+  async findByName(name: string): Promise<PrioritizationProfile | null> {
+    return (
+      Array.from(this.profiles.values()).find(
+        (profile) => profile.name.toLowerCase() === name.toLowerCase(),
+      ) || null
+    );
+  }
+
+  async findAll(): Promise<PrioritizationProfile[]> {
+    return Array.from(this.profiles.values()).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }
+}
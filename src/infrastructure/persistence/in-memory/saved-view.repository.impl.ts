@@ -0,0 +1,43 @@
+/**
+ * In-Memory Saved View Repository Implementation - Infrastructure Layer
+ * Concrete implementation of saved view repository for development/testing
+ */
+
+import { Injectable } from '@nestjs/common';
+import { SavedViewRepository } from '../../../domain/repositories/saved-view.repository';
+import { SavedView } from '../../../domain/entities/saved-view.entity';
+import { DomainEventDispatcher } from '../../events/domain-event-dispatcher';
+
+@Injectable()
+export class InMemorySavedViewRepository implements SavedViewRepository {
+  private views: Map<string, SavedView> = new Map();
+
+  constructor(private readonly eventDispatcher: DomainEventDispatcher) {}
+
+  async findById(id: string): Promise<SavedView | null> {
+    return this.views.get(id) || null;
+  }
+
+  async save(view: SavedView): Promise<void> {
+    this.views.set(view.id, view);
+    await this.eventDispatcher.dispatchEventsForAggregate(view);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.views.delete(id);
+  }
+
+  async findByName(name: string): Promise<SavedView | null> {
+    return (
+      Array.from(this.views.values()).find(
+        (view) => view.name.toLowerCase() === name.toLowerCase(),
+      ) || null
+    );
+  }
+
+  async findAll(): Promise<SavedView[]> {
+    return Array.from(this.views.values()).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }
+}
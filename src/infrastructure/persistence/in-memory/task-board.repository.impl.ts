@@ -0,0 +1,40 @@
+/**
+ * In-Memory Task Board Repository Implementation - Infrastructure Layer
+ * Concrete implementation of task board repository for development/testing
+ */
+
+import { Injectable } from '@nestjs/common';
+import {
+  TaskBoardConflictError,
+  TaskBoardRepository,
+} from '../../../domain/repositories/task-board.repository';
+import { TaskBoard } from '../../../domain/entities/task-board.entity';
+import { DomainEventDispatcher } from '../../events/domain-event-dispatcher';
+
+// Keeps copies, so boards read at the same time conflict as in a database
+@Injectable()
+export class InMemoryTaskBoardRepository implements TaskBoardRepository {
+  private boards: Map<string, Record<string, any>> = new Map();
+
+  constructor(private readonly eventDispatcher: DomainEventDispatcher) {}
+
+  async findById(id: string): Promise<TaskBoard | null> {
+    const json = this.boards.get(id);
+    return json ? TaskBoard.fromJSON(json) : null;
+  }
+
+  async save(board: TaskBoard): Promise<void> {
+    const stored = this.boards.get(board.id);
+    if (stored?.updatedAt !== board.storedUpdatedAt?.toISOString()) {
+      throw new TaskBoardConflictError(board.id);
+    }
+
+    this.boards.set(board.id, board.toJSON());
+    board.markAsStored();
+    await this.eventDispatcher.dispatchEventsForAggregate(board);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.boards.delete(id);
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * In-Memory Task Comment Repository Implementation - Infrastructure Layer
+ * Concrete implementation of task comment repository for development/testing
+ */
+
+import { Injectable } from '@nestjs/common';
+import { TaskCommentRepository } from '../../../domain/repositories/task-comment.repository';
+import { TaskComment } from '../../../domain/entities/task-comment.entity';
+import { DomainEventDispatcher } from '../../events/domain-event-dispatcher';
+
+@Injectable()
+export class InMemoryTaskCommentRepository implements TaskCommentRepository {
+  private comments: Map<string, TaskComment> = new Map();
+
+  constructor(private readonly eventDispatcher: DomainEventDispatcher) {}
+
+  async findById(id: string): Promise<TaskComment | null> {
+    return this.comments.get(id) || null;
+  }
+
+  async save(comment: TaskComment): Promise<void> {
+    this.comments.set(comment.id, comment);
+    await this.eventDispatcher.dispatchEventsForAggregate(comment);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.comments.delete(id);
+  }
+
+  async findByTaskId(taskId: string): Promise<TaskComment[]> {
+    return Array.from(this.comments.values())
+      .filter((comment) => comment.taskId === taskId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async findWithPendingMentions(): Promise<TaskComment[]> {
+    return Array.from(this.comments.values()).filter(
+      (comment) => comment.pendingMentions.length > 0,
+    );
+  }
+
+  async deleteByTaskId(taskId: string): Promise<void> {
+    for (const comment of this.comments.values()) {
+      if (comment.taskId === taskId) {
+        this.comments.delete(comment.id);
+      }
+    }
+  }
+}
@@ -11,23 +11,28 @@ import {
 import { Task } from '../../../domain/entities/task.entity';
 import { Priority, TaskStatus } from '../../../domain/common/value-objects';
 import { QueryResult } from '../../../domain/common/repository.interface';
+import { TaskDeletedEvent } from '../../../domain/common/domain-events';
+import { DomainEventDispatcher } from '../../events/domain-event-dispatcher';
 
 @Injectable()
 export class InMemoryTaskRepository implements TaskRepository {
   private tasks: Map<string, Task> = new Map();
 
+  constructor(private readonly eventDispatcher: DomainEventDispatcher) {}
+
   async findById(id: string): Promise<Task | null> {
     return this.tasks.get(id) || null;
   }
 
   async save(task: Task): Promise<void> {
     this.tasks.set(task.id, task);
-    // In a real implementation, this would also handle domain events
-    task.markEventsAsCommitted();
+    await this.eventDispatcher.dispatchEventsForAggregate(task);
   }
 
   async delete(id: string): Promise<void> {
-    this.tasks.delete(id);
+    if (this.tasks.delete(id)) {
+      await this.eventDispatcher.dispatch([new TaskDeletedEvent(id)]);
+    }
   }
 
   async findByStatus(status: TaskStatus): Promise<Task[]> {
@@ -68,6 +73,16 @@ export class InMemoryTaskRepository implements TaskRepository {
     );
   }
 
+  async findByParentId(parentId: string): Promise<Task[]> {
+    return Array.from(this.tasks.values()).filter(
+      (task) => task.parentId === parentId,
+    );
+  }
+
+  async findAll(): Promise<Task[]> {
+    return Array.from(this.tasks.values());
+  }
+
   async findMany(options?: TaskQueryOptions): Promise<QueryResult<Task>> {
     let tasks = Array.from(this.tasks.values());
 
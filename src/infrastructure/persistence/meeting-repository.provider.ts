@@ -0,0 +1,26 @@
+/**
+ * Meeting Repository Provider - Infrastructure Layer
+ * Selects the meeting repository implementation from persistence configuration
+ */
+
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DomainEventDispatcher } from '../events/domain-event-dispatcher';
+import { InMemoryMeetingRepository } from './in-memory/meeting.repository.impl';
+import { SqliteMeetingRepository } from './sqlite/meeting.repository.impl';
+import { MeetingRepository } from '../../domain/repositories/meeting.repository';
+
+export const MeetingRepositoryProvider: Provider = {
+  provide: 'MeetingRepository',
+  useFactory: (
+    config: ConfigService,
+    eventDispatcher: DomainEventDispatcher,
+  ): MeetingRepository => {
+    if (config.get('persistence.meetingRepository') === 'database') {
+      return new SqliteMeetingRepository(config, eventDispatcher);
+    }
+
+    return new InMemoryMeetingRepository(eventDispatcher);
+  },
+  inject: [ConfigService, DomainEventDispatcher],
+};
@@ -0,0 +1,28 @@
+/**
+ * Prioritization Profile Repository Provider - Infrastructure Layer
+ * Selects the prioritization profile repository implementation from persistence configuration
+ */
+
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DomainEventDispatcher } from '../events/domain-event-dispatcher';
+import { InMemoryPrioritizationProfileRepository } from './in-memory/prioritization-profile.repository.impl';
+import { SqlitePrioritizationProfileRepository } from './sqlite/prioritization-profile.repository.impl';
+import { PrioritizationProfileRepository } from '../../domain/repositories/prioritization-profile.repository';
+
+export const PrioritizationProfileRepositoryProvider: Provider = {
+  provide: 'PrioritizationProfileRepository',
+  useFactory: (
+    config: ConfigService,
+    eventDispatcher: DomainEventDispatcher,
+  ): PrioritizationProfileRepository => {
+    if (
+      config.get('persistence.prioritizationProfileRepository') === 'database'
+    ) {
+      return new SqlitePrioritizationProfileRepository(config, eventDispatcher);
+    }
+
+    return new InMemoryPrioritizationProfileRepository(eventDispatcher);
+  },
+  inject: [ConfigService, DomainEventDispatcher],
+};
@@ -0,0 +1,26 @@
+/**
+ * Saved View Repository Provider - Infrastructure Layer
+ * Selects the saved view repository implementation from persistence configuration
+ */
+
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DomainEventDispatcher } from '../events/domain-event-dispatcher';
+import { InMemorySavedViewRepository } from './in-memory/saved-view.repository.impl';
+import { SqliteSavedViewRepository } from './sqlite/saved-view.repository.impl';
+import { SavedViewRepository } from '../../domain/repositories/saved-view.repository';
+
+export const SavedViewRepositoryProvider: Provider = {
+  provide: 'SavedViewRepository',
+  useFactory: (
+    config: ConfigService,
+    eventDispatcher: DomainEventDispatcher,
+  ): SavedViewRepository => {
+    if (config.get('persistence.savedViewRepository') === 'database') {
+      return new SqliteSavedViewRepository(config, eventDispatcher);
+    }
+
+    return new InMemorySavedViewRepository(eventDispatcher);
+  },
+  inject: [ConfigService, DomainEventDispatcher],
+};
@@ -0,0 +1,90 @@
+/**
+ * SQLite Email Repository Tests - Infrastructure Layer
+ * Verifies persistence and outbox queries of emails against SQLite
+ */
+
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { SqliteEmailRepository } from '../email.repository.impl';
+import { DomainEventDispatcher } from '../../../events/domain-event-dispatcher';
+import { EmailMessage } from '../../../../domain/entities/email.entity';
+
+describe('SqliteEmailRepository', () => {
+  let repository: SqliteEmailRepository;
+
+  const createEmail = (scheduledAt?: Date) =>
+    EmailMessage.create({
+      subject: 'Q3 investor update',
+      body: 'Numbers attached',
+      sender: 'assistant@example.com',
+      recipients: [{ email: 'investors@example.com', type: 'to' }],
+      attachments: [
+        {
+          filename: 'q3.csv',
+          content: Buffer.from('revenue,42').toString('base64'),
+          contentType: 'text/csv',
+          size: 10,
+        },
+      ],
+      scheduledAt,
+    });
+
+  beforeEach(() => {
+    repository = new SqliteEmailRepository(
+      new ConfigService({ persistence: { sqlitePath: ':memory:' } }),
+      new DomainEventDispatcher(new EventEmitter2()),
+    );
+  });
+
+  afterEach(() => {
+    repository.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it('should round-trip lifecycle state and attachment content', async () => {
+    const email = createEmail();
+    email.markAsSending();
+    email.markAsSent('sg_123');
+    email.updateDeliveryStatus('bounced');
+    await repository.save(email);
+
+    const loaded = await repository.findById(email.id);
+
+    expect(loaded!.toJSON()).toEqual(email.toJSON());
+    expect(loaded!.attachments[0].content).toBe(email.attachments[0].content);
+    expect((await repository.findByExternalId('sg_123'))!.id).toBe(email.id);
+  });
+
+  it('should return scheduled emails once they fall due', async () => {
+    const inOneHour = new Date(Date.now() + 60 * 60 * 1000);
+    const email = createEmail(inOneHour);
+    await repository.save(email);
+
+    expect(await repository.findEmailsDueForSending()).toHaveLength(0);
+    expect(await repository.findScheduledEmails()).toHaveLength(1);
+
+    jest.useFakeTimers({ now: inOneHour.getTime() + 1000 });
+    const due = await repository.findEmailsDueForSending();
+
+    expect(due.map((e) => e.id)).toEqual([email.id]);
+    expect(due[0].isReadyToSend).toBe(true);
+  });
+
+  it('should report delivery and bounce rates for sent emails', async () => {
+    for (const deliveryStatus of ['delivered', 'delivered', 'bounced']) {
+      const email = createEmail();
+      email.markAsSending();
+      email.markAsSent(`sg_${deliveryStatus}_${Math.random()}`);
+      email.updateDeliveryStatus(deliveryStatus as 'delivered' | 'bounced');
+      await repository.save(email);
+    }
+    await repository.save(createEmail());
+
+    const analytics = await repository.getEmailAnalytics();
+
+    expect(analytics.total).toBe(4);
+    expect(analytics.sent).toBe(3);
+    expect(analytics.bounceRate).toBeCloseTo(33.33, 1);
+    expect(analytics.byStatus.draft).toBe(1);
+  });
+});
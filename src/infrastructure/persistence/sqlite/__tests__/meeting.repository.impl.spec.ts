@@ -0,0 +1,106 @@
+/**
+ * SQLite Meeting Repository Tests - Infrastructure Layer
+ * Verifies persistence and querying of meetings against SQLite
+ */
+
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { SqliteMeetingRepository } from '../meeting.repository.impl';
+import { DomainEventDispatcher } from '../../../events/domain-event-dispatcher';
+import { Meeting } from '../../../../domain/entities/meeting.entity';
+import { DateRange, Email } from '../../../../domain/common/value-objects';
+
+describe('SqliteMeetingRepository', () => {
+  let repository: SqliteMeetingRepository;
+
+  const hoursFromNow = (hours: number): Date =>
+    new Date(Date.now() + hours * 60 * 60 * 1000);
+
+  const createMeeting = (title: string, start: number, end: number) =>
+    Meeting.create({
+      title,
+      dateRange: new DateRange(hoursFromNow(start), hoursFromNow(end)),
+      organizer: 'ceo@example.com',
+      attendees: [
+        {
+          email: 'ceo@example.com',
+          name: 'CEO',
+          isRequired: true,
+          responseStatus: 'accepted',
+        },
+      ],
+      meetingType: 'in-person',
+      location: 'Board room',
+      agenda: ['Hiring plan'],
+    });
+
+  beforeEach(() => {
+    repository = new SqliteMeetingRepository(
+      new ConfigService({ persistence: { sqlitePath: ':memory:' } }),
+      new DomainEventDispatcher(new EventEmitter2()),
+    );
+  });
+
+  afterEach(() => {
+    repository.onModuleDestroy();
+  });
+
+  it('should round-trip a meeting including status and responses', async () => {
+    const meeting = createMeeting('Quarterly review', 24, 25);
+    meeting.addAttendee({
+      email: new Email('cfo@example.com'),
+      name: 'CFO',
+      isRequired: false,
+      responseStatus: 'pending',
+    });
+    meeting.updateAttendeeResponse(new Email('cfo@example.com'), 'tentative');
+    meeting.cancel('Moved offsite');
+    await repository.save(meeting);
+
+    const loaded = await repository.findById(meeting.id);
+
+    expect(loaded!.toJSON()).toEqual(meeting.toJSON());
+    expect(loaded!.domainEvents).toHaveLength(0);
+  });
+
+  it('should find conflicts, attendees and upcoming meetings', async () => {
+    const review = createMeeting('Quarterly review', 24, 25);
+    const sync = createMeeting('Budget sync', 48, 49);
+    const cancelled = createMeeting('Offsite', 24, 25);
+    cancelled.cancel();
+    await repository.save(review);
+    await repository.save(sync);
+    await repository.save(cancelled);
+
+    const conflicts = await repository.findConflictingMeetings(
+      new DateRange(hoursFromNow(24.5), hoursFromNow(26)),
+    );
+    expect(conflicts.map((m) => m.title)).toEqual(['Quarterly review']);
+
+    const excluded = await repository.findConflictingMeetings(
+      review.dateRange,
+      review.id,
+    );
+    expect(excluded).toHaveLength(0);
+
+    const upcoming = await repository.findUpcomingMeetings(1.5);
+    expect(upcoming.map((m) => m.title)).toEqual(['Quarterly review']);
+
+    expect(await repository.findByAttendee('CEO@example.com')).toHaveLength(3);
+  });
+
+  it('should search agenda items and report analytics', async () => {
+    await repository.save(createMeeting('Quarterly review', 24, 25));
+    await repository.save(createMeeting('Budget sync', 48, 50));
+
+    const found = await repository.searchMeetings('hiring');
+    expect(found).toHaveLength(2);
+    expect(await repository.searchMeetings('budget')).toHaveLength(1);
+
+    const analytics = await repository.getMeetingAnalytics();
+    expect(analytics.total).toBe(2);
+    expect(analytics.upcoming).toBe(2);
+    expect(analytics.averageDuration).toBe(90);
+    expect(analytics.byType['in-person']).toBe(2);
+  });
+});
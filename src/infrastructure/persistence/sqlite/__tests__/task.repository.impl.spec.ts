@@ -0,0 +1,156 @@
+/**
+ * SQLite Task Repository Tests - Infrastructure Layer
+ * Verifies persistence, querying and event publishing against SQLite
+ */
+
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { SqliteTaskRepository } from '../task.repository.impl';
+import { DomainEventDispatcher } from '../../../events/domain-event-dispatcher';
+import { Task } from '../../../../domain/entities/task.entity';
+import { TaskStatus } from '../../../../domain/common/value-objects';
+import { DomainEvent } from '../../../../domain/common/domain-events';
+
+describe('SqliteTaskRepository', () => {
+  let eventEmitter: EventEmitter2;
+  let repository: SqliteTaskRepository;
+
+  const daysFromNow = (days: number): Date =>
+    new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+  beforeEach(() => {
+    eventEmitter = new EventEmitter2();
+    repository = new SqliteTaskRepository(
+      new ConfigService({ persistence: { sqlitePath: ':memory:' } }),
+      new DomainEventDispatcher(eventEmitter),
+    );
+  });
+
+  afterEach(() => {
+    repository.onModuleDestroy();
+  });
+
+  it('should round-trip a task through the database', async () => {
+    const task = Task.create({
+      title: 'Prepare board deck',
+      description: 'Q3 numbers',
+      priority: 'high',
+      assignee: 'cfo@example.com',
+      dueDate: daysFromNow(3),
+      tags: ['finance'],
+      estimatedDuration: 90,
+    });
+
+    await repository.save(task);
+    const loaded = await repository.findById(task.id);
+
+    expect(loaded).not.toBeNull();
+    expect(loaded!.toJSON()).toEqual(task.toJSON());
+  });
+
+  it('should update an existing task in place', async () => {
+    const task = Task.create({ title: 'Prepare board deck' });
+    await repository.save(task);
+
+    task.updateTitle('Prepare Q3 board deck');
+    task.markAsCompleted();
+    await repository.save(task);
+
+    const loaded = await repository.findById(task.id);
+    expect(loaded!.title).toBe('Prepare Q3 board deck');
+    expect(loaded!.status.isCompleted).toBe(true);
+    expect((await repository.findMany()).total).toBe(1);
+  });
+
+  it('should not republish events for reloaded tasks', async () => {
+    const published: DomainEvent[] = [];
+    eventEmitter.on('TaskCreated', (event: DomainEvent) =>
+      published.push(event),
+    );
+    const task = Task.create({ title: 'Prepare board deck' });
+    await repository.save(task);
+
+    const loaded = await repository.findById(task.id);
+    await repository.save(loaded!);
+
+    expect(published).toHaveLength(1);
+  });
+
+  it('should filter, sort and paginate like the in-memory repository', async () => {
+    await repository.save(
+      Task.create({ title: 'B', priority: 'low', dueDate: daysFromNow(5) }),
+    );
+    await repository.save(
+      Task.create({ title: 'A', priority: 'urgent', tags: ['legal'] }),
+    );
+    await repository.save(
+      Task.create({ title: 'C', priority: 'high', dueDate: daysFromNow(-1) }),
+    );
+
+    const byPriority = await repository.findMany({
+      sortBy: 'priority',
+      sortOrder: 'desc',
+      limit: 2,
+    });
+    expect(byPriority.items.map((t) => t.title)).toEqual(['A', 'C']);
+    expect(byPriority.total).toBe(3);
+    expect(byPriority.hasMore).toBe(true);
+
+    const byDueDate = await repository.findMany({ sortBy: 'dueDate' });
+    expect(byDueDate.items.map((t) => t.title)).toEqual(['C', 'B', 'A']);
+
+    const overdue = await repository.findMany({
+      filters: { isOverdue: true },
+    });
+    expect(overdue.items.map((t) => t.title)).toEqual(['C']);
+
+    const tagged = await repository.findMany({
+      filters: { tags: ['LEGAL'] },
+    });
+    expect(tagged.items.map((t) => t.title)).toEqual(['A']);
+
+    const pending = await repository.findByStatus(new TaskStatus('pending'));
+    expect(pending).toHaveLength(3);
+  });
+
+  it('should find subtasks by parent and keep their checklist', async () => {
+    const parent = Task.create({ title: 'Close Series A' });
+    const child = Task.create({
+      title: 'Sign term sheet',
+      parentId: parent.id,
+    });
+    child.addChecklistItem('Legal review');
+    await repository.save(parent);
+    await repository.save(child);
+    await repository.save(Task.create({ title: 'Unrelated' }));
+
+    const subtasks = await repository.findByParentId(parent.id);
+
+    expect(subtasks.map((t) => t.title)).toEqual(['Sign term sheet']);
+    expect(subtasks[0].checklist.map((item) => item.text)).toEqual([
+      'Legal review',
+    ]);
+  });
+
+  it('should compute analytics from stored rows', async () => {
+    const done = Task.create({ title: 'Done' });
+    done.markAsCompleted();
+    await repository.save(done);
+    await repository.save(
+      Task.create({ title: 'Late', dueDate: daysFromNow(-2) }),
+    );
+
+    const analytics = await repository.getTaskAnalytics();
+
+    expect(analytics.total).toBe(2);
+    expect(analytics.completed).toBe(1);
+    expect(analytics.overdue).toBe(1);
+    expect(analytics.completionRate).toBe(50);
+    expect(analytics.byStatus).toEqual({
+      pending: 1,
+      'in-progress': 0,
+      completed: 1,
+      cancelled: 0,
+    });
+  });
+});
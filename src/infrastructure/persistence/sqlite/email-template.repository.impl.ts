@@ -0,0 +1,118 @@
+/**
+ * SQLite Email Template Repository Implementation - Infrastructure Layer
+ * Durable implementation of email template repository backed by SQLite
+ */
+
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Database from 'better-sqlite3';
+import { EmailTemplateRepository } from '../../../domain/repositories/email-template.repository';
+import { EmailTemplate } from '../../../domain/entities/email-template.entity';
+import { DomainEventDispatcher } from '../../events/domain-event-dispatcher';
+import { openSqliteDatabase } from './sqlite-database';
+
+interface EmailTemplateRow {
+  data: string;
+}
+
+@Injectable()
+export class SqliteEmailTemplateRepository
+  implements EmailTemplateRepository, OnModuleDestroy
+{
+  private readonly logger = new Logger(SqliteEmailTemplateRepository.name);
+  private readonly db: Database.Database;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly eventDispatcher: DomainEventDispatcher,
+  ) {
+    this.db = openSqliteDatabase(this.config, this.logger);
+    this.migrate();
+  }
+
+  onModuleDestroy(): void {
+    this.db.close();
+  }
+
+  async findById(id: string): Promise<EmailTemplate | null> {
+    return this.queryOne('id = ?', [id]);
+  }
+
+  async save(template: EmailTemplate): Promise<void> {
+    const json = template.toJSON();
+
+    this.db
+      .prepare(
+        `INSERT INTO email_templates (
+          id, name, is_partial, active_version, created_at, updated_at, data
+        ) VALUES (
+          @id, @name, @isPartial, @activeVersion, @createdAt, @updatedAt, @data
+        )
+        ON CONFLICT(id) DO UPDATE SET
+          name = excluded.name,
+          is_partial = excluded.is_partial,
+          active_version = excluded.active_version,
+          updated_at = excluded.updated_at,
+          data = excluded.data`,
+      )
+      .run({
+        id: json.id,
+        name: json.name,
+        isPartial: json.isPartial ? 1 : 0,
+        activeVersion: json.activeVersion,
+        createdAt: json.createdAt,
+        updatedAt: json.updatedAt,
+        data: JSON.stringify(json),
+      });
+
+    await this.eventDispatcher.dispatchEventsForAggregate(template);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM email_templates WHERE id = ?').run(id);
+  }
+
+  async findByName(name: string): Promise<EmailTemplate | null> {
+    return this.queryOne('name = ?', [name]);
+  }
+
+  async findAll(): Promise<EmailTemplate[]> {
+    return this.query('1 = 1 ORDER BY name', []);
+  }
+
+  async findPartials(): Promise<EmailTemplate[]> {
+    return this.query('is_partial = 1 ORDER BY name', []);
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS email_templates (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        is_partial INTEGER NOT NULL DEFAULT 0,
+        active_version INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+    `);
+  }
+
+  private queryOne(clause: string, params: unknown[]): EmailTemplate | null {
+    const row = this.db
+      .prepare(`SELECT data FROM email_templates WHERE ${clause}`)
+      .get(...params) as EmailTemplateRow | undefined;
+    return row ? this.toTemplate(row) : null;
+  }
+
+  private query(clause: string, params: unknown[]): EmailTemplate[] {
+    const rows = this.db
+      .prepare(`SELECT data FROM email_templates WHERE ${clause}`)
+      .all(...params) as EmailTemplateRow[];
+    return rows.map((row) => this.toTemplate(row));
+  }
+
+  private toTemplate(row: EmailTemplateRow): EmailTemplate {
+    return EmailTemplate.fromJSON(JSON.parse(row.data));
+  }
+}
@@ -0,0 +1,391 @@
+/**
+ * SQLite Email Repository Implementation - Infrastructure Layer
+ * Durable implementation of email repository backed by a local SQLite file
+ */
+
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Database from 'better-sqlite3';
+import {
+  EmailRepository,
+  EmailQueryOptions,
+  EmailFilters,
+} from '../../../domain/repositories/email.repository';
+import { EmailMessage } from '../../../domain/entities/email.entity';
+import { QueryResult } from '../../../domain/common/repository.interface';
+import { DomainEventDispatcher } from '../../events/domain-event-dispatcher';
+import { openSqliteDatabase } from './sqlite-database';
+
+interface EmailRow {
+  data: string;
+}
+
+const HAS_RECIPIENT =
+  'EXISTS (SELECT 1 FROM json_each(emails.recipients) WHERE json_each.value = ?)';
+
+@Injectable()
+export class SqliteEmailRepository implements EmailRepository, OnModuleDestroy {
+  private readonly logger = new Logger(SqliteEmailRepository.name);
+  private readonly db: Database.Database;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly eventDispatcher: DomainEventDispatcher,
+  ) {
+    this.db = openSqliteDatabase(this.config, this.logger);
+    this.migrate();
+  }
+
+  onModuleDestroy(): void {
+    this.db.close();
+  }
+
+  async findById(id: string): Promise<EmailMessage | null> {
+    const row = this.db
+      .prepare('SELECT data FROM emails WHERE id = ?')
+      .get(id) as EmailRow | undefined;
+    return row ? this.toEmail(row) : null;
+  }
+
+  async save(email: EmailMessage): Promise<void> {
+    const json = email.toJSON();
+
+    this.db
+      .prepare(
+        `INSERT INTO emails (
+          id, subject, status, sender, recipients, priority, tags,
+          has_attachments, scheduled_at, sent_at, external_id,
+          delivery_status, created_at, updated_at, data
+        ) VALUES (
+          @id, @subject, @status, @sender, @recipients, @priority, @tags,
+          @hasAttachments, @scheduledAt, @sentAt, @externalId,
+          @deliveryStatus, @createdAt, @updatedAt, @data
+        )
+        ON CONFLICT(id) DO UPDATE SET
+          subject = excluded.subject,
+          status = excluded.status,
+          sender = excluded.sender,
+          recipients = excluded.recipients,
+          priority = excluded.priority,
+          tags = excluded.tags,
+          has_attachments = excluded.has_attachments,
+          scheduled_at = excluded.scheduled_at,
+          sent_at = excluded.sent_at,
+          external_id = excluded.external_id,
+          delivery_status = excluded.delivery_status,
+          updated_at = excluded.updated_at,
+          data = excluded.data`,
+      )
+      .run({
+        id: json.id,
+        subject: json.subject,
+        status: json.status,
+        sender: email.sender.value,
+        recipients: JSON.stringify(email.recipients.map((r) => r.email.value)),
+        priority: json.priority,
+        tags: JSON.stringify(json.tags),
+        hasAttachments: email.attachments.length > 0 ? 1 : 0,
+        scheduledAt: json.scheduledAt ?? null,
+        sentAt: json.sentAt ?? null,
+        externalId: json.externalId ?? null,
+        deliveryStatus: json.deliveryStatus ?? null,
+        createdAt: json.createdAt,
+        updatedAt: json.updatedAt,
+        // toJSON() omits attachment content, which the sender still needs
+        data: JSON.stringify({ ...json, attachments: email.attachments }),
+      });
+
+    await this.eventDispatcher.dispatchEventsForAggregate(email);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM emails WHERE id = ?').run(id);
+  }
+
+  async findByStatus(
+    status: 'draft' | 'scheduled' | 'sending' | 'sent' | 'failed' | 'cancelled',
+  ): Promise<EmailMessage[]> {
+    return this.query('status = ? ORDER BY created_at', [status]);
+  }
+
+  async findBySender(senderEmail: string): Promise<EmailMessage[]> {
+    return this.query('sender = ? ORDER BY created_at', [
+      senderEmail.toLowerCase(),
+    ]);
+  }
+
+  async findByRecipient(recipientEmail: string): Promise<EmailMessage[]> {
+    return this.query(`${HAS_RECIPIENT} ORDER BY created_at`, [
+      recipientEmail.toLowerCase(),
+    ]);
+  }
+
+  async findScheduledEmails(): Promise<EmailMessage[]> {
+    return this.query(
+      "status = 'scheduled' AND scheduled_at IS NOT NULL ORDER BY scheduled_at",
+      [],
+    );
+  }
+
+  async findEmailsDueForSending(): Promise<EmailMessage[]> {
+    return this.query(
+      "status = 'scheduled' AND scheduled_at <= ? ORDER BY scheduled_at",
+      [new Date().toISOString()],
+    );
+  }
+
+  async findByTags(tags: string[]): Promise<EmailMessage[]> {
+    if (tags.length === 0) {
+      return [];
+    }
+
+    return this.query(
+      `EXISTS (SELECT 1 FROM json_each(emails.tags) WHERE json_each.value IN (${tags.map(() => '?').join(', ')})) ORDER BY created_at`,
+      tags.map((tag) => tag.toLowerCase()),
+    );
+  }
+
+  async findByPriority(
+    priority: 'low' | 'normal' | 'high',
+  ): Promise<EmailMessage[]> {
+    return this.query('priority = ? ORDER BY created_at', [priority]);
+  }
+
+  async findByExternalId(externalId: string): Promise<EmailMessage | null> {
+    const [email] = this.query('external_id = ? LIMIT 1', [externalId]);
+    return email || null;
+  }
+
+  async findMany(
+    options?: EmailQueryOptions,
+  ): Promise<QueryResult<EmailMessage>> {
+    const { clause, params } = this.buildWhereClause(options?.filters);
+    const offset = options?.offset || 0;
+    const limit = options?.limit || 20;
+
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM emails WHERE ${clause}`)
+      .get(...params) as { total: number };
+
+    const orderBy = this.buildOrderBy(
+      options?.sortBy,
+      options?.sortOrder || 'desc',
+    );
+    const items = this.query(`${clause} ORDER BY ${orderBy} LIMIT ? OFFSET ?`, [
+      ...params,
+      limit,
+      offset,
+    ]);
+
+    return {
+      items,
+      total,
+      hasMore: offset + limit < total,
+    };
+  }
+
+  async getEmailAnalytics(): Promise<{
+    total: number;
+    sent: number;
+    failed: number;
+    scheduled: number;
+    deliveryRate: number;
+    bounceRate: number;
+    spamRate: number;
+    openRate: number;
+    clickRate: number;
+    byStatus: Record<string, number>;
+    byPriority: Record<string, number>;
+  }> {
+    const stats = this.db
+      .prepare(
+        `SELECT
+          COUNT(*) AS total,
+          SUM(CASE WHEN delivery_status IN ('delivered', 'spam') THEN 1 ELSE 0 END) AS delivered,
+          SUM(CASE WHEN delivery_status = 'bounced' THEN 1 ELSE 0 END) AS bounced,
+          SUM(CASE WHEN delivery_status = 'spam' THEN 1 ELSE 0 END) AS spam,
+          SUM(CASE WHEN json_extract(data, '$.openedAt') IS NOT NULL THEN 1 ELSE 0 END) AS opened,
+          SUM(CASE WHEN json_extract(data, '$.clickedAt') IS NOT NULL THEN 1 ELSE 0 END) AS clicked
+        FROM emails`,
+      )
+      .get() as {
+      total: number;
+      delivered: number | null;
+      bounced: number | null;
+      spam: number | null;
+      opened: number | null;
+      clicked: number | null;
+    };
+
+    const byStatus = this.countBy('status', {
+      draft: 0,
+      scheduled: 0,
+      sending: 0,
+      sent: 0,
+      failed: 0,
+      cancelled: 0,
+    });
+    const byPriority = this.countBy('priority', {
+      low: 0,
+      normal: 0,
+      high: 0,
+    });
+    const sent = byStatus.sent;
+
+    return {
+      total: stats.total,
+      sent,
+      failed: byStatus.failed,
+      scheduled: byStatus.scheduled,
+      deliveryRate: sent > 0 ? ((stats.delivered || 0) / sent) * 100 : 0,
+      bounceRate: sent > 0 ? ((stats.bounced || 0) / sent) * 100 : 0,
+      spamRate: sent > 0 ? ((stats.spam || 0) / sent) * 100 : 0,
+      openRate: sent > 0 ? ((stats.opened || 0) / sent) * 100 : 0,
+      clickRate: sent > 0 ? ((stats.clicked || 0) / sent) * 100 : 0,
+      byStatus,
+      byPriority,
+    };
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS emails (
+        id TEXT PRIMARY KEY,
+        subject TEXT NOT NULL,
+        status TEXT NOT NULL,
+        sender TEXT NOT NULL,
+        recipients TEXT NOT NULL DEFAULT '[]',
+        priority TEXT NOT NULL,
+        tags TEXT NOT NULL DEFAULT '[]',
+        has_attachments INTEGER NOT NULL DEFAULT 0,
+        scheduled_at TEXT,
+        sent_at TEXT,
+        external_id TEXT,
+        delivery_status TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_emails_status ON emails (status);
+      CREATE INDEX IF NOT EXISTS idx_emails_scheduled_at ON emails (scheduled_at);
+      CREATE INDEX IF NOT EXISTS idx_emails_external_id ON emails (external_id);
+    `);
+  }
+
+  private query(clause: string, params: unknown[]): EmailMessage[] {
+    const rows = this.db
+      .prepare(`SELECT data FROM emails WHERE ${clause}`)
+      .all(...params) as EmailRow[];
+    return rows.map((row) => this.toEmail(row));
+  }
+
+  private toEmail(row: EmailRow): EmailMessage {
+    return EmailMessage.fromJSON(JSON.parse(row.data));
+  }
+
+  private countBy(
+    column: 'status' | 'priority',
+    counts: Record<string, number>,
+  ): Record<string, number> {
+    const rows = this.db
+      .prepare(
+        `SELECT ${column} AS value, COUNT(*) AS count FROM emails GROUP BY ${column}`,
+      )
+      .all() as Array<{ value: string; count: number }>;
+    rows.forEach((row) => (counts[row.value] = row.count));
+
+    return counts;
+  }
+
+  private buildWhereClause(filters?: EmailFilters): {
+    clause: string;
+    params: unknown[];
+  } {
+    const conditions: string[] = ['1 = 1'];
+    const params: unknown[] = [];
+
+    if (!filters) {
+      return { clause: conditions.join(' AND '), params };
+    }
+
+    if (filters.status) {
+      conditions.push('status = ?');
+      params.push(filters.status);
+    }
+
+    if (filters.sender) {
+      conditions.push('sender = ?');
+      params.push(filters.sender.toLowerCase());
+    }
+
+    if (filters.recipient) {
+      conditions.push(HAS_RECIPIENT);
+      params.push(filters.recipient.toLowerCase());
+    }
+
+    if (filters.priority) {
+      conditions.push('priority = ?');
+      params.push(filters.priority);
+    }
+
+    if (filters.tags && filters.tags.length > 0) {
+      conditions.push(
+        `EXISTS (SELECT 1 FROM json_each(emails.tags) WHERE json_each.value IN (${filters.tags.map(() => '?').join(', ')}))`,
+      );
+      params.push(...filters.tags.map((tag) => tag.toLowerCase()));
+    }
+
+    if (filters.scheduledFrom) {
+      conditions.push('scheduled_at >= ?');
+      params.push(filters.scheduledFrom.toISOString());
+    }
+
+    if (filters.scheduledTo) {
+      conditions.push('scheduled_at <= ?');
+      params.push(filters.scheduledTo.toISOString());
+    }
+
+    if (filters.sentFrom) {
+      conditions.push('sent_at >= ?');
+      params.push(filters.sentFrom.toISOString());
+    }
+
+    if (filters.sentTo) {
+      conditions.push('sent_at <= ?');
+      params.push(filters.sentTo.toISOString());
+    }
+
+    if (filters.hasAttachments !== undefined) {
+      conditions.push('has_attachments = ?');
+      params.push(filters.hasAttachments ? 1 : 0);
+    }
+
+    if (filters.deliveryStatus) {
+      conditions.push('delivery_status = ?');
+      params.push(filters.deliveryStatus);
+    }
+
+    return { clause: conditions.join(' AND '), params };
+  }
+
+  private buildOrderBy(
+    sortBy: string | undefined,
+    sortOrder: 'asc' | 'desc',
+  ): string {
+    const direction = sortOrder === 'desc' ? 'DESC' : 'ASC';
+
+    switch (sortBy) {
+      case 'subject':
+        return `subject ${direction}`;
+      case 'scheduledAt':
+        return `scheduled_at ${direction}`;
+      case 'sentAt':
+        return `sent_at ${direction}`;
+      case 'updatedAt':
+        return `updated_at ${direction}`;
+      case 'createdAt':
+      default:
+        return `created_at ${direction}, rowid ${direction}`;
+    }
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * SQLite Escalation Rule Repository Implementation - Infrastructure Layer
+ * Durable implementation of escalation rule repository backed by SQLite
+ */
+
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Database from 'better-sqlite3';
+import { EscalationRuleRepository } from '../../../domain/repositories/escalation-rule.repository';
+import { EscalationRule } from '../../../domain/entities/escalation-rule.entity';
+import { DomainEventDispatcher } from '../../events/domain-event-dispatcher';
+import { openSqliteDatabase } from './sqlite-database';
+
+interface EscalationRuleRow {
+  data: string;
+}
+
+@Injectable()
+export class SqliteEscalationRuleRepository
+  implements EscalationRuleRepository, OnModuleDestroy
+{
+  private readonly logger = new Logger(SqliteEscalationRuleRepository.name);
+  private readonly db: Database.Database;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly eventDispatcher: DomainEventDispatcher,
+  ) {
+    this.db = openSqliteDatabase(this.config, this.logger);
+    this.migrate();
+  }
+
+  onModuleDestroy(): void {
+    this.db.close();
+  }
+
+  async findById(id: string): Promise<EscalationRule | null> {
+    return this.queryOne('id = ?', [id]);
+  }
+
+  async save(rule: EscalationRule): Promise<void> {
+    const json = rule.toJSON();
+
+    this.db
+      .prepare(
+        `INSERT INTO escalation_rules (
+          id, name, created_at, updated_at, data
+        ) VALUES (
+          @id, @name, @createdAt, @updatedAt, @data
+        )
+        ON CONFLICT(id) DO UPDATE SET
+          name = excluded.name,
+          updated_at = excluded.updated_at,
+          data = excluded.data`,
+      )
+      .run({
+        id: json.id,
+        name: json.name,
+        createdAt: json.createdAt,
+        updatedAt: json.updatedAt,
+        data: JSON.stringify(json),
+      });
+
+    await this.eventDispatcher.dispatchEventsForAggregate(rule);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM escalation_rules WHERE id = ?').run(id);
+  }
+
+  async findByName(name: string): Promise<EscalationRule | null> {
+    return this.queryOne('name = ?', [name]);
+  }
+
+  async findAll(): Promise<EscalationRule[]> {
+    return this.query('1 = 1 ORDER BY name', []);
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS escalation_rules (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+    `);
+  }
+
+  private queryOne(clause: string, params: unknown[]): EscalationRule | null {
+    const row = this.db
+      .prepare(`SELECT data FROM escalation_rules WHERE ${clause}`)
+      .get(...params) as EscalationRuleRow | undefined;
+    return row ? this.toRule(row) : null;
+  }
+
+  private query(clause: string, params: unknown[]): EscalationRule[] {
+    const rows = this.db
+      .prepare(`SELECT data FROM escalation_rules WHERE ${clause}`)
+      .all(...params) as EscalationRuleRow[];
+    return rows.map((row) => this.toRule(row));
+  }
+
+  private toRule(row: EscalationRuleRow): EscalationRule {
+    return EscalationRule.fromJSON(JSON.parse(row.data));
+  }
+}
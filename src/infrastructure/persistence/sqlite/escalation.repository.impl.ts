@@ -0,0 +1,121 @@
+/**
+ * SQLite Escalation Repository Implementation - Infrastructure Layer
+ * Durable implementation of the escalation log backed by SQLite
+ */
+
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Database from 'better-sqlite3';
+import {
+  EscalationQueryOptions,
+  EscalationRepository,
+} from '../../../domain/repositories/escalation.repository';
+import { Escalation } from '../../../domain/entities/escalation.entity';
+import { DomainEventDispatcher } from '../../events/domain-event-dispatcher';
+import { openSqliteDatabase } from './sqlite-database';
+
+interface EscalationRow {
+  data: string;
+}
+
+@Injectable()
+export class SqliteEscalationRepository
+  implements EscalationRepository, OnModuleDestroy
+{
+  private readonly logger = new Logger(SqliteEscalationRepository.name);
+  private readonly db: Database.Database;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly eventDispatcher: DomainEventDispatcher,
+  ) {
+    this.db = openSqliteDatabase(this.config, this.logger);
+    this.migrate();
+  }
+
+  onModuleDestroy(): void {
+    this.db.close();
+  }
+
+  async findById(id: string): Promise<Escalation | null> {
+    const row = this.db
+      .prepare('SELECT data FROM escalations WHERE id = ?')
+      .get(id) as EscalationRow | undefined;
+    return row ? this.toEscalation(row) : null;
+  }
+
+  async save(escalation: Escalation): Promise<void> {
+    const json = escalation.toJSON();
+
+    this.db
+      .prepare(
+        `INSERT INTO escalations (
+          id, rule_id, task_id, created_at, data
+        ) VALUES (
+          @id, @ruleId, @taskId, @createdAt, @data
+        )
+        ON CONFLICT(id) DO UPDATE SET
+          data = excluded.data`,
+      )
+      .run({
+        id: json.id,
+        ruleId: json.ruleId,
+        taskId: json.taskId,
+        createdAt: json.createdAt,
+        data: JSON.stringify(json),
+      });
+
+    await this.eventDispatcher.dispatchEventsForAggregate(escalation);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM escalations WHERE id = ?').run(id);
+  }
+
+  async findMany(options: EscalationQueryOptions = {}): Promise<Escalation[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (options.ruleId) {
+      conditions.push('rule_id = ?');
+      params.push(options.ruleId);
+    }
+    if (options.taskId) {
+      conditions.push('task_id = ?');
+      params.push(options.taskId);
+    }
+
+    let sql = `SELECT data FROM escalations${
+      conditions.length ? ` WHERE ${conditions.join(' AND ')}` : ''
+    } ORDER BY created_at DESC`;
+    if (options.limit) {
+      sql += ' LIMIT ?';
+      params.push(options.limit);
+    }
+
+    const rows = this.db.prepare(sql).all(...params) as EscalationRow[];
+    return rows.map((row) => this.toEscalation(row));
+  }
+
+  async findLatest(ruleId: string, taskId: string): Promise<Escalation | null> {
+    const [latest] = await this.findMany({ ruleId, taskId, limit: 1 });
+    return latest || null;
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS escalations (
+        id TEXT PRIMARY KEY,
+        rule_id TEXT NOT NULL,
+        task_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_escalations_rule_task ON escalations (rule_id, task_id);
+      CREATE INDEX IF NOT EXISTS idx_escalations_created_at ON escalations (created_at);
+    `);
+  }
+
+  private toEscalation(row: EscalationRow): Escalation {
+    return Escalation.fromJSON(JSON.parse(row.data));
+  }
+}
@@ -0,0 +1,369 @@
+/**
+ * SQLite Meeting Repository Implementation - Infrastructure Layer
+ * Durable implementation of meeting repository backed by a local SQLite file
+ */
+
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Database from 'better-sqlite3';
+import {
+  MeetingRepository,
+  MeetingQueryOptions,
+  MeetingFilters,
+} from '../../../domain/repositories/meeting.repository';
+import { Meeting } from '../../../domain/entities/meeting.entity';
+import { DateRange } from '../../../domain/common/value-objects';
+import { QueryResult } from '../../../domain/common/repository.interface';
+import { DomainEventDispatcher } from '../../events/domain-event-dispatcher';
+import { openSqliteDatabase } from './sqlite-database';
+
+interface MeetingRow {
+  data: string;
+}
+
+const ACTIVE_MEETING = "status IN ('scheduled', 'in-progress')";
+
+@Injectable()
+export class SqliteMeetingRepository
+  implements MeetingRepository, OnModuleDestroy
+{
+  private readonly logger = new Logger(SqliteMeetingRepository.name);
+  private readonly db: Database.Database;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly eventDispatcher: DomainEventDispatcher,
+  ) {
+    this.db = openSqliteDatabase(this.config, this.logger);
+    this.migrate();
+  }
+
+  onModuleDestroy(): void {
+    this.db.close();
+  }
+
+  async findById(id: string): Promise<Meeting | null> {
+    const row = this.db
+      .prepare('SELECT data FROM meetings WHERE id = ?')
+      .get(id) as MeetingRow | undefined;
+    return row ? this.toMeeting(row) : null;
+  }
+
+  async save(meeting: Meeting): Promise<void> {
+    const json = meeting.toJSON();
+
+    this.db
+      .prepare(
+        `INSERT INTO meetings (
+          id, title, description, location, status, organizer, attendees,
+          meeting_type, is_recurring, start_date, end_date, created_at,
+          updated_at, data
+        ) VALUES (
+          @id, @title, @description, @location, @status, @organizer, @attendees,
+          @meetingType, @isRecurring, @startDate, @endDate, @createdAt,
+          @updatedAt, @data
+        )
+        ON CONFLICT(id) DO UPDATE SET
+          title = excluded.title,
+          description = excluded.description,
+          location = excluded.location,
+          status = excluded.status,
+          organizer = excluded.organizer,
+          attendees = excluded.attendees,
+          meeting_type = excluded.meeting_type,
+          is_recurring = excluded.is_recurring,
+          start_date = excluded.start_date,
+          end_date = excluded.end_date,
+          updated_at = excluded.updated_at,
+          data = excluded.data`,
+      )
+      .run({
+        id: json.id,
+        title: json.title,
+        description: json.description ?? null,
+        location: json.location ?? null,
+        status: json.status,
+        organizer: meeting.organizer.value,
+        attendees: JSON.stringify(meeting.attendees.map((a) => a.email.value)),
+        meetingType: json.meetingType,
+        isRecurring: json.isRecurring ? 1 : 0,
+        startDate: json.dateRange.startDate,
+        endDate: json.dateRange.endDate,
+        createdAt: json.createdAt,
+        updatedAt: json.updatedAt,
+        data: JSON.stringify(json),
+      });
+
+    await this.eventDispatcher.dispatchEventsForAggregate(meeting);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM meetings WHERE id = ?').run(id);
+  }
+
+  async findByDateRange(dateRange: DateRange): Promise<Meeting[]> {
+    return this.query('start_date < ? AND end_date > ? ORDER BY start_date', [
+      dateRange.endDate.toISOString(),
+      dateRange.startDate.toISOString(),
+    ]);
+  }
+
+  async findByOrganizer(organizerEmail: string): Promise<Meeting[]> {
+    return this.query('organizer = ? ORDER BY start_date', [
+      organizerEmail.toLowerCase(),
+    ]);
+  }
+
+  async findByAttendee(attendeeEmail: string): Promise<Meeting[]> {
+    return this.query(
+      'EXISTS (SELECT 1 FROM json_each(meetings.attendees) WHERE json_each.value = ?) ORDER BY start_date',
+      [attendeeEmail.toLowerCase()],
+    );
+  }
+
+  async findUpcomingMeetings(days: number = 7): Promise<Meeting[]> {
+    const now = new Date();
+    const cutoffDate = new Date(now);
+    cutoffDate.setDate(cutoffDate.getDate() + days);
+
+    return this.query(
+      "status = 'scheduled' AND start_date > ? AND start_date <= ? ORDER BY start_date",
+      [now.toISOString(), cutoffDate.toISOString()],
+    );
+  }
+
+  async findConflictingMeetings(
+    dateRange: DateRange,
+    excludeMeetingId?: string,
+  ): Promise<Meeting[]> {
+    return this.query(
+      `${ACTIVE_MEETING} AND id != ? AND start_date < ? AND end_date > ? ORDER BY start_date`,
+      [
+        excludeMeetingId ?? '',
+        dateRange.endDate.toISOString(),
+        dateRange.startDate.toISOString(),
+      ],
+    );
+  }
+
+  async findByStatus(
+    status: 'scheduled' | 'in-progress' | 'completed' | 'cancelled',
+  ): Promise<Meeting[]> {
+    return this.query('status = ? ORDER BY start_date', [status]);
+  }
+
+  async findRecurringMeetings(): Promise<Meeting[]> {
+    return this.query('is_recurring = 1 ORDER BY start_date', []);
+  }
+
+  async searchMeetings(query: string): Promise<Meeting[]> {
+    const term = query.trim().toLowerCase();
+    if (!term) {
+      return [];
+    }
+
+    const pattern = `%${term.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+    return this.query(
+      `(lower(title) LIKE @pattern ESCAPE '\\'
+        OR lower(coalesce(description, '')) LIKE @pattern ESCAPE '\\'
+        OR lower(coalesce(location, '')) LIKE @pattern ESCAPE '\\'
+        OR EXISTS (
+          SELECT 1 FROM json_each(json_extract(meetings.data, '$.agenda'))
+          WHERE lower(json_each.value) LIKE @pattern ESCAPE '\\'
+        ))
+      ORDER BY start_date`,
+      [{ pattern }],
+    );
+  }
+
+  async findMany(options?: MeetingQueryOptions): Promise<QueryResult<Meeting>> {
+    const { clause, params } = this.buildWhereClause(options?.filters);
+    const offset = options?.offset || 0;
+    const limit = options?.limit || 20;
+
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM meetings WHERE ${clause}`)
+      .get(...params) as { total: number };
+
+    const orderBy = this.buildOrderBy(
+      options?.sortBy,
+      options?.sortOrder || 'asc',
+    );
+    const items = this.query(`${clause} ORDER BY ${orderBy} LIMIT ? OFFSET ?`, [
+      ...params,
+      limit,
+      offset,
+    ]);
+
+    return {
+      items,
+      total,
+      hasMore: offset + limit < total,
+    };
+  }
+
+  async getMeetingAnalytics(): Promise<{
+    total: number;
+    upcoming: number;
+    completed: number;
+    cancelled: number;
+    averageDuration: number;
+    byType: Record<string, number>;
+    byStatus: Record<string, number>;
+  }> {
+    const stats = this.db
+      .prepare(
+        `SELECT
+          COUNT(*) AS total,
+          SUM(CASE WHEN status = 'scheduled' AND start_date > @now THEN 1 ELSE 0 END) AS upcoming,
+          AVG((julianday(end_date) - julianday(start_date)) * 24 * 60) AS averageDuration
+        FROM meetings`,
+      )
+      .get({ now: new Date().toISOString() }) as {
+      total: number;
+      upcoming: number | null;
+      averageDuration: number | null;
+    };
+
+    const byType = this.countBy('meeting_type', {
+      'in-person': 0,
+      virtual: 0,
+      hybrid: 0,
+    });
+    const byStatus = this.countBy('status', {
+      scheduled: 0,
+      'in-progress': 0,
+      completed: 0,
+      cancelled: 0,
+    });
+
+    return {
+      total: stats.total,
+      upcoming: stats.upcoming || 0,
+      completed: byStatus.completed,
+      cancelled: byStatus.cancelled,
+      averageDuration: Math.round(stats.averageDuration || 0), // in minutes
+      byType,
+      byStatus,
+    };
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS meetings (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        description TEXT,
+        location TEXT,
+        status TEXT NOT NULL,
+        organizer TEXT NOT NULL,
+        attendees TEXT NOT NULL DEFAULT '[]',
+        meeting_type TEXT NOT NULL,
+        is_recurring INTEGER NOT NULL DEFAULT 0,
+        start_date TEXT NOT NULL,
+        end_date TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_meetings_status ON meetings (status);
+      CREATE INDEX IF NOT EXISTS idx_meetings_organizer ON meetings (organizer);
+      CREATE INDEX IF NOT EXISTS idx_meetings_start_date ON meetings (start_date);
+    `);
+  }
+
+  private query(clause: string, params: unknown[]): Meeting[] {
+    const rows = this.db
+      .prepare(`SELECT data FROM meetings WHERE ${clause}`)
+      .all(...params) as MeetingRow[];
+    return rows.map((row) => this.toMeeting(row));
+  }
+
+  private toMeeting(row: MeetingRow): Meeting {
+    return Meeting.fromJSON(JSON.parse(row.data));
+  }
+
+  private countBy(
+    column: 'status' | 'meeting_type',
+    counts: Record<string, number>,
+  ): Record<string, number> {
+    const rows = this.db
+      .prepare(
+        `SELECT ${column} AS value, COUNT(*) AS count FROM meetings GROUP BY ${column}`,
+      )
+      .all() as Array<{ value: string; count: number }>;
+    rows.forEach((row) => (counts[row.value] = row.count));
+
+    return counts;
+  }
+
+  private buildWhereClause(filters?: MeetingFilters): {
+    clause: string;
+    params: unknown[];
+  } {
+    const conditions: string[] = ['1 = 1'];
+    const params: unknown[] = [];
+
+    if (!filters) {
+      return { clause: conditions.join(' AND '), params };
+    }
+
+    if (filters.status) {
+      conditions.push('status = ?');
+      params.push(filters.status);
+    }
+
+    if (filters.organizer) {
+      conditions.push('organizer = ?');
+      params.push(filters.organizer.toLowerCase());
+    }
+
+    if (filters.attendee) {
+      conditions.push(
+        'EXISTS (SELECT 1 FROM json_each(meetings.attendees) WHERE json_each.value = ?)',
+      );
+      params.push(filters.attendee.toLowerCase());
+    }
+
+    if (filters.meetingType) {
+      conditions.push('meeting_type = ?');
+      params.push(filters.meetingType);
+    }
+
+    if (filters.dateFrom) {
+      conditions.push('end_date >= ?');
+      params.push(filters.dateFrom.toISOString());
+    }
+
+    if (filters.dateTo) {
+      conditions.push('start_date <= ?');
+      params.push(filters.dateTo.toISOString());
+    }
+
+    if (filters.isRecurring !== undefined) {
+      conditions.push('is_recurring = ?');
+      params.push(filters.isRecurring ? 1 : 0);
+    }
+
+    return { clause: conditions.join(' AND '), params };
+  }
+
+  private buildOrderBy(
+    sortBy: string | undefined,
+    sortOrder: 'asc' | 'desc',
+  ): string {
+    const direction = sortOrder === 'desc' ? 'DESC' : 'ASC';
+
+    switch (sortBy) {
+      case 'title':
+        return `title ${direction}`;
+      case 'createdAt':
+        return `created_at ${direction}`;
+      case 'updatedAt':
+        return `updated_at ${direction}`;
+      case 'startDate':
+      default:
+        return `start_date ${direction}`;
+    }
+  }
+}
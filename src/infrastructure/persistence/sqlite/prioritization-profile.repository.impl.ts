@@ -0,0 +1,113 @@
+/**
+ * SQLite Prioritization Profile Repository Implementation - Infrastructure Layer
+ * Durable implementation of prioritization profile repository backed by SQLite
+ */
+
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Database from 'better-sqlite3';
+import { PrioritizationProfileRepository } from '../../../domain/repositories/prioritization-profile.repository';
+import { PrioritizationProfile } from '../../../domain/entities/prioritization-profile.entity';
+import { DomainEventDispatcher } from '../../events/domain-event-dispatcher';
+import { openSqliteDatabase } from './sqlite-database';
+
+interface PrioritizationProfileRow {
+  data: string;
+}
+
+@Injectable()
+export class SqlitePrioritizationProfileRepository
+  implements PrioritizationProfileRepository, OnModuleDestroy
+{
+  private readonly logger = new Logger(
+    SqlitePrioritizationProfileRepository.name,
+  );
+  private readonly db: Database.Database;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly eventDispatcher: DomainEventDispatcher,
+  ) {
+    this.db = openSqliteDatabase(this.config, this.logger);
+    this.migrate();
+  }
+
+  onModuleDestroy(): void {
+    this.db.close();
+  }
+
+  async findById(id: string): Promise<PrioritizationProfile | null> {
+    return this.queryOne('id = ?', [id]);
+  }
+
+  async save(profile: PrioritizationProfile): Promise<void> {
+    const json = profile.toJSON();
+
+    this.db
+      .prepare(
+        `INSERT INTO prioritization_profiles (
+          id, name, created_at, updated_at, data
+        ) VALUES (
+          @id, @name, @createdAt, @updatedAt, @data
+        )
+        ON CONFLICT(id) DO UPDATE SET
+          name = excluded.name,
+          updated_at = excluded.updated_at,
+          data = excluded.data`,
+      )
+      .run({
+        id: json.id,
+        name: json.name,
+        createdAt: json.createdAt,
+        updatedAt: json.updatedAt,
+        data: JSON.stringify(json),
+      });
+
+    await this.eventDispatcher.dispatchEventsForAggregate(profile);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM prioritization_profiles WHERE id = ?').run(id);
+  }
+
+  async findByName(name: string): Promise<PrioritizationProfile | null> {
+    return this.queryOne('name = ?', [name]);
+  }
+
+  async findAll(): Promise<PrioritizationProfile[]> {
+    return this.query('1 = 1 ORDER BY name', []);
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS prioritization_profiles (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+    `);
+  }
+
+  private queryOne(
+    clause: string,
+    params: unknown[],
+  ): PrioritizationProfile | null {
+    const row = this.db
+      .prepare(`SELECT data FROM prioritization_profiles WHERE ${clause}`)
+      .get(...params) as PrioritizationProfileRow | undefined;
+    return row ? this.toProfile(row) : null;
+  }
+
+  private query(clause: string, params: unknown[]): PrioritizationProfile[] {
+    const rows = this.db
+      .prepare(`SELECT data FROM prioritization_profiles WHERE ${clause}`)
+      .all(...params) as PrioritizationProfileRow[];
+    return rows.map((row) => this.toProfile(row));
+  }
+
+  private toProfile(row: PrioritizationProfileRow): PrioritizationProfile {
+    return PrioritizationProfile.fromJSON(JSON.parse(row.data));
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * SQLite Saved View Repository Implementation - Infrastructure Layer
+ * Durable implementation of saved view repository backed by SQLite
+ */
+
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Database from 'better-sqlite3';
+import { SavedViewRepository } from '../../../domain/repositories/saved-view.repository';
+import { SavedView } from '../../../domain/entities/saved-view.entity';
+import { DomainEventDispatcher } from '../../events/domain-event-dispatcher';
+import { openSqliteDatabase } from './sqlite-database';
+
+interface SavedViewRow {
+  data: string;
+}
+
+@Injectable()
+export class SqliteSavedViewRepository
+  implements SavedViewRepository, OnModuleDestroy
+{
+  private readonly logger = new Logger(SqliteSavedViewRepository.name);
+  private readonly db: Database.Database;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly eventDispatcher: DomainEventDispatcher,
+  ) {
+    this.db = openSqliteDatabase(this.config, this.logger);
+    this.migrate();
+  }
+
+  onModuleDestroy(): void {
+    this.db.close();
+  }
+
+  async findById(id: string): Promise<SavedView | null> {
+    return this.queryOne('id = ?', [id]);
+  }
+
+  async save(view: SavedView): Promise<void> {
+    const json = view.toJSON();
+
+    this.db
+      .prepare(
+        `INSERT INTO saved_views (
+          id, name, created_at, updated_at, data
+        ) VALUES (
+          @id, @name, @createdAt, @updatedAt, @data
+        )
+        ON CONFLICT(id) DO UPDATE SET
+          name = excluded.name,
+          updated_at = excluded.updated_at,
+          data = excluded.data`,
+      )
+      .run({
+        id: json.id,
+        name: json.name,
+        createdAt: json.createdAt,
+        updatedAt: json.updatedAt,
+        data: JSON.stringify(json),
+      });
+
+    await this.eventDispatcher.dispatchEventsForAggregate(view);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM saved_views WHERE id = ?').run(id);
+  }
+
+  async findByName(name: string): Promise<SavedView | null> {
+    return this.queryOne('name = ?', [name]);
+  }
+
+  async findAll(): Promise<SavedView[]> {
+    return this.query('1 = 1 ORDER BY name', []);
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS saved_views (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+    `);
+  }
+
+  private queryOne(clause: string, params: unknown[]): SavedView | null {
+    const row = this.db
+      .prepare(`SELECT data FROM saved_views WHERE ${clause}`)
+      .get(...params) as SavedViewRow | undefined;
+    return row ? this.toView(row) : null;
+  }
+
+  private query(clause: string, params: unknown[]): SavedView[] {
+    const rows = this.db
+      .prepare(`SELECT data FROM saved_views WHERE ${clause}`)
+      .all(...params) as SavedViewRow[];
+    return rows.map((row) => this.toView(row));
+  }
+
+  private toView(row: SavedViewRow): SavedView {
+    return SavedView.fromJSON(JSON.parse(row.data));
+  }
+}
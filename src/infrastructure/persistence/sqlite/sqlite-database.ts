@@ -0,0 +1,34 @@
+/**
+ * SQLite Database - Infrastructure Layer
+ * Opens the configured SQLite file shared by the SQLite repositories
+ */
+
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname, resolve } from 'path';
+
+export function openSqliteDatabase(
+  config: ConfigService,
+  logger: Logger,
+): Database.Database {
+  const databasePath = config.get(
+    'persistence.sqlitePath',
+    'data/executive-assistant.db',
+  );
+
+  if (databasePath === ':memory:') {
+    return new Database(databasePath);
+  }
+
+  const filePath = resolve(databasePath);
+  mkdirSync(dirname(filePath), { recursive: true });
+
+  // WAL lets every repository keep its own connection to the same file
+  const db = new Database(filePath);
+  db.pragma('journal_mode = WAL');
+  logger.log(`Using SQLite store at ${filePath}`);
+
+  return db;
+}
@@ -0,0 +1,100 @@
+/**
+ * SQLite Task Board Repository Implementation - Infrastructure Layer
+ * Durable implementation of task board repository backed by SQLite
+ */
+
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Database from 'better-sqlite3';
+import {
+  TaskBoardConflictError,
+  TaskBoardRepository,
+} from '../../../domain/repositories/task-board.repository';
+import { TaskBoard } from '../../../domain/entities/task-board.entity';
+import { DomainEventDispatcher } from '../../events/domain-event-dispatcher';
+import { openSqliteDatabase } from './sqlite-database';
+
+interface TaskBoardRow {
+  data: string;
+}
+
+@Injectable()
+export class SqliteTaskBoardRepository
+  implements TaskBoardRepository, OnModuleDestroy
+{
+  private readonly logger = new Logger(SqliteTaskBoardRepository.name);
+  private readonly db: Database.Database;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly eventDispatcher: DomainEventDispatcher,
+  ) {
+    this.db = openSqliteDatabase(this.config, this.logger);
+    this.migrate();
+  }
+
+  onModuleDestroy(): void {
+    this.db.close();
+  }
+
+  async findById(id: string): Promise<TaskBoard | null> {
+    const row = this.db
+      .prepare('SELECT data FROM task_boards WHERE id = ?')
+      .get(id) as TaskBoardRow | undefined;
+    return row ? TaskBoard.fromJSON(JSON.parse(row.data)) : null;
+  }
+
+  async save(board: TaskBoard): Promise<void> {
+    const json = board.toJSON();
+
+    const row = {
+      id: json.id,
+      createdAt: json.createdAt,
+      updatedAt: json.updatedAt,
+      storedUpdatedAt: board.storedUpdatedAt?.toISOString(),
+      data: JSON.stringify(json),
+    };
+
+    // Only overwrite the version this board was read from
+    const { changes } = row.storedUpdatedAt
+      ? this.db
+          .prepare(
+            `UPDATE task_boards SET
+              updated_at = @updatedAt,
+              data = @data
+            WHERE id = @id AND updated_at = @storedUpdatedAt`,
+          )
+          .run(row)
+      : this.db
+          .prepare(
+            `INSERT INTO task_boards (
+              id, created_at, updated_at, data
+            ) VALUES (
+              @id, @createdAt, @updatedAt, @data
+            )
+            ON CONFLICT(id) DO NOTHING`,
+          )
+          .run(row);
+    if (changes === 0) {
+      throw new TaskBoardConflictError(board.id);
+    }
+    board.markAsStored();
+
+    await this.eventDispatcher.dispatchEventsForAggregate(board);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM task_boards WHERE id = ?').run(id);
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS task_boards (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+    `);
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * SQLite Task Comment Repository Implementation - Infrastructure Layer
+ * Durable implementation of task comment repository backed by SQLite
+ */
+
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Database from 'better-sqlite3';
+import { TaskCommentRepository } from '../../../domain/repositories/task-comment.repository';
+import { TaskComment } from '../../../domain/entities/task-comment.entity';
+import { DomainEventDispatcher } from '../../events/domain-event-dispatcher';
+import { openSqliteDatabase } from './sqlite-database';
+
+interface TaskCommentRow {
+  data: string;
+}
+
+@Injectable()
+export class SqliteTaskCommentRepository
+  implements TaskCommentRepository, OnModuleDestroy
+{
+  private readonly logger = new Logger(SqliteTaskCommentRepository.name);
+  private readonly db: Database.Database;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly eventDispatcher: DomainEventDispatcher,
+  ) {
+    this.db = openSqliteDatabase(this.config, this.logger);
+    this.migrate();
+  }
+
+  onModuleDestroy(): void {
+    this.db.close();
+  }
+
+  async findById(id: string): Promise<TaskComment | null> {
+    const row = this.db
+      .prepare('SELECT data FROM task_comments WHERE id = ?')
+      .get(id) as TaskCommentRow | undefined;
+    return row ? this.toComment(row) : null;
+  }
+
+  async save(comment: TaskComment): Promise<void> {
+    const json = comment.toJSON();
+
+    this.db
+      .prepare(
+        `INSERT INTO task_comments (
+          id, task_id, has_pending_mentions, created_at, updated_at, data
+        ) VALUES (
+          @id, @taskId, @hasPendingMentions, @createdAt, @updatedAt, @data
+        )
+        ON CONFLICT(id) DO UPDATE SET
+          has_pending_mentions = excluded.has_pending_mentions,
+          updated_at = excluded.updated_at,
+          data = excluded.data`,
+      )
+      .run({
+        id: json.id,
+        taskId: json.taskId,
+        hasPendingMentions: json.pendingMentions.length > 0 ? 1 : 0,
+        createdAt: json.createdAt,
+        updatedAt: json.updatedAt,
+        data: JSON.stringify(json),
+      });
+
+    await this.eventDispatcher.dispatchEventsForAggregate(comment);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM task_comments WHERE id = ?').run(id);
+  }
+
+  async findByTaskId(taskId: string): Promise<TaskComment[]> {
+    return this.query('task_id = ? ORDER BY created_at', [taskId]);
+  }
+
+  async findWithPendingMentions(): Promise<TaskComment[]> {
+    return this.query('has_pending_mentions = 1', []);
+  }
+
+  async deleteByTaskId(taskId: string): Promise<void> {
+    this.db.prepare('DELETE FROM task_comments WHERE task_id = ?').run(taskId);
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS task_comments (
+        id TEXT PRIMARY KEY,
+        task_id TEXT NOT NULL,
+        has_pending_mentions INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_task_comments_task_id ON task_comments (task_id);
+    `);
+  }
+
+  private query(clause: string, params: unknown[]): TaskComment[] {
+    const rows = this.db
+      .prepare(`SELECT data FROM task_comments WHERE ${clause}`)
+      .all(...params) as TaskCommentRow[];
+    return rows.map((row) => this.toComment(row));
+  }
+
+  private toComment(row: TaskCommentRow): TaskComment {
+    return TaskComment.fromJSON(JSON.parse(row.data));
+  }
+}
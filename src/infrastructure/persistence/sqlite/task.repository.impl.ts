@@ -0,0 +1,379 @@
+/**
+ * SQLite Task Repository Implementation - Infrastructure Layer
+ * Durable implementation of task repository backed by a local SQLite file
+ */
+
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Database from 'better-sqlite3';
+import {
+  TaskRepository,
+  TaskQueryOptions,
+  TaskFilters,
+} from '../../../domain/repositories/task.repository';
+import { Task } from '../../../domain/entities/task.entity';
+import { Priority, TaskStatus } from '../../../domain/common/value-objects';
+import { QueryResult } from '../../../domain/common/repository.interface';
+import { TaskDeletedEvent } from '../../../domain/common/domain-events';
+import { DomainEventDispatcher } from '../../events/domain-event-dispatcher';
+import { openSqliteDatabase } from './sqlite-database';
+
+interface TaskRow {
+  data: string;
+}
+
+const PRIORITY_ORDER = `CASE priority WHEN 'low' THEN 1 WHEN 'medium' THEN 2 WHEN 'high' THEN 3 WHEN 'urgent' THEN 4 END`;
+
+@Injectable()
+export class SqliteTaskRepository implements TaskRepository, OnModuleDestroy {
+  private readonly logger = new Logger(SqliteTaskRepository.name);
+  private readonly db: Database.Database;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly eventDispatcher: DomainEventDispatcher,
+  ) {
+    this.db = openSqliteDatabase(this.config, this.logger);
+    this.migrate();
+  }
+
+  onModuleDestroy(): void {
+    this.db.close();
+  }
+
+  async findById(id: string): Promise<Task | null> {
+    const row = this.db
+      .prepare('SELECT data FROM tasks WHERE id = ?')
+      .get(id) as TaskRow | undefined;
+    return row ? this.toTask(row) : null;
+  }
+
+  async save(task: Task): Promise<void> {
+    const json = task.toJSON();
+
+    this.db
+      .prepare(
+        `INSERT INTO tasks (
+          id, title, description, status, priority, assignee, due_date,
+          estimated_duration, tags, completed_at, created_at, updated_at, data
+        ) VALUES (
+          @id, @title, @description, @status, @priority, @assignee, @dueDate,
+          @estimatedDuration, @tags, @completedAt, @createdAt, @updatedAt, @data
+        )
+        ON CONFLICT(id) DO UPDATE SET
+          title = excluded.title,
+          description = excluded.description,
+          status = excluded.status,
+          priority = excluded.priority,
+          assignee = excluded.assignee,
+          due_date = excluded.due_date,
+          estimated_duration = excluded.estimated_duration,
+          tags = excluded.tags,
+          completed_at = excluded.completed_at,
+          updated_at = excluded.updated_at,
+          data = excluded.data`,
+      )
+      .run({
+        id: json.id,
+        title: json.title,
+        description: json.description ?? null,
+        status: json.status,
+        priority: json.priority,
+        assignee: json.assignee ?? null,
+        dueDate: json.dueDate ?? null,
+        estimatedDuration: json.estimatedDuration ?? null,
+        tags: JSON.stringify(json.tags),
+        completedAt: json.completedAt ?? null,
+        createdAt: json.createdAt,
+        updatedAt: json.updatedAt,
+        data: JSON.stringify(json),
+      });
+
+    await this.eventDispatcher.dispatchEventsForAggregate(task);
+  }
+
+  async delete(id: string): Promise<void> {
+    const { changes } = this.db
+      .prepare('DELETE FROM tasks WHERE id = ?')
+      .run(id);
+    if (changes > 0) {
+      await this.eventDispatcher.dispatch([new TaskDeletedEvent(id)]);
+    }
+  }
+
+  async findByStatus(status: TaskStatus): Promise<Task[]> {
+    return this.query('status = ?', [status.value]);
+  }
+
+  async findByPriority(priority: Priority): Promise<Task[]> {
+    return this.query('priority = ?', [priority.value]);
+  }
+
+  async findByAssignee(assigneeEmail: string): Promise<Task[]> {
+    return this.query('assignee = ?', [assigneeEmail]);
+  }
+
+  async findOverdueTasks(): Promise<Task[]> {
+    return this.query(
+      "due_date IS NOT NULL AND due_date < ? AND status != 'completed'",
+      [new Date().toISOString()],
+    );
+  }
+
+  async findTasksDueWithin(days: number): Promise<Task[]> {
+    const now = new Date();
+    const cutoffDate = new Date(now);
+    cutoffDate.setDate(cutoffDate.getDate() + days);
+
+    return this.query('due_date >= ? AND due_date <= ?', [
+      now.toISOString(),
+      cutoffDate.toISOString(),
+    ]);
+  }
+
+  async findByTags(tags: string[]): Promise<Task[]> {
+    if (tags.length === 0) {
+      return [];
+    }
+
+    return this.query(
+      `EXISTS (SELECT 1 FROM json_each(tasks.tags) WHERE json_each.value IN (${tags.map(() => '?').join(', ')}))`,
+      tags.map((tag) => tag.toLowerCase()),
+    );
+  }
+
+  async findByParentId(parentId: string): Promise<Task[]> {
+    return this.query("json_extract(data, '$.parentId') = ?", [parentId]);
+  }
+
+  async findAll(): Promise<Task[]> {
+    return this.query('1 = 1', []);
+  }
+
+  async findMany(options?: TaskQueryOptions): Promise<QueryResult<Task>> {
+    const { clause, params } = this.buildWhereClause(options?.filters);
+    const offset = options?.offset || 0;
+    const limit = options?.limit || 20;
+
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM tasks WHERE ${clause}`)
+      .get(...params) as { total: number };
+
+    let items: Task[];
+
+    if (options?.sortBy === 'urgencyScore') {
+      // Urgency depends on the current time, so it cannot be sorted in SQL
+      const direction = options.sortOrder === 'desc' ? -1 : 1;
+      items = this.query(clause, params)
+        .sort((a, b) => (a.urgencyScore - b.urgencyScore) * direction)
+        .slice(offset, offset + limit);
+    } else {
+      const orderBy = this.buildOrderBy(
+        options?.sortBy,
+        options?.sortOrder || 'asc',
+      );
+      items = this.query(`${clause} ORDER BY ${orderBy} LIMIT ? OFFSET ?`, [
+        ...params,
+        limit,
+        offset,
+      ]);
+    }
+
+    return {
+      items,
+      total,
+      hasMore: offset + limit < total,
+    };
+  }
+
+  async countByStatus(): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {
+      pending: 0,
+      'in-progress': 0,
+      completed: 0,
+      cancelled: 0,
+    };
+
+    const rows = this.db
+      .prepare('SELECT status, COUNT(*) AS count FROM tasks GROUP BY status')
+      .all() as Array<{ status: string; count: number }>;
+    rows.forEach((row) => (counts[row.status] = row.count));
+
+    return counts;
+  }
+
+  async countByPriority(): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {
+      low: 0,
+      medium: 0,
+      high: 0,
+      urgent: 0,
+    };
+
+    const rows = this.db
+      .prepare(
+        'SELECT priority, COUNT(*) AS count FROM tasks GROUP BY priority',
+      )
+      .all() as Array<{ priority: string; count: number }>;
+    rows.forEach((row) => (counts[row.priority] = row.count));
+
+    return counts;
+  }
+
+  async getTaskAnalytics(): Promise<{
+    total: number;
+    completed: number;
+    overdue: number;
+    completionRate: number;
+    averageCompletionTime: number;
+    byStatus: Record<string, number>;
+    byPriority: Record<string, number>;
+  }> {
+    const stats = this.db
+      .prepare(
+        `SELECT
+          COUNT(*) AS total,
+          SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END) AS completed,
+          SUM(CASE WHEN due_date IS NOT NULL AND due_date < @now AND status != 'completed' THEN 1 ELSE 0 END) AS overdue,
+          AVG(CASE WHEN completed_at IS NOT NULL THEN julianday(completed_at) - julianday(created_at) END) AS averageCompletionTime
+        FROM tasks`,
+      )
+      .get({ now: new Date().toISOString() }) as {
+      total: number;
+      completed: number | null;
+      overdue: number | null;
+      averageCompletionTime: number | null;
+    };
+
+    const total = stats.total;
+    const completed = stats.completed || 0;
+
+    return {
+      total,
+      completed,
+      overdue: stats.overdue || 0,
+      completionRate: total > 0 ? (completed / total) * 100 : 0,
+      averageCompletionTime: stats.averageCompletionTime || 0, // in days
+      byStatus: await this.countByStatus(),
+      byPriority: await this.countByPriority(),
+    };
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS tasks (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        description TEXT,
+        status TEXT NOT NULL,
+        priority TEXT NOT NULL,
+        assignee TEXT,
+        due_date TEXT,
+        estimated_duration INTEGER,
+        tags TEXT NOT NULL DEFAULT '[]',
+        completed_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks (status);
+      CREATE INDEX IF NOT EXISTS idx_tasks_priority ON tasks (priority);
+      CREATE INDEX IF NOT EXISTS idx_tasks_assignee ON tasks (assignee);
+      CREATE INDEX IF NOT EXISTS idx_tasks_due_date ON tasks (due_date);
+    `);
+  }
+
+  private query(clause: string, params: unknown[]): Task[] {
+    const rows = this.db
+      .prepare(`SELECT data FROM tasks WHERE ${clause}`)
+      .all(...params) as TaskRow[];
+    return rows.map((row) => this.toTask(row));
+  }
+
+  private toTask(row: TaskRow): Task {
+    return Task.fromJSON(JSON.parse(row.data));
+  }
+
+  private buildWhereClause(filters?: TaskFilters): {
+    clause: string;
+    params: unknown[];
+  } {
+    const conditions: string[] = ['1 = 1'];
+    const params: unknown[] = [];
+
+    if (!filters) {
+      return { clause: conditions.join(' AND '), params };
+    }
+
+    if (filters.status) {
+      conditions.push('status = ?');
+      params.push(filters.status.value);
+    }
+
+    if (filters.priority) {
+      conditions.push('priority = ?');
+      params.push(filters.priority.value);
+    }
+
+    if (filters.assignee) {
+      conditions.push('assignee = ?');
+      params.push(filters.assignee);
+    }
+
+    if (filters.tags && filters.tags.length > 0) {
+      conditions.push(
+        `EXISTS (SELECT 1 FROM json_each(tasks.tags) WHERE json_each.value IN (${filters.tags.map(() => '?').join(', ')}))`,
+      );
+      params.push(...filters.tags.map((tag) => tag.toLowerCase()));
+    }
+
+    // Tasks without a due date are kept, matching the in-memory repository
+    if (filters.dueDateFrom) {
+      conditions.push('(due_date IS NULL OR due_date >= ?)');
+      params.push(filters.dueDateFrom.toISOString());
+    }
+
+    if (filters.dueDateTo) {
+      conditions.push('(due_date IS NULL OR due_date <= ?)');
+      params.push(filters.dueDateTo.toISOString());
+    }
+
+    if (filters.isOverdue !== undefined) {
+      const overdue =
+        "(due_date IS NOT NULL AND due_date < ? AND status != 'completed')";
+      conditions.push(filters.isOverdue ? overdue : `NOT ${overdue}`);
+      params.push(new Date().toISOString());
+    }
+
+    if (filters.hasAssignee !== undefined) {
+      conditions.push(
+        filters.hasAssignee ? 'assignee IS NOT NULL' : 'assignee IS NULL',
+      );
+    }
+
+    return { clause: conditions.join(' AND '), params };
+  }
+
+  private buildOrderBy(
+    sortBy: string | undefined,
+    sortOrder: 'asc' | 'desc',
+  ): string {
+    const direction = sortOrder === 'desc' ? 'DESC' : 'ASC';
+
+    switch (sortBy) {
+      case 'title':
+        return `title ${direction}`;
+      case 'createdAt':
+        return `created_at ${direction}`;
+      case 'updatedAt':
+        return `updated_at ${direction}`;
+      case 'dueDate':
+        // Tasks without a due date sort last in ascending order
+        return `(due_date IS NULL) ${direction}, due_date ${direction}`;
+      case 'priority':
+        return `${PRIORITY_ORDER} ${direction}`;
+      default:
+        return 'rowid ASC';
+    }
+  }
+}
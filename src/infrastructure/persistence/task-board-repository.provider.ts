@@ -0,0 +1,26 @@
+/**
+ * Task Board Repository Provider - Infrastructure Layer
+ * Selects the task board repository implementation from persistence configuration
+ */
+
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DomainEventDispatcher } from '../events/domain-event-dispatcher';
+import { InMemoryTaskBoardRepository } from './in-memory/task-board.repository.impl';
+import { SqliteTaskBoardRepository } from './sqlite/task-board.repository.impl';
+import { TaskBoardRepository } from '../../domain/repositories/task-board.repository';
+
+export const TaskBoardRepositoryProvider: Provider = {
+  provide: 'TaskBoardRepository',
+  useFactory: (
+    config: ConfigService,
+    eventDispatcher: DomainEventDispatcher,
+  ): TaskBoardRepository => {
+    if (config.get('persistence.taskBoardRepository') === 'database') {
+      return new SqliteTaskBoardRepository(config, eventDispatcher);
+    }
+
+    return new InMemoryTaskBoardRepository(eventDispatcher);
+  },
+  inject: [ConfigService, DomainEventDispatcher],
+};
@@ -0,0 +1,26 @@
+/**
+ * Task Comment Repository Provider - Infrastructure Layer
+ * Selects the task comment repository implementation from persistence configuration
+ */
+
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DomainEventDispatcher } from '../events/domain-event-dispatcher';
+import { InMemoryTaskCommentRepository } from './in-memory/task-comment.repository.impl';
+import { SqliteTaskCommentRepository } from './sqlite/task-comment.repository.impl';
+import { TaskCommentRepository } from '../../domain/repositories/task-comment.repository';
+
+export const TaskCommentRepositoryProvider: Provider = {
+  provide: 'TaskCommentRepository',
+  useFactory: (
+    config: ConfigService,
+    eventDispatcher: DomainEventDispatcher,
+  ): TaskCommentRepository => {
+    if (config.get('persistence.taskCommentRepository') === 'database') {
+      return new SqliteTaskCommentRepository(config, eventDispatcher);
+    }
+
+    return new InMemoryTaskCommentRepository(eventDispatcher);
+  },
+  inject: [ConfigService, DomainEventDispatcher],
+};
@@ -0,0 +1,26 @@
+/**
+ * Task Repository Provider - Infrastructure Layer
+ * Selects the task repository implementation from persistence configuration
+ */
+
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DomainEventDispatcher } from '../events/domain-event-dispatcher';
+import { InMemoryTaskRepository } from './in-memory/task.repository.impl';
+import { SqliteTaskRepository } from './sqlite/task.repository.impl';
+import { TaskRepository } from '../../domain/repositories/task.repository';
+
+export const TaskRepositoryProvider: Provider = {
+  provide: 'TaskRepository',
+  useFactory: (
+    config: ConfigService,
+    eventDispatcher: DomainEventDispatcher,
+  ): TaskRepository => {
+    if (config.get('persistence.taskRepository') === 'database') {
+      return new SqliteTaskRepository(config, eventDispatcher);
+    }
+
+    return new InMemoryTaskRepository(eventDispatcher);
+  },
+  inject: [ConfigService, DomainEventDispatcher],
+};
@@ -0,0 +1,97 @@
+/**
+ * Task Search Index Tests - Infrastructure Layer
+ * Verifies stemming, ranking, prefix matching, highlighting and event updates
+ */
+
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { TaskSearchIndex } from '../task-search-index';
+import { highlight, stem } from '../text-analyzer';
+import { InMemoryTaskRepository } from '../../persistence/in-memory/task.repository.impl';
+import { DomainEventDispatcher } from '../../events/domain-event-dispatcher';
+import { Task } from '../../../domain/entities/task.entity';
+
+describe('TaskSearchIndex', () => {
+  let repository: InMemoryTaskRepository;
+  let index: TaskSearchIndex;
+
+  const addTask = async (
+    title: string,
+    description?: string,
+    tags: string[] = [],
+  ) => {
+    const task = Task.create({ title, description, tags });
+    await repository.save(task);
+    return task;
+  };
+
+  const titles = async (query: string) => {
+    const hits = await index.search(query);
+    return Promise.all(
+      hits.map(async (hit) => (await repository.findById(hit.taskId))!.title),
+    );
+  };
+
+  beforeEach(() => {
+    const emitter = new EventEmitter2();
+    repository = new InMemoryTaskRepository(new DomainEventDispatcher(emitter));
+    index = new TaskSearchIndex(repository);
+    emitter.on('TaskCreated', (event) => index.handleTaskChanged(event));
+    emitter.on('TaskUpdated', (event) => index.handleTaskChanged(event));
+    emitter.on('TaskDeleted', (event) => index.handleTaskDeleted(event));
+  });
+
+  it('should map inflections to the same stem', () => {
+    expect(stem('meetings')).toBe(stem('meeting'));
+    expect(stem('planned')).toBe(stem('plans'));
+    expect(stem('strategies')).toBe(stem('strategy'));
+    expect(stem('classes')).toBe(stem('class'));
+    expect(stem('status')).toBe('status');
+    expect(stem('q3')).toBe('q3');
+  });
+
+  it('should rank title matches and tasks matching more words first', async () => {
+    await addTask('Book flights', 'Board offsite in Lisbon');
+    await addTask('Q3 board deck', 'Slides for the board meeting', ['board']);
+    await addTask('Review Q3 numbers');
+
+    expect(await titles('the thing about the Q3 board deck')).toEqual([
+      'Q3 board deck',
+      'Review Q3 numbers',
+      'Book flights',
+    ]);
+    expect(await titles('meetings')).toEqual(['Q3 board deck']);
+  });
+
+  it('should match prefixes of indexed words at lower weight', async () => {
+    await addTask('Prepare presentation');
+    await addTask('Present results', 'Final presentation draft');
+
+    expect(await titles('presen')).toHaveLength(2);
+    expect(await titles('lisb')).toEqual([]);
+  });
+
+  it('should follow task updates and deletions', async () => {
+    const task = await addTask('Call the bank');
+    expect(await titles('bank')).toEqual(['Call the bank']);
+
+    task.updateTitle('Call the insurer');
+    await repository.save(task);
+    expect(await titles('bank')).toEqual([]);
+    expect(await titles('insurer')).toEqual(['Call the insurer']);
+
+    await repository.delete(task.id);
+    expect(await titles('insurer')).toEqual([]);
+  });
+
+  it('should escape text and mark matches in snippets', () => {
+    const text = `Intro ${'filler '.repeat(30)}about <the> Q3 board deck. ${'more '.repeat(30)}`;
+
+    const snippet = highlight(text, new Set([stem('board'), 'q3']), {
+      maxLength: 60,
+    })!;
+
+    expect(snippet).toContain('&lt;the&gt; <mark>Q3</mark> <mark>board</mark>');
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+  });
+});
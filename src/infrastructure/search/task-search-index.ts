@@ -0,0 +1,249 @@
+/**
+ * Task Search Index - Infrastructure Layer
+ * In-memory inverted index over task titles, descriptions and tags
+ */
+
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import type { DomainEvent } from '../../domain/common/domain-events';
+import type { TaskRepository } from '../../domain/repositories/task.repository';
+import { Task } from '../../domain/entities/task.entity';
+import { analyze, stem } from './text-analyzer';
+
+export interface TaskSearchHit {
+  taskId: string;
+  score: number;
+  stems: string[]; // the indexed stems the query matched, for highlighting
+}
+
+type SearchField = 'title' | 'tags' | 'description';
+
+interface IndexedTask {
+  length: number; // weighted number of terms
+  stems: Set<string>;
+  words: Set<string>;
+}
+
+interface VocabularyEntry {
+  stem: string;
+  count: number;
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  tags: 2,
+  description: 1,
+};
+const PREFIX_WEIGHT = 0.5; // a prefix match counts half an exact one
+const MIN_PREFIX_LENGTH = 2;
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+@Injectable()
+export class TaskSearchIndex {
+  private readonly logger = new Logger(TaskSearchIndex.name);
+
+  // stem -> task ID -> weighted term frequency
+  private readonly postings = new Map<string, Map<string, number>>();
+  private readonly documents = new Map<string, IndexedTask>();
+  // indexed word -> its stem and how many tasks use it, for prefix matching
+  private readonly vocabulary = new Map<string, VocabularyEntry>();
+  private totalLength = 0;
+  private built?: Promise<void>;
+
+  constructor(
+    @Inject('TaskRepository') private readonly taskRepository: TaskRepository,
+  ) {}
+
+  /**
+   * The index is filled from the repository on first use and then kept
+   * current through task events, so a restart only costs one full scan.
+   */
+  @OnEvent('TaskCreated')
+  @OnEvent('TaskUpdated')
+  async handleTaskChanged(event: DomainEvent): Promise<void> {
+    if (!this.built) {
+      return; // Picked up by the initial build
+    }
+    const task = await this.taskRepository.findById(event.aggregateId);
+    if (task) {
+      this.upsert(task);
+    } else {
+      this.remove(event.aggregateId);
+    }
+  }
+
+  @OnEvent('TaskDeleted')
+  handleTaskDeleted(event: DomainEvent): void {
+    this.remove(event.aggregateId);
+  }
+
+  /**
+   * Ranks tasks with BM25 over the weighted fields. Each query word matches
+   * its stem exactly and, at half weight, any indexed word it is a prefix
+   * of. Tasks matching more of the query words rank higher.
+   */
+  async search(query: string): Promise<TaskSearchHit[]> {
+    await this.ensureBuilt();
+
+    const words = [...new Set(analyze(query).map((token) => token.word))];
+    if (words.length === 0 || this.documents.size === 0) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / this.documents.size;
+    const scores = new Map<string, { score: number; matched: number }>();
+    const matchedStems = new Map<string, Set<string>>();
+
+    for (const word of words) {
+      const candidates = this.expand(word);
+      const best = new Map<string, number>();
+
+      for (const [candidate, weight] of candidates) {
+        const posting = this.postings.get(candidate);
+        if (!posting) {
+          continue;
+        }
+        const idf = Math.log(
+          1 + (this.documents.size - posting.size + 0.5) / (posting.size + 0.5),
+        );
+        for (const [taskId, frequency] of posting) {
+          const length = this.documents.get(taskId)!.length;
+          const saturation =
+            (frequency * (K1 + 1)) /
+            (frequency + K1 * (1 - B + (B * length) / averageLength));
+          const score = weight * idf * saturation;
+          if (score > (best.get(taskId) ?? 0)) {
+            best.set(taskId, score);
+          }
+          if (!matchedStems.has(taskId)) {
+            matchedStems.set(taskId, new Set());
+          }
+          matchedStems.get(taskId)!.add(candidate);
+        }
+      }
+
+      for (const [taskId, score] of best) {
+        const total = scores.get(taskId) ?? { score: 0, matched: 0 };
+        scores.set(taskId, {
+          score: total.score + score,
+          matched: total.matched + 1,
+        });
+      }
+    }
+
+    return [...scores]
+      .map(([taskId, { score, matched }]) => ({
+        taskId,
+        score: Math.round(score * (matched / words.length) * 1000) / 1000,
+        stems: [...matchedStems.get(taskId)!],
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  upsert(task: Task): void {
+    this.remove(task.id);
+
+    const fields: Record<SearchField, string[]> = {
+      title: [task.title],
+      tags: [...task.tags],
+      description: task.description ? [task.description] : [],
+    };
+
+    const frequencies = new Map<string, number>();
+    const words = new Set<string>();
+    let length = 0;
+    for (const field of Object.keys(fields) as SearchField[]) {
+      for (const text of fields[field]) {
+        for (const token of analyze(text)) {
+          frequencies.set(
+            token.stem,
+            (frequencies.get(token.stem) ?? 0) + FIELD_WEIGHTS[field],
+          );
+          words.add(token.word);
+          length += FIELD_WEIGHTS[field];
+        }
+      }
+    }
+
+    for (const [term, frequency] of frequencies) {
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Map());
+      }
+      this.postings.get(term)!.set(task.id, frequency);
+    }
+    for (const word of words) {
+      const entry = this.vocabulary.get(word);
+      this.vocabulary.set(word, {
+        stem: stem(word),
+        count: (entry?.count ?? 0) + 1,
+      });
+    }
+
+    this.documents.set(task.id, {
+      length,
+      stems: new Set(frequencies.keys()),
+      words,
+    });
+    this.totalLength += length;
+  }
+
+  remove(taskId: string): void {
+    const document = this.documents.get(taskId);
+    if (!document) {
+      return;
+    }
+
+    for (const term of document.stems) {
+      const posting = this.postings.get(term);
+      posting?.delete(taskId);
+      if (posting?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    for (const word of document.words) {
+      const entry = this.vocabulary.get(word)!;
+      if (entry.count <= 1) {
+        this.vocabulary.delete(word);
+      } else {
+        entry.count--;
+      }
+    }
+
+    this.documents.delete(taskId);
+    this.totalLength -= document.length;
+  }
+
+  /**
+   * The stems a query word matches, with the weight of each match.
+   */
+  private expand(word: string): Map<string, number> {
+    const exact = stem(word);
+    const candidates = new Map<string, number>([[exact, 1]]);
+
+    if (word.length >= MIN_PREFIX_LENGTH) {
+      for (const [indexed, entry] of this.vocabulary) {
+        if (indexed.startsWith(word) && !candidates.has(entry.stem)) {
+          candidates.set(entry.stem, PREFIX_WEIGHT);
+        }
+      }
+    }
+
+    return candidates;
+  }
+
+  private ensureBuilt(): Promise<void> {
+    if (!this.built) {
+      this.built = (async () => {
+        const tasks = await this.taskRepository.findAll();
+        tasks.forEach((task) => this.upsert(task));
+        this.logger.log(`Indexed ${tasks.length} tasks for search`);
+      })().catch((error) => {
+        this.built = undefined; // Try again on the next search
+        throw error;
+      });
+    }
+    return this.built;
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Text Analyzer - Infrastructure Layer
+ * Tokenization, stemming and highlighting for full-text search
+ */
+
+export interface AnalyzedToken {
+  word: string; // lowercased, accents removed
+  stem: string;
+}
+
+export interface HighlightOptions {
+  maxLength?: number; // snippet length in characters; whole text when unset
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+const STOP_WORDS = new Set([
+  'a',
+  'about',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'in',
+  'into',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'that',
+  'the',
+  'this',
+  'to',
+  'was',
+  'with',
+]);
+
+// Longest first; the first one that leaves a stem of three or more letters wins
+const SUFFIXES: Array<[string, string]> = [
+  ['ational', 'ate'],
+  ['ations', ''],
+  ['ation', ''],
+  ['ments', ''],
+  ['ment', ''],
+  ['ness', ''],
+  ['ings', ''],
+  ['ing', ''],
+  ['edly', ''],
+  ['ies', 'y'],
+  ['ied', 'y'],
+  ['ers', ''],
+  ['er', ''],
+  ['ed', ''],
+  ['es', ''],
+  ['ly', ''],
+  ['s', ''],
+];
+
+export function normalizeWord(word: string): string {
+  return word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+/**
+ * A light suffix-stripping stemmer for English. It does not aim to produce
+ * real words, only to map inflections such as "meetings", "meeting" and
+ * "meet" to the same stem on both the indexing and the query side.
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) {
+    return word;
+  }
+
+  let result = word;
+  for (const [suffix, replacement] of SUFFIXES) {
+    if (suffix === 's' && /(ss|us|is)$/.test(result)) {
+      continue; // "class", "status", "analysis" are not plurals
+    }
+    if (result.endsWith(suffix) && result.length - suffix.length >= 3) {
+      result = result.slice(0, -suffix.length) + replacement;
+      break;
+    }
+  }
+
+  // "planned" -> "plann" -> "plan", but "call" and "press" stay
+  if (/([^aeioulsz])\1$/.test(result)) {
+    result = result.slice(0, -1);
+  }
+  if (result.endsWith('e') && result.length > 3) {
+    result = result.slice(0, -1);
+  }
+
+  return result;
+}
+
+/**
+ * Splits text into words, drops stop words and single letters, and stems
+ * what remains. Numbers and words containing digits, like "q3", are kept.
+ */
+export function analyze(text: string | undefined): AnalyzedToken[] {
+  const tokens: AnalyzedToken[] = [];
+  for (const match of (text || '').matchAll(WORD_PATTERN)) {
+    const word = normalizeWord(match[0]);
+    if (STOP_WORDS.has(word) || (word.length < 2 && !/\d/.test(word))) {
+      continue;
+    }
+    tokens.push({ word, stem: stem(word) });
+  }
+  return tokens;
+}
+
+/**
+ * Wraps words whose stem is in `stems` in <mark> tags. The rest of the text
+ * is HTML-escaped so snippets can be rendered as they are. With
+ * `maxLength`, the snippet is a window around the first match.
+ */
+export function highlight(
+  text: string,
+  stems: Set<string>,
+  options: HighlightOptions = {},
+): string | undefined {
+  const matches: Array<{ start: number; end: number }> = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    if (stems.has(stem(normalizeWord(match[0])))) {
+      matches.push({ start: match.index, end: match.index + match[0].length });
+    }
+  }
+  if (matches.length === 0) {
+    return undefined;
+  }
+
+  let from = 0;
+  let to = text.length;
+  if (options.maxLength && text.length > options.maxLength) {
+    from = Math.max(0, matches[0].start - Math.floor(options.maxLength / 4));
+    to = Math.min(text.length, from + options.maxLength);
+    // Do not cut words in half
+    while (from > 0 && /[\p{L}\p{N}]/u.test(text[from - 1])) {
+      from--;
+    }
+    while (to < text.length && /[\p{L}\p{N}]/u.test(text[to])) {
+      to++;
+    }
+  }
+
+  let snippet = from > 0 ? '…' : '';
+  let cursor = from;
+  for (const { start, end } of matches) {
+    if (start < from || end > to) {
+      continue;
+    }
+    snippet += escapeHtml(text.slice(cursor, start));
+    snippet += `<mark>${escapeHtml(text.slice(start, end))}</mark>`;
+    cursor = end;
+  }
+  snippet += escapeHtml(text.slice(cursor, to));
+  if (to < text.length) {
+    snippet += '…';
+  }
+
+  return snippet;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
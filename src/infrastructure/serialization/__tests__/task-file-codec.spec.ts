@@ -0,0 +1,132 @@
+/**
+ * Task File Codec Tests - Infrastructure Layer
+ * Verifies CSV quoting, iCalendar escaping and folding, and round trips
+ */
+
+import { ExportableTaskRecord, TaskFileCodec } from '../task-file-codec';
+
+describe('TaskFileCodec', () => {
+  const codec = new TaskFileCodec();
+
+  const tasks: ExportableTaskRecord[] = [
+    {
+      id: 'task_1',
+      title: 'Board memo, final "v2"',
+      description: 'Numbers for Q3;\nthen send',
+      status: 'in-progress',
+      priority: 'high',
+      assignee: 'chief@example.com',
+      dueDate: '2026-11-02T17:00:00.000Z',
+      tags: ['board', 'q3'],
+      estimatedDuration: 90,
+      dependencies: [],
+      updatedAt: '2026-10-19T08:00:00.000Z',
+    },
+    {
+      id: 'task_2',
+      title: 'Send memo',
+      status: 'pending',
+      priority: 'urgent',
+      tags: [],
+      dependencies: ['task_1'],
+    },
+  ];
+
+  it.each(['csv', 'json', 'ics'] as const)(
+    'should read back what it writes as %s',
+    (format) => {
+      const parsed = codec.parse(codec.serialize(tasks, format), format);
+
+      expect(parsed.map((item) => item.record)).toEqual([
+        {
+          id: 'task_1',
+          title: 'Board memo, final "v2"',
+          description: 'Numbers for Q3;\nthen send',
+          status: 'in-progress',
+          priority: 'high',
+          assignee: 'chief@example.com',
+          dueDate: '2026-11-02T17:00:00.000Z',
+          tags: ['board', 'q3'],
+          estimatedDuration: 90,
+          dependencies: [],
+        },
+        expect.objectContaining({
+          id: 'task_2',
+          priority: 'urgent',
+          dependencies: ['task_1'],
+        }),
+      ]);
+    },
+  );
+
+  it('should quote CSV fields and report rows with too many fields', () => {
+    const csv = codec.serialize(tasks, 'csv');
+    expect(csv.split('\r\n')[1]).toContain('"Board memo, final ""v2"""');
+
+    const parsed = codec.parse(
+      '\uFEFFTitle,Priority\nCall bank,low\nA,b,c\n\n',
+      'csv',
+    );
+    expect(parsed).toEqual([
+      expect.objectContaining({
+        row: 1,
+        record: expect.objectContaining({
+          title: 'Call bank',
+          priority: 'low',
+        }),
+      }),
+      {
+        row: 2,
+        record: {},
+        error: 'Row has 3 fields but the header has 2',
+      },
+    ]);
+    expect(() => codec.parse('priority\nlow', 'csv')).toThrow(
+      'Invalid CSV: a title column is required',
+    );
+  });
+
+  it('should escape, fold and map VTODO properties', () => {
+    const ics = codec.serialize(
+      [{ ...tasks[0], title: 'x'.repeat(100) }],
+      'ics',
+    );
+    const lines = ics.split('\r\n');
+
+    expect(lines).toContain('STATUS:IN-PROCESS');
+    expect(lines).toContain('PRIORITY:3');
+    expect(lines).toContain('DUE:20261102T170000Z');
+    expect(lines).toContain('DESCRIPTION:Numbers for Q3\\;\\nthen send');
+    expect(lines).toContain('X-ESTIMATED-DURATION:PT90M');
+    expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+
+    const [parsed] = codec.parse(
+      [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VTODO',
+        'UID:abc',
+        'SUMMARY:Renew pass',
+        ' port',
+        'DUE;VALUE=DATE:20261201',
+        'PRIORITY:9',
+        'X-ESTIMATED-DURATION:PT1H30M',
+        'RELATED-TO:parent-task',
+        'BEGIN:VALARM',
+        'DESCRIPTION:Reminder',
+        'END:VALARM',
+        'END:VTODO',
+        'END:VCALENDAR',
+      ].join('\r\n'),
+      'ics',
+    );
+    expect(parsed.record).toEqual({
+      id: 'abc',
+      title: 'Renew passport',
+      dueDate: '2026-12-01T00:00:00.000Z',
+      priority: 'low',
+      estimatedDuration: 90,
+      tags: [],
+      dependencies: [],
+    });
+  });
+});
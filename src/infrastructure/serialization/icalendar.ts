@@ -0,0 +1,99 @@
+/**
+ * iCalendar Helpers - Infrastructure Layer
+ * Content-line reading and writing shared by the iCalendar (RFC 5545) codecs
+ */
+
+const ICS_LINE_LIMIT = 75; // octets, excluding the line break
+
+export interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Splits a calendar into content lines, joining folded continuation
+ * lines first and dropping blank ones.
+ */
+export function unfoldIcsLines(text: string): string[] {
+  return text
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .filter((line) => line.trim());
+}
+
+export function readIcsProperty(line: string): IcsProperty | null {
+  let quoted = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      quoted = !quoted;
+    } else if (line[i] === ':' && !quoted) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator === -1) {
+    return null;
+  }
+
+  const [name, ...rawParams] = line.slice(0, separator).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+
+  return {
+    name: name.toUpperCase(),
+    params,
+    value: line.slice(separator + 1),
+  };
+}
+
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+export function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char,
+  );
+}
+
+// UTC date-time, e.g. 20260315T090000Z
+export function toIcsDateTime(iso: string | Date): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+}
+
+/**
+ * Folds long content lines into 75-octet chunks, never splitting a
+ * multi-byte character.
+ */
+export function foldIcsLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  let size = 0;
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    const limit = chunks.length === 0 ? ICS_LINE_LIMIT : ICS_LINE_LIMIT - 1;
+    if (size + bytes > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      size = 0;
+    }
+    chunk += char;
+    size += bytes;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+}
+
+// Folds and joins content lines into a calendar file body
+export function joinIcsLines(lines: string[]): string {
+  return lines.map((line) => foldIcsLine(line)).join('\r\n') + '\r\n';
+}
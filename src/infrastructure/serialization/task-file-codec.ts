@@ -0,0 +1,492 @@
+/**
+ * Task File Codec - Infrastructure Layer
+ * Converts tasks to and from CSV, JSON and iCalendar (VTODO) files
+ */
+
+import { Injectable } from '@nestjs/common';
+import {
+  escapeIcsText,
+  joinIcsLines,
+  readIcsProperty,
+  toIcsDateTime,
+  unescapeIcsText,
+  unfoldIcsLines,
+} from './icalendar';
+
+export type TaskFileFormat = 'csv' | 'json' | 'ics';
+
+export const TASK_FILE_FORMATS: TaskFileFormat[] = ['csv', 'json', 'ics'];
+
+/**
+ * The portable part of `Task.toJSON`. Everything is optional because
+ * imported files are validated by the caller, row by row.
+ */
+export interface TaskRecord {
+  id?: string;
+  title?: string;
+  description?: string;
+  status?: string;
+  priority?: string;
+  assignee?: string;
+  dueDate?: string; // ISO string
+  tags?: string[];
+  estimatedDuration?: number; // in minutes
+  dependencies?: string[];
+}
+
+export interface ExportableTaskRecord extends TaskRecord {
+  completedAt?: string;
+  updatedAt?: string;
+}
+
+export interface ParsedTaskRecord {
+  row: number; // 1-based position of the task in the file
+  record: TaskRecord;
+  error?: string; // set when the row could not be read at all
+}
+
+const RECORD_FIELDS: (keyof TaskRecord)[] = [
+  'id',
+  'title',
+  'description',
+  'status',
+  'priority',
+  'assignee',
+  'dueDate',
+  'tags',
+  'estimatedDuration',
+  'dependencies',
+];
+const LIST_SEPARATOR = ';';
+
+// RFC 5545 priorities run from 1 (highest) to 9 (lowest), 0 is undefined
+const ICS_PRIORITIES: Record<string, number> = {
+  urgent: 1,
+  high: 3,
+  medium: 5,
+  low: 7,
+};
+const ICS_STATUSES: Record<string, string> = {
+  pending: 'NEEDS-ACTION',
+  'in-progress': 'IN-PROCESS',
+  completed: 'COMPLETED',
+  cancelled: 'CANCELLED',
+};
+
+@Injectable()
+export class TaskFileCodec {
+  serialize(tasks: ExportableTaskRecord[], format: TaskFileFormat): string {
+    switch (format) {
+      case 'csv':
+        return this.toCsv(tasks);
+      case 'ics':
+        return this.toIcs(tasks);
+      default:
+        return JSON.stringify(
+          tasks.map((task) => this.pick(task)),
+          null,
+          2,
+        );
+    }
+  }
+
+  /**
+   * Throws when the file as a whole is unreadable; problems confined to a
+   * single task are reported on its row instead.
+   */
+  parse(content: string, format: TaskFileFormat): ParsedTaskRecord[] {
+    // Spreadsheet tools often prepend a byte order mark
+    const text = content.replace(/^\uFEFF/, '');
+    switch (format) {
+      case 'csv':
+        return this.fromCsv(text);
+      case 'ics':
+        return this.fromIcs(text);
+      default:
+        return this.fromJson(text);
+    }
+  }
+
+  // JSON
+
+  private fromJson(text: string): ParsedTaskRecord[] {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${error.message}`);
+    }
+
+    const items = Array.isArray(parsed) ? parsed : parsed?.tasks;
+    if (!Array.isArray(items)) {
+      throw new Error('Invalid JSON: expected an array of tasks');
+    }
+
+    return items.map((item, index) => {
+      if (!item || typeof item !== 'object' || Array.isArray(item)) {
+        return { row: index + 1, record: {}, error: 'Task must be an object' };
+      }
+      return {
+        row: index + 1,
+        record: {
+          id: this.text(item.id),
+          title: this.text(item.title),
+          description: this.text(item.description),
+          status: this.text(item.status),
+          priority: this.text(item.priority),
+          assignee: this.text(item.assignee),
+          dueDate: this.text(item.dueDate),
+          tags: this.list(item.tags),
+          estimatedDuration: this.number(item.estimatedDuration),
+          dependencies: this.list(item.dependencies),
+        },
+      };
+    });
+  }
+
+  // CSV (RFC 4180)
+
+  private toCsv(tasks: ExportableTaskRecord[]): string {
+    const lines = [RECORD_FIELDS.join(',')];
+    for (const task of tasks) {
+      lines.push(
+        RECORD_FIELDS.map((column) => {
+          const value = task[column];
+          return this.csvField(
+            Array.isArray(value) ? value.join(LIST_SEPARATOR) : value,
+          );
+        }).join(','),
+      );
+    }
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  private csvField(value: string | number | undefined): string {
+    if (value === undefined || value === null) {
+      return '';
+    }
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private fromCsv(text: string): ParsedTaskRecord[] {
+    const rows = this.readCsvRows(text).filter((row) =>
+      row.some((field) => field.trim()),
+    );
+    if (rows.length === 0) {
+      throw new Error('Invalid CSV: the file is empty');
+    }
+
+    const header = rows[0].map((name) => name.trim().toLowerCase());
+    const columns = header.map((name) =>
+      RECORD_FIELDS.find((column) => column.toLowerCase() === name),
+    );
+    if (!columns.includes('title')) {
+      throw new Error('Invalid CSV: a title column is required');
+    }
+
+    return rows.slice(1).map((fields, index) => {
+      const row = index + 1;
+      if (fields.length > header.length) {
+        return {
+          row,
+          record: {},
+          error: `Row has ${fields.length} fields but the header has ${header.length}`,
+        };
+      }
+
+      const values: Partial<Record<keyof TaskRecord, string>> = {};
+      columns.forEach((column, position) => {
+        if (column) {
+          values[column] = fields[position]; // missing trailing fields stay undefined
+        }
+      });
+
+      return {
+        row,
+        record: {
+          id: this.text(values.id),
+          title: this.text(values.title),
+          description: this.text(values.description),
+          status: this.text(values.status),
+          priority: this.text(values.priority),
+          assignee: this.text(values.assignee),
+          dueDate: this.text(values.dueDate),
+          tags: this.list(values.tags),
+          estimatedDuration: this.number(values.estimatedDuration),
+          dependencies: this.list(values.dependencies),
+        },
+      };
+    });
+  }
+
+  private readCsvRows(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field === '') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\r' || char === '\n') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (quoted) {
+      throw new Error('Invalid CSV: unterminated quoted field');
+    }
+    if (field || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return rows;
+  }
+
+  // iCalendar (RFC 5545)
+
+  private toIcs(tasks: ExportableTaskRecord[]): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Executive Assistant AI//Tasks//EN',
+    ];
+
+    for (const task of tasks) {
+      lines.push('BEGIN:VTODO');
+      lines.push(`UID:${task.id}`);
+      lines.push(
+        `DTSTAMP:${toIcsDateTime(task.updatedAt || new Date().toISOString())}`,
+      );
+      lines.push(`SUMMARY:${escapeIcsText(task.title || '')}`);
+      if (task.description) {
+        lines.push(`DESCRIPTION:${escapeIcsText(task.description)}`);
+      }
+      if (task.status && ICS_STATUSES[task.status]) {
+        lines.push(`STATUS:${ICS_STATUSES[task.status]}`);
+      }
+      if (task.priority && ICS_PRIORITIES[task.priority]) {
+        lines.push(`PRIORITY:${ICS_PRIORITIES[task.priority]}`);
+      }
+      if (task.assignee) {
+        lines.push(`ATTENDEE:mailto:${task.assignee}`);
+      }
+      if (task.dueDate) {
+        lines.push(`DUE:${toIcsDateTime(task.dueDate)}`);
+      }
+      if (task.completedAt) {
+        lines.push(`COMPLETED:${toIcsDateTime(task.completedAt)}`);
+      }
+      if (task.tags?.length) {
+        lines.push(
+          `CATEGORIES:${task.tags.map((tag) => escapeIcsText(tag)).join(',')}`,
+        );
+      }
+      if (task.estimatedDuration) {
+        lines.push(`X-ESTIMATED-DURATION:PT${task.estimatedDuration}M`);
+      }
+      for (const dependency of task.dependencies || []) {
+        lines.push(`RELATED-TO;RELTYPE=DEPENDS-ON:${dependency}`);
+      }
+      lines.push('END:VTODO');
+    }
+
+    lines.push('END:VCALENDAR');
+    return joinIcsLines(lines);
+  }
+
+  private fromIcs(text: string): ParsedTaskRecord[] {
+    const lines = unfoldIcsLines(text);
+    if (!lines.some((line) => line.toUpperCase() === 'BEGIN:VCALENDAR')) {
+      throw new Error('Invalid iCalendar: no VCALENDAR found');
+    }
+
+    const parsed: ParsedTaskRecord[] = [];
+    let record: TaskRecord | undefined;
+    let depth = 0; // components nested in the VTODO, e.g. VALARM
+
+    for (const line of lines) {
+      const property = readIcsProperty(line);
+      if (!property) {
+        continue;
+      }
+      const { name, params, value } = property;
+
+      if (name === 'BEGIN') {
+        if (record) {
+          depth++;
+        } else if (value.toUpperCase() === 'VTODO') {
+          record = { tags: [], dependencies: [] };
+        }
+        continue;
+      }
+      if (name === 'END') {
+        if (record && depth > 0) {
+          depth--;
+        } else if (record && value.toUpperCase() === 'VTODO') {
+          parsed.push({ row: parsed.length + 1, record });
+          record = undefined;
+        }
+        continue;
+      }
+      if (!record || depth > 0) {
+        continue;
+      }
+
+      switch (name) {
+        case 'UID':
+          record.id = this.text(value);
+          break;
+        case 'SUMMARY':
+          record.title = this.text(unescapeIcsText(value));
+          break;
+        case 'DESCRIPTION':
+          record.description = this.text(unescapeIcsText(value));
+          break;
+        case 'STATUS':
+          record.status =
+            Object.keys(ICS_STATUSES).find(
+              (status) => ICS_STATUSES[status] === value.toUpperCase(),
+            ) ?? value.toLowerCase();
+          break;
+        case 'PRIORITY':
+          record.priority = this.fromIcsPriority(value);
+          break;
+        case 'ATTENDEE':
+          record.assignee = this.text(value.replace(/^mailto:/i, ''));
+          break;
+        case 'DUE':
+          record.dueDate = this.fromIcsDate(value);
+          break;
+        case 'CATEGORIES':
+          record.tags!.push(
+            ...value
+              .split(/(?<!\\),/)
+              .map((tag) => unescapeIcsText(tag).trim())
+              .filter((tag) => tag),
+          );
+          break;
+        case 'X-ESTIMATED-DURATION':
+          record.estimatedDuration = this.fromIcsDuration(value);
+          break;
+        case 'RELATED-TO':
+          // Without RELTYPE the relation is a parent, not a dependency
+          if (params.RELTYPE?.toUpperCase() === 'DEPENDS-ON') {
+            record.dependencies!.push(value.trim());
+          }
+          break;
+      }
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Floating times and TZID parameters are read as UTC; all-day values
+   * become midnight UTC. Unreadable values are passed on as they are so
+   * validation can report them.
+   */
+  private fromIcsDate(value: string): string {
+    const match = value
+      .trim()
+      .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+    if (!match) {
+      return value;
+    }
+    const [, year, month, day, hour = '00', minute = '00', second = '00'] =
+      match;
+    return `${year}-${month}-${day}T${hour}:${minute}:${second}.000Z`;
+  }
+
+  private fromIcsPriority(value: string): string | undefined {
+    const priority = parseInt(value, 10);
+    if (!priority) {
+      return undefined; // 0 means undefined
+    }
+    if (priority <= 2) {
+      return 'urgent';
+    }
+    if (priority <= 4) {
+      return 'high';
+    }
+    return priority === 5 ? 'medium' : 'low';
+  }
+
+  private fromIcsDuration(value: string): number {
+    const match = value
+      .trim()
+      .match(
+        /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/,
+      );
+    if (!match || value.trim() === 'P' || value.trim().endsWith('T')) {
+      return NaN;
+    }
+    const [, weeks, days, hours, minutes, seconds] = match.map(
+      (part) => parseInt(part, 10) || 0,
+    );
+    return (
+      weeks * 7 * 24 * 60 +
+      days * 24 * 60 +
+      hours * 60 +
+      minutes +
+      Math.round(seconds / 60)
+    );
+  }
+
+  // Shared
+
+  private pick(task: ExportableTaskRecord): TaskRecord {
+    const record: TaskRecord = {};
+    for (const column of RECORD_FIELDS) {
+      if (task[column] !== undefined) {
+        (record as any)[column] = task[column];
+      }
+    }
+    return record;
+  }
+
+  private text(value: unknown): string | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    const text = String(value).trim();
+    return text || undefined;
+  }
+
+  private list(value: unknown): string[] {
+    const items = Array.isArray(value)
+      ? value.map((item) => String(item))
+      : (this.text(value)?.split(LIST_SEPARATOR) ?? []);
+    return items.map((item) => item.trim()).filter((item) => item);
+  }
+
+  private number(value: unknown): number | undefined {
+    if (this.text(value) === undefined) {
+      return undefined;
+    }
+    return Number(value);
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Handlebars Template Renderer - Infrastructure Layer
+ * Renders email templates with conditionals, loops and partials
+ */
+
+/* global hbs -- AST node types, declared globally by the handlebars typings */
+
+import { Injectable } from '@nestjs/common';
+import Handlebars from 'handlebars';
+
+export interface TemplateSource {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface TemplatePartialSource {
+  name: string;
+  html: string;
+  text: string;
+}
+
+// Block helpers whose body still sees the variables of the template
+const SAME_CONTEXT_BLOCKS = ['if', 'unless'];
+const BUILT_IN_HELPERS = ['if', 'unless', 'each', 'with', 'lookup', 'log'];
+
+export interface RenderedTemplate {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+@Injectable()
+export class HandlebarsTemplateRenderer {
+  /**
+   * Each render gets its own Handlebars environments so partials registered
+   * for one template never leak into another. HTML output is escaped; the
+   * subject and plain-text parts are not.
+   */
+  render(
+    template: TemplateSource,
+    variables: Record<string, any>,
+    partials: TemplatePartialSource[] = [],
+  ): RenderedTemplate {
+    const htmlEnv = Handlebars.create();
+    const textEnv = Handlebars.create();
+    for (const partial of partials) {
+      htmlEnv.registerPartial(partial.name, partial.html || partial.text);
+      textEnv.registerPartial(partial.name, partial.text || partial.html);
+    }
+
+    return {
+      subject: textEnv
+        .compile(template.subject, { noEscape: true })(variables)
+        .trim(),
+      html: template.html ? htmlEnv.compile(template.html)(variables) : '',
+      text: template.text
+        ? textEnv.compile(template.text, { noEscape: true })(variables)
+        : '',
+    };
+  }
+
+  /**
+   * Parses every part of a template and throws on the first syntax error,
+   * so broken markup is rejected when it is saved rather than when it is sent.
+   */
+  assertValidSyntax(template: TemplateSource): void {
+    for (const part of ['subject', 'html', 'text'] as const) {
+      const source = template[part];
+      if (!source) {
+        continue;
+      }
+
+      try {
+        Handlebars.parse(source);
+      } catch (error) {
+        throw new Error(`Invalid template ${part}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Lists the variables a template uses from its own top level, outside of
+   * partials. Inside `each` and `with` blocks plain names refer to the
+   * current item, so only `../` and `@root.` references count there.
+   */
+  findVariables(template: TemplateSource): string[] {
+    const names = new Set<string>();
+
+    const visitPath = (path: hbs.AST.PathExpression, depth: number) => {
+      if (path.data) {
+        if (path.parts[0] === 'root' && path.parts.length > 1) {
+          names.add(path.parts[1]);
+        }
+      } else if (path.parts.length > 0 && path.depth >= depth) {
+        names.add(path.parts[0]);
+      }
+    };
+
+    const visitExpression = (node: hbs.AST.Expression, depth: number) => {
+      if (node.type === 'PathExpression') {
+        visitPath(node as hbs.AST.PathExpression, depth);
+      } else if (node.type === 'SubExpression') {
+        visitArguments(node as hbs.AST.SubExpression, depth);
+      }
+    };
+
+    const visitArguments = (
+      node: { params: hbs.AST.Expression[]; hash?: hbs.AST.Hash },
+      depth: number,
+    ) => {
+      node.params.forEach((param) => visitExpression(param, depth));
+      node.hash?.pairs.forEach((pair) => visitExpression(pair.value, depth));
+    };
+
+    const visitProgram = (
+      program: hbs.AST.Program | undefined,
+      depth: number,
+    ) => {
+      for (const statement of program?.body || []) {
+        if (statement.type === 'MustacheStatement') {
+          const mustache = statement as hbs.AST.MustacheStatement;
+          const isHelperCall =
+            mustache.params.length > 0 ||
+            !!mustache.hash ||
+            BUILT_IN_HELPERS.includes(
+              (mustache.path as hbs.AST.PathExpression).original,
+            );
+          if (isHelperCall) {
+            visitArguments(mustache, depth);
+          } else {
+            visitExpression(mustache.path, depth);
+          }
+        } else if (statement.type === 'BlockStatement') {
+          const block = statement as hbs.AST.BlockStatement;
+          const helper = (block.path as hbs.AST.PathExpression).original;
+          if (block.params.length === 0 && !BUILT_IN_HELPERS.includes(helper)) {
+            visitExpression(block.path, depth); // {{#items}} loops over items
+          }
+          visitArguments(block, depth);
+          const innerDepth = SAME_CONTEXT_BLOCKS.includes(helper)
+            ? depth
+            : depth + 1;
+          visitProgram(block.program, innerDepth);
+          visitProgram(block.inverse, depth);
+        } else if (statement.type === 'PartialStatement') {
+          visitArguments(statement as hbs.AST.PartialStatement, depth);
+        }
+      }
+    };
+
+    for (const part of ['subject', 'html', 'text'] as const) {
+      if (template[part]) {
+        visitProgram(Handlebars.parse(template[part]), 0);
+      }
+    }
+    return [...names];
+  }
+}
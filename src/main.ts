@@ -14,7 +14,9 @@ async function bootstrap() {
 
   try {
     // Create NestJS application
+    // rawBody keeps the unparsed payload for webhook signature verification
     const app = await NestFactory.create(AppModule, {
+      rawBody: true,
       logger: ['error', 'warn', 'log', 'debug', 'verbose'],
     });
 
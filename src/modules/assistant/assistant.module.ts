@@ -11,26 +11,17 @@ import { ExecutiveAssistantService } from '../../application/services/executive-
 
 // Infrastructure Services
 import { GeminiService } from '../../infrastructure/external-services/gemini/gemini.service';
-import { GoogleCalendarService } from '../../infrastructure/external-services/google-calendar/google-calendar.service';
 import { SendGridService } from '../../infrastructure/external-services/sendgrid/sendgrid.service';
 
-// Import Task Module for dependencies
+// Import Task, Email and Calendar Modules for dependencies
 import { TaskModule } from '../task/task.module';
+import { EmailModule } from '../email/email.module';
+import { CalendarModule } from '../calendar/calendar.module';
 
 @Module({
-  imports: [TaskModule],
+  imports: [TaskModule, EmailModule, CalendarModule],
   controllers: [AssistantController],
-  providers: [
-    ExecutiveAssistantService,
-    GeminiService,
-    GoogleCalendarService,
-    SendGridService,
-  ],
-  exports: [
-    ExecutiveAssistantService,
-    GeminiService,
-    GoogleCalendarService,
-    SendGridService,
-  ],
+  providers: [ExecutiveAssistantService, GeminiService, SendGridService],
+  exports: [ExecutiveAssistantService, GeminiService, SendGridService],
 })
 export class AssistantModule {}
@@ -3,12 +3,16 @@
  * Proactive automation with Cloud Scheduler integration
  */
 
-import { Injectable, Logger } from '@nestjs/common';
-import { Cron } from '@nestjs/schedule';
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
 import { ExecutiveAssistantService } from '../../../application/services/executive-assistant.service';
 import { TaskApplicationService } from '../../../application/services/task-application.service';
-import { GoogleCalendarService } from '../../../infrastructure/external-services/google-calendar/google-calendar.service';
-import { SendGridService } from '../../../infrastructure/external-services/sendgrid/sendgrid.service';
+import type { CalendarProvider } from '../../../infrastructure/external-services/calendar-provider/calendar-provider.interface';
+import { EmailApplicationService } from '../../../application/services/email-application.service';
+import { TaskDelegationApplicationService } from '../../../application/services/task-delegation-application.service';
+import { TaskCommentApplicationService } from '../../../application/services/task-comment-application.service';
+import { EscalationApplicationService } from '../../../application/services/escalation-application.service';
+import { Result } from '../../../application/common/result';
 
 export interface AutomationRun {
   id: string;
@@ -25,12 +29,17 @@ export interface AutomationRun {
 export class AutomationService {
   private readonly logger = new Logger(AutomationService.name);
   private automationRuns: AutomationRun[] = [];
+  private runningJobs = new Set<string>();
 
   constructor(
     private readonly assistantService: ExecutiveAssistantService,
     private readonly taskService: TaskApplicationService,
-    private readonly calendarService: GoogleCalendarService,
-    private readonly emailService: SendGridService,
+    @Inject('CalendarProvider')
+    private readonly calendarService: CalendarProvider,
+    private readonly emailService: EmailApplicationService,
+    private readonly delegationService: TaskDelegationApplicationService,
+    private readonly commentService: TaskCommentApplicationService,
+    private readonly escalationService: EscalationApplicationService,
   ) {}
 
   // Convenience getters for backward compatibility
@@ -72,6 +81,38 @@ export class AutomationService {
     automationRun.error = error;
   }
 
+  /**
+   * Runs a scheduled job unless its previous run is still going, in which
+   * case this tick is skipped. `describe` sums up a run that did something
+   * for the log.
+   */
+  private async runExclusive<T>(
+    name: string,
+    job: () => Promise<Result<T, string>>,
+    describe: (value: T) => string | undefined,
+  ): Promise<T | undefined> {
+    if (this.runningJobs.has(name)) {
+      return;
+    }
+
+    this.runningJobs.add(name);
+    try {
+      const result = await job();
+      if (result.isFailure) {
+        this.logger.error(`${name} failed: ${result.error}`);
+        return;
+      }
+
+      const summary = describe(result.value);
+      if (summary) {
+        this.logger.log(summary);
+      }
+      return result.value;
+    } finally {
+      this.runningJobs.delete(name);
+    }
+  }
+
   // Helper method to summarize results
   private summarizeResults(results: PromiseSettledResult<any>[]): any {
     const successful = results.filter((r) => r.status === 'fulfilled').length;
@@ -143,6 +184,68 @@ export class AutomationService {
     }
   }
 
+  // Scheduled email dispatch - runs every minute
+  @Cron(CronExpression.EVERY_MINUTE, {
+    name: 'scheduled-email-dispatch',
+    timeZone: 'UTC',
+  })
+  async dispatchScheduledEmails() {
+    return this.runExclusive(
+      'Scheduled email dispatch',
+      () => this.email.dispatchDueEmails(),
+      (value) =>
+        value.due > 0
+          ? `Dispatched scheduled emails: ${value.sent} sent, ${value.retrying} retrying, ${value.failed} failed, ${value.skipped} skipped`
+          : undefined,
+    );
+  }
+
+  // Delegation follow-ups - runs every hour
+  @Cron(CronExpression.EVERY_HOUR, {
+    name: 'delegation-follow-ups',
+    timeZone: 'UTC',
+  })
+  async sendDelegationFollowUps() {
+    return this.runExclusive(
+      'Delegation follow-ups',
+      () => this.delegationService.sendDueFollowUps(),
+      (value) =>
+        value.due > 0
+          ? `Sent delegation follow-ups: ${value.sent} sent, ${value.failed} failed`
+          : undefined,
+    );
+  }
+
+  // Mention digests - runs every hour
+  @Cron(CronExpression.EVERY_HOUR, {
+    name: 'mention-digests',
+    timeZone: 'UTC',
+  })
+  async sendMentionDigests() {
+    return this.runExclusive(
+      'Mention digests',
+      () => this.commentService.sendMentionDigests(),
+      (value) =>
+        value.recipients > 0
+          ? `Sent mention digests: ${value.sent} sent, ${value.failed} failed`
+          : undefined,
+    );
+  }
+
+  // Task escalations - runs every hour
+  @Cron(CronExpression.EVERY_HOUR, {
+    name: 'task-escalations',
+    timeZone: 'UTC',
+  })
+  async runEscalations() {
+    return this.runExclusive(
+      'Task escalations',
+      () => this.escalationService.runEscalations(),
+      (value) =>
+        value.fired > 0 ? `Escalated ${value.fired} tasks` : undefined,
+    );
+  }
+
   async triggerAutomation(request: any): Promise<any> {
     const { type, parameters } = request;
 
@@ -177,6 +280,18 @@ export class AutomationService {
             message: 'Task prioritization completed',
           };
           break;
+        case 'dispatch_scheduled_emails':
+          result = await this.dispatchScheduledEmails();
+          break;
+        case 'delegation_follow_ups':
+          result = await this.sendDelegationFollowUps();
+          break;
+        case 'mention_digests':
+          result = await this.sendMentionDigests();
+          break;
+        case 'task_escalations':
+          result = await this.runEscalations();
+          break;
         case 'email_follow_up':
           result = { action: 'emails_sent', message: 'Follow-up emails sent' };
           break;
@@ -280,6 +395,26 @@ export class AutomationService {
       scheduledAutomations: [
         { type: 'daily_briefing', schedule: '0 8 * * 1-5', status: 'active' },
         { type: 'weekly_summary', schedule: '0 9 * * 1', status: 'active' },
+        {
+          type: 'dispatch_scheduled_emails',
+          schedule: CronExpression.EVERY_MINUTE,
+          status: 'active',
+        },
+        {
+          type: 'delegation_follow_ups',
+          schedule: CronExpression.EVERY_HOUR,
+          status: 'active',
+        },
+        {
+          type: 'mention_digests',
+          schedule: CronExpression.EVERY_HOUR,
+          status: 'active',
+        },
+        {
+          type: 'task_escalations',
+          schedule: CronExpression.EVERY_HOUR,
+          status: 'active',
+        },
       ],
       nextScheduledRun: new Date(
         Date.now() + 24 * 60 * 60 * 1000,
@@ -311,12 +446,16 @@ export class AutomationService {
     return {
       status: 'healthy',
       automationRuns: this.automationRuns.length,
-      scheduledJobs: 2,
+      scheduledJobs: 6,
       features: [
         'daily_briefing',
+        'scheduled_emails',
         'proactive_reminders',
         'smart_scheduling',
         'task_prioritization',
+        'delegation_follow_ups',
+        'mention_digests',
+        'task_escalations',
       ],
       lastRun:
         this.automationRuns.length > 0
@@ -483,11 +622,17 @@ export class AutomationService {
     const briefing = await this.generateDailyBriefing();
     // Send briefing via email
     try {
-      await this.emailService.sendEmail({
+      const result = await this.emailService.sendEmail({
         to: 'user@example.com',
         subject: 'Daily Briefing',
         html: `<h1>Daily Briefing</h1><pre>${JSON.stringify(briefing, null, 2)}</pre>`,
       });
+      if (result.isFailure || result.value.status === 'failed') {
+        this.logger.warn(
+          'Failed to send daily briefing email',
+          result.isFailure ? result.error : result.value.failureReason,
+        );
+      }
     } catch (error) {
       this.logger.warn('Failed to send daily briefing email', error.message);
     }
@@ -6,11 +6,12 @@
 import { Module } from '@nestjs/common';
 import { CalendarController } from './controllers/calendar.controller';
 import { CalendarService } from './services/calendar.service';
-import { GoogleCalendarService } from './services/google-calendar.service';
+import { GoogleCalendarService } from '../../infrastructure/external-services/google-calendar/google-calendar.service';
+import { CalendarProviderProvider } from '../../infrastructure/external-services/calendar-provider/calendar-provider.provider';
 
 @Module({
   controllers: [CalendarController],
-  providers: [CalendarService, GoogleCalendarService],
-  exports: [CalendarService],
+  providers: [CalendarService, GoogleCalendarService, CalendarProviderProvider],
+  exports: [CalendarService, 'CalendarProvider'],
 })
 export class CalendarModule {}
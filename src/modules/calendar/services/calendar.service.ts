@@ -3,18 +3,21 @@
  * Main service for calendar operations
  */
 
-import { Injectable, Logger } from '@nestjs/common';
-import { GoogleCalendarService } from './google-calendar.service';
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import type { CalendarProvider } from '../../../infrastructure/external-services/calendar-provider/calendar-provider.interface';
 
 @Injectable()
 export class CalendarService {
   private readonly logger = new Logger(CalendarService.name);
 
-  constructor(private readonly googleCalendar: GoogleCalendarService) {}
+  constructor(
+    @Inject('CalendarProvider')
+    private readonly calendarProvider: CalendarProvider,
+  ) {}
 
   async getEvents(date?: string): Promise<any[]> {
     try {
-      return await this.googleCalendar.getEvents(date);
+      return await this.calendarProvider.getEvents(date);
     } catch (error) {
       this.logger.error('Failed to get events', error.stack);
       throw error;
@@ -23,7 +26,23 @@ export class CalendarService {
 
   async scheduleEvent(eventData: any): Promise<any> {
     try {
-      return await this.googleCalendar.scheduleEvent(eventData);
+      const start = new Date(
+        eventData.startTime || eventData.start?.dateTime || Date.now(),
+      );
+      const end = eventData.endTime
+        ? new Date(eventData.endTime)
+        : new Date(start.getTime() + (eventData.duration || 60) * 60 * 1000);
+
+      return await this.calendarProvider.createEvent({
+        summary: eventData.title || eventData.summary || 'New Meeting',
+        description: eventData.description,
+        start: { dateTime: start.toISOString(), timeZone: 'UTC' },
+        end: { dateTime: end.toISOString(), timeZone: 'UTC' },
+        attendees: eventData.attendees?.map((attendee: any) => ({
+          email: typeof attendee === 'string' ? attendee : attendee.email,
+        })),
+        location: eventData.location,
+      });
     } catch (error) {
       this.logger.error('Failed to schedule event', error.stack);
       throw error;
@@ -84,7 +103,8 @@ export class CalendarService {
   getHealth(): any {
     return {
       status: 'healthy',
-      googleCalendar: this.googleCalendar.getStatus(),
+      provider: this.calendarProvider.name,
+      providerStatus: this.calendarProvider.getStatus(),
       features: [
         'events',
         'scheduling',
@@ -0,0 +1,126 @@
+/**
+ * Email Template Controller
+ * Handles email template management and preview
+ */
+
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  ParseIntPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { EmailTemplateApplicationService } from '../../../application/services/email-template-application.service';
+import {
+  CreateEmailTemplateDto,
+  EmailTemplateVersionDto,
+  EmailTemplateResponseDto,
+  EmailTemplatePreviewResponseDto,
+  PreviewEmailTemplateDto,
+} from '../../../application/dtos/email-template.dto';
+import { EventHistoryResponseDto } from '../../../application/dtos/event-history.dto';
+
+@Controller('api/email/templates')
+export class EmailTemplateController {
+  constructor(
+    private readonly emailTemplateApplicationService: EmailTemplateApplicationService,
+  ) {}
+
+  @Get()
+  async getTemplates(): Promise<EmailTemplateResponseDto[]> {
+    const result = await this.emailTemplateApplicationService.getTemplates();
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createTemplate(
+    @Body() templateData: CreateEmailTemplateDto,
+  ): Promise<EmailTemplateResponseDto> {
+    const result =
+      await this.emailTemplateApplicationService.createTemplate(templateData);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Get(':id')
+  async getTemplate(
+    @Param('id') id: string,
+  ): Promise<EmailTemplateResponseDto> {
+    const result = await this.emailTemplateApplicationService.getTemplate(id);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Get(':id/history')
+  async getTemplateHistory(
+    @Param('id') id: string,
+  ): Promise<EventHistoryResponseDto> {
+    const result =
+      await this.emailTemplateApplicationService.getTemplateHistory(id);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post(':id/versions')
+  @HttpCode(HttpStatus.CREATED)
+  async addTemplateVersion(
+    @Param('id') id: string,
+    @Body() versionData: EmailTemplateVersionDto,
+  ): Promise<EmailTemplateResponseDto> {
+    const result =
+      await this.emailTemplateApplicationService.addTemplateVersion(
+        id,
+        versionData,
+      );
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post(':id/versions/:version/activate')
+  @HttpCode(HttpStatus.OK)
+  async activateTemplateVersion(
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number,
+  ): Promise<EmailTemplateResponseDto> {
+    const result =
+      await this.emailTemplateApplicationService.activateTemplateVersion(
+        id,
+        version,
+      );
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post(':id/preview')
+  @HttpCode(HttpStatus.OK)
+  async previewTemplate(
+    @Param('id') id: string,
+    @Body() previewData: PreviewEmailTemplateDto,
+  ): Promise<EmailTemplatePreviewResponseDto> {
+    const result = await this.emailTemplateApplicationService.previewTemplate(
+      id,
+      previewData,
+    );
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+}
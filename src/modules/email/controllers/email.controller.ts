@@ -3,15 +3,42 @@
  * Handles email operations
  */
 
-import { Controller, Post, Get, Body } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  Query,
+  Req,
+  Headers,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request } from 'express';
 import { EmailService } from '../services/email.service';
+import { EmailApplicationService } from '../../../application/services/email-application.service';
+import {
+  SendEmailDto,
+  EmailQueryDto,
+  EmailResponseDto,
+  EmailListResponseDto,
+  EmailAnalyticsResponseDto,
+  EmailDeliveryEventsResultDto,
+  ScheduleEmailDto,
+} from '../../../application/dtos/email.dto';
+import { EventHistoryResponseDto } from '../../../application/dtos/event-history.dto';
 
 @Controller('api/email')
 export class EmailController {
-  constructor(private readonly emailService: EmailService) {}
+  constructor(
+    private readonly emailService: EmailService,
+    private readonly emailApplicationService: EmailApplicationService,
+  ) {}
 
   @Post('send')
-  async sendEmail(@Body() emailData: any) {
+  async sendEmail(@Body() emailData: SendEmailDto) {
     return this.emailService.sendEmail(emailData);
   }
 
@@ -20,9 +47,151 @@ export class EmailController {
     return this.emailService.sendTemplateEmail(templateData);
   }
 
-  @Get('templates')
-  async getTemplates() {
-    return this.emailService.getTemplates();
+  @Get('analytics')
+  async getAnalytics(): Promise<EmailAnalyticsResponseDto> {
+    const result = await this.emailApplicationService.getEmailAnalytics();
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Get('dead-letters')
+  async getDeadLetters(
+    @Query() query: EmailQueryDto,
+  ): Promise<EmailListResponseDto> {
+    const result = await this.emailApplicationService.getDeadLetters(query);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post('dead-letters/:id/replay')
+  @HttpCode(HttpStatus.OK)
+  async replayDeadLetter(@Param('id') id: string): Promise<EmailResponseDto> {
+    const result = await this.emailApplicationService.replayDeadLetter(id);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Get('messages')
+  async getMessages(
+    @Query() query: EmailQueryDto,
+  ): Promise<EmailListResponseDto> {
+    const result = await this.emailApplicationService.getMessages(query);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post('messages')
+  @HttpCode(HttpStatus.CREATED)
+  async createDraft(
+    @Body() emailData: SendEmailDto,
+  ): Promise<EmailResponseDto> {
+    const result = await this.emailApplicationService.createDraft(emailData);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Get('messages/:id')
+  async getMessage(@Param('id') id: string): Promise<EmailResponseDto> {
+    const result = await this.emailApplicationService.getMessageById(id);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Get('messages/:id/history')
+  async getMessageHistory(
+    @Param('id') id: string,
+  ): Promise<EventHistoryResponseDto> {
+    const result = await this.emailApplicationService.getMessageHistory(id);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post('messages/:id/send')
+  @HttpCode(HttpStatus.OK)
+  async sendMessage(@Param('id') id: string): Promise<EmailResponseDto> {
+    const result = await this.emailApplicationService.sendMessage(id);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post('messages/:id/resend')
+  @HttpCode(HttpStatus.OK)
+  async resendMessage(@Param('id') id: string): Promise<EmailResponseDto> {
+    const result = await this.emailApplicationService.resendMessage(id);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post('messages/:id/schedule')
+  @HttpCode(HttpStatus.OK)
+  async scheduleMessage(
+    @Param('id') id: string,
+    @Body() scheduleData: ScheduleEmailDto,
+  ): Promise<EmailResponseDto> {
+    const result = await this.emailApplicationService.scheduleMessage(
+      id,
+      scheduleData.scheduledAt,
+    );
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post('messages/:id/unschedule')
+  @HttpCode(HttpStatus.OK)
+  async unscheduleMessage(@Param('id') id: string): Promise<EmailResponseDto> {
+    const result = await this.emailApplicationService.unscheduleMessage(id);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post('messages/:id/cancel')
+  @HttpCode(HttpStatus.OK)
+  async cancelMessage(@Param('id') id: string): Promise<EmailResponseDto> {
+    const result = await this.emailApplicationService.cancelMessage(id);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post('webhooks/sendgrid')
+  @HttpCode(HttpStatus.OK)
+  async handleSendGridWebhook(
+    @Req() request: RawBodyRequest<Request>,
+    @Headers('x-twilio-email-event-webhook-signature') signature: string,
+    @Headers('x-twilio-email-event-webhook-timestamp') timestamp: string,
+  ): Promise<EmailDeliveryEventsResultDto> {
+    if (!request.rawBody) {
+      throw new Error('Raw request body is not available');
+    }
+
+    return this.emailService.handleSendGridWebhook(
+      request.rawBody,
+      signature,
+      timestamp,
+    );
   }
 
   @Get('health')
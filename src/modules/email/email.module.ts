@@ -5,12 +5,40 @@
 
 import { Module } from '@nestjs/common';
 import { EmailController } from './controllers/email.controller';
+import { EmailTemplateController } from './controllers/email-template.controller';
 import { EmailService } from './services/email.service';
-import { SendGridService } from './services/sendgrid.service';
+import { EventsModule } from '../events/events.module';
+
+// Application Layer
+import { EmailApplicationService } from '../../application/services/email-application.service';
+import { EmailOutboxService } from '../../application/services/email-outbox.service';
+import { EmailTemplateApplicationService } from '../../application/services/email-template-application.service';
+
+// Infrastructure Layer
+import { SendGridService } from '../../infrastructure/external-services/sendgrid/sendgrid.service';
+import { EmailTransportProvider } from '../../infrastructure/external-services/email-transport/email-transport.provider';
+import { EmailRepositoryProvider } from '../../infrastructure/persistence/email-repository.provider';
+import { EmailTemplateRepositoryProvider } from '../../infrastructure/persistence/email-template-repository.provider';
+import { HandlebarsTemplateRenderer } from '../../infrastructure/templating/handlebars-template-renderer';
 
 @Module({
-  controllers: [EmailController],
-  providers: [EmailService, SendGridService],
-  exports: [EmailService],
+  imports: [EventsModule],
+  controllers: [EmailController, EmailTemplateController],
+  providers: [
+    EmailService,
+    EmailApplicationService,
+    EmailOutboxService,
+    EmailTemplateApplicationService,
+    SendGridService,
+    EmailTransportProvider,
+    EmailRepositoryProvider,
+    EmailTemplateRepositoryProvider,
+    HandlebarsTemplateRenderer,
+  ],
+  exports: [
+    EmailService,
+    EmailApplicationService,
+    EmailTemplateApplicationService,
+  ],
 })
 export class EmailModule {}
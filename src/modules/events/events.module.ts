@@ -0,0 +1,35 @@
+/**
+ * Events Module
+ * Domain event publishing, persistence and history
+ */
+
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+
+// Application Layer
+import { EventHistoryService } from '../../application/services/event-history.service';
+
+// Infrastructure Layer
+import { ActorContextMiddleware } from '../../infrastructure/events/actor-context';
+import { DomainEventDispatcher } from '../../infrastructure/events/domain-event-dispatcher';
+import { EventStoreSubscriber } from '../../infrastructure/events/event-store.subscriber';
+import { FileEventStore } from '../../infrastructure/persistence/file/file-event-store';
+
+@Module({
+  providers: [
+    DomainEventDispatcher,
+    EventStoreSubscriber,
+    EventHistoryService,
+    FileEventStore,
+    {
+      provide: 'EventStore',
+      useExisting: FileEventStore,
+    },
+  ],
+  exports: [DomainEventDispatcher, EventHistoryService, 'EventStore'],
+})
+export class EventsModule implements NestModule {
+  configure(consumer: MiddlewareConsumer): void {
+    // Stored events record who made the request
+    consumer.apply(ActorContextMiddleware).forRoutes('*');
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * Meeting Controller - Presentation Layer
+ * Handles HTTP requests for meeting management
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpStatus,
+  HttpCode,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { MeetingApplicationService } from '../../../application/services/meeting-application.service';
+import {
+  CreateMeetingDto,
+  UpdateMeetingDto,
+  RescheduleMeetingDto,
+  CancelMeetingDto,
+  MeetingAttendeeDto,
+  UpdateAttendeeResponseDto,
+  AddAgendaItemDto,
+  MeetingQueryDto,
+  MeetingResponseDto,
+  MeetingListResponseDto,
+  MeetingAnalyticsResponseDto,
+} from '../../../application/dtos/meeting.dto';
+import { EventHistoryResponseDto } from '../../../application/dtos/event-history.dto';
+
+@ApiTags('Meetings')
+@Controller('api/meetings')
+export class MeetingController {
+  constructor(
+    private readonly meetingApplicationService: MeetingApplicationService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get meetings' })
+  @ApiResponse({ status: 200, description: 'Meetings retrieved successfully' })
+  async getMeetings(
+    @Query() query: MeetingQueryDto,
+  ): Promise<MeetingListResponseDto> {
+    const result = await this.meetingApplicationService.getMeetings(query);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Get('upcoming')
+  @ApiOperation({ summary: 'Get upcoming meetings' })
+  @ApiQuery({ name: 'days', required: false, description: 'Look-ahead days' })
+  @ApiResponse({
+    status: 200,
+    description: 'Upcoming meetings retrieved successfully',
+  })
+  async getUpcomingMeetings(
+    @Query('days') days?: number,
+  ): Promise<MeetingResponseDto[]> {
+    const result =
+      await this.meetingApplicationService.getUpcomingMeetings(days);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Get('search')
+  @ApiOperation({ summary: 'Search meetings by text' })
+  @ApiQuery({ name: 'q', description: 'Search term' })
+  @ApiResponse({ status: 200, description: 'Search completed successfully' })
+  async searchMeetings(@Query('q') q: string): Promise<MeetingResponseDto[]> {
+    const result = await this.meetingApplicationService.searchMeetings(q);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Get('analytics')
+  @ApiOperation({ summary: 'Get meeting analytics' })
+  @ApiResponse({
+    status: 200,
+    description: 'Meeting analytics retrieved successfully',
+  })
+  async getMeetingAnalytics(): Promise<MeetingAnalyticsResponseDto> {
+    const result = await this.meetingApplicationService.getMeetingAnalytics();
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get meeting by ID' })
+  @ApiParam({ name: 'id', description: 'Meeting ID' })
+  @ApiResponse({ status: 200, description: 'Meeting retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Meeting not found' })
+  async getMeetingById(@Param('id') id: string): Promise<MeetingResponseDto> {
+    const result = await this.meetingApplicationService.getMeetingById(id);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Get(':id/history')
+  @ApiOperation({ summary: 'Get the change history of a meeting' })
+  @ApiParam({ name: 'id', description: 'Meeting ID' })
+  @ApiResponse({ status: 200, description: 'History retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Meeting not found' })
+  async getMeetingHistory(
+    @Param('id') id: string,
+  ): Promise<EventHistoryResponseDto> {
+    const result = await this.meetingApplicationService.getMeetingHistory(id);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Schedule a new meeting' })
+  @ApiResponse({ status: 201, description: 'Meeting created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid meeting data' })
+  @HttpCode(HttpStatus.CREATED)
+  async createMeeting(
+    @Body() createMeetingDto: CreateMeetingDto,
+  ): Promise<MeetingResponseDto> {
+    const result =
+      await this.meetingApplicationService.createMeeting(createMeetingDto);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Update meeting details' })
+  @ApiParam({ name: 'id', description: 'Meeting ID' })
+  @ApiResponse({ status: 200, description: 'Meeting updated successfully' })
+  @ApiResponse({ status: 404, description: 'Meeting not found' })
+  async updateMeeting(
+    @Param('id') id: string,
+    @Body() updateMeetingDto: UpdateMeetingDto,
+  ): Promise<MeetingResponseDto> {
+    const result = await this.meetingApplicationService.updateMeeting(
+      id,
+      updateMeetingDto,
+    );
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete meeting' })
+  @ApiParam({ name: 'id', description: 'Meeting ID' })
+  @ApiResponse({ status: 200, description: 'Meeting deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Meeting not found' })
+  async deleteMeeting(@Param('id') id: string): Promise<{ message: string }> {
+    const result = await this.meetingApplicationService.deleteMeeting(id);
+    if (result.isSuccess) {
+      return { message: 'Meeting deleted successfully' };
+    }
+    throw new Error(result.error);
+  }
+
+  @Post(':id/reschedule')
+  @ApiOperation({ summary: 'Move a meeting to a new time' })
+  @ApiParam({ name: 'id', description: 'Meeting ID' })
+  @ApiResponse({ status: 200, description: 'Meeting rescheduled successfully' })
+  @HttpCode(HttpStatus.OK)
+  async rescheduleMeeting(
+    @Param('id') id: string,
+    @Body() rescheduleDto: RescheduleMeetingDto,
+  ): Promise<MeetingResponseDto> {
+    const result = await this.meetingApplicationService.rescheduleMeeting(
+      id,
+      rescheduleDto,
+    );
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post(':id/cancel')
+  @ApiOperation({ summary: 'Cancel a meeting' })
+  @ApiParam({ name: 'id', description: 'Meeting ID' })
+  @ApiResponse({ status: 200, description: 'Meeting cancelled successfully' })
+  @HttpCode(HttpStatus.OK)
+  async cancelMeeting(
+    @Param('id') id: string,
+    @Body() cancelDto: CancelMeetingDto,
+  ): Promise<MeetingResponseDto> {
+    const result = await this.meetingApplicationService.cancelMeeting(
+      id,
+      cancelDto?.reason,
+    );
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post(':id/agenda')
+  @ApiOperation({ summary: 'Add an agenda item' })
+  @ApiParam({ name: 'id', description: 'Meeting ID' })
+  @ApiResponse({ status: 200, description: 'Agenda item added successfully' })
+  @HttpCode(HttpStatus.OK)
+  async addAgendaItem(
+    @Param('id') id: string,
+    @Body() agendaDto: AddAgendaItemDto,
+  ): Promise<MeetingResponseDto> {
+    const result = await this.meetingApplicationService.addAgendaItem(
+      id,
+      agendaDto.item,
+    );
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post(':id/attendees')
+  @ApiOperation({ summary: 'Invite an attendee' })
+  @ApiParam({ name: 'id', description: 'Meeting ID' })
+  @ApiResponse({ status: 201, description: 'Attendee added successfully' })
+  @HttpCode(HttpStatus.CREATED)
+  async addAttendee(
+    @Param('id') id: string,
+    @Body() attendeeDto: MeetingAttendeeDto,
+  ): Promise<MeetingResponseDto> {
+    const result = await this.meetingApplicationService.addAttendee(
+      id,
+      attendeeDto,
+    );
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Put(':id/attendees/:email')
+  @ApiOperation({ summary: "Record an attendee's response" })
+  @ApiParam({ name: 'id', description: 'Meeting ID' })
+  @ApiParam({ name: 'email', description: 'Attendee email' })
+  @ApiResponse({ status: 200, description: 'Response updated successfully' })
+  async updateAttendeeResponse(
+    @Param('id') id: string,
+    @Param('email') email: string,
+    @Body() responseDto: UpdateAttendeeResponseDto,
+  ): Promise<MeetingResponseDto> {
+    const result = await this.meetingApplicationService.updateAttendeeResponse(
+      id,
+      email,
+      responseDto,
+    );
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Delete(':id/attendees/:email')
+  @ApiOperation({ summary: 'Remove an attendee' })
+  @ApiParam({ name: 'id', description: 'Meeting ID' })
+  @ApiParam({ name: 'email', description: 'Attendee email' })
+  @ApiResponse({ status: 200, description: 'Attendee removed successfully' })
+  async removeAttendee(
+    @Param('id') id: string,
+    @Param('email') email: string,
+  ): Promise<MeetingResponseDto> {
+    const result = await this.meetingApplicationService.removeAttendee(
+      id,
+      email,
+    );
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+}
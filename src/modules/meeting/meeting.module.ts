@@ -0,0 +1,28 @@
+/**
+ * Meeting Module - Presentation Layer
+ * Handles meeting management backed by the Meeting aggregate
+ */
+
+import { Module } from '@nestjs/common';
+import { MeetingController } from './controllers/meeting.controller';
+import { EventsModule } from '../events/events.module';
+
+// Application Layer
+import { MeetingApplicationService } from '../../application/services/meeting-application.service';
+
+// Infrastructure Layer
+import { MeetingRepositoryProvider } from '../../infrastructure/persistence/meeting-repository.provider';
+
+@Module({
+  imports: [EventsModule],
+  controllers: [MeetingController],
+  providers: [
+    // Application Services
+    MeetingApplicationService,
+
+    // Repository Implementation (selected by persistence.meetingRepository)
+    MeetingRepositoryProvider,
+  ],
+  exports: [MeetingApplicationService, 'MeetingRepository'],
+})
+export class MeetingModule {}
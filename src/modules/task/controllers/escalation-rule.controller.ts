@@ -0,0 +1,145 @@
+/**
+ * Escalation Rule Controller - Presentation Layer
+ * Handles HTTP requests for escalation rules and the escalation log
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpStatus,
+  HttpCode,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { EscalationApplicationService } from '../../../application/services/escalation-application.service';
+import {
+  CreateEscalationRuleDto,
+  EscalationResponseDto,
+  EscalationRuleResponseDto,
+  EscalationRunResultDto,
+  UpdateEscalationRuleDto,
+} from '../../../application/dtos/escalation.dto';
+
+@ApiTags('Tasks')
+@Controller('api/escalation-rules')
+export class EscalationRuleController {
+  constructor(
+    private readonly escalationApplicationService: EscalationApplicationService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get all escalation rules' })
+  @ApiResponse({ status: 200, description: 'Rules retrieved successfully' })
+  async getRules(): Promise<EscalationRuleResponseDto[]> {
+    const result = await this.escalationApplicationService.getRules();
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create an escalation rule' })
+  @ApiResponse({ status: 201, description: 'Rule created successfully' })
+  @HttpCode(HttpStatus.CREATED)
+  async createRule(
+    @Body() ruleDto: CreateEscalationRuleDto,
+  ): Promise<EscalationRuleResponseDto> {
+    const result = await this.escalationApplicationService.createRule(ruleDto);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Get('log')
+  @ApiOperation({ summary: 'Get fired escalations, newest first' })
+  @ApiQuery({ name: 'ruleId', required: false })
+  @ApiQuery({ name: 'taskId', required: false })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    description: 'Maximum entries, 1-200 (default: 50)',
+  })
+  @ApiResponse({ status: 200, description: 'Escalations retrieved' })
+  async getEscalations(
+    @Query('ruleId') ruleId?: string,
+    @Query('taskId') taskId?: string,
+    @Query('limit') limit?: string,
+  ): Promise<EscalationResponseDto[]> {
+    const result = await this.escalationApplicationService.getEscalations({
+      ruleId,
+      taskId,
+      limit: limit ? Number(limit) : undefined,
+    });
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post('run')
+  @ApiOperation({ summary: 'Check all tasks against the rules now' })
+  @ApiResponse({ status: 200, description: 'Escalations run' })
+  @HttpCode(HttpStatus.OK)
+  async runEscalations(): Promise<EscalationRunResultDto> {
+    const result = await this.escalationApplicationService.runEscalations();
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an escalation rule' })
+  @ApiParam({ name: 'id', description: 'Rule ID or name' })
+  @ApiResponse({ status: 200, description: 'Rule retrieved successfully' })
+  async getRule(@Param('id') id: string): Promise<EscalationRuleResponseDto> {
+    const result = await this.escalationApplicationService.getRule(id);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Update an escalation rule' })
+  @ApiParam({ name: 'id', description: 'Rule ID or name' })
+  @ApiResponse({ status: 200, description: 'Rule updated successfully' })
+  async updateRule(
+    @Param('id') id: string,
+    @Body() ruleDto: UpdateEscalationRuleDto,
+  ): Promise<EscalationRuleResponseDto> {
+    const result = await this.escalationApplicationService.updateRule(
+      id,
+      ruleDto,
+    );
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete an escalation rule' })
+  @ApiParam({ name: 'id', description: 'Rule ID or name' })
+  @ApiResponse({ status: 200, description: 'Rule deleted successfully' })
+  async deleteRule(@Param('id') id: string): Promise<{ message: string }> {
+    const result = await this.escalationApplicationService.deleteRule(id);
+    if (result.isSuccess) {
+      return { message: 'Rule deleted successfully' };
+    }
+    throw new Error(result.error);
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Prioritization Profile Controller - Presentation Layer
+ * Handles HTTP requests for managing task prioritization profiles
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  HttpStatus,
+  HttpCode,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { PrioritizationProfileApplicationService } from '../../../application/services/prioritization-profile-application.service';
+import {
+  CreatePrioritizationProfileDto,
+  PrioritizationProfileResponseDto,
+  UpdatePrioritizationProfileDto,
+} from '../../../application/dtos/prioritization-profile.dto';
+
+@ApiTags('Tasks')
+@Controller('api/prioritization-profiles')
+export class PrioritizationProfileController {
+  constructor(
+    private readonly profileApplicationService: PrioritizationProfileApplicationService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get all prioritization profiles' })
+  @ApiResponse({ status: 200, description: 'Profiles retrieved successfully' })
+  async getProfiles(): Promise<PrioritizationProfileResponseDto[]> {
+    const result = await this.profileApplicationService.getProfiles();
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a prioritization profile' })
+  @ApiResponse({ status: 201, description: 'Profile created successfully' })
+  @HttpCode(HttpStatus.CREATED)
+  async createProfile(
+    @Body() profileDto: CreatePrioritizationProfileDto,
+  ): Promise<PrioritizationProfileResponseDto> {
+    const result =
+      await this.profileApplicationService.createProfile(profileDto);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a prioritization profile by ID or name' })
+  @ApiParam({ name: 'id', description: 'Profile ID or name' })
+  @ApiResponse({ status: 200, description: 'Profile retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Profile not found' })
+  async getProfile(
+    @Param('id') id: string,
+  ): Promise<PrioritizationProfileResponseDto> {
+    const result = await this.profileApplicationService.getProfile(id);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Update a prioritization profile' })
+  @ApiParam({ name: 'id', description: 'Profile ID or name' })
+  @ApiResponse({ status: 200, description: 'Profile updated successfully' })
+  async updateProfile(
+    @Param('id') id: string,
+    @Body() profileDto: UpdatePrioritizationProfileDto,
+  ): Promise<PrioritizationProfileResponseDto> {
+    const result = await this.profileApplicationService.updateProfile(
+      id,
+      profileDto,
+    );
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a prioritization profile' })
+  @ApiParam({ name: 'id', description: 'Profile ID or name' })
+  @ApiResponse({ status: 200, description: 'Profile deleted successfully' })
+  async deleteProfile(@Param('id') id: string): Promise<{ message: string }> {
+    const result = await this.profileApplicationService.deleteProfile(id);
+    if (result.isSuccess) {
+      return { message: 'Profile deleted successfully' };
+    }
+    throw new Error(result.error);
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Saved View Controller - Presentation Layer
+ * Handles HTTP requests for saved task views
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpStatus,
+  HttpCode,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { SavedViewApplicationService } from '../../../application/services/saved-view-application.service';
+import {
+  CreateSavedViewDto,
+  SavedViewResponseDto,
+  SavedViewResultDto,
+  UpdateSavedViewDto,
+} from '../../../application/dtos/saved-view.dto';
+
+@ApiTags('Tasks')
+@Controller('api/tasks/views')
+export class SavedViewController {
+  constructor(
+    private readonly savedViewApplicationService: SavedViewApplicationService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get all saved views' })
+  @ApiResponse({ status: 200, description: 'Views retrieved successfully' })
+  async getViews(): Promise<SavedViewResponseDto[]> {
+    const result = await this.savedViewApplicationService.getViews();
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Save a task filter and sort as a named view' })
+  @ApiResponse({ status: 201, description: 'View created successfully' })
+  @HttpCode(HttpStatus.CREATED)
+  async createView(
+    @Body() viewDto: CreateSavedViewDto,
+  ): Promise<SavedViewResponseDto> {
+    const result = await this.savedViewApplicationService.createView(viewDto);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Evaluate a saved view against current tasks' })
+  @ApiParam({ name: 'id', description: 'View ID or name' })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    description: "Page size, 1-100 (default: the view's limit or 20)",
+  })
+  @ApiQuery({ name: 'offset', required: false, description: 'Page offset' })
+  @ApiResponse({ status: 200, description: 'Matching tasks' })
+  @ApiResponse({ status: 404, description: 'View not found' })
+  async evaluateView(
+    @Param('id') id: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ): Promise<SavedViewResultDto> {
+    const result = await this.savedViewApplicationService.evaluateView(id, {
+      limit: limit ? Number(limit) : undefined,
+      offset: offset ? Number(offset) : undefined,
+    });
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Update a saved view' })
+  @ApiParam({ name: 'id', description: 'View ID or name' })
+  @ApiResponse({ status: 200, description: 'View updated successfully' })
+  async updateView(
+    @Param('id') id: string,
+    @Body() viewDto: UpdateSavedViewDto,
+  ): Promise<SavedViewResponseDto> {
+    const result = await this.savedViewApplicationService.updateView(
+      id,
+      viewDto,
+    );
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a saved view' })
+  @ApiParam({ name: 'id', description: 'View ID or name' })
+  @ApiResponse({ status: 200, description: 'View deleted successfully' })
+  async deleteView(@Param('id') id: string): Promise<{ message: string }> {
+    const result = await this.savedViewApplicationService.deleteView(id);
+    if (result.isSuccess) {
+      return { message: 'View deleted successfully' };
+    }
+    throw new Error(result.error);
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Task Board Controller - Presentation Layer
+ * Handles HTTP requests for the Kanban board and moving tasks on it
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Query,
+  HttpStatus,
+  HttpCode,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { TaskBoardApplicationService } from '../../../application/services/task-board-application.service';
+import {
+  MoveTaskDto,
+  MoveTaskResponseDto,
+  TaskBoardResponseDto,
+  UpdateTaskBoardDto,
+} from '../../../application/dtos/task-board.dto';
+
+@ApiTags('Tasks')
+@Controller('api/tasks')
+export class TaskBoardController {
+  constructor(
+    private readonly taskBoardApplicationService: TaskBoardApplicationService,
+  ) {}
+
+  @Get('board')
+  @ApiOperation({
+    summary: 'Get tasks as a Kanban board, one column per status',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    description: 'Maximum cards per column, 1-500 (default: all)',
+  })
+  @ApiResponse({ status: 200, description: 'Board retrieved successfully' })
+  async getBoard(
+    @Query('limit') limit?: string,
+  ): Promise<TaskBoardResponseDto> {
+    const result = await this.taskBoardApplicationService.getBoard({
+      limit: limit ? Number(limit) : undefined,
+    });
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Put('board')
+  @ApiOperation({ summary: 'Set the WIP limits of the board columns' })
+  @ApiResponse({ status: 200, description: 'Board updated successfully' })
+  async updateBoard(
+    @Body() boardDto: UpdateTaskBoardDto,
+  ): Promise<TaskBoardResponseDto> {
+    const result = await this.taskBoardApplicationService.updateBoard(boardDto);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post(':id/move')
+  @ApiOperation({ summary: 'Move a task to a column and position' })
+  @ApiParam({ name: 'id', description: 'Task ID' })
+  @ApiResponse({ status: 200, description: 'Task moved successfully' })
+  @HttpCode(HttpStatus.OK)
+  async moveTask(
+    @Param('id') id: string,
+    @Body() moveDto: MoveTaskDto,
+  ): Promise<MoveTaskResponseDto> {
+    const result = await this.taskBoardApplicationService.moveTask(id, moveDto);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+}
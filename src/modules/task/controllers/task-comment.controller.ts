@@ -0,0 +1,109 @@
+/**
+ * Task Comment Controller - Presentation Layer
+ * Handles HTTP requests for task comments and the activity feed
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  HttpStatus,
+  HttpCode,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { TaskCommentApplicationService } from '../../../application/services/task-comment-application.service';
+import {
+  CreateTaskCommentDto,
+  TaskActivityResponseDto,
+  TaskCommentResponseDto,
+  UpdateTaskCommentDto,
+} from '../../../application/dtos/task-comment.dto';
+
+@ApiTags('Tasks')
+@Controller('api/tasks')
+export class TaskCommentController {
+  constructor(private readonly commentService: TaskCommentApplicationService) {}
+
+  @Get(':id/comments')
+  @ApiOperation({ summary: 'Get the comment thread of a task' })
+  @ApiParam({ name: 'id', description: 'Task ID' })
+  @ApiResponse({ status: 200, description: 'Comments retrieved successfully' })
+  async getComments(
+    @Param('id') id: string,
+  ): Promise<TaskCommentResponseDto[]> {
+    const result = await this.commentService.getComments(id);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post(':id/comments')
+  @ApiOperation({ summary: 'Comment on a task, mentioning @name@example.com' })
+  @ApiParam({ name: 'id', description: 'Task ID' })
+  @ApiResponse({ status: 201, description: 'Comment added successfully' })
+  @HttpCode(HttpStatus.CREATED)
+  async addComment(
+    @Param('id') id: string,
+    @Body() commentDto: CreateTaskCommentDto,
+  ): Promise<TaskCommentResponseDto> {
+    const result = await this.commentService.addComment(id, commentDto);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Put(':id/comments/:commentId')
+  @ApiOperation({ summary: 'Edit a comment, keeping the earlier version' })
+  @ApiParam({ name: 'id', description: 'Task ID' })
+  @ApiParam({ name: 'commentId', description: 'Comment ID' })
+  @ApiResponse({ status: 200, description: 'Comment edited successfully' })
+  async editComment(
+    @Param('id') id: string,
+    @Param('commentId') commentId: string,
+    @Body() commentDto: UpdateTaskCommentDto,
+  ): Promise<TaskCommentResponseDto> {
+    const result = await this.commentService.editComment(
+      id,
+      commentId,
+      commentDto,
+    );
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Delete(':id/comments/:commentId')
+  @ApiOperation({ summary: 'Delete a comment, leaving a tombstone' })
+  @ApiParam({ name: 'id', description: 'Task ID' })
+  @ApiParam({ name: 'commentId', description: 'Comment ID' })
+  @ApiResponse({ status: 200, description: 'Comment deleted successfully' })
+  async deleteComment(
+    @Param('id') id: string,
+    @Param('commentId') commentId: string,
+  ): Promise<TaskCommentResponseDto> {
+    const result = await this.commentService.deleteComment(id, commentId);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Get(':id/activity')
+  @ApiOperation({ summary: 'Comments and task changes in one timeline' })
+  @ApiParam({ name: 'id', description: 'Task ID' })
+  @ApiResponse({ status: 200, description: 'Activity retrieved successfully' })
+  async getActivity(@Param('id') id: string): Promise<TaskActivityResponseDto> {
+    const result = await this.commentService.getActivity(id);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Task Delegation Controller - Presentation Layer
+ * Handles HTTP requests for delegating tasks and answering delegations
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Res,
+  Headers,
+  HttpStatus,
+  HttpCode,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import {
+  TaskDelegationApplicationService,
+  DelegationAction,
+} from '../../../application/services/task-delegation-application.service';
+import {
+  DelegateTaskDto,
+  DelegationConfirmationDto,
+  DelegationListResponseDto,
+  DelegationQueryDto,
+  DelegationResponseDto,
+  TaskResponseDto,
+} from '../../../application/dtos/task.dto';
+
+@ApiTags('Tasks')
+@Controller('api/tasks')
+export class TaskDelegationController {
+  constructor(
+    private readonly delegationService: TaskDelegationApplicationService,
+  ) {}
+
+  @Get('delegations')
+  @ApiOperation({ summary: 'List delegated tasks with their delegation state' })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    description: 'pending, accepted, declined or returned',
+  })
+  @ApiQuery({ name: 'delegate', required: false })
+  @ApiResponse({
+    status: 200,
+    description: 'Delegations retrieved successfully',
+  })
+  async getDelegations(
+    @Query() query: DelegationQueryDto,
+  ): Promise<DelegationListResponseDto> {
+    const result = await this.delegationService.getDelegations(query);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post(':id/delegate')
+  @ApiOperation({
+    summary: 'Delegate a task and email the assignee accept/decline links',
+  })
+  @ApiParam({ name: 'id', description: 'Task ID' })
+  @ApiResponse({ status: 201, description: 'Task delegated successfully' })
+  @HttpCode(HttpStatus.CREATED)
+  async delegateTask(
+    @Param('id') id: string,
+    @Body() delegateDto: DelegateTaskDto,
+  ): Promise<TaskResponseDto> {
+    const result = await this.delegationService.delegateTask(id, delegateDto);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  // Mail scanners open links by themselves, so this only asks to confirm
+  @Get(':id/delegation/:action')
+  @ApiOperation({
+    summary: 'Page asking the delegate to confirm their answer',
+  })
+  @ApiParam({ name: 'id', description: 'Task ID' })
+  @ApiParam({ name: 'action', description: 'accept, decline or return' })
+  @ApiQuery({ name: 'token', required: true })
+  @ApiResponse({ status: 200, description: 'HTML confirmation form' })
+  async confirmViaLink(
+    @Res({ passthrough: true }) res: Response,
+    @Param('id') id: string,
+    @Param('action') action: string,
+    @Query('token') token: string,
+  ): Promise<string> {
+    const result = await this.delegationService.getDelegationConfirmation(
+      id,
+      action as DelegationAction,
+      token,
+    );
+    if (result.isFailure) {
+      throw new Error(result.error);
+    }
+
+    res.type('html');
+    return this.renderConfirmationForm(result.value, token);
+  }
+
+  @Post(':id/delegation/:action')
+  @ApiOperation({ summary: 'Accept, decline or return a delegated task' })
+  @ApiParam({ name: 'id', description: 'Task ID' })
+  @ApiParam({ name: 'action', description: 'accept, decline or return' })
+  @ApiResponse({ status: 200, description: 'Delegation updated successfully' })
+  @HttpCode(HttpStatus.OK)
+  async respondToDelegation(
+    @Res({ passthrough: true }) res: Response,
+    @Param('id') id: string,
+    @Param('action') action: string,
+    @Body() responseDto: DelegationResponseDto,
+    @Headers('content-type') contentType?: string,
+  ): Promise<DelegationConfirmationDto | string> {
+    const result = await this.delegationService.respondToDelegation(
+      id,
+      action as DelegationAction,
+      responseDto,
+    );
+    if (result.isFailure) {
+      throw new Error(result.error);
+    }
+
+    // Submitted from the confirmation page
+    if (contentType?.startsWith('application/x-www-form-urlencoded')) {
+      res.type('html');
+      return this.renderPage(
+        'Thank you',
+        `<p>You ${escapeHtml(result.value.status)} &ldquo;${escapeHtml(result.value.title)}&rdquo;.</p>`,
+      );
+    }
+    return result.value;
+  }
+
+  private renderConfirmationForm(
+    confirmation: DelegationConfirmationDto,
+    token: string,
+  ): string {
+    const { action, title } = confirmation;
+    const reason =
+      action === 'accept'
+        ? ''
+        : '<p><label>Reason (optional)<br><textarea name="reason" rows="3" cols="40"></textarea></label></p>';
+
+    return this.renderPage(
+      `${ACTION_LABELS[action]} task`,
+      `<p>${ACTION_LABELS[action]} &ldquo;${escapeHtml(title)}&rdquo;?</p>
+<form method="post">
+<input type="hidden" name="token" value="${escapeHtml(token)}">
+${reason}
+<button type="submit">${ACTION_LABELS[action]}</button>
+</form>`,
+    );
+  }
+
+  private renderPage(heading: string, body: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><meta name="robots" content="noindex"><title>${heading}</title></head>
+<body>
+<h1>${heading}</h1>
+${body}
+</body>
+</html>
+`;
+  }
+}
+
+const ACTION_LABELS: Record<DelegationAction, string> = {
+  accept: 'Accept',
+  decline: 'Decline',
+  return: 'Return',
+};
+
+function escapeHtml(value: string): string {
+  return value.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[
+        char
+      ]!,
+  );
+}
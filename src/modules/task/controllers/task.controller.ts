@@ -14,14 +14,18 @@ import {
   Query,
   HttpStatus,
   HttpCode,
+  Res,
 } from '@nestjs/common';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiParam,
+  ApiQuery,
 } from '@nestjs/swagger';
+import type { Response } from 'express';
 import { TaskApplicationService } from '../../../application/services/task-application.service';
+import { TaskTransferApplicationService } from '../../../application/services/task-transfer-application.service';
 import {
   CreateTaskDto,
   UpdateTaskDto,
@@ -30,13 +34,32 @@ import {
   TaskQueryDto,
   PrioritizeTasksDto,
   TaskPrioritizationResponseDto,
+  TaskSubtreeResponseDto,
+  AddChecklistItemDto,
+  UpdateChecklistItemDto,
+  StartTimerDto,
+  LogTimeDto,
+  TaskAnalyticsResponseDto,
+  TaskDependencyGraphResponseDto,
+  EisenhowerMatrixResponseDto,
+  PlanDayDto,
+  DailyPlanResponseDto,
+  BulkTaskOperationsDto,
+  BulkTaskOperationsResponseDto,
+  TaskSearchResponseDto,
 } from '../../../application/dtos/task.dto';
+import {
+  ImportTasksDto,
+  TaskImportResponseDto,
+} from '../../../application/dtos/task-transfer.dto';
+import { EventHistoryResponseDto } from '../../../application/dtos/event-history.dto';
 
 @ApiTags('Tasks')
 @Controller('api/tasks')
 export class TaskController {
   constructor(
     private readonly taskApplicationService: TaskApplicationService,
+    private readonly taskTransferService: TaskTransferApplicationService,
   ) {}
 
   @Get()
@@ -50,6 +73,156 @@ export class TaskController {
     throw new Error(result.error);
   }
 
+  @Get('search')
+  @ApiOperation({
+    summary: 'Full-text search over titles, descriptions and tags',
+  })
+  @ApiQuery({ name: 'q', required: true, description: 'Search query' })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    description: 'Maximum results, 1-100 (default 20)',
+  })
+  @ApiResponse({ status: 200, description: 'Ranked matches with highlights' })
+  async searchTasks(
+    @Query('q') query: string,
+    @Query('limit') limit?: string,
+  ): Promise<TaskSearchResponseDto> {
+    const result = await this.taskApplicationService.searchTasks(
+      query,
+      limit ? Number(limit) : undefined,
+    );
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Get('matrix')
+  @ApiOperation({ summary: 'Group open tasks into Eisenhower quadrants' })
+  @ApiResponse({ status: 200, description: 'Matrix retrieved successfully' })
+  async getEisenhowerMatrix(): Promise<EisenhowerMatrixResponseDto> {
+    const result = await this.taskApplicationService.getEisenhowerMatrix();
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post('plan-day')
+  @ApiOperation({
+    summary: 'Fit the top prioritized tasks into the free gaps of a day',
+  })
+  @ApiResponse({ status: 200, description: 'Daily plan generated' })
+  @HttpCode(HttpStatus.OK)
+  async planDay(@Body() planDayDto: PlanDayDto): Promise<DailyPlanResponseDto> {
+    const result = await this.taskApplicationService.planDay(planDayDto);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Get('export')
+  @ApiOperation({ summary: 'Export all tasks as a file' })
+  @ApiQuery({
+    name: 'format',
+    required: false,
+    enum: ['csv', 'json', 'ics'],
+    description: 'File format; ics writes iCalendar VTODO components',
+  })
+  @ApiResponse({ status: 200, description: 'Tasks exported successfully' })
+  async exportTasks(
+    @Res({ passthrough: true }) res: Response,
+    @Query('format') format?: string,
+  ): Promise<string> {
+    const result = await this.taskTransferService.exportTasks(format);
+    if (result.isSuccess) {
+      res.type(result.value.contentType);
+      res.attachment(result.value.filename);
+      return result.value.content;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post('import')
+  @ApiOperation({ summary: 'Import tasks from a CSV, JSON or iCalendar file' })
+  @ApiResponse({
+    status: 200,
+    description: 'Import report with validation errors per row',
+  })
+  @HttpCode(HttpStatus.OK)
+  async importTasks(
+    @Body() importDto: ImportTasksDto,
+  ): Promise<TaskImportResponseDto> {
+    const result = await this.taskTransferService.importTasks(importDto);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Get('graph')
+  @ApiOperation({
+    summary: 'Get the task dependency graph with its critical path',
+  })
+  @ApiQuery({
+    name: 'format',
+    required: false,
+    enum: ['json', 'dot'],
+    description: 'Response format; dot returns Graphviz source',
+  })
+  @ApiResponse({ status: 200, description: 'Graph retrieved successfully' })
+  async getDependencyGraph(
+    @Res({ passthrough: true }) res: Response,
+    @Query('format') format?: string,
+  ): Promise<TaskDependencyGraphResponseDto | string> {
+    if (format === 'dot') {
+      const result = await this.taskApplicationService.getDependencyGraphDot();
+      if (result.isSuccess) {
+        res.type('text/vnd.graphviz');
+        return result.value;
+      }
+      throw new Error(result.error);
+    }
+
+    const result = await this.taskApplicationService.getDependencyGraph();
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Get('overdue')
+  @ApiOperation({ summary: 'Get overdue tasks' })
+  @ApiResponse({
+    status: 200,
+    description: 'Overdue tasks retrieved successfully',
+  })
+  async getOverdueTasks(): Promise<TaskResponseDto[]> {
+    const result = await this.taskApplicationService.getOverdueTasks();
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Get('analytics')
+  @ApiOperation({
+    summary: 'Get task analytics, including tracked time against estimates',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Task analytics retrieved successfully',
+  })
+  async getTaskAnalytics(): Promise<TaskAnalyticsResponseDto> {
+    const result = await this.taskApplicationService.getTaskAnalytics();
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get task by ID' })
   @ApiParam({ name: 'id', description: 'Task ID' })
@@ -63,6 +236,161 @@ export class TaskController {
     throw new Error(result.error);
   }
 
+  @Get(':id/history')
+  @ApiOperation({ summary: 'Get the change history of a task' })
+  @ApiParam({ name: 'id', description: 'Task ID' })
+  @ApiResponse({ status: 200, description: 'History retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  async getTaskHistory(
+    @Param('id') id: string,
+  ): Promise<EventHistoryResponseDto> {
+    const result = await this.taskApplicationService.getTaskHistory(id);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Get(':id/subtree')
+  @ApiOperation({
+    summary: 'Get a task with its subtasks and rolled-up progress',
+  })
+  @ApiParam({ name: 'id', description: 'Task ID' })
+  @ApiResponse({ status: 200, description: 'Subtree retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  async getTaskSubtree(
+    @Param('id') id: string,
+  ): Promise<TaskSubtreeResponseDto> {
+    const result = await this.taskApplicationService.getTaskSubtree(id);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post(':id/checklist')
+  @ApiOperation({ summary: 'Add a checklist item to a task' })
+  @ApiParam({ name: 'id', description: 'Task ID' })
+  @ApiResponse({ status: 201, description: 'Checklist item added' })
+  @HttpCode(HttpStatus.CREATED)
+  async addChecklistItem(
+    @Param('id') id: string,
+    @Body() itemDto: AddChecklistItemDto,
+  ): Promise<TaskResponseDto> {
+    const result = await this.taskApplicationService.addChecklistItem(
+      id,
+      itemDto,
+    );
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Put(':id/checklist/:itemId')
+  @ApiOperation({ summary: 'Rename or tick off a checklist item' })
+  @ApiParam({ name: 'id', description: 'Task ID' })
+  @ApiParam({ name: 'itemId', description: 'Checklist item ID' })
+  @ApiResponse({ status: 200, description: 'Checklist item updated' })
+  async updateChecklistItem(
+    @Param('id') id: string,
+    @Param('itemId') itemId: string,
+    @Body() itemDto: UpdateChecklistItemDto,
+  ): Promise<TaskResponseDto> {
+    const result = await this.taskApplicationService.updateChecklistItem(
+      id,
+      itemId,
+      itemDto,
+    );
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Delete(':id/checklist/:itemId')
+  @ApiOperation({ summary: 'Remove a checklist item' })
+  @ApiParam({ name: 'id', description: 'Task ID' })
+  @ApiParam({ name: 'itemId', description: 'Checklist item ID' })
+  @ApiResponse({ status: 200, description: 'Checklist item removed' })
+  async removeChecklistItem(
+    @Param('id') id: string,
+    @Param('itemId') itemId: string,
+  ): Promise<TaskResponseDto> {
+    const result = await this.taskApplicationService.removeChecklistItem(
+      id,
+      itemId,
+    );
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post(':id/timer/start')
+  @ApiOperation({ summary: 'Start a timer on a task' })
+  @ApiParam({ name: 'id', description: 'Task ID' })
+  @ApiResponse({ status: 201, description: 'Timer started' })
+  @HttpCode(HttpStatus.CREATED)
+  async startTimer(
+    @Param('id') id: string,
+    @Body() timerDto: StartTimerDto,
+  ): Promise<TaskResponseDto> {
+    const result = await this.taskApplicationService.startTimer(id, timerDto);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post(':id/timer/stop')
+  @ApiOperation({ summary: 'Stop the running timer on a task' })
+  @ApiParam({ name: 'id', description: 'Task ID' })
+  @ApiResponse({ status: 200, description: 'Timer stopped' })
+  @HttpCode(HttpStatus.OK)
+  async stopTimer(@Param('id') id: string): Promise<TaskResponseDto> {
+    const result = await this.taskApplicationService.stopTimer(id);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Post(':id/time-entries')
+  @ApiOperation({ summary: 'Log time spent on a task without a timer' })
+  @ApiParam({ name: 'id', description: 'Task ID' })
+  @ApiResponse({ status: 201, description: 'Time entry added' })
+  @HttpCode(HttpStatus.CREATED)
+  async logTime(
+    @Param('id') id: string,
+    @Body() timeDto: LogTimeDto,
+  ): Promise<TaskResponseDto> {
+    const result = await this.taskApplicationService.logTime(id, timeDto);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
+  @Delete(':id/time-entries/:entryId')
+  @ApiOperation({ summary: 'Remove a time entry' })
+  @ApiParam({ name: 'id', description: 'Task ID' })
+  @ApiParam({ name: 'entryId', description: 'Time entry ID' })
+  @ApiResponse({ status: 200, description: 'Time entry removed' })
+  async removeTimeEntry(
+    @Param('id') id: string,
+    @Param('entryId') entryId: string,
+  ): Promise<TaskResponseDto> {
+    const result = await this.taskApplicationService.removeTimeEntry(
+      id,
+      entryId,
+    );
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
   @Post()
   @ApiOperation({ summary: 'Create a new task' })
   @ApiResponse({ status: 201, description: 'Task created successfully' })
@@ -78,6 +406,26 @@ export class TaskController {
     throw new Error(result.error);
   }
 
+  @Post('bulk')
+  @ApiOperation({
+    summary: 'Create, update, delete, complete or retag many tasks at once',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Per-operation results, including failures',
+  })
+  @HttpCode(HttpStatus.OK)
+  async executeBulkOperations(
+    @Body() bulkDto: BulkTaskOperationsDto,
+  ): Promise<BulkTaskOperationsResponseDto> {
+    const result =
+      await this.taskApplicationService.executeBulkOperations(bulkDto);
+    if (result.isSuccess) {
+      return result.value;
+    }
+    throw new Error(result.error);
+  }
+
   @Put(':id')
   @ApiOperation({ summary: 'Update task' })
   @ApiParam({ name: 'id', description: 'Task ID' })
@@ -152,32 +500,4 @@ export class TaskController {
     }
     throw new Error(result.error);
   }
-
-  @Get('overdue')
-  @ApiOperation({ summary: 'Get overdue tasks' })
-  @ApiResponse({
-    status: 200,
-    description: 'Overdue tasks retrieved successfully',
-  })
-  async getOverdueTasks(): Promise<TaskResponseDto[]> {
-    const result = await this.taskApplicationService.getOverdueTasks();
-    if (result.isSuccess) {
-      return result.value;
-    }
-    throw new Error(result.error);
-  }
-
-  @Get('analytics')
-  @ApiOperation({ summary: 'Get task analytics' })
-  @ApiResponse({
-    status: 200,
-    description: 'Task analytics retrieved successfully',
-  })
-  async getTaskAnalytics(): Promise<any> {
-    const result = await this.taskApplicationService.getTaskAnalytics();
-    if (result.isSuccess) {
-      return result.value;
-    }
-    throw new Error(result.error);
-  }
 }
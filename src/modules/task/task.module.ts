@@ -5,28 +5,76 @@
 
 import { Module } from '@nestjs/common';
 import { TaskController } from './controllers/task.controller';
+import { PrioritizationProfileController } from './controllers/prioritization-profile.controller';
+import { SavedViewController } from './controllers/saved-view.controller';
+import { TaskDelegationController } from './controllers/task-delegation.controller';
+import { TaskCommentController } from './controllers/task-comment.controller';
+import { EscalationRuleController } from './controllers/escalation-rule.controller';
+import { TaskBoardController } from './controllers/task-board.controller';
 import { TaskService } from './services/task.service';
+import { EventsModule } from '../events/events.module';
+import { EmailModule } from '../email/email.module';
+import { CalendarModule } from '../calendar/calendar.module';
 
 // Application Layer
 import { TaskApplicationService } from '../../application/services/task-application.service';
+import { TaskRecurrenceService } from '../../application/services/task-recurrence.service';
+import { TaskTransferApplicationService } from '../../application/services/task-transfer-application.service';
+import { PrioritizationProfileApplicationService } from '../../application/services/prioritization-profile-application.service';
+import { SavedViewApplicationService } from '../../application/services/saved-view-application.service';
+import { TaskDelegationApplicationService } from '../../application/services/task-delegation-application.service';
+import { TaskCommentApplicationService } from '../../application/services/task-comment-application.service';
+import { EscalationApplicationService } from '../../application/services/escalation-application.service';
+import { TaskBoardApplicationService } from '../../application/services/task-board-application.service';
 import { CreateTaskHandler } from '../../application/commands/task/create-task.handler';
 import { UpdateTaskHandler } from '../../application/commands/task/update-task.handler';
 import { GetTasksHandler } from '../../application/queries/task/get-tasks.handler';
 
 // Domain Layer
 import { TaskPrioritizationService } from '../../domain/services/task-prioritization.service';
+import { TaskDependencyGraphService } from '../../domain/services/task-dependency-graph.service';
+import { TaskPlanningService } from '../../domain/services/task-planning.service';
+import { TaskTimeAnalyticsService } from '../../domain/services/task-time-analytics.service';
 
 // Infrastructure Layer
-import { InMemoryTaskRepository } from '../../infrastructure/persistence/in-memory/task.repository.impl';
+import { TaskRepositoryProvider } from '../../infrastructure/persistence/task-repository.provider';
+import { PrioritizationProfileRepositoryProvider } from '../../infrastructure/persistence/prioritization-profile-repository.provider';
+import { SavedViewRepositoryProvider } from '../../infrastructure/persistence/saved-view-repository.provider';
+import { TaskCommentRepositoryProvider } from '../../infrastructure/persistence/task-comment-repository.provider';
+import { EscalationRuleRepositoryProvider } from '../../infrastructure/persistence/escalation-rule-repository.provider';
+import { EscalationRepositoryProvider } from '../../infrastructure/persistence/escalation-repository.provider';
+import { TaskBoardRepositoryProvider } from '../../infrastructure/persistence/task-board-repository.provider';
+import { TaskFileCodec } from '../../infrastructure/serialization/task-file-codec';
+import { TaskSearchIndex } from '../../infrastructure/search/task-search-index';
 
 @Module({
-  controllers: [TaskController],
+  imports: [EventsModule, EmailModule, CalendarModule],
+  // SavedViewController, TaskDelegationController and TaskBoardController
+  // come first so /api/tasks/views, /api/tasks/delegations and
+  // /api/tasks/board are not taken for a task ID
+  controllers: [
+    SavedViewController,
+    TaskDelegationController,
+    TaskBoardController,
+    TaskController,
+    TaskCommentController,
+    PrioritizationProfileController,
+    EscalationRuleController,
+  ],
   providers: [
     // Legacy service for backward compatibility
     TaskService,
 
     // Application Services
     TaskApplicationService,
+    TaskRecurrenceService,
+    TaskTransferApplicationService,
+    PrioritizationProfileApplicationService,
+    SavedViewApplicationService,
+    TaskDelegationApplicationService,
+    TaskCommentApplicationService,
+    EscalationApplicationService,
+    TaskBoardApplicationService,
 
     // Command Handlers
     CreateTaskHandler,
@@ -37,14 +85,27 @@ import { InMemoryTaskRepository } from '../../infrastructure/persistence/in-memo
 
     // Domain Services
     TaskPrioritizationService,
+    TaskDependencyGraphService,
+    TaskPlanningService,
+    TaskTimeAnalyticsService,
 
-    // Repository Implementation
-    InMemoryTaskRepository,
-    {
-      provide: 'TaskRepository',
-      useExisting: InMemoryTaskRepository,
-    },
+    // Repository Implementations (selected by persistence configuration)
+    TaskRepositoryProvider,
+    PrioritizationProfileRepositoryProvider,
+    SavedViewRepositoryProvider,
+    TaskCommentRepositoryProvider,
+    EscalationRuleRepositoryProvider,
+    EscalationRepositoryProvider,
+    TaskBoardRepositoryProvider,
+    TaskFileCodec,
+    TaskSearchIndex,
+  ],
+  exports: [
+    TaskService,
+    TaskApplicationService,
+    TaskDelegationApplicationService,
+    TaskCommentApplicationService,
+    EscalationApplicationService,
   ],
-  exports: [TaskService, TaskApplicationService],
 })
 export class TaskModule {}